@@ -4,11 +4,18 @@ import { ConfigModule, ConfigService } from '@nestjs/config'
 import { MongooseModule } from '@nestjs/mongoose'
 
 import { AppController } from './app.controller'
+import { AuditModule } from './audit/audit.module'
 import { AuthModule } from './auth/auth.module'
 import { BinanceModule } from './binance/binance.module'
 import { DealsModule } from './deals/deals.module'
+import { EventsModule } from './events/events.module'
+import { ExchangesModule } from './exchanges/exchanges.module'
+import { KeyRotationModule } from './key-rotation/key-rotation.module'
+import { PortfolioModule } from './portfolio/portfolio.module'
 import { RefreshTokensModule } from './refresh-tokens/refresh-tokens.module'
+import { ReportsModule } from './reports/reports.module'
 import { TransactionsModule } from './transactions/transactions.module'
+import { TrashModule } from './trash/trash.module'
 import { UsersModule } from './users/users.module'
 
 @Module({
@@ -30,9 +37,16 @@ import { UsersModule } from './users/users.module'
     UsersModule,
     RefreshTokensModule,
     AuthModule,
+    EventsModule,
     TransactionsModule,
     DealsModule,
     BinanceModule,
+    ExchangesModule,
+    ReportsModule,
+    PortfolioModule,
+    KeyRotationModule,
+    AuditModule,
+    TrashModule,
   ],
   controllers: [AppController],
 })
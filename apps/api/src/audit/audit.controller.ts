@@ -0,0 +1,41 @@
+import { Controller, Get, Query, UseGuards } from '@nestjs/common'
+
+import { JwtAuthGuard } from '../auth/jwt-auth.guard'
+import { Roles } from '../auth/roles.decorator'
+import { RolesGuard } from '../auth/roles.guard'
+import { ZodValidationPipe } from '../common/zod-validation.pipe'
+import { AuditService } from './audit.service'
+import { listAuditSchema, type ListAuditQuery } from './dto/audit.schemas'
+
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles('admin')
+@Controller('admin/audit')
+export class AuditController {
+  constructor(private auditService: AuditService) {}
+
+  @Get()
+  async listEntries(
+    @Query(new ZodValidationPipe(listAuditSchema))
+    query: ListAuditQuery,
+  ) {
+    const result = await this.auditService.list(query)
+    return {
+      items: result.items.map(({ _id, __v, actorId, ...entry }) => {
+        void __v
+        return {
+          ...entry,
+          id: String(_id),
+          actorId: actorId ? String(actorId) : undefined,
+        }
+      }),
+      page: result.page,
+      limit: result.limit,
+      total: result.total,
+    }
+  }
+
+  @Get('actions')
+  async listActions() {
+    return this.auditService.listActions()
+  }
+}
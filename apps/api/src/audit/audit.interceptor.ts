@@ -0,0 +1,212 @@
+import {
+  Injectable,
+  Logger,
+  type CallHandler,
+  type ExecutionContext,
+  type NestInterceptor,
+} from '@nestjs/common'
+import { Reflector } from '@nestjs/core'
+import { InjectConnection } from '@nestjs/mongoose'
+import { type Request } from 'express'
+import { type Connection } from 'mongoose'
+import { concatMap, type Observable } from 'rxjs'
+
+import { AuditService, type AuditEntry } from './audit.service'
+import {
+  AUDIT_KEY,
+  type AuditOptions,
+  type AuditTarget,
+} from './audited.decorator'
+
+type Snapshot = Map<string, Record<string, unknown>>
+
+// Bulk actions beyond this many documents are recorded without a diff.
+const MAX_SNAPSHOT_DOCUMENTS = 500
+const MAX_STRING_LENGTH = 1000
+const REDACTED = '[redacted]'
+const SECRET_KEYS = new Set([
+  'password',
+  'currentPassword',
+  'newPassword',
+  'apiKey',
+  'apiSecret',
+  'code',
+  'token',
+  'challengeToken',
+  'recoveryCodes',
+])
+// Stored hashes and ciphertexts: whether they changed matters, not the value.
+const SECRET_KEY_SUFFIXES = ['Hash', 'Hashes', 'Enc']
+const IGNORED_DIFF_KEYS = new Set(['_id', '__v', 'updatedAt'])
+
+/**
+ * Writes an audit entry for every successful request to a handler marked
+ * with `@Audited`. With a target, the matching documents are read before and
+ * after the handler and each changed document gets an entry with its diff.
+ */
+@Injectable()
+export class AuditInterceptor implements NestInterceptor {
+  private readonly logger = new Logger(AuditInterceptor.name)
+
+  constructor(
+    private reflector: Reflector,
+    private auditService: AuditService,
+    @InjectConnection() private connection: Connection,
+  ) {}
+
+  async intercept(
+    context: ExecutionContext,
+    next: CallHandler,
+  ): Promise<Observable<unknown>> {
+    const options = this.reflector.get<AuditOptions | undefined>(
+      AUDIT_KEY,
+      context.getHandler(),
+    )
+    if (!options || context.getType() !== 'http') {
+      return next.handle()
+    }
+
+    const req = context.switchToHttp().getRequest<Request>()
+    const before = options.target
+      ? await this.snapshot(options.target, req)
+      : null
+
+    return next.handle().pipe(
+      concatMap(async (response: unknown) => {
+        await this.write(options, req, before, response)
+        return response
+      }),
+    )
+  }
+
+  private async write(
+    options: AuditOptions,
+    req: Request,
+    before: Snapshot | null,
+    response: unknown,
+  ) {
+    const actor = req.user as { id: string; email: string } | undefined
+    const entry: AuditEntry = {
+      action: options.action,
+      actorId: actor?.id,
+      actorEmail: actor?.email,
+      targetType: options.target?.type,
+      ip: req.ip,
+      userAgent: req.get('user-agent'),
+      metadata: {
+        method: req.method,
+        path: req.originalUrl.split('?')[0],
+        ...(Object.keys(req.params ?? {}).length > 0 && {
+          params: req.params,
+        }),
+        ...(Object.keys(req.query ?? {}).length > 0 && {
+          query: redact(req.query),
+        }),
+        ...(req.body &&
+          Object.keys(req.body).length > 0 && { body: redact(req.body) }),
+        ...(options.recordResponse && { response: redact(response) }),
+      },
+    }
+
+    const after = options.target
+      ? await this.snapshot(options.target, req)
+      : null
+    if (!before || !after) {
+      await this.auditService.record(entry)
+      return
+    }
+
+    const ids = new Set([...before.keys(), ...after.keys()])
+    for (const id of ids) {
+      const changes = diff(before.get(id), after.get(id))
+      if (Object.keys(changes).length === 0) continue
+      await this.auditService.record({ ...entry, targetId: id, changes })
+    }
+  }
+
+  /** Matching documents by id; null when they cannot be read or are too many. */
+  private async snapshot(target: AuditTarget, req: Request) {
+    try {
+      const documents = await this.connection
+        .model(target.model)
+        .find(target.filter(req))
+        // Soft-deleted documents stay visible so trashing shows up as a change.
+        .setOptions({ withDeleted: true })
+        .limit(MAX_SNAPSHOT_DOCUMENTS + 1)
+        .lean<Array<Record<string, unknown>>>()
+      if (documents.length > MAX_SNAPSHOT_DOCUMENTS) {
+        return null
+      }
+      return new Map(
+        documents.map((document) => [String(document._id), document]),
+      ) as Snapshot
+    } catch (error) {
+      this.logger.warn(
+        `Audit snapshot of ${target.model} failed: ${
+          error instanceof Error ? error.message : error
+        }`,
+      )
+      return null
+    }
+  }
+}
+
+/** Changed top-level fields; a created or deleted document lists them all. */
+function diff(
+  before: Record<string, unknown> | undefined,
+  after: Record<string, unknown> | undefined,
+) {
+  const changes: Record<string, { before?: unknown; after?: unknown }> = {}
+  const keys = new Set([
+    ...Object.keys(before ?? {}),
+    ...Object.keys(after ?? {}),
+  ])
+  for (const key of keys) {
+    if (IGNORED_DIFF_KEYS.has(key)) continue
+    const from = before?.[key]
+    const to = after?.[key]
+    if (JSON.stringify(from) === JSON.stringify(to)) continue
+    changes[key] = {
+      before: redactValue(key, from),
+      after: redactValue(key, to),
+    }
+  }
+  return changes
+}
+
+function isSecretKey(key: string) {
+  return (
+    SECRET_KEYS.has(key) ||
+    SECRET_KEY_SUFFIXES.some((suffix) => key.endsWith(suffix))
+  )
+}
+
+function redactValue(key: string, value: unknown) {
+  if (value === undefined) return undefined
+  return isSecretKey(key) ? REDACTED : redact(value)
+}
+
+/** Copies a value with secrets masked and long strings cut short. */
+function redact(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return value.length > MAX_STRING_LENGTH
+      ? `${value.slice(0, MAX_STRING_LENGTH)}…`
+      : value
+  }
+  if (Array.isArray(value)) {
+    return value.map(redact)
+  }
+  if (
+    value &&
+    typeof value === 'object' &&
+    Object.getPrototypeOf(value) === Object.prototype
+  ) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        isSecretKey(key) ? REDACTED : redact(item),
+      ]),
+    )
+  }
+  return value
+}
@@ -0,0 +1,26 @@
+import { Module } from '@nestjs/common'
+import { APP_INTERCEPTOR } from '@nestjs/core'
+import { MongooseModule } from '@nestjs/mongoose'
+
+import { RolesGuard } from '../auth/roles.guard'
+import { AuditController } from './audit.controller'
+import { AuditInterceptor } from './audit.interceptor'
+import { AuditService } from './audit.service'
+import { AuditLog, AuditLogSchema } from './schemas/audit-log.schema'
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: AuditLog.name, schema: AuditLogSchema },
+    ]),
+  ],
+  controllers: [AuditController],
+  providers: [
+    AuditService,
+    RolesGuard,
+    // Global, so any controller can mark handlers with `@Audited`.
+    { provide: APP_INTERCEPTOR, useClass: AuditInterceptor },
+  ],
+  exports: [AuditService],
+})
+export class AuditModule {}
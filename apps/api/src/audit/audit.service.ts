@@ -0,0 +1,85 @@
+import { Injectable, Logger } from '@nestjs/common'
+import { InjectModel } from '@nestjs/mongoose'
+import { type FilterQuery, Model } from 'mongoose'
+
+import { type ListAuditQuery } from './dto/audit.schemas'
+import { AuditLog, type AuditLogDocument } from './schemas/audit-log.schema'
+
+export type AuditEntry = {
+  action: string
+  actorId?: string
+  actorEmail?: string
+  targetType?: string
+  targetId?: string
+  ip?: string
+  userAgent?: string
+  changes?: Record<string, { before?: unknown; after?: unknown }>
+  metadata?: Record<string, unknown>
+}
+
+@Injectable()
+export class AuditService {
+  private readonly logger = new Logger(AuditService.name)
+
+  constructor(
+    @InjectModel(AuditLog.name)
+    private auditLogModel: Model<AuditLogDocument>,
+  ) {}
+
+  /** Appends an entry; a failed write is logged, never thrown to the caller. */
+  async record(entry: AuditEntry) {
+    try {
+      await this.auditLogModel.create({
+        ...entry,
+        userAgent: entry.userAgent?.slice(0, 500),
+      })
+    } catch (error) {
+      this.logger.warn(
+        `Audit entry ${entry.action} was not written: ${
+          error instanceof Error ? error.message : error
+        }`,
+      )
+    }
+  }
+
+  async list(query: ListAuditQuery) {
+    const filter: FilterQuery<AuditLogDocument> = {}
+    if (query.action) {
+      // `deal.` matches every deal action.
+      filter.action = query.action.endsWith('.')
+        ? { $regex: `^${escapeRegex(query.action)}` }
+        : query.action
+    }
+    if (query.actorEmail) filter.actorEmail = query.actorEmail.toLowerCase()
+    if (query.targetType) filter.targetType = query.targetType
+    if (query.targetId) filter.targetId = query.targetId
+    if (query.from || query.to) {
+      filter.createdAt = {
+        ...(query.from && { $gte: query.from }),
+        ...(query.to && { $lte: query.to }),
+      }
+    }
+
+    const page = query.page ?? 1
+    const limit = Math.min(query.limit ?? 50, 100)
+    const [items, total] = await Promise.all([
+      this.auditLogModel
+        .find(filter)
+        .sort({ createdAt: -1, _id: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean(),
+      this.auditLogModel.countDocuments(filter),
+    ])
+    return { items, total, page, limit }
+  }
+
+  async listActions() {
+    const actions = await this.auditLogModel.distinct('action')
+    return actions.sort()
+  }
+}
+
+function escapeRegex(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
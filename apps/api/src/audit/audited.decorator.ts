@@ -0,0 +1,28 @@
+import { SetMetadata } from '@nestjs/common'
+import { type Request } from 'express'
+
+export const AUDIT_KEY = 'audit'
+
+/** Documents an action may change; each one it does change gets an entry. */
+export type AuditTarget = {
+  type: string
+  // Mongoose model name, e.g. `Deal.name`.
+  model: string
+  filter: (req: Request) => Record<string, unknown>
+}
+
+export type AuditOptions = {
+  action: string
+  target?: AuditTarget
+  // Keeps the handler's response, e.g. the order an exchange returned.
+  recordResponse?: boolean
+}
+
+/** Marks a handler for AuditInterceptor. */
+export const Audited = (options: AuditOptions) =>
+  SetMetadata(AUDIT_KEY, options)
+
+/** The signed-in user's id, for target filters. */
+export function auditUserId(req: Request) {
+  return (req.user as { id: string }).id
+}
@@ -0,0 +1,29 @@
+import { z } from 'zod'
+
+const emptyToUndefined = (value: unknown) =>
+  value === '' || value === null ? undefined : value
+
+const optionalText = z.preprocess(
+  emptyToUndefined,
+  z.string().trim().min(1).max(200).optional(),
+)
+
+export const listAuditSchema = z.object({
+  // Exact action, or a prefix ending in `.` such as `deal.`.
+  action: optionalText,
+  actorEmail: optionalText,
+  targetType: optionalText,
+  targetId: optionalText,
+  from: z.preprocess(emptyToUndefined, z.coerce.date().optional()),
+  to: z.preprocess(emptyToUndefined, z.coerce.date().optional()),
+  page: z.preprocess(
+    emptyToUndefined,
+    z.coerce.number().int().positive().optional(),
+  ),
+  limit: z.preprocess(
+    emptyToUndefined,
+    z.coerce.number().int().positive().optional(),
+  ),
+})
+
+export type ListAuditQuery = z.infer<typeof listAuditSchema>
@@ -0,0 +1,70 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose'
+import {
+  type HydratedDocument,
+  type MongooseQueryMiddleware,
+  Types,
+} from 'mongoose'
+
+export type AuditLogDocument = HydratedDocument<AuditLog>
+
+// Append-only: entries are written once and never updated.
+@Schema({ timestamps: { createdAt: true, updatedAt: false } })
+export class AuditLog {
+  // Dotted name such as `auth.login.failed`.
+  @Prop({ required: true, index: true })
+  action!: string
+
+  // Missing for anonymous requests such as a failed login.
+  @Prop({ type: Types.ObjectId, index: true })
+  actorId?: Types.ObjectId
+
+  @Prop({ lowercase: true, trim: true })
+  actorEmail?: string
+
+  @Prop()
+  targetType?: string
+
+  @Prop({ index: true })
+  targetId?: string
+
+  @Prop()
+  ip?: string
+
+  @Prop({ maxlength: 500 })
+  userAgent?: string
+
+  // Changed fields of the target as `{ field: { before, after } }`.
+  @Prop({ type: Object })
+  changes?: Record<string, { before?: unknown; after?: unknown }>
+
+  // Request details such as method, path and the redacted body.
+  @Prop({ type: Object })
+  metadata?: Record<string, unknown>
+
+  createdAt?: Date
+}
+
+export const AuditLogSchema = SchemaFactory.createForClass(AuditLog)
+
+AuditLogSchema.index({ createdAt: -1 })
+AuditLogSchema.index({ targetType: 1, targetId: 1, createdAt: -1 })
+
+const MUTATING_QUERIES: MongooseQueryMiddleware[] = [
+  'updateOne',
+  'updateMany',
+  'findOneAndUpdate',
+  'findOneAndReplace',
+  'replaceOne',
+  'deleteOne',
+  'deleteMany',
+  'findOneAndDelete',
+]
+
+AuditLogSchema.pre(MUTATING_QUERIES, function () {
+  throw new Error('Audit log entries are immutable')
+})
+AuditLogSchema.pre('save', function () {
+  if (!this.isNew) {
+    throw new Error('Audit log entries are immutable')
+  }
+})
@@ -1,7 +1,10 @@
 import {
   Body,
   Controller,
+  Delete,
   Get,
+  NotFoundException,
+  Param,
   Post,
   Req,
   Res,
@@ -10,21 +13,41 @@ import {
 import { Response, Request } from 'express'
 
 import { ZodValidationPipe } from '../common/zod-validation.pipe'
-import { AuthService } from './auth.service'
-import { authCredentialsSchema } from './dto/auth.schemas'
+import { AuthService, type ClientInfo } from './auth.service'
+import {
+  authCredentialsSchema,
+  changePasswordSchema,
+  loginTwoFactorSchema,
+  requestPasswordResetSchema,
+  resetPasswordSchema,
+  type ChangePasswordDto,
+  type LoginTwoFactorDto,
+  type RequestPasswordResetDto,
+  type ResetPasswordDto,
+} from './dto/auth.schemas'
 import { JwtAuthGuard } from './jwt-auth.guard'
+import { PasswordResetService } from './password-reset.service'
+import { StepUpGuard } from './step-up.guard'
 
 @Controller('auth')
 export class AuthController {
-  constructor(private authService: AuthService) {}
+  constructor(
+    private authService: AuthService,
+    private passwordResetService: PasswordResetService,
+  ) {}
 
   @Post('register')
   async register(
     @Body(new ZodValidationPipe(authCredentialsSchema))
     body: { email: string; password: string },
+    @Req() req: Request,
     @Res({ passthrough: true }) res: Response,
   ) {
-    const result = await this.authService.register(body.email, body.password)
+    const result = await this.authService.register(
+      body.email,
+      body.password,
+      this.getClientInfo(req),
+    )
     this.setRefreshCookie(res, result.refreshToken, result.refreshExpiresAt)
     return { user: result.user, accessToken: result.accessToken }
   }
@@ -33,13 +56,81 @@ export class AuthController {
   async login(
     @Body(new ZodValidationPipe(authCredentialsSchema))
     body: { email: string; password: string },
+    @Req() req: Request,
     @Res({ passthrough: true }) res: Response,
   ) {
-    const result = await this.authService.login(body.email, body.password)
+    const result = await this.authService.login(
+      body.email,
+      body.password,
+      this.getClientInfo(req),
+    )
+    if ('twoFactorRequired' in result) {
+      return result
+    }
+    this.setRefreshCookie(res, result.refreshToken, result.refreshExpiresAt)
+    return { user: result.user, accessToken: result.accessToken }
+  }
+
+  @Post('login/2fa')
+  async loginTwoFactor(
+    @Body(new ZodValidationPipe(loginTwoFactorSchema))
+    body: LoginTwoFactorDto,
+    @Req() req: Request,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const result = await this.authService.completeTwoFactorLogin(
+      body.challengeToken,
+      body.code,
+      this.getClientInfo(req),
+    )
     this.setRefreshCookie(res, result.refreshToken, result.refreshExpiresAt)
     return { user: result.user, accessToken: result.accessToken }
   }
 
+  /** Always answers ok so the response does not reveal registered emails. */
+  @Post('password/forgot')
+  async forgotPassword(
+    @Body(new ZodValidationPipe(requestPasswordResetSchema))
+    body: RequestPasswordResetDto,
+    @Req() req: Request,
+  ) {
+    return this.passwordResetService.requestReset(
+      body.email,
+      this.getClientInfo(req),
+    )
+  }
+
+  @Post('password/reset')
+  async resetPassword(
+    @Body(new ZodValidationPipe(resetPasswordSchema))
+    body: ResetPasswordDto,
+    @Req() req: Request,
+  ) {
+    return this.passwordResetService.resetPassword(
+      body.token,
+      body.password,
+      this.getClientInfo(req),
+    )
+  }
+
+  @UseGuards(JwtAuthGuard, StepUpGuard)
+  @Post('password/change')
+  async changePassword(
+    @Body(new ZodValidationPipe(changePasswordSchema))
+    body: ChangePasswordDto,
+    @Req() req: Request,
+  ) {
+    const user = req.user as { id: string }
+    const refreshToken = req.cookies?.[this.authService.getRefreshCookieName()]
+    return this.authService.changePassword(
+      user.id,
+      body.currentPassword,
+      body.newPassword,
+      refreshToken,
+      this.getClientInfo(req),
+    )
+  }
+
   @Get('session')
   async session(@Req() req: Request) {
     const refreshToken = req.cookies?.[this.authService.getRefreshCookieName()]
@@ -52,7 +143,10 @@ export class AuthController {
     @Res({ passthrough: true }) res: Response,
   ) {
     const refreshToken = req.cookies?.[this.authService.getRefreshCookieName()]
-    const result = await this.authService.refresh(refreshToken)
+    const result = await this.authService.refresh(
+      refreshToken,
+      this.getClientInfo(req),
+    )
     this.setRefreshCookie(res, result.refreshToken, result.refreshExpiresAt)
     return { user: result.user, accessToken: result.accessToken }
   }
@@ -75,6 +169,45 @@ export class AuthController {
     return { user: { id: user.id, email: user.email, role: user.role } }
   }
 
+  @UseGuards(JwtAuthGuard)
+  @Get('sessions')
+  async listSessions(@Req() req: Request) {
+    const user = req.user as { id: string }
+    const refreshToken = req.cookies?.[this.authService.getRefreshCookieName()]
+    return this.authService.listSessions(user.id, refreshToken)
+  }
+
+  /** Logs out everywhere, including this browser. */
+  @UseGuards(JwtAuthGuard)
+  @Delete('sessions')
+  async revokeAllSessions(
+    @Req() req: Request,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const user = req.user as { id: string }
+    const result = await this.authService.revokeAllSessions(user.id)
+    res.clearCookie(
+      this.authService.getRefreshCookieName(),
+      this.authService.getRefreshCookieOptions(),
+    )
+    return result
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @Delete('sessions/:id')
+  async revokeSession(@Req() req: Request, @Param('id') id: string) {
+    const user = req.user as { id: string }
+    const result = await this.authService.revokeSession(user.id, id)
+    if (!result) {
+      throw new NotFoundException('Session not found')
+    }
+    return result
+  }
+
+  private getClientInfo(req: Request): ClientInfo {
+    return { userAgent: req.get('user-agent'), ip: req.ip }
+  }
+
   private setRefreshCookie(
     res: Response,
     refreshToken: string,
@@ -3,17 +3,29 @@ import { ConfigModule, ConfigService } from '@nestjs/config'
 import { JwtModule } from '@nestjs/jwt'
 import { PassportModule } from '@nestjs/passport'
 
+import { AuditModule } from '../audit/audit.module'
+import { EncryptionService } from '../common/encryption.service'
+import { LoginThrottleModule } from '../login-throttle/login-throttle.module'
+import { MailModule } from '../mail/mail.module'
+import { PasswordResetTokensModule } from '../password-reset-tokens/password-reset-tokens.module'
 import { RefreshTokensModule } from '../refresh-tokens/refresh-tokens.module'
 import { UsersModule } from '../users/users.module'
 import { AuthController } from './auth.controller'
 import { AuthService } from './auth.service'
 import { JwtStrategy } from './jwt.strategy'
+import { PasswordResetService } from './password-reset.service'
+import { TwoFactorController } from './two-factor.controller'
+import { TwoFactorService } from './two-factor.service'
 
 @Module({
   imports: [
     ConfigModule,
     UsersModule,
     RefreshTokensModule,
+    LoginThrottleModule,
+    AuditModule,
+    PasswordResetTokensModule,
+    MailModule,
     PassportModule,
     JwtModule.registerAsync({
       inject: [ConfigService],
@@ -22,7 +34,13 @@ import { JwtStrategy } from './jwt.strategy'
       })
     })
   ],
-  controllers: [AuthController],
-  providers: [AuthService, JwtStrategy]
+  controllers: [AuthController, TwoFactorController],
+  providers: [
+    AuthService,
+    JwtStrategy,
+    TwoFactorService,
+    PasswordResetService,
+    EncryptionService
+  ]
 })
 export class AuthModule {}
@@ -1,15 +1,35 @@
-import { Injectable, UnauthorizedException } from '@nestjs/common'
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common'
 import { ConfigService } from '@nestjs/config'
 import { JwtService } from '@nestjs/jwt'
 import * as argon2 from 'argon2'
-import { createHash } from 'node:crypto'
+import { createHash, randomUUID } from 'node:crypto'
 import { Types } from 'mongoose'
 
+import { AuditService } from '../audit/audit.service'
+import {
+  LoginThrottleService,
+  type ThrottleKey,
+} from '../login-throttle/login-throttle.service'
+import { PasswordResetTokensService } from '../password-reset-tokens/password-reset-tokens.service'
 import { RefreshTokensService } from '../refresh-tokens/refresh-tokens.service'
 import { UsersService } from '../users/users.service'
 import { type UserDocument } from '../users/schemas/user.schema'
+import { type JwtPayload } from './jwt.strategy'
+import { hashPassword } from './password-hash'
+import { TwoFactorService } from './two-factor.service'
 
 const REFRESH_TOKEN_NAME = 'refresh_token'
+// Parallel refreshes from one browser race on the same token; a replay this
+// soon after rotation is one of them rather than a stolen token.
+const ROTATED_TOKEN_GRACE_MS = 10_000
+// Password checked, TOTP pending: the challenge stands in for the session.
+const LOGIN_CHALLENGE_PURPOSE = 'login-2fa'
+const LOGIN_CHALLENGE_TTL = '5m'
 
 export type AuthUser = {
   id: string
@@ -25,19 +45,39 @@ type Tokens = {
   refreshExpiresAt: Date
 }
 
+export type ClientInfo = {
+  userAgent?: string
+  ip?: string
+}
+
+type SessionFamily = {
+  familyId: Types.ObjectId
+  signedInAt: Date
+}
+
 @Injectable()
 export class AuthService {
+  private readonly logger = new Logger(AuthService.name)
+
   constructor(
     private usersService: UsersService,
     private refreshTokensService: RefreshTokensService,
     private jwtService: JwtService,
     private configService: ConfigService,
+    private twoFactorService: TwoFactorService,
+    private loginThrottleService: LoginThrottleService,
+    private auditService: AuditService,
+    private passwordResetTokensService: PasswordResetTokensService,
   ) {}
 
-  async register(email: string, password: string) {
-    const passwordHash = await argon2.hash(password, {
-      type: argon2.argon2id,
-    })
+  async register(email: string, password: string, client: ClientInfo = {}) {
+    const throttleKeys: ThrottleKey[] = [
+      { scope: 'register-ip', value: client.ip },
+    ]
+    await this.loginThrottleService.assertAllowed(throttleKeys)
+    await this.loginThrottleService.recordAttempt(throttleKeys)
+
+    const passwordHash = await hashPassword(password)
     const existingUsers = await this.usersService.countUsers()
     const role = existingUsers === 0 ? 'admin' : 'user'
     const user = await this.usersService.createUser({
@@ -45,46 +85,100 @@ export class AuthService {
       passwordHash,
       role,
     })
-    const tokens = await this.issueTokens(user)
-    await this.storeRefreshToken(
-      user._id,
-      tokens.refreshToken,
-      tokens.refreshExpiresAt,
-    )
-    return {
-      user: this.toAuthUser(user),
-      accessToken: tokens.accessToken,
-      refreshToken: tokens.refreshToken,
-      refreshExpiresAt: tokens.refreshExpiresAt,
-    }
+    return this.startSession(user, client)
   }
 
-  async login(email: string, password: string) {
+  async login(email: string, password: string, client: ClientInfo = {}) {
+    const throttleKeys = this.getLoginThrottleKeys(email, client)
+    await this.loginThrottleService.assertAllowed(throttleKeys)
+
     const user = await this.usersService.findByEmail(email)
     if (!user) {
+      await this.recordLoginFailure(email, 'unknown_email', client)
       throw new UnauthorizedException('Invalid credentials')
     }
 
     const isValid = await argon2.verify(user.passwordHash, password)
     if (!isValid) {
+      await this.recordLoginFailure(email, 'invalid_password', client, user)
       throw new UnauthorizedException('Invalid credentials')
     }
 
-    const tokens = await this.issueTokens(user)
-    await this.storeRefreshToken(
-      user._id,
-      tokens.refreshToken,
-      tokens.refreshExpiresAt,
-    )
+    if (user.twoFactorEnabled) {
+      const challengeToken = await this.jwtService.signAsync(
+        { sub: user._id.toString(), purpose: LOGIN_CHALLENGE_PURPOSE },
+        {
+          secret: this.configService.get<string>('JWT_ACCESS_SECRET'),
+          expiresIn: LOGIN_CHALLENGE_TTL,
+        },
+      )
+      return { twoFactorRequired: true as const, challengeToken }
+    }
+    await this.loginThrottleService.reset([
+      { scope: 'login-email', value: user.email },
+    ])
+    return this.startSession(user, client)
+  }
+
+  /** Second login step: exchanges the challenge and a TOTP/recovery code. */
+  async completeTwoFactorLogin(
+    challengeToken: string,
+    code: string,
+    client: ClientInfo = {},
+  ) {
+    let payload: JwtPayload
+    try {
+      payload = await this.jwtService.verifyAsync<JwtPayload>(challengeToken, {
+        secret: this.configService.get<string>('JWT_ACCESS_SECRET'),
+      })
+    } catch {
+      throw new UnauthorizedException('Login challenge expired')
+    }
+    if (payload.purpose !== LOGIN_CHALLENGE_PURPOSE) {
+      throw new UnauthorizedException('Login challenge expired')
+    }
+
+    const user = await this.usersService.findById(payload.sub)
+    if (!user) {
+      throw new UnauthorizedException('Invalid two-factor code')
+    }
+    const throttleKeys = this.getLoginThrottleKeys(user.email, client)
+    await this.loginThrottleService.assertAllowed(throttleKeys)
+    if (!(await this.twoFactorService.verifyCode(user, code))) {
+      await this.recordLoginFailure(
+        user.email,
+        'invalid_two_factor_code',
+        client,
+        user,
+      )
+      throw new UnauthorizedException('Invalid two-factor code')
+    }
+    await this.loginThrottleService.reset([
+      { scope: 'login-email', value: user.email },
+    ])
+    return this.startSession(user, client)
+  }
+
+  /** Access token that passes StepUpGuard for the next few minutes. */
+  async stepUp(userId: string, code: string) {
+    const user = await this.usersService.findById(userId)
+    if (!user) {
+      throw new UnauthorizedException('Invalid token')
+    }
+    if (!user.twoFactorEnabled) {
+      throw new BadRequestException('Two-factor authentication is not enabled')
+    }
+    if (!(await this.twoFactorService.verifyCode(user, code))) {
+      throw new BadRequestException('Invalid two-factor code')
+    }
     return {
-      user: this.toAuthUser(user),
-      accessToken: tokens.accessToken,
-      refreshToken: tokens.refreshToken,
-      refreshExpiresAt: tokens.refreshExpiresAt,
+      accessToken: await this.signAccessToken(user, {
+        stepUpAt: Math.floor(Date.now() / 1000),
+      }),
     }
   }
 
-  async refresh(refreshToken: string) {
+  async refresh(refreshToken: string, client: ClientInfo = {}) {
     const payload = await this.verifyRefreshToken(refreshToken)
     const tokenHash = this.hashToken(refreshToken)
 
@@ -92,20 +186,26 @@ export class AuthService {
     if (!stored || stored.expiresAt.getTime() < Date.now()) {
       throw new UnauthorizedException('Invalid refresh token')
     }
-
-    await this.refreshTokensService.deleteByHash(tokenHash)
+    if (stored.rotatedAt) {
+      await this.handleReuse(stored.familyId, stored.rotatedAt, stored.userId)
+      throw new UnauthorizedException('Invalid refresh token')
+    }
+    const rotated = await this.refreshTokensService.markRotated(tokenHash)
+    if (!rotated) {
+      throw new UnauthorizedException('Invalid refresh token')
+    }
 
     const user = await this.usersService.findById(payload.sub)
     if (!user) {
       throw new UnauthorizedException('Invalid refresh token')
     }
 
+    const family = {
+      familyId: stored.familyId,
+      signedInAt: stored.signedInAt,
+    }
     const tokens = await this.issueTokens(user)
-    await this.storeRefreshToken(
-      user._id,
-      tokens.refreshToken,
-      tokens.refreshExpiresAt,
-    )
+    await this.storeRefreshToken(user._id, tokens, family, client)
     return {
       user: this.toAuthUser(user),
       accessToken: tokens.accessToken,
@@ -119,7 +219,92 @@ export class AuthService {
       return { ok: true }
     }
     const tokenHash = this.hashToken(refreshToken)
-    await this.refreshTokensService.deleteByHash(tokenHash)
+    const stored = await this.refreshTokensService.findByHash(tokenHash)
+    if (stored) {
+      await this.refreshTokensService.deleteFamily(stored.familyId)
+    }
+    return { ok: true }
+  }
+
+  /** Signed-in sessions of the user; `current` marks the caller's own. */
+  async listSessions(userId: string, refreshToken: string | undefined) {
+    const currentFamilyId = await this.findFamilyId(refreshToken)
+    const tokens = await this.refreshTokensService.listActive(userId)
+    return tokens.map((token) => ({
+      id: String(token.familyId),
+      device: describeDevice(token.userAgent),
+      userAgent: token.userAgent,
+      ip: token.ip,
+      signedInAt: token.signedInAt,
+      lastUsedAt: token.createdAt,
+      current: String(token.familyId) === currentFamilyId,
+    }))
+  }
+
+  async revokeSession(userId: string, sessionId: string) {
+    if (!Types.ObjectId.isValid(sessionId)) {
+      return null
+    }
+    const result = await this.refreshTokensService.deleteFamily(
+      sessionId,
+      userId,
+    )
+    return result.deletedCount > 0 ? { ok: true } : null
+  }
+
+  /** Sets a new password; every session but the caller's has to log in again. */
+  async changePassword(
+    userId: string,
+    currentPassword: string,
+    newPassword: string,
+    refreshToken: string | undefined,
+    client: ClientInfo = {},
+  ) {
+    const user = await this.usersService.findById(userId)
+    if (!user) {
+      throw new UnauthorizedException('Invalid token')
+    }
+    // Wrong current passwords count as failed logins, so a stolen session
+    // cannot be used to guess the password without hitting the lockout.
+    const throttleKeys = this.getLoginThrottleKeys(user.email, client)
+    await this.loginThrottleService.assertAllowed(throttleKeys)
+    if (!(await argon2.verify(user.passwordHash, currentPassword))) {
+      await this.recordLoginFailure(
+        user.email,
+        'invalid_current_password',
+        client,
+        user,
+      )
+      throw new BadRequestException('Current password is incorrect')
+    }
+    await this.loginThrottleService.reset([
+      { scope: 'login-email', value: user.email },
+    ])
+
+    await this.usersService.updatePassword(
+      userId,
+      await hashPassword(newPassword),
+    )
+    const currentFamilyId = await this.findFamilyId(refreshToken)
+    await this.refreshTokensService.deleteByUser(
+      userId,
+      currentFamilyId ?? undefined,
+    )
+    await this.passwordResetTokensService.deleteByUser(userId)
+    await this.auditService.record({
+      action: 'auth.password.changed',
+      actorId: userId,
+      actorEmail: user.email,
+      targetType: 'user',
+      targetId: userId,
+      ip: client.ip,
+      userAgent: client.userAgent,
+    })
+    return { ok: true }
+  }
+
+  async revokeAllSessions(userId: string) {
+    await this.refreshTokensService.deleteByUser(userId)
     return { ok: true }
   }
 
@@ -132,7 +317,11 @@ export class AuthService {
       const tokenHash = this.hashToken(refreshToken)
 
       const stored = await this.refreshTokensService.findByHash(tokenHash)
-      if (!stored || stored.expiresAt.getTime() < Date.now()) {
+      if (
+        !stored ||
+        stored.rotatedAt ||
+        stored.expiresAt.getTime() < Date.now()
+      ) {
         return { authenticated: false }
       }
 
@@ -161,17 +350,114 @@ export class AuthService {
     }
   }
 
-  private async issueTokens(user: UserDocument): Promise<Tokens> {
-    const accessToken = await this.jwtService.signAsync(
-      { sub: user._id.toString(), email: user.email, role: user.role },
+  private getLoginThrottleKeys(
+    email: string,
+    client: ClientInfo,
+  ): ThrottleKey[] {
+    return [
+      { scope: 'login-ip', value: client.ip },
+      { scope: 'login-email', value: email },
+    ]
+  }
+
+  private async recordLoginFailure(
+    email: string,
+    reason: string,
+    client: ClientInfo,
+    user?: UserDocument,
+  ) {
+    const entry = {
+      actorEmail: email.trim().toLowerCase(),
+      targetType: 'user',
+      targetId: user?._id.toString(),
+      ip: client.ip,
+      userAgent: client.userAgent,
+    }
+    const locked = await this.loginThrottleService.recordAttempt(
+      this.getLoginThrottleKeys(email, client),
+    )
+    await this.auditService.record({
+      ...entry,
+      action: 'auth.login.failed',
+      metadata: { reason },
+    })
+    if (locked) {
+      await this.auditService.record({
+        ...entry,
+        action: 'auth.account.locked',
+      })
+      this.logger.warn(`Account ${entry.actorEmail} locked after failed logins`)
+    }
+  }
+
+  private async startSession(user: UserDocument, client: ClientInfo) {
+    const family = { familyId: new Types.ObjectId(), signedInAt: new Date() }
+    const tokens = await this.issueTokens(user)
+    await this.storeRefreshToken(user._id, tokens, family, client)
+    return {
+      user: this.toAuthUser(user),
+      accessToken: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+      refreshExpiresAt: tokens.refreshExpiresAt,
+    }
+  }
+
+  /**
+   * A rotated token came back. Outside the grace window someone holds a copy,
+   * so every token of its family is revoked and the session has to log in.
+   */
+  private async handleReuse(
+    familyId: Types.ObjectId,
+    rotatedAt: Date,
+    userId: Types.ObjectId,
+  ) {
+    if (Date.now() - rotatedAt.getTime() <= ROTATED_TOKEN_GRACE_MS) {
+      return
+    }
+    await this.refreshTokensService.deleteFamily(familyId)
+    this.logger.warn(
+      `Refresh token reuse for user ${String(userId)}; revoked session ${String(familyId)}`,
+    )
+  }
+
+  private async findFamilyId(refreshToken: string | undefined) {
+    if (!refreshToken) {
+      return null
+    }
+    const stored = await this.refreshTokensService.findByHash(
+      this.hashToken(refreshToken),
+    )
+    return stored ? String(stored.familyId) : null
+  }
+
+  private async signAccessToken(
+    user: UserDocument,
+    claims: Pick<JwtPayload, 'stepUpAt'> = {},
+  ) {
+    return this.jwtService.signAsync(
+      {
+        sub: user._id.toString(),
+        email: user.email,
+        role: user.role,
+        ...claims,
+      },
       {
         secret: this.configService.get<string>('JWT_ACCESS_SECRET'),
         expiresIn: this.configService.get<string>('JWT_ACCESS_TTL'),
       },
     )
+  }
 
+  private async issueTokens(user: UserDocument): Promise<Tokens> {
+    const accessToken = await this.signAccessToken(user)
+
+    // jti keeps tokens issued within the same second distinct.
     const refreshToken = await this.jwtService.signAsync(
-      { sub: user._id.toString(), email: user.email },
+      {
+        sub: user._id.toString(),
+        email: user.email,
+        jti: randomUUID(),
+      },
       {
         secret: this.configService.get<string>('JWT_REFRESH_SECRET'),
         expiresIn: this.configService.get<string>('JWT_REFRESH_TTL'),
@@ -187,14 +473,18 @@ export class AuthService {
 
   private async storeRefreshToken(
     userId: Types.ObjectId,
-    refreshToken: string,
-    refreshExpiresAt: Date,
+    tokens: Tokens,
+    family: SessionFamily,
+    client: ClientInfo,
   ) {
-    const tokenHash = this.hashToken(refreshToken)
     await this.refreshTokensService.create({
       userId,
-      tokenHash,
-      expiresAt: refreshExpiresAt,
+      tokenHash: this.hashToken(tokens.refreshToken),
+      familyId: family.familyId,
+      expiresAt: tokens.refreshExpiresAt,
+      signedInAt: family.signedInAt,
+      userAgent: client.userAgent?.slice(0, 500),
+      ip: client.ip,
     })
   }
 
@@ -246,3 +536,34 @@ export class AuthService {
     }
   }
 }
+
+/** Short label such as "Chrome on Windows" for the sessions list. */
+function describeDevice(userAgent?: string) {
+  if (!userAgent) {
+    return 'Unknown device'
+  }
+  const browser = /Edg\//.test(userAgent)
+    ? 'Edge'
+    : /OPR\//.test(userAgent)
+      ? 'Opera'
+      : /Firefox\//.test(userAgent)
+        ? 'Firefox'
+        : /Chrome\//.test(userAgent)
+          ? 'Chrome'
+          : /Safari\//.test(userAgent)
+            ? 'Safari'
+            : null
+  const os = /Android/.test(userAgent)
+    ? 'Android'
+    : /iPhone|iPad/.test(userAgent)
+      ? 'iOS'
+      : /Windows/.test(userAgent)
+        ? 'Windows'
+        : /Mac OS X/.test(userAgent)
+          ? 'macOS'
+          : /Linux/.test(userAgent)
+            ? 'Linux'
+            : null
+  if (browser && os) return `${browser} on ${os}`
+  return browser ?? os ?? 'Unknown device'
+}
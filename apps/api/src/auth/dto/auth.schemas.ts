@@ -6,3 +6,44 @@ export const authCredentialsSchema = z.object({
 })
 
 export type AuthCredentialsDto = z.infer<typeof authCredentialsSchema>
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1),
+  newPassword: z.string().min(8)
+})
+
+export const requestPasswordResetSchema = z.object({
+  email: z.string().email()
+})
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(8)
+})
+
+export type ChangePasswordDto = z.infer<typeof changePasswordSchema>
+export type RequestPasswordResetDto = z.infer<
+  typeof requestPasswordResetSchema
+>
+export type ResetPasswordDto = z.infer<typeof resetPasswordSchema>
+
+// A 6-digit TOTP code or a recovery code.
+const twoFactorCode = z.string().trim().min(6).max(32)
+
+export const twoFactorCodeSchema = z.object({
+  code: twoFactorCode
+})
+
+export const loginTwoFactorSchema = z.object({
+  challengeToken: z.string().min(1),
+  code: twoFactorCode
+})
+
+export const updateTwoFactorSchema = z.object({
+  stepUp: z.boolean(),
+  code: twoFactorCode
+})
+
+export type TwoFactorCodeDto = z.infer<typeof twoFactorCodeSchema>
+export type LoginTwoFactorDto = z.infer<typeof loginTwoFactorSchema>
+export type UpdateTwoFactorDto = z.infer<typeof updateTwoFactorSchema>
@@ -9,6 +9,10 @@ export type JwtPayload = {
   sub: string
   email: string
   role: 'user' | 'admin'
+  // Seconds since epoch of the last TOTP check, see StepUpGuard.
+  stepUpAt?: number
+  // Set on tokens that are not access tokens, e.g. login challenges.
+  purpose?: string
 }
 
 @Injectable()
@@ -25,10 +29,19 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
   }
 
   async validate(payload: JwtPayload) {
+    if (payload.purpose) {
+      throw new UnauthorizedException('Invalid token')
+    }
     const user = await this.usersService.findById(payload.sub)
     if (!user) {
       throw new UnauthorizedException('Invalid token')
     }
-    return { id: user._id.toString(), email: user.email, role: user.role }
+    return {
+      id: user._id.toString(),
+      email: user.email,
+      role: user.role,
+      stepUpRequired: user.twoFactorEnabled && user.twoFactorStepUp,
+      stepUpAt: payload.stepUpAt,
+    }
   }
 }
@@ -0,0 +1,128 @@
+import { BadRequestException, Injectable } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { createHash, randomBytes } from 'node:crypto'
+
+import { AuditService } from '../audit/audit.service'
+import {
+  LoginThrottleService,
+  type ThrottleKey,
+} from '../login-throttle/login-throttle.service'
+import { MailTransport } from '../mail/mail-transport'
+import { PasswordResetTokensService } from '../password-reset-tokens/password-reset-tokens.service'
+import { RefreshTokensService } from '../refresh-tokens/refresh-tokens.service'
+import { UsersService } from '../users/users.service'
+import { type ClientInfo } from './auth.service'
+import { hashPassword } from './password-hash'
+
+const DEFAULT_RESET_TTL_MINUTES = 30
+const DEFAULT_WEB_URL = 'http://localhost:5173'
+
+/** Forgotten passwords: emailed single-use links that set a new one. */
+@Injectable()
+export class PasswordResetService {
+  constructor(
+    private usersService: UsersService,
+    private refreshTokensService: RefreshTokensService,
+    private passwordResetTokensService: PasswordResetTokensService,
+    private loginThrottleService: LoginThrottleService,
+    private auditService: AuditService,
+    private mailTransport: MailTransport,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Mails a reset link when the email belongs to an account. The answer is
+   * the same either way, so it does not reveal which emails are registered.
+   */
+  async requestReset(email: string, client: ClientInfo = {}) {
+    const throttleKeys: ThrottleKey[] = [
+      { scope: 'reset-ip', value: client.ip },
+      { scope: 'reset-email', value: email },
+    ]
+    await this.loginThrottleService.assertAllowed(throttleKeys)
+    await this.loginThrottleService.recordAttempt(throttleKeys)
+
+    const user = await this.usersService.findByEmail(email)
+    if (!user) {
+      return { ok: true }
+    }
+
+    const token = randomBytes(32).toString('base64url')
+    const ttlMinutes = Number(
+      this.configService.get('PASSWORD_RESET_TTL_MINUTES') ??
+        DEFAULT_RESET_TTL_MINUTES,
+    )
+    await this.passwordResetTokensService.replaceForUser({
+      userId: user._id,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + ttlMinutes * 60 * 1000),
+    })
+
+    const resetUrl = new URL(
+      '/reset-password',
+      this.configService.get<string>('WEB_URL') ?? DEFAULT_WEB_URL,
+    )
+    resetUrl.searchParams.set('token', token)
+    await this.mailTransport.send({
+      to: user.email,
+      subject: 'Reset your CRUD Portfolio Manager password',
+      text: [
+        'Someone asked to reset the password of your account.',
+        '',
+        `Open this link within ${ttlMinutes} minutes to choose a new one:`,
+        resetUrl.toString(),
+        '',
+        'If it was not you, ignore this email; your password stays the same.',
+      ].join('\n'),
+    })
+    await this.auditService.record({
+      action: 'auth.password.reset_requested',
+      actorEmail: user.email,
+      targetType: 'user',
+      targetId: user._id.toString(),
+      ip: client.ip,
+      userAgent: client.userAgent,
+    })
+    return { ok: true }
+  }
+
+  /** Sets the new password and signs the account out everywhere. */
+  async resetPassword(
+    token: string,
+    password: string,
+    client: ClientInfo = {},
+  ) {
+    const stored = await this.passwordResetTokensService.consume(
+      hashToken(token),
+    )
+    const user = stored
+      ? await this.usersService.findById(String(stored.userId))
+      : null
+    if (!user) {
+      throw new BadRequestException('Reset link is invalid or expired')
+    }
+
+    const userId = user._id.toString()
+    await this.usersService.updatePassword(userId, await hashPassword(password))
+    await this.refreshTokensService.deleteByUser(userId)
+    await this.passwordResetTokensService.deleteByUser(user._id)
+    // Proving access to the mailbox also lifts a failed-login lockout.
+    await this.loginThrottleService.reset([
+      { scope: 'login-email', value: user.email },
+    ])
+    await this.auditService.record({
+      action: 'auth.password.reset',
+      actorId: userId,
+      actorEmail: user.email,
+      targetType: 'user',
+      targetId: userId,
+      ip: client.ip,
+      userAgent: client.userAgent,
+    })
+    return { ok: true }
+  }
+}
+
+function hashToken(token: string) {
+  return createHash('sha256').update(token).digest('hex')
+}
@@ -0,0 +1,38 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common'
+
+// How long one TOTP check unlocks sensitive actions.
+export const STEP_UP_TTL_SECONDS = 5 * 60
+export const STEP_UP_REQUIRED_CODE = 'STEP_UP_REQUIRED'
+
+/**
+ * Guards order placement and credential changes for users who turned on the
+ * step-up requirement: the access token must come from `/auth/2fa/verify`
+ * within the last few minutes. Use after JwtAuthGuard.
+ */
+@Injectable()
+export class StepUpGuard implements CanActivate {
+  canActivate(context: ExecutionContext) {
+    const request = context.switchToHttp().getRequest()
+    const user = request.user as {
+      stepUpRequired?: boolean
+      stepUpAt?: number
+    }
+    if (!user?.stepUpRequired) {
+      return true
+    }
+    const nowSeconds = Math.floor(Date.now() / 1000)
+    if (user.stepUpAt && nowSeconds - user.stepUpAt <= STEP_UP_TTL_SECONDS) {
+      return true
+    }
+    throw new ForbiddenException({
+      statusCode: 403,
+      message: 'Two-factor verification required',
+      code: STEP_UP_REQUIRED_CODE,
+    })
+  }
+}
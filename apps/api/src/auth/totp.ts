@@ -0,0 +1,91 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto'
+
+// RFC 6238 defaults understood by every authenticator app.
+const TOTP_PERIOD_SECONDS = 30
+const TOTP_DIGITS = 6
+// Accept the previous and next step to absorb clock drift.
+const TOTP_WINDOW = 1
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+
+export function generateTotpSecret() {
+  return base32Encode(randomBytes(20))
+}
+
+export function buildOtpauthUri(
+  issuer: string,
+  account: string,
+  secret: string,
+) {
+  const label = encodeURIComponent(`${issuer}:${account}`)
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  })
+  return `otpauth://totp/${label}?${params.toString()}`
+}
+
+/** The time step the code belongs to, or null when it matches none. */
+export function verifyTotp(secret: string, code: string, now = Date.now()) {
+  if (!/^\d{6}$/.test(code)) {
+    return null
+  }
+  const key = base32Decode(secret)
+  const currentStep = Math.floor(now / 1000 / TOTP_PERIOD_SECONDS)
+  for (let offset = -TOTP_WINDOW; offset <= TOTP_WINDOW; offset += 1) {
+    const step = currentStep + offset
+    const expected = Buffer.from(generateCode(key, step))
+    if (timingSafeEqual(expected, Buffer.from(code))) {
+      return step
+    }
+  }
+  return null
+}
+
+function generateCode(key: Buffer, step: number) {
+  const counter = Buffer.alloc(8)
+  counter.writeBigUInt64BE(BigInt(step))
+  const hmac = createHmac('sha1', key).update(counter).digest()
+  const offset = hmac[hmac.length - 1] & 0x0f
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0')
+}
+
+function base32Encode(buffer: Buffer) {
+  let bits = 0
+  let value = 0
+  let output = ''
+  for (const byte of buffer) {
+    value = (value << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31]
+  }
+  return output
+}
+
+function base32Decode(input: string) {
+  const bytes: number[] = []
+  let bits = 0
+  let value = 0
+  for (const char of input.replace(/=+$/, '').toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char)
+    if (index === -1) {
+      throw new Error('Invalid base32 secret')
+    }
+    value = (value << 5) | index
+    bits += 5
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 0xff)
+      bits -= 8
+    }
+  }
+  return Buffer.from(bytes)
+}
@@ -0,0 +1,90 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Patch,
+  Post,
+  Req,
+  UseGuards,
+} from '@nestjs/common'
+import { Request } from 'express'
+
+import { ZodValidationPipe } from '../common/zod-validation.pipe'
+import { AuthService } from './auth.service'
+import {
+  twoFactorCodeSchema,
+  updateTwoFactorSchema,
+  type TwoFactorCodeDto,
+  type UpdateTwoFactorDto,
+} from './dto/auth.schemas'
+import { JwtAuthGuard } from './jwt-auth.guard'
+import { TwoFactorService } from './two-factor.service'
+
+@UseGuards(JwtAuthGuard)
+@Controller('auth/2fa')
+export class TwoFactorController {
+  constructor(
+    private authService: AuthService,
+    private twoFactorService: TwoFactorService,
+  ) {}
+
+  @Get()
+  async getStatus(@Req() req: Request) {
+    const user = req.user as { id: string }
+    return this.twoFactorService.getStatus(user.id)
+  }
+
+  /** New secret for the authenticator app; confirm it with `enable`. */
+  @Post('setup')
+  async setup(@Req() req: Request) {
+    const user = req.user as { id: string }
+    return this.twoFactorService.startSetup(user.id)
+  }
+
+  @Post('enable')
+  async enable(
+    @Req() req: Request,
+    @Body(new ZodValidationPipe(twoFactorCodeSchema)) body: TwoFactorCodeDto,
+  ) {
+    const user = req.user as { id: string }
+    return this.twoFactorService.enable(user.id, body.code)
+  }
+
+  @Post('disable')
+  async disable(
+    @Req() req: Request,
+    @Body(new ZodValidationPipe(twoFactorCodeSchema)) body: TwoFactorCodeDto,
+  ) {
+    const user = req.user as { id: string }
+    return this.twoFactorService.disable(user.id, body.code)
+  }
+
+  @Post('recovery-codes')
+  async regenerateRecoveryCodes(
+    @Req() req: Request,
+    @Body(new ZodValidationPipe(twoFactorCodeSchema)) body: TwoFactorCodeDto,
+  ) {
+    const user = req.user as { id: string }
+    return this.twoFactorService.regenerateRecoveryCodes(user.id, body.code)
+  }
+
+  @Patch()
+  async update(
+    @Req() req: Request,
+    @Body(new ZodValidationPipe(updateTwoFactorSchema))
+    body: UpdateTwoFactorDto,
+  ) {
+    const user = req.user as { id: string }
+    return this.twoFactorService.setStepUp(user.id, body.stepUp, body.code)
+  }
+
+  /** Step-up: a fresh access token accepted by StepUpGuard for a while. */
+  @Post('verify')
+  async verify(
+    @Req() req: Request,
+    @Body(new ZodValidationPipe(twoFactorCodeSchema)) body: TwoFactorCodeDto,
+  ) {
+    const user = req.user as { id: string }
+    return this.authService.stepUp(user.id, body.code)
+  }
+}
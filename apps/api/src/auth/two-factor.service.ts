@@ -0,0 +1,195 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common'
+import { createHash, randomBytes } from 'node:crypto'
+
+import { EncryptionService } from '../common/encryption.service'
+import {
+  LoginThrottleService,
+  type ThrottleKey,
+} from '../login-throttle/login-throttle.service'
+import { type UserDocument } from '../users/schemas/user.schema'
+import { UsersService } from '../users/users.service'
+import { buildOtpauthUri, generateTotpSecret, verifyTotp } from './totp'
+
+const TOTP_ISSUER = 'CRUD Portfolio Manager'
+const RECOVERY_CODE_COUNT = 10
+
+@Injectable()
+export class TwoFactorService {
+  private readonly logger = new Logger(TwoFactorService.name)
+
+  constructor(
+    private usersService: UsersService,
+    private encryptionService: EncryptionService,
+    private loginThrottleService: LoginThrottleService,
+  ) {}
+
+  async getStatus(userId: string) {
+    return this.toStatus(await this.getUser(userId))
+  }
+
+  /** Saves a new secret; it takes effect once `enable` confirms a code. */
+  async startSetup(userId: string) {
+    const user = await this.getUser(userId)
+    if (user.twoFactorEnabled) {
+      throw new BadRequestException(
+        'Two-factor authentication is already enabled',
+      )
+    }
+    const secret = generateTotpSecret()
+    await this.usersService.setTotpSecret(
+      userId,
+      this.encryptionService.encrypt(secret, userId),
+    )
+    return {
+      secret,
+      otpauthUri: buildOtpauthUri(TOTP_ISSUER, user.email, secret),
+    }
+  }
+
+  async enable(userId: string, code: string) {
+    const user = await this.getUser(userId)
+    if (user.twoFactorEnabled) {
+      throw new BadRequestException(
+        'Two-factor authentication is already enabled',
+      )
+    }
+    if (!user.totpSecretEnc) {
+      throw new BadRequestException('Start two-factor setup first')
+    }
+    const valid = await this.throttled(user, () =>
+      this.verifyTotpCode(user, code),
+    )
+    if (!valid) {
+      throw new BadRequestException('Invalid two-factor code')
+    }
+    const recoveryCodes = this.generateRecoveryCodes()
+    await this.usersService.enableTwoFactor(
+      userId,
+      recoveryCodes.map((recoveryCode) => this.hashRecoveryCode(recoveryCode)),
+    )
+    return { recoveryCodes }
+  }
+
+  async disable(userId: string, code: string) {
+    await this.requireCode(await this.getUser(userId), code)
+    await this.usersService.disableTwoFactor(userId)
+    return { ok: true }
+  }
+
+  async regenerateRecoveryCodes(userId: string, code: string) {
+    await this.requireCode(await this.getUser(userId), code)
+    const recoveryCodes = this.generateRecoveryCodes()
+    await this.usersService.setRecoveryCodes(
+      userId,
+      recoveryCodes.map((recoveryCode) => this.hashRecoveryCode(recoveryCode)),
+    )
+    return { recoveryCodes }
+  }
+
+  async setStepUp(userId: string, stepUp: boolean, code: string) {
+    const user = await this.getUser(userId)
+    await this.requireCode(user, code)
+    const updated = await this.usersService.setTwoFactorStepUp(userId, stepUp)
+    return this.toStatus(updated ?? user)
+  }
+
+  /**
+   * Checks a TOTP or recovery code of an enrolled user. Both are single use:
+   * the TOTP step is recorded and the recovery code removed. Failures count
+   * against the user's `two-factor` throttle, which answers 429 once it backs
+   * off or locks.
+   */
+  async verifyCode(user: UserDocument, code: string) {
+    if (!user.twoFactorEnabled) {
+      return false
+    }
+    return this.throttled(user, () => this.matchCode(user, code))
+  }
+
+  /** Throws unless 2FA is on and the code is valid. */
+  async requireCode(user: UserDocument, code: string) {
+    if (!user.twoFactorEnabled) {
+      throw new BadRequestException('Two-factor authentication is not enabled')
+    }
+    if (!(await this.verifyCode(user, code))) {
+      throw new BadRequestException('Invalid two-factor code')
+    }
+  }
+
+  private async matchCode(user: UserDocument, code: string) {
+    const normalized = code.replace(/[\s-]/g, '').toLowerCase()
+    if (/^\d{6}$/.test(normalized)) {
+      return this.verifyTotpCode(user, normalized)
+    }
+    const consumed = await this.usersService.consumeRecoveryCode(
+      user._id.toString(),
+      this.hashRecoveryCode(normalized),
+    )
+    return consumed !== null
+  }
+
+  private async throttled(user: UserDocument, check: () => Promise<boolean>) {
+    const throttleKeys: ThrottleKey[] = [
+      { scope: 'two-factor', value: user._id.toString() },
+    ]
+    await this.loginThrottleService.assertAllowed(throttleKeys)
+    if (await check()) {
+      await this.loginThrottleService.reset(throttleKeys)
+      return true
+    }
+    if (await this.loginThrottleService.recordAttempt(throttleKeys)) {
+      this.logger.warn(
+        `Two-factor codes of user ${user._id.toString()} locked after failed attempts`,
+      )
+    }
+    return false
+  }
+
+  private toStatus(user: UserDocument) {
+    return {
+      enabled: user.twoFactorEnabled,
+      stepUp: user.twoFactorStepUp,
+      recoveryCodesLeft: user.recoveryCodeHashes.length,
+    }
+  }
+
+  private async getUser(userId: string) {
+    const user = await this.usersService.findById(userId)
+    if (!user) {
+      throw new UnauthorizedException('Invalid token')
+    }
+    return user
+  }
+
+  private async verifyTotpCode(user: UserDocument, code: string) {
+    if (!user.totpSecretEnc) {
+      return false
+    }
+    const userId = user._id.toString()
+    const secret = this.encryptionService.decrypt(user.totpSecretEnc, userId)
+    const step = verifyTotp(secret, code)
+    if (step === null) {
+      return false
+    }
+    return (await this.usersService.recordTotpStep(userId, step)) !== null
+  }
+
+  // Formatted as xxxxx-xxxxx; dashes and case are ignored on input.
+  private generateRecoveryCodes() {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const code = randomBytes(5).toString('hex')
+      return `${code.slice(0, 5)}-${code.slice(5)}`
+    })
+  }
+
+  private hashRecoveryCode(code: string) {
+    return createHash('sha256')
+      .update(code.replace(/[\s-]/g, '').toLowerCase())
+      .digest('hex')
+  }
+}
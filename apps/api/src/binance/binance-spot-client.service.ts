@@ -3,9 +3,17 @@ import { ConfigService } from '@nestjs/config'
 import { randomUUID, createHmac } from 'node:crypto'
 import Big from 'big.js'
 
+import {
+  PriceUnavailableError,
+  type ExchangeApiCredentials,
+  type ExchangeEnvironment,
+} from '../exchanges/exchange-adapter'
 import { BinanceService } from './binance.service'
 
 const DEFAULT_BINANCE_BASE_URL = 'https://api.binance.com'
+const DEFAULT_BINANCE_WS_URL = 'wss://stream.binance.com:9443'
+const DEFAULT_BINANCE_TESTNET_BASE_URL = 'https://testnet.binance.vision'
+const DEFAULT_BINANCE_TESTNET_WS_URL = 'wss://stream.testnet.binance.vision'
 const DEFAULT_RECV_WINDOW = 5000
 
 type BinanceErrorPayload = {
@@ -15,6 +23,71 @@ type BinanceErrorPayload = {
 
 type SignedRequestParams = Record<string, string | number | boolean | undefined>
 
+type SpotOrderType =
+  | 'MARKET'
+  | 'LIMIT'
+  | 'STOP_LOSS_LIMIT'
+  | 'TAKE_PROFIT_LIMIT'
+  | 'LIMIT_MAKER'
+
+type SpotTimeInForce = 'GTC' | 'IOC' | 'FOK'
+
+type SpotAccount = {
+  accountType?: string
+  permissions?: string[]
+  balances: Array<{ asset: string; free: string; locked: string }>
+}
+
+type PreflightOrder = {
+  symbol: string
+  side: 'BUY' | 'SELL'
+  type: SpotOrderType | 'OCO'
+  quantity?: string
+  quoteOrderQty?: string
+  price?: string
+  stopPrice?: string
+  stopLimitPrice?: string
+}
+
+type OcoLeg = {
+  type: 'LIMIT_MAKER' | 'STOP_LOSS' | 'STOP_LOSS_LIMIT'
+  price?: string
+  stopPrice?: string
+  timeInForce?: SpotTimeInForce
+}
+
+export type SpotOrderFill = {
+  price: string
+  qty: string
+  commission: string
+  commissionAsset: string
+  tradeId: number
+}
+
+/** Order placement response with `newOrderRespType=FULL`. */
+export type SpotOrderResponse = {
+  symbol: string
+  orderId: number
+  orderListId?: number
+  clientOrderId: string
+  transactTime: number
+  price?: string
+  origQty?: string
+  executedQty?: string
+  cummulativeQuoteQty?: string
+  status?: string
+  timeInForce?: string
+  type?: string
+  side?: 'BUY' | 'SELL'
+  fills?: SpotOrderFill[]
+}
+
+type BinanceFilterName =
+  | 'NOTIONAL'
+  | 'LOT_SIZE'
+  | 'PRICE_FILTER'
+  | 'PERCENT_PRICE'
+
 type ExchangeInfoFilter = {
   filterType: string
   minQty?: string
@@ -24,6 +97,12 @@ type ExchangeInfoFilter = {
   maxPrice?: string
   tickSize?: string
   minNotional?: string
+  multiplierUp?: string
+  multiplierDown?: string
+  bidMultiplierUp?: string
+  bidMultiplierDown?: string
+  askMultiplierUp?: string
+  askMultiplierDown?: string
 }
 
 type ExchangeInfoSnapshot = {
@@ -34,13 +113,14 @@ type ExchangeInfoSnapshot = {
     lotSize?: ExchangeInfoFilter
     priceFilter?: ExchangeInfoFilter
     notional?: ExchangeInfoFilter
+    percentPrice?: ExchangeInfoFilter
   }
 }
 
 export class BinanceFilterException extends Error {
   readonly payload: {
     code: 'BINANCE_FILTER_FAILURE'
-    filter: 'NOTIONAL' | 'LOT_SIZE' | 'PRICE_FILTER'
+    filter: BinanceFilterName
     symbol: string
     message: string
     details: Record<string, string>
@@ -59,14 +139,30 @@ export class BinanceSpotClientService {
     { value: ExchangeInfoSnapshot; expiresAt: number }
   >()
   private readonly exchangeInfoTtlMs = 5 * 60 * 1000
+  private readonly tickerPriceCache = new Map<
+    string,
+    { value: string; expiresAt: number }
+  >()
+  private readonly tickerPriceTtlMs = 10 * 1000
+  private readonly klinePriceCache = new Map<
+    string,
+    { value: string; expiresAt: number }
+  >()
+  private readonly klinePriceTtlMs = 60 * 60 * 1000
+  // Keyed by user id; dropped on orders and user data stream balance events.
+  private readonly accountCache = new Map<
+    string,
+    { value: SpotAccount; expiresAt: number }
+  >()
+  private readonly accountTtlMs = 10 * 1000
 
   constructor(
     private configService: ConfigService,
     private binanceService: BinanceService,
   ) {}
 
-  async getServerTime() {
-    const response = await fetch(`${this.getBaseUrl()}/api/v3/time`)
+  async getServerTime(environment?: ExchangeEnvironment) {
+    const response = await fetch(`${this.getBaseUrl(environment)}/api/v3/time`)
     if (!response.ok) {
       throw new Error('Failed to fetch Binance server time.')
     }
@@ -74,15 +170,20 @@ export class BinanceSpotClientService {
     return typeof data.serverTime === 'number' ? data.serverTime : Date.now()
   }
 
-  async getAccount(userId: string) {
-    const credentials = await this.getCredentials(userId)
+  async getAccount(userId: string, profileId?: string): Promise<SpotAccount> {
+    const credentials = await this.getCredentials(userId, profileId)
+    const cached = this.accountCache.get(credentials.profileId)
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.value
+    }
+
     const data = await this.signedRequest<{
       accountType?: string
       permissions?: string[]
       balances?: Array<{ asset: string; free: string; locked: string }>
     }>('GET', '/api/v3/account', credentials)
 
-    return {
+    const account = {
       accountType: data.accountType,
       permissions: data.permissions,
       balances: (data.balances ?? []).map((balance) => ({
@@ -91,6 +192,57 @@ export class BinanceSpotClientService {
         locked: balance.locked,
       })),
     }
+    this.accountCache.set(credentials.profileId, {
+      value: account,
+      expiresAt: Date.now() + this.accountTtlMs,
+    })
+    return account
+  }
+
+  invalidateAccount(profileId: string) {
+    this.accountCache.delete(profileId)
+  }
+
+  /** Opens a user data stream; the key lives 60 minutes unless kept alive. */
+  async createListenKey(userId: string, profileId?: string) {
+    const credentials = await this.getCredentials(userId, profileId)
+    const data = await this.apiKeyRequest<{ listenKey?: string }>(
+      'POST',
+      '/api/v3/userDataStream',
+      credentials,
+    )
+    if (!data.listenKey) {
+      throw new Error('Binance listenKey missing in response.')
+    }
+    return data.listenKey
+  }
+
+  async keepAliveListenKey(
+    userId: string,
+    listenKey: string,
+    profileId?: string,
+  ) {
+    const credentials = await this.getCredentials(userId, profileId)
+    await this.apiKeyRequest('PUT', '/api/v3/userDataStream', credentials, {
+      listenKey,
+    })
+  }
+
+  async closeListenKey(userId: string, listenKey: string, profileId?: string) {
+    const credentials = await this.getCredentials(userId, profileId)
+    await this.apiKeyRequest('DELETE', '/api/v3/userDataStream', credentials, {
+      listenKey,
+    })
+  }
+
+  getUserStreamUrl(listenKey: string, environment?: ExchangeEnvironment) {
+    const base =
+      environment === 'TESTNET'
+        ? (this.configService.get<string>('BINANCE_SPOT_TESTNET_WS_URL') ??
+          DEFAULT_BINANCE_TESTNET_WS_URL)
+        : (this.configService.get<string>('BINANCE_SPOT_WS_URL') ??
+          DEFAULT_BINANCE_WS_URL)
+    return `${base.replace(/\/+$/, '')}/ws/${listenKey}`
   }
 
   async getTickerPrice(symbol: string) {
@@ -109,6 +261,61 @@ export class BinanceSpotClientService {
     return data.price
   }
 
+  async getCachedTickerPrice(symbol: string) {
+    const cacheKey = symbol.toUpperCase()
+    const cached = this.tickerPriceCache.get(cacheKey)
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.value
+    }
+
+    const price = await this.getTickerPrice(cacheKey)
+    this.tickerPriceCache.set(cacheKey, {
+      value: price,
+      expiresAt: Date.now() + this.tickerPriceTtlMs,
+    })
+    return price
+  }
+
+  async getHistoricalPrice(symbol: string, time: number) {
+    const minuteStart = Math.floor(time / 60000) * 60000
+    const cacheKey = `${symbol.toUpperCase()}:${minuteStart}`
+    const cached = this.klinePriceCache.get(cacheKey)
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.value
+    }
+
+    const params = new URLSearchParams({
+      symbol: symbol.toUpperCase(),
+      interval: '1m',
+      startTime: String(minuteStart),
+      limit: '1',
+    })
+    const response = await fetch(
+      `${this.getBaseUrl()}/api/v3/klines?${params.toString()}`,
+    )
+    // Binance answers 400 for symbols it does not list.
+    if (response.status === 400) {
+      throw new PriceUnavailableError(`Binance has no symbol ${symbol}.`)
+    }
+    if (!response.ok) {
+      throw new Error('Failed to fetch Binance kline price.')
+    }
+    const data = (await response.json()) as Array<
+      [number, string, string, string, string]
+    >
+    // Kline rows are [openTime, open, high, low, close, ...]; use the close.
+    const close = Array.isArray(data) ? data[0]?.[4] : undefined
+    if (!close) {
+      throw new PriceUnavailableError('Binance kline price unavailable.')
+    }
+
+    this.klinePriceCache.set(cacheKey, {
+      value: close,
+      expiresAt: Date.now() + this.klinePriceTtlMs,
+    })
+    return close
+  }
+
   async getExchangeInfo(symbol: string) {
     const cacheKey = symbol.toUpperCase()
     const cached = this.exchangeInfoCache.get(cacheKey)
@@ -121,6 +328,9 @@ export class BinanceSpotClientService {
         symbol,
       )}`,
     )
+    if (response.status === 400) {
+      throw new PriceUnavailableError(`Binance has no symbol ${symbol}.`)
+    }
     if (!response.ok) {
       throw new Error('Failed to fetch Binance exchange info.')
     }
@@ -134,7 +344,7 @@ export class BinanceSpotClientService {
     }
     const info = data.symbols?.[0]
     if (!info?.baseAsset || !info?.quoteAsset) {
-      throw new Error('Binance exchange info unavailable.')
+      throw new PriceUnavailableError('Binance exchange info unavailable.')
     }
 
     const filters = info.filters ?? []
@@ -150,6 +360,10 @@ export class BinanceSpotClientService {
         notional:
           filters.find((filter) => filter.filterType === 'NOTIONAL') ??
           filters.find((filter) => filter.filterType === 'MIN_NOTIONAL'),
+        percentPrice:
+          filters.find(
+            (filter) => filter.filterType === 'PERCENT_PRICE_BY_SIDE',
+          ) ?? filters.find((filter) => filter.filterType === 'PERCENT_PRICE'),
       },
     }
 
@@ -161,19 +375,39 @@ export class BinanceSpotClientService {
     return snapshot
   }
 
+  async getAveragePrice(symbol: string) {
+    const response = await fetch(
+      `${this.getBaseUrl()}/api/v3/avgPrice?symbol=${encodeURIComponent(
+        symbol,
+      )}`,
+    )
+    if (!response.ok) {
+      throw new Error('Failed to fetch Binance average price.')
+    }
+    const data = (await response.json()) as { price?: string }
+    if (!data?.price) {
+      throw new Error('Binance average price unavailable.')
+    }
+    return data.price
+  }
+
   async placeOrder(
     userId: string,
     payload: {
       symbol: string
       side: 'BUY' | 'SELL'
-      type: 'MARKET' | 'LIMIT'
+      type: SpotOrderType
       quantity?: string
       quoteOrderQty?: string
       price?: string
-      timeInForce?: 'GTC'
+      stopPrice?: string
+      timeInForce?: SpotTimeInForce
+      newClientOrderId?: string
     },
+    profileId?: string,
   ) {
-    const credentials = await this.getCredentials(userId)
+    const credentials = await this.getCredentials(userId, profileId)
+    this.invalidateAccount(credentials.profileId)
     await this.preflightCheck(payload, credentials)
     const params: SignedRequestParams = {
       symbol: payload.symbol,
@@ -182,11 +416,113 @@ export class BinanceSpotClientService {
       quantity: payload.quantity,
       quoteOrderQty: payload.quoteOrderQty,
       price: payload.price,
+      stopPrice: payload.stopPrice,
       timeInForce: payload.timeInForce,
-      newClientOrderId: randomUUID(),
+      newClientOrderId: payload.newClientOrderId ?? randomUUID(),
+      // FULL returns the fills with the order, so no myTrades round trip.
+      newOrderRespType: 'FULL',
     }
 
-    return this.signedRequest('POST', '/api/v3/order', credentials, params)
+    return this.signedRequest<SpotOrderResponse>(
+      'POST',
+      '/api/v3/order',
+      credentials,
+      params,
+    )
+  }
+
+  async placeOcoOrder(
+    userId: string,
+    payload: {
+      symbol: string
+      side: 'BUY' | 'SELL'
+      quantity: string
+      price: string
+      stopPrice: string
+      stopLimitPrice?: string
+      stopLimitTimeInForce?: SpotTimeInForce
+    },
+    profileId?: string,
+  ) {
+    const credentials = await this.getCredentials(userId, profileId)
+    this.invalidateAccount(credentials.profileId)
+    await this.preflightCheck({ ...payload, type: 'OCO' }, credentials)
+
+    const limitLeg: OcoLeg = { type: 'LIMIT_MAKER', price: payload.price }
+    const stopLeg: OcoLeg = payload.stopLimitPrice
+      ? {
+          type: 'STOP_LOSS_LIMIT',
+          price: payload.stopLimitPrice,
+          stopPrice: payload.stopPrice,
+          timeInForce: payload.stopLimitTimeInForce ?? 'GTC',
+        }
+      : { type: 'STOP_LOSS', stopPrice: payload.stopPrice }
+    // Binance names OCO legs by side of the market: a SELL takes profit above
+    // and stops out below, a BUY stops in above and buys the dip below.
+    const [above, below] =
+      payload.side === 'SELL' ? [limitLeg, stopLeg] : [stopLeg, limitLeg]
+
+    const params: SignedRequestParams = {
+      symbol: payload.symbol,
+      side: payload.side,
+      quantity: payload.quantity,
+      listClientOrderId: randomUUID(),
+      aboveType: above.type,
+      abovePrice: above.price,
+      aboveStopPrice: above.stopPrice,
+      aboveTimeInForce: above.timeInForce,
+      belowType: below.type,
+      belowPrice: below.price,
+      belowStopPrice: below.stopPrice,
+      belowTimeInForce: below.timeInForce,
+      newOrderRespType: 'FULL',
+    }
+
+    return this.signedRequest(
+      'POST',
+      '/api/v3/orderList/oco',
+      credentials,
+      params,
+    )
+  }
+
+  async openOrderLists(userId: string, symbol: string, profileId?: string) {
+    const credentials = await this.getCredentials(userId, profileId)
+    // Binance only lists open order lists across all symbols.
+    const data = await this.signedRequest<
+      Array<{
+        orderListId: number
+        contingencyType: string
+        listStatusType: string
+        listOrderStatus: string
+        listClientOrderId: string
+        transactionTime: number
+        symbol: string
+        orders: Array<{
+          symbol: string
+          orderId: number
+          clientOrderId: string
+        }>
+      }>
+    >('GET', '/api/v3/openOrderList', credentials)
+
+    return data.filter((list) => list.symbol === symbol)
+  }
+
+  async cancelOrderList(
+    userId: string,
+    payload: { symbol: string; orderListId: string },
+    profileId?: string,
+  ) {
+    const credentials = await this.getCredentials(userId, profileId)
+    this.invalidateAccount(credentials.profileId)
+    await this.signedRequest(
+      'DELETE',
+      '/api/v3/orderList',
+      credentials,
+      payload,
+    )
+    return { ok: true }
   }
 
   async cancelReplaceOrder(
@@ -197,13 +533,16 @@ export class BinanceSpotClientService {
       cancelOrigClientOrderId?: string
       cancelReplaceMode: 'STOP_ON_FAILURE'
       side: 'BUY' | 'SELL'
-      type: 'LIMIT'
-      timeInForce: 'GTC'
+      type: Exclude<SpotOrderType, 'MARKET'>
+      timeInForce?: SpotTimeInForce
       quantity: string
       price: string
+      stopPrice?: string
     },
+    profileId?: string,
   ) {
-    const credentials = await this.getCredentials(userId)
+    const credentials = await this.getCredentials(userId, profileId)
+    this.invalidateAccount(credentials.profileId)
     const exchangeInfo = await this.getExchangeInfo(payload.symbol)
     await this.preflightCheck(
       {
@@ -212,24 +551,34 @@ export class BinanceSpotClientService {
         type: payload.type,
         quantity: payload.quantity,
         price: payload.price,
+        stopPrice: payload.stopPrice,
       },
       credentials,
     )
 
     if (!exchangeInfo.cancelReplaceAllowed) {
-      const cancel = await this.cancelOrder(userId, {
-        symbol: payload.symbol,
-        orderId: payload.cancelOrderId,
-        origClientOrderId: payload.cancelOrigClientOrderId,
-      })
-      const newOrder = await this.placeOrder(userId, {
-        symbol: payload.symbol,
-        side: payload.side,
-        type: 'LIMIT',
-        quantity: payload.quantity,
-        price: payload.price,
-        timeInForce: payload.timeInForce,
-      })
+      const cancel = await this.cancelOrder(
+        userId,
+        {
+          symbol: payload.symbol,
+          orderId: payload.cancelOrderId,
+          origClientOrderId: payload.cancelOrigClientOrderId,
+        },
+        credentials.profileId,
+      )
+      const newOrder = await this.placeOrder(
+        userId,
+        {
+          symbol: payload.symbol,
+          side: payload.side,
+          type: payload.type,
+          quantity: payload.quantity,
+          price: payload.price,
+          stopPrice: payload.stopPrice,
+          timeInForce: payload.timeInForce,
+        },
+        credentials.profileId,
+      )
 
       return { mode: 'FALLBACK_CANCEL_NEW', cancel, newOrder }
     }
@@ -244,7 +593,9 @@ export class BinanceSpotClientService {
       timeInForce: payload.timeInForce,
       quantity: payload.quantity,
       price: payload.price,
+      stopPrice: payload.stopPrice,
       newClientOrderId: randomUUID(),
+      newOrderRespType: 'FULL',
     }
 
     return this.signedRequest(
@@ -258,17 +609,19 @@ export class BinanceSpotClientService {
   async cancelOrder(
     userId: string,
     payload: { symbol: string; orderId?: string; origClientOrderId?: string },
+    profileId?: string,
   ) {
-    const credentials = await this.getCredentials(userId)
+    const credentials = await this.getCredentials(userId, profileId)
+    this.invalidateAccount(credentials.profileId)
     await this.signedRequest('DELETE', '/api/v3/order', credentials, payload)
     return { ok: true }
   }
 
-  async openOrders(userId: string, symbol: string) {
+  async openOrders(userId: string, symbol: string, profileId?: string) {
     if (!symbol) {
       throw new Error('Symbol is required for open orders.')
     }
-    const credentials = await this.getCredentials(userId)
+    const credentials = await this.getCredentials(userId, profileId)
     return this.signedRequest('GET', '/api/v3/openOrders', credentials, {
       symbol,
     })
@@ -277,9 +630,15 @@ export class BinanceSpotClientService {
   async queryOrder(
     userId: string,
     payload: { symbol: string; orderId?: string; origClientOrderId?: string },
+    profileId?: string,
   ) {
-    const credentials = await this.getCredentials(userId)
-    return this.signedRequest('GET', '/api/v3/order', credentials, payload)
+    const credentials = await this.getCredentials(userId, profileId)
+    return this.signedRequest<SpotOrderResponse>(
+      'GET',
+      '/api/v3/order',
+      credentials,
+      payload,
+    )
   }
 
   async getMyTrades(
@@ -292,8 +651,9 @@ export class BinanceSpotClientService {
       fromId?: number
       limit?: number
     },
+    profileId?: string,
   ) {
-    const credentials = await this.getCredentials(userId)
+    const credentials = await this.getCredentials(userId, profileId)
     const data = await this.signedRequest<
       Array<{
         id: number
@@ -323,9 +683,11 @@ export class BinanceSpotClientService {
     }))
   }
 
-  private async getCredentials(userId: string) {
-    const credentials =
-      await this.binanceService.getDecryptedCredentials(userId)
+  private async getCredentials(userId: string, profileId?: string) {
+    const credentials = await this.binanceService.getDecryptedCredentials(
+      userId,
+      profileId,
+    )
     if (!credentials) {
       throw new Error('Binance keys not configured')
     }
@@ -335,10 +697,10 @@ export class BinanceSpotClientService {
   private async signedRequest<T>(
     method: 'GET' | 'POST' | 'DELETE',
     path: string,
-    credentials: { apiKey: string; apiSecret: string },
+    credentials: ExchangeApiCredentials,
     params: SignedRequestParams = {},
   ): Promise<T> {
-    const timestamp = await this.getServerTime()
+    const timestamp = await this.getServerTime(credentials.environment)
     const recvWindow = params.recvWindow ?? DEFAULT_RECV_WINDOW
     const payload: Record<string, string | number | boolean> = {}
 
@@ -350,7 +712,7 @@ export class BinanceSpotClientService {
     payload.recvWindow = recvWindow
 
     const signedQuery = this.buildSignedQuery(payload, credentials.apiSecret)
-    const url = `${this.getBaseUrl()}${path}?${signedQuery}`
+    const url = `${this.getBaseUrl(credentials.environment)}${path}?${signedQuery}`
 
     const response = await fetch(url, {
       method,
@@ -373,6 +735,32 @@ export class BinanceSpotClientService {
     return (await response.json()) as T
   }
 
+  /** USER_STREAM endpoints take the API key header but no signature. */
+  private async apiKeyRequest<T>(
+    method: 'POST' | 'PUT' | 'DELETE',
+    path: string,
+    credentials: ExchangeApiCredentials,
+    params: Record<string, string> = {},
+  ): Promise<T> {
+    const query = new URLSearchParams(params).toString()
+    const response = await fetch(
+      `${this.getBaseUrl(credentials.environment)}${path}${query ? `?${query}` : ''}`,
+      {
+        method,
+        headers: {
+          'X-MBX-APIKEY': credentials.apiKey,
+        },
+      },
+    )
+    if (!response.ok) {
+      const error = await this.extractBinanceError(response)
+      throw new Error(
+        error instanceof BinanceFilterException ? error.message : error,
+      )
+    }
+    return (await response.json()) as T
+  }
+
   private buildSignedQuery(
     params: Record<string, string | number | boolean>,
     secret: string,
@@ -390,15 +778,8 @@ export class BinanceSpotClientService {
   }
 
   private async preflightCheck(
-    payload: {
-      symbol: string
-      side: 'BUY' | 'SELL'
-      type: 'MARKET' | 'LIMIT'
-      quantity?: string
-      quoteOrderQty?: string
-      price?: string
-    },
-    credentials: { apiKey: string; apiSecret: string },
+    payload: PreflightOrder,
+    credentials: ExchangeApiCredentials,
   ) {
     const { baseAsset, quoteAsset, filters } = await this.getExchangeInfo(
       payload.symbol,
@@ -411,11 +792,25 @@ export class BinanceSpotClientService {
       this.validateLotSize(payload.symbol, payload.quantity, filters.lotSize)
     }
 
-    if (payload.price && filters.priceFilter) {
-      this.validatePriceFilter(
+    // Stop prices go through the same price filters as the limit price.
+    const prices = [
+      payload.price,
+      payload.stopPrice,
+      payload.stopLimitPrice,
+    ].filter((value): value is string => Boolean(value))
+
+    if (filters.priceFilter) {
+      for (const price of prices) {
+        this.validatePriceFilter(payload.symbol, price, filters.priceFilter)
+      }
+    }
+
+    if (prices.length > 0 && filters.percentPrice) {
+      await this.validatePercentPrice(
         payload.symbol,
-        payload.price,
-        filters.priceFilter,
+        payload.side,
+        prices,
+        filters.percentPrice,
       )
     }
 
@@ -439,9 +834,13 @@ export class BinanceSpotClientService {
       }
 
       if (payload.quantity) {
-        const isLimit = payload.type === 'LIMIT' && Boolean(payload.price)
+        const executionPrices = this.getExecutionPrices(payload)
+        const isLimit = executionPrices.length > 0
+        // An OCO BUY reserves enough quote for its most expensive leg.
         const price = isLimit
-          ? (payload.price as string)
+          ? executionPrices.reduce((max, value) =>
+              value.gt(max) ? value : max,
+            )
           : await this.getTickerPrice(payload.symbol)
         const baseCost = new Big(payload.quantity).times(price)
         const required = isLimit ? baseCost : baseCost.times('1.002')
@@ -572,15 +971,53 @@ export class BinanceSpotClientService {
     }
   }
 
+  private async validatePercentPrice(
+    symbol: string,
+    side: 'BUY' | 'SELL',
+    prices: string[],
+    filter: ExchangeInfoFilter,
+  ) {
+    const bySide = filter.filterType === 'PERCENT_PRICE_BY_SIDE'
+    const multiplierUp = bySide
+      ? side === 'BUY'
+        ? filter.bidMultiplierUp
+        : filter.askMultiplierUp
+      : filter.multiplierUp
+    const multiplierDown = bySide
+      ? side === 'BUY'
+        ? filter.bidMultiplierDown
+        : filter.askMultiplierDown
+      : filter.multiplierDown
+    if (!multiplierUp && !multiplierDown) return
+
+    const averagePrice = new Big(await this.getAveragePrice(symbol))
+    const maxPrice = multiplierUp ? averagePrice.times(multiplierUp) : null
+    const minPrice = multiplierDown ? averagePrice.times(multiplierDown) : null
+
+    for (const price of prices) {
+      const value = new Big(price)
+      if (
+        (maxPrice && value.gt(maxPrice)) ||
+        (minPrice && value.lt(minPrice))
+      ) {
+        throw new BinanceFilterException({
+          code: 'BINANCE_FILTER_FAILURE',
+          filter: 'PERCENT_PRICE',
+          symbol,
+          message: 'Filter failure: PERCENT_PRICE',
+          details: {
+            price: value.toString(),
+            averagePrice: averagePrice.toString(),
+            ...(minPrice ? { minPrice: minPrice.toString() } : {}),
+            ...(maxPrice ? { maxPrice: maxPrice.toString() } : {}),
+          },
+        })
+      }
+    }
+  }
+
   private async validateNotional(
-    payload: {
-      symbol: string
-      side: 'BUY' | 'SELL'
-      type: 'MARKET' | 'LIMIT'
-      quantity?: string
-      quoteOrderQty?: string
-      price?: string
-    },
+    payload: PreflightOrder,
     filter: ExchangeInfoFilter | undefined,
     symbol: string,
     quoteAsset: string,
@@ -590,8 +1027,13 @@ export class BinanceSpotClientService {
     const minNotional = new Big(filter.minNotional)
     let notional: Big | null = null
 
-    if (payload.type === 'LIMIT' && payload.price && payload.quantity) {
-      notional = new Big(payload.price).times(payload.quantity)
+    const executionPrices = this.getExecutionPrices(payload)
+    if (executionPrices.length > 0 && payload.quantity) {
+      // Every OCO leg has to clear the minimum on its own.
+      const lowest = executionPrices.reduce((min, value) =>
+        value.lt(min) ? value : min,
+      )
+      notional = lowest.times(payload.quantity)
     }
 
     if (payload.type === 'MARKET') {
@@ -626,16 +1068,27 @@ export class BinanceSpotClientService {
     }
   }
 
+  /** Prices the order can fill at; empty for MARKET orders. */
+  private getExecutionPrices(payload: PreflightOrder) {
+    if (payload.type === 'MARKET' || !payload.price) {
+      return []
+    }
+    if (payload.type === 'OCO') {
+      const stopLegPrice = payload.stopLimitPrice ?? payload.stopPrice
+      return stopLegPrice
+        ? [new Big(payload.price), new Big(stopLegPrice)]
+        : [new Big(payload.price)]
+    }
+    return [new Big(payload.price)]
+  }
+
   private isStepAligned(value: Big, step: Big) {
     if (step.eq(0)) return true
     const steps = value.div(step)
     return steps.round(0, 0).eq(steps)
   }
 
-  private async getAccountBalances(credentials: {
-    apiKey: string
-    apiSecret: string
-  }) {
+  private async getAccountBalances(credentials: ExchangeApiCredentials) {
     const data = await this.signedRequest<{
       balances?: Array<{ asset: string; free: string }>
     }>('GET', '/api/v3/account', credentials)
@@ -651,7 +1104,14 @@ export class BinanceSpotClientService {
     return map
   }
 
-  private getBaseUrl() {
+  /** Market data always comes from mainnet; testnet prices are synthetic. */
+  private getBaseUrl(environment?: ExchangeEnvironment) {
+    if (environment === 'TESTNET') {
+      return (
+        this.configService.get<string>('BINANCE_SPOT_TESTNET_BASE_URL') ??
+        DEFAULT_BINANCE_TESTNET_BASE_URL
+      )
+    }
     return (
       this.configService.get<string>('BINANCE_SPOT_BASE_URL') ??
       DEFAULT_BINANCE_BASE_URL
@@ -665,6 +1125,9 @@ export class BinanceSpotClientService {
         return 'Invalid API key, IP restriction, or missing permissions.'
       }
       if (data?.code === -2010) {
+        if (data?.msg?.includes('trigger immediately')) {
+          return this.sanitizeMessage(data.msg)
+        }
         if (data?.msg?.includes('Filter failure:')) {
           const filter = this.parseFilterFailure(data.msg)
           if (filter) {
@@ -704,7 +1167,10 @@ export class BinanceSpotClientService {
       filter === 'LOT_SIZE' ||
       filter === 'PRICE_FILTER'
     ) {
-      return filter as 'NOTIONAL' | 'LOT_SIZE' | 'PRICE_FILTER'
+      return filter as BinanceFilterName
+    }
+    if (filter === 'PERCENT_PRICE' || filter === 'PERCENT_PRICE_BY_SIDE') {
+      return 'PERCENT_PRICE'
     }
     return null
   }
@@ -13,18 +13,25 @@ import {
 } from '@nestjs/common'
 import { Request } from 'express'
 
+import { Audited } from '../audit/audited.decorator'
 import { JwtAuthGuard } from '../auth/jwt-auth.guard'
+import { StepUpGuard } from '../auth/step-up.guard'
 import { ZodValidationPipe } from '../common/zod-validation.pipe'
+import { credentialProfileIdSchema } from '../exchanges/dto/exchanges.schemas'
 import {
+  binanceSpotCancelOrderListSchema,
   binanceSpotCancelOrderSchema,
   binanceSpotCancelReplaceSchema,
   binanceSpotMyTradesSchema,
+  binanceSpotOcoOrderSchema,
   binanceSpotOpenOrdersSchema,
   binanceSpotPlaceOrderSchema,
   binanceSpotQueryOrderSchema,
   type BinanceSpotCancelOrderDto,
+  type BinanceSpotCancelOrderListDto,
   type BinanceSpotCancelReplaceDto,
   type BinanceSpotMyTradesQuery,
+  type BinanceSpotOcoOrderDto,
   type BinanceSpotOpenOrdersQuery,
   type BinanceSpotPlaceOrderDto,
   type BinanceSpotQueryOrderQuery,
@@ -33,17 +40,40 @@ import {
   BinanceFilterException,
   BinanceSpotClientService,
 } from './binance-spot-client.service'
+import { BinanceUserStreamService } from './binance-user-stream.service'
+
+// Selects the credential profile; the default one when omitted.
+const profileIdQuery = new ZodValidationPipe(
+  credentialProfileIdSchema.optional(),
+)
 
 @UseGuards(JwtAuthGuard)
 @Controller('binance/spot')
 export class BinanceSpotController {
-  constructor(private binanceSpotClient: BinanceSpotClientService) {}
+  constructor(
+    private binanceSpotClient: BinanceSpotClientService,
+    private binanceUserStream: BinanceUserStreamService,
+  ) {}
+
+  @Get('user-stream')
+  getUserStreamStatus(
+    @Req() req: Request,
+    @Query('profileId', profileIdQuery) profileId?: string,
+  ) {
+    const user = req.user as { id: string }
+    return {
+      connected: this.binanceUserStream.isConnected(user.id, profileId),
+    }
+  }
 
   @Get('account')
-  async getAccount(@Req() req: Request) {
+  async getAccount(
+    @Req() req: Request,
+    @Query('profileId', profileIdQuery) profileId?: string,
+  ) {
     const user = req.user as { id: string }
     try {
-      return await this.binanceSpotClient.getAccount(user.id)
+      return await this.binanceSpotClient.getAccount(user.id, profileId)
     } catch (error) {
       this.handleBinanceError(error)
     }
@@ -54,66 +84,158 @@ export class BinanceSpotController {
     @Req() req: Request,
     @Query(new ZodValidationPipe(binanceSpotOpenOrdersSchema))
     query: BinanceSpotOpenOrdersQuery,
+    @Query('profileId', profileIdQuery) profileId?: string,
   ) {
     const user = req.user as { id: string }
     try {
-      return await this.binanceSpotClient.openOrders(user.id, query.symbol)
+      return await this.binanceSpotClient.openOrders(
+        user.id,
+        query.symbol,
+        profileId,
+      )
     } catch (error) {
       this.handleBinanceError(error)
     }
   }
 
+  @UseGuards(StepUpGuard)
+  @Audited({ action: 'spot.order.placed', recordResponse: true })
   @Post('order')
   async placeOrder(
     @Req() req: Request,
     @Body(new ZodValidationPipe(binanceSpotPlaceOrderSchema))
     body: BinanceSpotPlaceOrderDto,
+    @Query('profileId', profileIdQuery) profileId?: string,
   ) {
     const user = req.user as { id: string }
     const payload = {
       ...body,
       symbol: body.symbol.trim().toUpperCase(),
       timeInForce:
-        body.type === 'LIMIT' ? (body.timeInForce ?? 'GTC') : undefined,
+        body.type === 'MARKET' || body.type === 'LIMIT_MAKER'
+          ? undefined
+          : (body.timeInForce ?? 'GTC'),
     }
 
     try {
-      return await this.binanceSpotClient.placeOrder(user.id, payload)
+      return await this.binanceSpotClient.placeOrder(
+        user.id,
+        payload,
+        profileId,
+      )
     } catch (error) {
       this.handleBinanceError(error)
     }
   }
 
+  @Audited({ action: 'spot.order.cancelled', recordResponse: true })
   @Delete('order')
   async cancelOrder(
     @Req() req: Request,
     @Body(new ZodValidationPipe(binanceSpotCancelOrderSchema))
     body: BinanceSpotCancelOrderDto,
+    @Query('profileId', profileIdQuery) profileId?: string,
   ) {
     const user = req.user as { id: string }
     try {
-      return await this.binanceSpotClient.cancelOrder(user.id, body)
+      return await this.binanceSpotClient.cancelOrder(user.id, body, profileId)
     } catch (error) {
       this.handleBinanceError(error)
     }
   }
 
+  @UseGuards(StepUpGuard)
+  @Audited({ action: 'spot.order.replaced', recordResponse: true })
   @Post('order/cancel-replace')
   async cancelReplaceOrder(
     @Req() req: Request,
     @Body(new ZodValidationPipe(binanceSpotCancelReplaceSchema))
     body: BinanceSpotCancelReplaceDto,
+    @Query('profileId', profileIdQuery) profileId?: string,
   ) {
     const user = req.user as { id: string }
     const payload = {
       ...body,
       symbol: body.symbol.trim().toUpperCase(),
-      timeInForce: body.timeInForce ?? 'GTC',
+      timeInForce:
+        body.type === 'LIMIT_MAKER' ? undefined : (body.timeInForce ?? 'GTC'),
       cancelReplaceMode: body.cancelReplaceMode ?? 'STOP_ON_FAILURE',
     }
 
     try {
-      return await this.binanceSpotClient.cancelReplaceOrder(user.id, payload)
+      return await this.binanceSpotClient.cancelReplaceOrder(
+        user.id,
+        payload,
+        profileId,
+      )
+    } catch (error) {
+      this.handleBinanceError(error)
+    }
+  }
+
+  @Get('order-lists')
+  async openOrderLists(
+    @Req() req: Request,
+    @Query(new ZodValidationPipe(binanceSpotOpenOrdersSchema))
+    query: BinanceSpotOpenOrdersQuery,
+    @Query('profileId', profileIdQuery) profileId?: string,
+  ) {
+    const user = req.user as { id: string }
+    try {
+      return await this.binanceSpotClient.openOrderLists(
+        user.id,
+        query.symbol,
+        profileId,
+      )
+    } catch (error) {
+      this.handleBinanceError(error)
+    }
+  }
+
+  @UseGuards(StepUpGuard)
+  @Audited({ action: 'spot.oco.placed', recordResponse: true })
+  @Post('order-list/oco')
+  async placeOcoOrder(
+    @Req() req: Request,
+    @Body(new ZodValidationPipe(binanceSpotOcoOrderSchema))
+    body: BinanceSpotOcoOrderDto,
+    @Query('profileId', profileIdQuery) profileId?: string,
+  ) {
+    const user = req.user as { id: string }
+    const payload = {
+      ...body,
+      symbol: body.symbol.trim().toUpperCase(),
+      stopLimitTimeInForce: body.stopLimitPrice
+        ? (body.stopLimitTimeInForce ?? 'GTC')
+        : undefined,
+    }
+
+    try {
+      return await this.binanceSpotClient.placeOcoOrder(
+        user.id,
+        payload,
+        profileId,
+      )
+    } catch (error) {
+      this.handleBinanceError(error)
+    }
+  }
+
+  @Audited({ action: 'spot.oco.cancelled', recordResponse: true })
+  @Delete('order-list')
+  async cancelOrderList(
+    @Req() req: Request,
+    @Body(new ZodValidationPipe(binanceSpotCancelOrderListSchema))
+    body: BinanceSpotCancelOrderListDto,
+    @Query('profileId', profileIdQuery) profileId?: string,
+  ) {
+    const user = req.user as { id: string }
+    try {
+      return await this.binanceSpotClient.cancelOrderList(
+        user.id,
+        body,
+        profileId,
+      )
     } catch (error) {
       this.handleBinanceError(error)
     }
@@ -124,10 +246,11 @@ export class BinanceSpotController {
     @Req() req: Request,
     @Query(new ZodValidationPipe(binanceSpotQueryOrderSchema))
     query: BinanceSpotQueryOrderQuery,
+    @Query('profileId', profileIdQuery) profileId?: string,
   ) {
     const user = req.user as { id: string }
     try {
-      return await this.binanceSpotClient.queryOrder(user.id, query)
+      return await this.binanceSpotClient.queryOrder(user.id, query, profileId)
     } catch (error) {
       this.handleBinanceError(error)
     }
@@ -138,10 +261,11 @@ export class BinanceSpotController {
     @Req() req: Request,
     @Query(new ZodValidationPipe(binanceSpotMyTradesSchema))
     query: BinanceSpotMyTradesQuery,
+    @Query('profileId', profileIdQuery) profileId?: string,
   ) {
     const user = req.user as { id: string }
     try {
-      return await this.binanceSpotClient.getMyTrades(user.id, query)
+      return await this.binanceSpotClient.getMyTrades(user.id, query, profileId)
     } catch (error) {
       this.handleBinanceError(error)
     }
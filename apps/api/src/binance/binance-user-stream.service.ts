@@ -0,0 +1,365 @@
+import {
+  Injectable,
+  Logger,
+  type OnModuleDestroy,
+  type OnModuleInit,
+} from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { Subject, type Observable } from 'rxjs'
+import WebSocket from 'ws'
+
+import { EventsService } from '../events/events.service'
+import type { ExchangeEnvironment } from '../exchanges/exchange-adapter'
+import { BinanceSpotClientService } from './binance-spot-client.service'
+import { BinanceService } from './binance.service'
+
+const DEFAULT_KEEPALIVE_MS = 30 * 60 * 1000
+const RECONNECT_BASE_MS = 5 * 1000
+const RECONNECT_MAX_MS = 5 * 60 * 1000
+
+/** An `executionReport` in readable field names; `trade` is set for fills. */
+export type BinanceExecutionReport = {
+  symbol: string
+  orderId: number
+  // Original client order id, also for cancels which get a new `c`.
+  clientOrderId: string
+  side: 'BUY' | 'SELL'
+  orderType: string
+  executionType: string
+  orderStatus: string
+  price: string
+  origQty: string
+  executedQty: string
+  cumulativeQuoteQty: string
+  eventTime: number
+  trade?: {
+    id: number
+    orderId: number
+    price: string
+    qty: string
+    quoteQty: string
+    commission: string
+    commissionAsset: string
+    time: number
+    isBuyer: boolean
+    isMaker: boolean
+  }
+}
+
+export type BinanceUserStreamEvent = {
+  type: 'executionReport'
+  userId: string
+  profileId: string
+  report: BinanceExecutionReport
+}
+
+type UserStream = {
+  userId: string
+  profileId: string
+  listenKey: string | null
+  socket: WebSocket | null
+  keepAliveTimer: NodeJS.Timeout | null
+  reconnectTimer: NodeJS.Timeout | null
+  failures: number
+  stopped: boolean
+}
+
+type RawStreamEvent = Record<string, unknown> & { e?: string }
+
+/**
+ * Keeps one Binance user data stream per credential profile: creates the
+ * listenKey, keeps it alive, reconnects with backoff, republishes
+ * `executionReport` events and sends fills and balance changes to the user's
+ * `/events` stream. Set
+ * `BINANCE_USER_STREAM_ENABLED=false` to turn it off.
+ */
+@Injectable()
+export class BinanceUserStreamService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(BinanceUserStreamService.name)
+  // Keyed by credential profile id.
+  private readonly streams = new Map<string, UserStream>()
+  private readonly events$ = new Subject<BinanceUserStreamEvent>()
+
+  constructor(
+    private binanceService: BinanceService,
+    private binanceSpotClient: BinanceSpotClientService,
+    private configService: ConfigService,
+    private eventsService: EventsService,
+  ) {}
+
+  onModuleInit() {
+    if (!this.isEnabled()) return
+    void this.startAll()
+  }
+
+  async onModuleDestroy() {
+    await Promise.all(
+      [...this.streams.keys()].map((profileId) => this.stop(profileId)),
+    )
+    this.events$.complete()
+  }
+
+  events(): Observable<BinanceUserStreamEvent> {
+    return this.events$.asObservable()
+  }
+
+  /** Whether the profile's stream, or any of the user's streams, is open. */
+  isConnected(userId: string, profileId?: string) {
+    return [...this.streams.values()].some(
+      (stream) =>
+        stream.userId === userId &&
+        (profileId === undefined || stream.profileId === profileId) &&
+        stream.socket?.readyState === WebSocket.OPEN,
+    )
+  }
+
+  async start(userId: string, profileId: string) {
+    if (!this.isEnabled() || this.streams.has(profileId)) return
+    const stream: UserStream = {
+      userId,
+      profileId,
+      listenKey: null,
+      socket: null,
+      keepAliveTimer: null,
+      reconnectTimer: null,
+      failures: 0,
+      stopped: false,
+    }
+    this.streams.set(profileId, stream)
+    await this.connect(stream)
+  }
+
+  /** Reconnects with a fresh listenKey, e.g. after the API keys changed. */
+  async restart(userId: string, profileId: string) {
+    await this.stop(profileId)
+    await this.start(userId, profileId)
+  }
+
+  async stop(profileId: string) {
+    const stream = this.streams.get(profileId)
+    if (!stream) return
+    this.streams.delete(profileId)
+    stream.stopped = true
+    this.clearTimers(stream)
+    stream.socket?.close()
+    stream.socket = null
+    if (stream.listenKey) {
+      try {
+        await this.binanceSpotClient.closeListenKey(
+          stream.userId,
+          stream.listenKey,
+          profileId,
+        )
+      } catch {
+        // An abandoned listenKey expires on its own after 60 minutes.
+      }
+    }
+  }
+
+  private isEnabled() {
+    return this.configService.get('BINANCE_USER_STREAM_ENABLED') !== 'false'
+  }
+
+  private async startAll() {
+    try {
+      const profiles = await this.binanceService.listProfiles()
+      await Promise.all(
+        profiles.map((profile) =>
+          this.start(profile.userId, profile.profileId),
+        ),
+      )
+    } catch (error) {
+      this.logger.warn(
+        `User streams not started: ${error instanceof Error ? error.message : error}`,
+      )
+    }
+  }
+
+  private async connect(stream: UserStream) {
+    const { userId, profileId } = stream
+    let environment: ExchangeEnvironment
+    try {
+      const profile = await this.binanceService.getCredentials(
+        userId,
+        profileId,
+      )
+      if (!profile) {
+        await this.stop(profileId)
+        return
+      }
+      environment = profile.environment
+      // Binance hands back the active key if the profile already has one.
+      stream.listenKey = await this.binanceSpotClient.createListenKey(
+        userId,
+        profileId,
+      )
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      if (message === 'Binance keys not configured') {
+        await this.stop(profileId)
+        return
+      }
+      this.logger.warn(`User stream ${profileId}: ${message}`)
+      this.scheduleReconnect(stream)
+      return
+    }
+    if (stream.stopped) return
+
+    const socket = new WebSocket(
+      this.binanceSpotClient.getUserStreamUrl(stream.listenKey, environment),
+    )
+    stream.socket = socket
+    socket.on('open', () => {
+      stream.failures = 0
+    })
+    socket.on('message', (data) => {
+      this.handleMessage(stream, data.toString())
+    })
+    socket.on('error', (error) => {
+      this.logger.warn(`User stream ${profileId}: ${error.message}`)
+    })
+    socket.on('close', () => {
+      if (stream.socket !== socket) return
+      stream.socket = null
+      this.scheduleReconnect(stream)
+    })
+
+    const keepAliveMs = Number(
+      this.configService.get('BINANCE_USER_STREAM_KEEPALIVE_MS') ??
+        DEFAULT_KEEPALIVE_MS,
+    )
+    stream.keepAliveTimer = setInterval(
+      () => void this.keepAlive(stream),
+      Number.isFinite(keepAliveMs) && keepAliveMs > 0
+        ? keepAliveMs
+        : DEFAULT_KEEPALIVE_MS,
+    )
+    stream.keepAliveTimer.unref()
+  }
+
+  private async keepAlive(stream: UserStream) {
+    if (!stream.listenKey) return
+    try {
+      await this.binanceSpotClient.keepAliveListenKey(
+        stream.userId,
+        stream.listenKey,
+        stream.profileId,
+      )
+    } catch (error) {
+      this.logger.warn(
+        `User stream ${stream.profileId} keepalive failed: ${error instanceof Error ? error.message : error}`,
+      )
+      // Closing triggers a reconnect with a new listenKey.
+      stream.socket?.close()
+    }
+  }
+
+  private scheduleReconnect(stream: UserStream) {
+    if (stream.stopped || stream.reconnectTimer) return
+    this.clearTimers(stream)
+    const delay = Math.min(
+      RECONNECT_BASE_MS * 2 ** stream.failures,
+      RECONNECT_MAX_MS,
+    )
+    stream.failures += 1
+    stream.reconnectTimer = setTimeout(() => {
+      stream.reconnectTimer = null
+      void this.connect(stream)
+    }, delay)
+    stream.reconnectTimer.unref()
+  }
+
+  private clearTimers(stream: UserStream) {
+    if (stream.keepAliveTimer) {
+      clearInterval(stream.keepAliveTimer)
+      stream.keepAliveTimer = null
+    }
+    if (stream.reconnectTimer) {
+      clearTimeout(stream.reconnectTimer)
+      stream.reconnectTimer = null
+    }
+  }
+
+  private handleMessage(stream: UserStream, raw: string) {
+    const { userId, profileId } = stream
+    let event: RawStreamEvent
+    try {
+      event = JSON.parse(raw) as RawStreamEvent
+    } catch {
+      return
+    }
+
+    switch (event.e) {
+      case 'executionReport': {
+        const report = this.parseExecutionReport(event)
+        this.events$.next({
+          type: 'executionReport',
+          userId,
+          profileId,
+          report,
+        })
+        this.eventsService.emit(userId, {
+          type: report.trade ? 'order.filled' : 'order.updated',
+          exchange: 'BINANCE',
+          profileId,
+          symbol: report.symbol,
+          orderId: report.orderId,
+          clientOrderId: report.clientOrderId,
+          side: report.side,
+          status: report.orderStatus,
+          executedQty: report.executedQty,
+        })
+        return
+      }
+      case 'outboundAccountPosition':
+      case 'balanceUpdate':
+        this.binanceSpotClient.invalidateAccount(profileId)
+        this.eventsService.emit(userId, {
+          type: 'balance.updated',
+          exchange: 'BINANCE',
+          profileId,
+        })
+        return
+      case 'listenKeyExpired':
+        stream.socket?.close()
+        return
+      default:
+        return
+    }
+  }
+
+  private parseExecutionReport(event: RawStreamEvent): BinanceExecutionReport {
+    const text = (key: string) => String(event[key] ?? '')
+    const side = text('S') === 'SELL' ? 'SELL' : 'BUY'
+    const orderId = Number(event.i)
+    const report: BinanceExecutionReport = {
+      symbol: text('s'),
+      orderId,
+      clientOrderId: text('C') || text('c'),
+      side,
+      orderType: text('o'),
+      executionType: text('x'),
+      orderStatus: text('X'),
+      price: text('p'),
+      origQty: text('q'),
+      executedQty: text('z'),
+      cumulativeQuoteQty: text('Z'),
+      eventTime: Number(event.E),
+    }
+    if (report.executionType === 'TRADE') {
+      report.trade = {
+        id: Number(event.t),
+        orderId,
+        price: text('L'),
+        qty: text('l'),
+        quoteQty: text('Y'),
+        commission: text('n') || '0',
+        commissionAsset: text('N'),
+        time: Number(event.T),
+        isBuyer: side === 'BUY',
+        isMaker: Boolean(event.m),
+      }
+    }
+    return report
+  }
+}
@@ -10,18 +10,34 @@ import {
 } from '@nestjs/common'
 import { Request } from 'express'
 
+import { Audited, auditUserId } from '../audit/audited.decorator'
 import { JwtAuthGuard } from '../auth/jwt-auth.guard'
+import { StepUpGuard } from '../auth/step-up.guard'
 import { ZodValidationPipe } from '../common/zod-validation.pipe'
+import { ExchangeCredentials } from '../exchange-credentials/schemas/exchange-credentials.schema'
 import {
   binanceCredentialsSchema,
   type BinanceCredentialsDto,
 } from './dto/binance.schemas'
 import { BinanceService } from './binance.service'
+import { BinanceUserStreamService } from './binance-user-stream.service'
 
+// All Binance profiles of the user: changing the default one can move the
+// default flag to another.
+const credentialsTarget = {
+  type: 'exchangeCredentials',
+  model: ExchangeCredentials.name,
+  filter: (req: Request) => ({ userId: auditUserId(req), exchange: 'BINANCE' }),
+}
+
+/** The user's default Binance profile; `/exchanges` manages all of them. */
 @UseGuards(JwtAuthGuard)
 @Controller('binance/credentials')
 export class BinanceController {
-  constructor(private binanceService: BinanceService) {}
+  constructor(
+    private binanceService: BinanceService,
+    private binanceUserStream: BinanceUserStreamService,
+  ) {}
 
   @Get()
   async getCredentials(@Req() req: Request) {
@@ -41,6 +57,8 @@ export class BinanceController {
     }
   }
 
+  @UseGuards(StepUpGuard)
+  @Audited({ action: 'credentials.upserted', target: credentialsTarget })
   @Put()
   async upsertCredentials(
     @Req() req: Request,
@@ -48,18 +66,28 @@ export class BinanceController {
     body: BinanceCredentialsDto,
   ) {
     const user = req.user as { id: string }
-    await this.binanceService.upsertCredentials(
+    const profile = await this.binanceService.upsertCredentials(
       user.id,
       body.apiKey,
       body.apiSecret,
     )
+    if (profile) {
+      void this.binanceUserStream.restart(user.id, String(profile._id))
+    }
 
     return { ok: true }
   }
 
+  @UseGuards(StepUpGuard)
+  @Audited({ action: 'credentials.deleted', target: credentialsTarget })
   @Delete()
   async deleteCredentials(@Req() req: Request) {
     const user = req.user as { id: string }
+    const profile = await this.binanceService.getCredentials(user.id)
+    if (profile) {
+      // The listenKey can only be closed while the keys still exist.
+      await this.binanceUserStream.stop(String(profile._id))
+    }
     await this.binanceService.deleteCredentials(user.id)
     return { ok: true }
   }
@@ -1,24 +1,21 @@
 import { Module } from '@nestjs/common'
-import { MongooseModule } from '@nestjs/mongoose'
 
-import { EncryptionService } from '../common/encryption.service'
+import { EventsModule } from '../events/events.module'
+import { ExchangeCredentialsModule } from '../exchange-credentials/exchange-credentials.module'
 import { BinanceController } from './binance.controller'
 import { BinanceSpotController } from './binance-spot.controller'
 import { BinanceSpotClientService } from './binance-spot-client.service'
 import { BinanceService } from './binance.service'
-import {
-  BinanceCredentials,
-  BinanceCredentialsSchema,
-} from './schemas/binance-credentials.schema'
+import { BinanceUserStreamService } from './binance-user-stream.service'
 
 @Module({
-  imports: [
-    MongooseModule.forFeature([
-      { name: BinanceCredentials.name, schema: BinanceCredentialsSchema },
-    ]),
-  ],
+  imports: [ExchangeCredentialsModule, EventsModule],
   controllers: [BinanceController, BinanceSpotController],
-  providers: [BinanceService, BinanceSpotClientService, EncryptionService],
-  exports: [BinanceSpotClientService],
+  providers: [
+    BinanceService,
+    BinanceSpotClientService,
+    BinanceUserStreamService,
+  ],
+  exports: [BinanceService, BinanceSpotClientService, BinanceUserStreamService],
 })
 export class BinanceModule {}
@@ -1,86 +1,82 @@
 import { Injectable } from '@nestjs/common'
 import { ConfigService } from '@nestjs/config'
-import { InjectModel } from '@nestjs/mongoose'
 import { createHmac } from 'node:crypto'
-import { Model } from 'mongoose'
 
-import { EncryptionService } from '../common/encryption.service'
-import {
-  BinanceCredentials,
-  type BinanceCredentialsDocument,
-} from './schemas/binance-credentials.schema'
-
-type BinanceTestResult = { ok: true } | { ok: false; message: string }
+import { ExchangeCredentialsService } from '../exchange-credentials/exchange-credentials.service'
+import type {
+  ExchangeApiCredentials,
+  ExchangeCredentialsTestResult,
+  ExchangeEnvironment,
+} from '../exchanges/exchange-adapter'
 
 const DEFAULT_BINANCE_BASE_URL = 'https://api.binance.com'
+const DEFAULT_BINANCE_TESTNET_BASE_URL = 'https://testnet.binance.vision'
 const DEFAULT_RECV_WINDOW = 5000
 
+/** Binance view of the per-exchange credential store. */
 @Injectable()
 export class BinanceService {
   constructor(
-    @InjectModel(BinanceCredentials.name)
-    private binanceModel: Model<BinanceCredentialsDocument>,
-    private encryptionService: EncryptionService,
+    private credentialsService: ExchangeCredentialsService,
     private configService: ConfigService,
   ) {}
 
-  async getCredentials(userId: string) {
-    return this.binanceModel.findOne({ userId })
+  async getCredentials(userId: string, profileId?: string) {
+    return this.credentialsService.getCredentials(userId, 'BINANCE', profileId)
   }
 
-  async getDecryptedCredentials(userId: string) {
-    const credentials = await this.binanceModel.findOne({ userId })
-    if (!credentials) {
-      return null
-    }
+  async listProfiles(userId?: string) {
+    return this.credentialsService.listProfiles('BINANCE', userId)
+  }
 
-    const apiKey = this.encryptionService.decrypt(credentials.apiKeyEnc, userId)
-    const apiSecret = this.encryptionService.decrypt(
-      credentials.apiSecretEnc,
+  async getDecryptedCredentials(userId: string, profileId?: string) {
+    return this.credentialsService.getDecryptedCredentials(
       userId,
+      'BINANCE',
+      profileId,
     )
-
-    return { apiKey, apiSecret }
   }
 
   async upsertCredentials(userId: string, apiKey: string, apiSecret: string) {
-    const apiKeyEnc = this.encryptionService.encrypt(apiKey, userId)
-    const apiSecretEnc = this.encryptionService.encrypt(apiSecret, userId)
-    const apiKeyLast4 = apiKey.slice(-4)
-
-    return this.binanceModel.findOneAndUpdate(
-      { userId },
-      {
-        $set: { apiKeyEnc, apiSecretEnc, apiKeyLast4 },
-        $unset: { lastTestedAt: '', lastTestOk: '', lastTestError: '' },
-      },
-      { new: true, upsert: true, setDefaultsOnInsert: true },
+    return this.credentialsService.upsertCredentials(
+      userId,
+      'BINANCE',
+      apiKey,
+      apiSecret,
     )
   }
 
   async deleteCredentials(userId: string) {
-    return this.binanceModel.findOneAndDelete({ userId })
+    return this.credentialsService.deleteCredentials(userId, 'BINANCE')
   }
 
-  async testCredentials(userId: string): Promise<BinanceTestResult> {
-    const credentials = await this.binanceModel.findOne({ userId })
+  async testCredentials(
+    userId: string,
+  ): Promise<ExchangeCredentialsTestResult> {
+    const credentials = await this.getCredentials(userId)
     if (!credentials) {
       return { ok: false, message: 'Binance credentials not found.' }
     }
 
-    const apiKey = this.encryptionService.decrypt(credentials.apiKeyEnc, userId)
-    const apiSecret = this.encryptionService.decrypt(
-      credentials.apiSecretEnc,
-      userId,
+    const result = await this.checkCredentials(
+      this.credentialsService.decrypt(credentials),
     )
+    await this.credentialsService.recordTestResult(credentials, result)
+    return result
+  }
 
+  async checkCredentials({
+    apiKey,
+    apiSecret,
+    environment,
+  }: ExchangeApiCredentials): Promise<ExchangeCredentialsTestResult> {
     try {
-      const timestamp = await this.getServerTime()
+      const timestamp = await this.getServerTime(environment)
       const queryString = `timestamp=${timestamp}&recvWindow=${DEFAULT_RECV_WINDOW}`
       const signature = createHmac('sha256', apiSecret)
         .update(queryString)
         .digest('hex')
-      const url = `${this.getBaseUrl()}/api/v3/account?${queryString}&signature=${signature}`
+      const url = `${this.getBaseUrl(environment)}/api/v3/account?${queryString}&signature=${signature}`
       const response = await fetch(url, {
         method: 'GET',
         headers: {
@@ -89,45 +85,24 @@ export class BinanceService {
       })
 
       if (!response.ok) {
-        const message = await this.extractBinanceError(response)
-        await this.updateTestStatus(credentials, false, message)
-        return { ok: false, message }
+        return { ok: false, message: await this.extractBinanceError(response) }
       }
-
-      await this.updateTestStatus(credentials, true)
       return { ok: true }
     } catch (error) {
-      const message =
-        error instanceof Error
-          ? error.message
-          : 'Failed to test Binance credentials.'
-      await this.updateTestStatus(credentials, false, message)
-      return { ok: false, message }
-    }
-  }
-
-  private async updateTestStatus(
-    credentials: BinanceCredentialsDocument,
-    ok: boolean,
-    errorMessage?: string,
-  ) {
-    const update: Partial<BinanceCredentials> = {
-      lastTestedAt: new Date(),
-      lastTestOk: ok,
-    }
-
-    if (ok) {
-      update.lastTestError = undefined
-    } else {
-      update.lastTestError = this.sanitizeErrorMessage(errorMessage)
+      return {
+        ok: false,
+        message:
+          error instanceof Error
+            ? error.message
+            : 'Failed to test Binance credentials.',
+      }
     }
-
-    credentials.set(update)
-    await credentials.save()
   }
 
-  private async getServerTime(): Promise<number> {
-    const response = await fetch(`${this.getBaseUrl()}/api/v3/time`)
+  private async getServerTime(
+    environment?: ExchangeEnvironment,
+  ): Promise<number> {
+    const response = await fetch(`${this.getBaseUrl(environment)}/api/v3/time`)
     if (!response.ok) {
       throw new Error('Failed to fetch Binance server time.')
     }
@@ -135,7 +110,13 @@ export class BinanceService {
     return typeof data.serverTime === 'number' ? data.serverTime : Date.now()
   }
 
-  private getBaseUrl() {
+  private getBaseUrl(environment?: ExchangeEnvironment) {
+    if (environment === 'TESTNET') {
+      return (
+        this.configService.get<string>('BINANCE_SPOT_TESTNET_BASE_URL') ??
+        DEFAULT_BINANCE_TESTNET_BASE_URL
+      )
+    }
     return (
       this.configService.get<string>('BINANCE_SPOT_BASE_URL') ??
       DEFAULT_BINANCE_BASE_URL
@@ -157,9 +138,4 @@ export class BinanceService {
 
     return `Binance request failed (${response.status}).`
   }
-
-  private sanitizeErrorMessage(message?: string) {
-    if (!message) return 'Binance request failed.'
-    return message.slice(0, 500)
-  }
 }
@@ -20,6 +20,77 @@ const decimalStringSchema = z
   .regex(/^\d+(\.\d+)?$/, 'Value must be a decimal string')
   .refine((value) => Number(value) > 0, 'Value must be greater than 0')
 
+const spotOrderTypeSchema = z.enum([
+  'MARKET',
+  'LIMIT',
+  'STOP_LOSS_LIMIT',
+  'TAKE_PROFIT_LIMIT',
+  'LIMIT_MAKER',
+])
+
+const timeInForceSchema = z.enum(['GTC', 'IOC', 'FOK'])
+
+// Binance accepts up to 36 characters from this set for client order ids.
+const clientOrderIdSchema = z
+  .string()
+  .trim()
+  .regex(
+    /^[.A-Z:/a-z0-9_-]{1,36}$/,
+    'newClientOrderId must be 1-36 letters, digits or ._:/-',
+  )
+
+const STOP_ORDER_TYPES = ['STOP_LOSS_LIMIT', 'TAKE_PROFIT_LIMIT']
+
+// Shared rules for every order type that rests on the book at a price.
+const addPricedOrderIssues = (
+  values: {
+    type: z.infer<typeof spotOrderTypeSchema>
+    quantity?: string
+    price?: string
+    stopPrice?: string
+    timeInForce?: string
+  },
+  ctx: z.RefinementCtx,
+) => {
+  if (!values.quantity) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `quantity is required for ${values.type} orders`,
+      path: ['quantity'],
+    })
+  }
+  if (!values.price) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `price is required for ${values.type} orders`,
+      path: ['price'],
+    })
+  }
+  // LIMIT_MAKER is post-only and never takes a time in force.
+  if (values.type === 'LIMIT_MAKER' && values.timeInForce) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'timeInForce is not allowed for LIMIT_MAKER orders',
+      path: ['timeInForce'],
+    })
+  }
+  if (STOP_ORDER_TYPES.includes(values.type)) {
+    if (!values.stopPrice) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `stopPrice is required for ${values.type} orders`,
+        path: ['stopPrice'],
+      })
+    }
+  } else if (values.stopPrice) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `stopPrice is not allowed for ${values.type} orders`,
+      path: ['stopPrice'],
+    })
+  }
+}
+
 const orderIdSchema = z
   .union([z.string(), z.number()])
   .transform((value) => String(value))
@@ -46,6 +117,11 @@ export const binanceSpotQueryOrderSchema = z
 
 export const binanceSpotCancelOrderSchema = binanceSpotQueryOrderSchema
 
+export const binanceSpotCancelOrderListSchema = z.object({
+  symbol: symbolSchema,
+  orderListId: orderIdSchema,
+})
+
 export const binanceSpotCancelReplaceSchema = z
   .object({
     symbol: symbolSchema,
@@ -53,12 +129,14 @@ export const binanceSpotCancelReplaceSchema = z
     cancelOrigClientOrderId: z.string().trim().optional(),
     cancelReplaceMode: z.literal('STOP_ON_FAILURE').optional(),
     side: z.enum(['BUY', 'SELL']),
-    type: z.literal('LIMIT'),
+    type: spotOrderTypeSchema.exclude(['MARKET']),
     quantity: decimalStringSchema,
     price: decimalStringSchema,
-    timeInForce: z.literal('GTC').optional(),
+    stopPrice: decimalStringSchema.optional(),
+    timeInForce: timeInForceSchema.optional(),
   })
   .superRefine((values, ctx) => {
+    addPricedOrderIssues(values, ctx)
     const hasOrderId = Boolean(values.cancelOrderId)
     const hasOrigClientOrderId = Boolean(values.cancelOrigClientOrderId)
     if (hasOrderId === hasOrigClientOrderId) {
@@ -83,39 +161,28 @@ export const binanceSpotPlaceOrderSchema = z
   .object({
     symbol: symbolSchema,
     side: z.enum(['BUY', 'SELL']),
-    type: z.enum(['MARKET', 'LIMIT']),
+    type: spotOrderTypeSchema,
     quantity: decimalStringSchema.optional(),
     quoteOrderQty: decimalStringSchema.optional(),
     price: decimalStringSchema.optional(),
-    timeInForce: z.literal('GTC').optional(),
+    stopPrice: decimalStringSchema.optional(),
+    timeInForce: timeInForceSchema.optional(),
+    newClientOrderId: clientOrderIdSchema.optional(),
   })
   .superRefine((values, ctx) => {
-    if (values.type === 'LIMIT') {
-      if (!values.quantity) {
-        ctx.addIssue({
-          code: z.ZodIssueCode.custom,
-          message: 'quantity is required for LIMIT orders',
-          path: ['quantity'],
-        })
-      }
-      if (!values.price) {
-        ctx.addIssue({
-          code: z.ZodIssueCode.custom,
-          message: 'price is required for LIMIT orders',
-          path: ['price'],
-        })
-      }
-      if (!values.timeInForce) {
+    if (values.type !== 'MARKET') {
+      addPricedOrderIssues(values, ctx)
+      if (values.type !== 'LIMIT_MAKER' && !values.timeInForce) {
         ctx.addIssue({
           code: z.ZodIssueCode.custom,
-          message: 'timeInForce is required for LIMIT orders',
+          message: `timeInForce is required for ${values.type} orders`,
           path: ['timeInForce'],
         })
       }
       if (values.quoteOrderQty) {
         ctx.addIssue({
           code: z.ZodIssueCode.custom,
-          message: 'quoteOrderQty is not allowed for LIMIT orders',
+          message: `quoteOrderQty is not allowed for ${values.type} orders`,
           path: ['quoteOrderQty'],
         })
       }
@@ -166,6 +233,46 @@ export const binanceSpotPlaceOrderSchema = z
           path: ['timeInForce'],
         })
       }
+      if (values.stopPrice) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: 'stopPrice is not allowed for MARKET orders',
+          path: ['stopPrice'],
+        })
+      }
+    }
+  })
+
+export const binanceSpotOcoOrderSchema = z
+  .object({
+    symbol: symbolSchema,
+    side: z.enum(['BUY', 'SELL']),
+    quantity: decimalStringSchema,
+    price: decimalStringSchema,
+    stopPrice: decimalStringSchema,
+    stopLimitPrice: decimalStringSchema.optional(),
+    stopLimitTimeInForce: timeInForceSchema.optional(),
+  })
+  .superRefine((values, ctx) => {
+    // SELL: take profit above the stop; BUY: limit below the stop.
+    const price = Number(values.price)
+    const stopPrice = Number(values.stopPrice)
+    if (values.side === 'SELL' ? price <= stopPrice : price >= stopPrice) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message:
+          values.side === 'SELL'
+            ? 'price must be above stopPrice for SELL OCO orders'
+            : 'price must be below stopPrice for BUY OCO orders',
+        path: ['price'],
+      })
+    }
+    if (values.stopLimitTimeInForce && !values.stopLimitPrice) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'stopLimitTimeInForce requires stopLimitPrice',
+        path: ['stopLimitTimeInForce'],
+      })
     }
   })
 
@@ -178,10 +285,14 @@ export type BinanceSpotQueryOrderQuery = z.infer<
 export type BinanceSpotCancelOrderDto = z.infer<
   typeof binanceSpotCancelOrderSchema
 >
+export type BinanceSpotCancelOrderListDto = z.infer<
+  typeof binanceSpotCancelOrderListSchema
+>
 export type BinanceSpotCancelReplaceDto = z.infer<
   typeof binanceSpotCancelReplaceSchema
 >
 export type BinanceSpotPlaceOrderDto = z.infer<
   typeof binanceSpotPlaceOrderSchema
 >
+export type BinanceSpotOcoOrderDto = z.infer<typeof binanceSpotOcoOrderSchema>
 export type BinanceSpotMyTradesQuery = z.infer<typeof binanceSpotMyTradesSchema>
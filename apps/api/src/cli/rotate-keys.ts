@@ -0,0 +1,69 @@
+import path from 'node:path'
+import { Logger, Module } from '@nestjs/common'
+import { ConfigModule, ConfigService } from '@nestjs/config'
+import { NestFactory } from '@nestjs/core'
+import { MongooseModule } from '@nestjs/mongoose'
+
+import { KeyRotationModule } from '../key-rotation/key-rotation.module'
+import { KeyRotationService } from '../key-rotation/key-rotation.service'
+
+// Only what the job needs, so no exchange streams start alongside it.
+@Module({
+  imports: [
+    ConfigModule.forRoot({
+      isGlobal: true,
+      envFilePath: [
+        path.resolve(__dirname, '..', '..', '.env'),
+        path.resolve(__dirname, '..', '..', '..', '.env'),
+      ],
+      expandVariables: true,
+    }),
+    MongooseModule.forRootAsync({
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => ({
+        uri: configService.get<string>('MONGO_URI'),
+      }),
+    }),
+    KeyRotationModule,
+  ],
+})
+class RotateKeysModule {}
+
+/**
+ * Re-encrypts stored exchange keys and TOTP secrets with the newest master key.
+ * `--status` only reports how many documents are on older keys.
+ */
+async function run() {
+  const logger = new Logger('RotateKeys')
+  const app = await NestFactory.createApplicationContext(RotateKeysModule, {
+    logger: ['error', 'warn', 'log'],
+  })
+  try {
+    const keyRotationService = app.get(KeyRotationService)
+    const statusOnly = process.argv.includes('--status')
+    if (!statusOnly) {
+      await keyRotationService.reencrypt()
+    }
+    const status = await keyRotationService.getStatus()
+    logger.log(
+      `Key v${status.currentVersion}: ${status.outdated} of ${status.total} document(s) on older keys`,
+    )
+    for (const target of status.targets) {
+      logger.log(`  ${target.name}: ${target.outdated} of ${target.total}`)
+    }
+    for (const item of status.versions) {
+      logger.log(`  key v${item.version}: ${item.count}`)
+    }
+    // Documents that could not be re-encrypted fail the run.
+    if (!statusOnly && status.outdated > 0) {
+      process.exitCode = 1
+    }
+  } finally {
+    await app.close()
+  }
+}
+
+run().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
@@ -0,0 +1,20 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose'
+
+@Schema({ _id: false })
+export class EncryptedStringSchemaClass {
+  @Prop({ required: true })
+  v!: number
+
+  @Prop({ required: true })
+  iv!: string
+
+  @Prop({ required: true })
+  tag!: string
+
+  @Prop({ required: true })
+  data!: string
+}
+
+export const EncryptedStringSchema = SchemaFactory.createForClass(
+  EncryptedStringSchemaClass,
+)
@@ -9,21 +9,71 @@ export type EncryptedString = {
   data: string
 }
 
+const KEY_HEX_PATTERN = /^[0-9a-fA-F]{64}$/
+
+/**
+ * Reads the keyring: `MASTER_KEY_HEX` is key version 1 and `MASTER_KEYS`
+ * adds more as `<version>:<hex>` pairs separated by commas. Throws when a
+ * key is malformed, a version repeats or no key is configured.
+ */
+export function parseMasterKeys(
+  masterKeyHex: string | undefined,
+  masterKeys: string | undefined,
+) {
+  const keys = new Map<number, Buffer>()
+  const addKey = (version: number, keyHex: string, name: string) => {
+    if (!KEY_HEX_PATTERN.test(keyHex)) {
+      throw new Error(`${name} must be a 64-character hex string`)
+    }
+    if (keys.has(version)) {
+      throw new Error(`Master key version ${version} is configured twice`)
+    }
+    keys.set(version, Buffer.from(keyHex, 'hex'))
+  }
+
+  if (masterKeyHex) {
+    addKey(1, masterKeyHex, 'MASTER_KEY_HEX')
+  }
+  for (const entry of (masterKeys ?? '').split(',')) {
+    const trimmed = entry.trim()
+    if (!trimmed) continue
+    const [versionText, keyHex = ''] = trimmed.split(':')
+    const version = Number(versionText)
+    if (!Number.isInteger(version) || version < 1) {
+      throw new Error(
+        'MASTER_KEYS entries must look like <version>:<64 hex chars>',
+      )
+    }
+    addKey(version, keyHex.trim(), `MASTER_KEYS version ${version}`)
+  }
+
+  if (keys.size === 0) {
+    throw new Error('MASTER_KEY_HEX or MASTER_KEYS must be set')
+  }
+  return keys
+}
+
 @Injectable()
 export class EncryptionService {
-  private readonly key: Buffer
+  private readonly keys: Map<number, Buffer>
+  // New payloads always use the newest key.
+  readonly currentVersion: number
 
   constructor(configService: ConfigService) {
-    const keyHex = configService.get<string>('MASTER_KEY_HEX')
-    if (!keyHex || !/^[0-9a-fA-F]{64}$/.test(keyHex)) {
-      throw new Error('MASTER_KEY_HEX must be set to a 64-character hex string')
-    }
-    this.key = Buffer.from(keyHex, 'hex')
+    this.keys = parseMasterKeys(
+      configService.get<string>('MASTER_KEY_HEX'),
+      configService.get<string>('MASTER_KEYS'),
+    )
+    this.currentVersion = Math.max(...this.keys.keys())
   }
 
   encrypt(value: string, userId: string): EncryptedString {
     const iv = randomBytes(12)
-    const cipher = createCipheriv('aes-256-gcm', this.key, iv)
+    const cipher = createCipheriv(
+      'aes-256-gcm',
+      this.getKey(this.currentVersion),
+      iv,
+    )
     cipher.setAAD(Buffer.from(`user:${userId}`))
     const encrypted = Buffer.concat([
       cipher.update(value, 'utf8'),
@@ -32,7 +82,7 @@ export class EncryptionService {
     const tag = cipher.getAuthTag()
 
     return {
-      v: 1,
+      v: this.currentVersion,
       iv: iv.toString('base64'),
       tag: tag.toString('base64'),
       data: encrypted.toString('base64'),
@@ -40,16 +90,26 @@ export class EncryptionService {
   }
 
   decrypt(payload: EncryptedString, userId: string): string {
-    if (payload.v !== 1) {
-      throw new Error('Unsupported key version')
-    }
     const iv = Buffer.from(payload.iv, 'base64')
     const tag = Buffer.from(payload.tag, 'base64')
     const data = Buffer.from(payload.data, 'base64')
-    const decipher = createDecipheriv('aes-256-gcm', this.key, iv)
+    const decipher = createDecipheriv('aes-256-gcm', this.getKey(payload.v), iv)
     decipher.setAAD(Buffer.from(`user:${userId}`))
     decipher.setAuthTag(tag)
     const decrypted = Buffer.concat([decipher.update(data), decipher.final()])
     return decrypted.toString('utf8')
   }
+
+  /** Decrypts with whichever key wrote the payload and encrypts with the newest. */
+  reencrypt(payload: EncryptedString, userId: string): EncryptedString {
+    return this.encrypt(this.decrypt(payload, userId), userId)
+  }
+
+  private getKey(version: number) {
+    const key = this.keys.get(version)
+    if (!key) {
+      throw new Error(`Unsupported key version ${version}`)
+    }
+    return key
+  }
 }
@@ -0,0 +1,126 @@
+import type { Response } from 'express'
+import writeXlsxFile from 'write-excel-file/node'
+
+export type ExportFormat = 'csv' | 'json' | 'xlsx'
+
+export type ExportValue = string | number | boolean | Date | null | undefined
+
+export type ExportRow = Record<string, ExportValue>
+
+// Spreadsheet apps run cells starting with these as formulas.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+const PLAIN_NUMBER = /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+}
+
+/**
+ * Writes rows to the response as they are produced. CSV and JSON are streamed;
+ * XLSX is a zip archive, so its rows are collected before the file is built.
+ */
+export async function writeExport(
+  res: Response,
+  options: {
+    format: ExportFormat
+    fileName: string
+    columns: string[]
+    rows: AsyncIterable<ExportRow> | Iterable<ExportRow>
+  },
+) {
+  const { format, columns, rows } = options
+  res.setHeader('Content-Type', CONTENT_TYPES[format])
+  res.setHeader(
+    'Content-Disposition',
+    `attachment; filename="${options.fileName}.${format}"`,
+  )
+
+  try {
+    if (format === 'xlsx') {
+      const sheet: ExportValue[][] = [columns]
+      for await (const row of rows) {
+        sheet.push(
+          columns.map((column) => {
+            const value = row[column] ?? null
+            return typeof value === 'string' ? escapeFormula(value) : value
+          }),
+        )
+      }
+      const buffer = await writeXlsxFile(sheet, {
+        dateFormat: 'yyyy-mm-dd hh:mm:ss',
+      }).toBuffer()
+      res.end(buffer)
+      return
+    }
+
+    if (format === 'csv') {
+      await write(res, `${toCsvLine(columns)}\r\n`)
+      for await (const row of rows) {
+        await write(
+          res,
+          `${toCsvLine(columns.map((column) => row[column]))}\r\n`,
+        )
+      }
+      res.end()
+      return
+    }
+
+    await write(res, '[')
+    let first = true
+    for await (const row of rows) {
+      await write(res, `${first ? '' : ','}\n${JSON.stringify(row)}`)
+      first = false
+    }
+    await write(res, '\n]\n')
+    res.end()
+  } catch (error) {
+    // Headers are already out, so the only signal left is a broken stream.
+    res.destroy(error instanceof Error ? error : undefined)
+  }
+}
+
+function toCsvLine(values: ExportValue[]) {
+  return values
+    .map((value) => {
+      if (value === null || value === undefined) return ''
+      const text =
+        value instanceof Date
+          ? value.toISOString()
+          : typeof value === 'string'
+            ? escapeFormula(value)
+            : String(value)
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+    })
+    .join(',')
+}
+
+/**
+ * Quotes text a spreadsheet would evaluate, e.g. `=HYPERLINK(...)` in a note.
+ * Signed decimals such as `-12.5` are data and stay numbers.
+ */
+function escapeFormula(text: string) {
+  return FORMULA_PREFIX.test(text) && !PLAIN_NUMBER.test(text)
+    ? `'${text}`
+    : text
+}
+
+function write(res: Response, chunk: string) {
+  return new Promise<void>((resolve, reject) => {
+    if (res.write(chunk)) {
+      resolve()
+      return
+    }
+    const onDrain = () => {
+      res.off('close', onClose)
+      resolve()
+    }
+    const onClose = () => {
+      res.off('drain', onDrain)
+      reject(new Error('Export connection closed'))
+    }
+    res.once('drain', onDrain)
+    res.once('close', onClose)
+  })
+}
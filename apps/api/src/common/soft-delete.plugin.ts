@@ -0,0 +1,41 @@
+import {
+  type Aggregate,
+  type MongooseQueryMiddleware,
+  type Query,
+  type Schema,
+} from 'mongoose'
+
+// Reads and updates; deletes stay unfiltered so the trash can be purged.
+const FILTERED_QUERIES: MongooseQueryMiddleware[] = [
+  'countDocuments',
+  'distinct',
+  'find',
+  'findOne',
+  'findOneAndReplace',
+  'findOneAndUpdate',
+  'replaceOne',
+  'updateMany',
+  'updateOne',
+]
+
+/**
+ * Hides soft-deleted documents (`deletedAt` set) from queries and
+ * aggregations. A filter that names `deletedAt` at its top level, or the
+ * `withDeleted` query option, sees them too.
+ */
+export function softDeletePlugin(schema: Schema) {
+  schema.pre(FILTERED_QUERIES, function (this: Query<unknown, unknown>) {
+    if (this.getOptions().withDeleted || 'deletedAt' in this.getFilter()) {
+      return
+    }
+    this.where({ deletedAt: null })
+  })
+
+  schema.pre('aggregate', function (this: Aggregate<unknown>) {
+    const [first] = this.pipeline()
+    if (first && '$match' in first && 'deletedAt' in first.$match) {
+      return
+    }
+    this.pipeline().unshift({ $match: { deletedAt: null } })
+  })
+}
@@ -0,0 +1,15 @@
+import { randomBytes } from 'node:crypto'
+
+// deal_<24 hex deal id>_<6 hex> fits Binance's 36 character limit.
+const DEAL_CLIENT_ORDER_ID_PATTERN = /^deal_([0-9a-f]{24})_[0-9a-f]{6}$/
+
+/** Client order id that ties a Binance order back to the deal it was placed for. */
+export function buildDealClientOrderId(dealId: string) {
+  return `deal_${dealId}_${randomBytes(3).toString('hex')}`
+}
+
+/** Deal id encoded by `buildDealClientOrderId`, or null for other orders. */
+export function parseDealClientOrderId(clientOrderId?: string | null) {
+  const match = clientOrderId?.match(DEAL_CLIENT_ORDER_ID_PATTERN)
+  return match ? match[1] : null
+}
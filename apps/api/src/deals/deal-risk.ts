@@ -0,0 +1,108 @@
+import Big from 'big.js'
+
+import type { DealDirection } from './schemas/deal.schema'
+
+export type RiskLevelsInput = {
+  direction: DealDirection
+  entryPrice: string
+  stopLoss?: string | null
+  takeProfits?: Array<{ price: string; percent: string }> | null
+}
+
+export type RiskLevelIssue = {
+  path: (string | number)[]
+  message: string
+}
+
+export type CrossedLevel =
+  | { kind: 'STOP_LOSS'; price: string }
+  | { kind: 'TAKE_PROFIT'; index: number; price: string }
+
+type WatchedDeal = {
+  direction: DealDirection
+  stopLoss?: string
+  stopLossHitAt?: Date
+  takeProfits?: Array<{ price: string; hitAt?: Date }>
+}
+
+/**
+ * Checks that the stop sits on the losing side of the entry and every target
+ * on the winning side, and that targets close at most the whole position.
+ */
+export function validateRiskLevels(input: RiskLevelsInput): RiskLevelIssue[] {
+  const issues: RiskLevelIssue[] = []
+  const entry = new Big(input.entryPrice)
+  const isLong = input.direction === 'LONG'
+
+  if (input.stopLoss) {
+    const stop = new Big(input.stopLoss)
+    if (isLong ? stop.gte(entry) : stop.lte(entry)) {
+      issues.push({
+        path: ['stopLoss'],
+        message: `Stop loss must be ${isLong ? 'below' : 'above'} the entry price for ${input.direction} deals`,
+      })
+    }
+  }
+
+  let percentTotal = new Big(0)
+  ;(input.takeProfits ?? []).forEach((target, index) => {
+    const price = new Big(target.price)
+    if (isLong ? price.lte(entry) : price.gte(entry)) {
+      issues.push({
+        path: ['takeProfits', index, 'price'],
+        message: `Take profit must be ${isLong ? 'above' : 'below'} the entry price for ${input.direction} deals`,
+      })
+    }
+    percentTotal = percentTotal.plus(target.percent)
+  })
+  if (percentTotal.gt(100)) {
+    issues.push({
+      path: ['takeProfits'],
+      message: 'Take profit percentages must add up to at most 100',
+    })
+  }
+
+  return issues
+}
+
+/** Risk in quote: the explicit amount, else the distance to the stop. */
+export function getInitialRisk(deal: {
+  riskAmount?: string
+  stopLoss?: string
+  entryPrice: string
+  entryQty: string
+}) {
+  if (deal.riskAmount) {
+    return new Big(deal.riskAmount)
+  }
+  if (!deal.stopLoss) {
+    return null
+  }
+  return new Big(deal.entryPrice)
+    .minus(deal.stopLoss)
+    .abs()
+    .times(deal.entryQty)
+}
+
+/** Levels newly crossed by `markPrice`; levels already flagged are skipped. */
+export function findCrossedLevels(deal: WatchedDeal, markPrice: string) {
+  const mark = new Big(markPrice)
+  const isLong = deal.direction === 'LONG'
+  const crossed: CrossedLevel[] = []
+
+  if (deal.stopLoss && !deal.stopLossHitAt) {
+    const stop = new Big(deal.stopLoss)
+    if (isLong ? mark.lte(stop) : mark.gte(stop)) {
+      crossed.push({ kind: 'STOP_LOSS', price: deal.stopLoss })
+    }
+  }
+  ;(deal.takeProfits ?? []).forEach((target, index) => {
+    if (target.hitAt) return
+    const price = new Big(target.price)
+    if (isLong ? mark.gte(price) : mark.lte(price)) {
+      crossed.push({ kind: 'TAKE_PROFIT', index, price: target.price })
+    }
+  })
+
+  return crossed
+}
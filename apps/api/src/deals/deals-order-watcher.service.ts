@@ -0,0 +1,84 @@
+import {
+  Injectable,
+  Logger,
+  type OnModuleDestroy,
+  type OnModuleInit,
+} from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { InjectModel } from '@nestjs/mongoose'
+import { Model } from 'mongoose'
+
+import { DealsService } from './deals.service'
+import { Deal, type DealDocument } from './schemas/deal.schema'
+
+const DEFAULT_POLL_INTERVAL_MS = 15 * 1000
+
+/**
+ * Polls Binance for deals with a resting LIMIT order, applies fills as they
+ * arrive and cancels orders past their timeout. Set
+ * `DEALS_ORDER_POLL_INTERVAL_MS=0` to turn it off.
+ */
+@Injectable()
+export class DealsOrderWatcherService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(DealsOrderWatcherService.name)
+  private timer: NodeJS.Timeout | null = null
+  private running = false
+
+  constructor(
+    @InjectModel(Deal.name)
+    private dealModel: Model<DealDocument>,
+    private dealsService: DealsService,
+    private configService: ConfigService,
+  ) {}
+
+  onModuleInit() {
+    const interval = Number(
+      this.configService.get('DEALS_ORDER_POLL_INTERVAL_MS') ??
+        DEFAULT_POLL_INTERVAL_MS,
+    )
+    if (!Number.isFinite(interval) || interval <= 0) {
+      return
+    }
+    this.timer = setInterval(() => void this.tick(), interval)
+    this.timer.unref()
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  async tick() {
+    if (this.running) return
+    this.running = true
+    try {
+      await this.syncPendingDeals()
+    } catch (error) {
+      this.logger.warn(
+        `Order poll failed: ${error instanceof Error ? error.message : error}`,
+      )
+    } finally {
+      this.running = false
+    }
+  }
+
+  private async syncPendingDeals() {
+    const deals = await this.dealModel.find({
+      pendingOrder: { $exists: true },
+    })
+    for (const deal of deals) {
+      // One failing account must not hold up everyone else's orders.
+      try {
+        await this.dealsService.syncPendingOrder(deal)
+      } catch (error) {
+        this.logger.warn(
+          `Deal ${String(deal._id)} order ${deal.pendingOrder?.orderId}: ${
+            error instanceof Error ? error.message : error
+          }`,
+        )
+      }
+    }
+  }
+}
@@ -0,0 +1,141 @@
+import {
+  Injectable,
+  Logger,
+  type OnModuleDestroy,
+  type OnModuleInit,
+} from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { InjectModel } from '@nestjs/mongoose'
+import { Model, type Types } from 'mongoose'
+
+import { EventsService } from '../events/events.service'
+import { ExchangesService } from '../exchanges/exchanges.service'
+import { findCrossedLevels } from './deal-risk'
+import { Deal, type DealDocument } from './schemas/deal.schema'
+
+const DEFAULT_WATCH_INTERVAL_MS = 30 * 1000
+
+/**
+ * Polls ticker prices for OPEN deals with a stop loss or take profit and
+ * stamps the levels the mark price has crossed. Set
+ * `DEALS_PRICE_WATCH_INTERVAL_MS=0` to turn it off.
+ */
+@Injectable()
+export class DealsPriceWatcherService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(DealsPriceWatcherService.name)
+  private timer: NodeJS.Timeout | null = null
+  private running = false
+
+  constructor(
+    @InjectModel(Deal.name)
+    private dealModel: Model<DealDocument>,
+    private exchangesService: ExchangesService,
+    private configService: ConfigService,
+    private eventsService: EventsService,
+  ) {}
+
+  onModuleInit() {
+    const interval = Number(
+      this.configService.get('DEALS_PRICE_WATCH_INTERVAL_MS') ??
+        DEFAULT_WATCH_INTERVAL_MS,
+    )
+    if (!Number.isFinite(interval) || interval <= 0) {
+      return
+    }
+    this.timer = setInterval(() => void this.tick(), interval)
+    this.timer.unref()
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  async tick() {
+    // A slow exchange response must not stack ticks on top of each other.
+    if (this.running) return
+    this.running = true
+    try {
+      await this.checkOpenDeals()
+    } catch (error) {
+      this.logger.warn(
+        `Price watch failed: ${error instanceof Error ? error.message : error}`,
+      )
+    } finally {
+      this.running = false
+    }
+  }
+
+  private async checkOpenDeals() {
+    const deals = await this.dealModel
+      .find({
+        status: 'OPEN',
+        $or: [
+          { stopLoss: { $exists: true }, stopLossHitAt: { $exists: false } },
+          { takeProfits: { $elemMatch: { hitAt: { $exists: false } } } },
+        ],
+      })
+      .select({
+        userId: 1,
+        exchange: 1,
+        symbol: 1,
+        direction: 1,
+        stopLoss: 1,
+        stopLossHitAt: 1,
+        takeProfits: 1,
+        updatedAt: 1,
+      })
+      .lean<(Deal & { _id: Types.ObjectId })[]>()
+
+    const prices = new Map<string, string>()
+    const priceKey = (deal: Deal) => `${deal.exchange}:${deal.symbol}`
+    for (const deal of deals) {
+      const key = priceKey(deal)
+      if (prices.has(key)) continue
+      try {
+        prices.set(
+          key,
+          await this.exchangesService
+            .get(deal.exchange)
+            .getTickerPrice(deal.symbol),
+        )
+      } catch {
+        // leave symbol unpriced when the ticker is unavailable
+      }
+    }
+
+    const now = new Date()
+    for (const deal of deals) {
+      const markPrice = prices.get(priceKey(deal))
+      if (!markPrice) continue
+      const crossed = findCrossedLevels(deal, markPrice)
+      if (crossed.length === 0) continue
+
+      const update: Record<string, unknown> = {}
+      for (const level of crossed) {
+        if (level.kind === 'STOP_LOSS') {
+          update.stopLossHitAt = now
+          update.stopLossHitPrice = markPrice
+        } else {
+          update[`takeProfits.${level.index}.hitAt`] = now
+          update[`takeProfits.${level.index}.hitPrice`] = markPrice
+        }
+      }
+      // Skip the write if the deal was edited or closed since it was read.
+      const result = await this.dealModel.updateOne(
+        { _id: deal._id, status: 'OPEN', updatedAt: deal.updatedAt },
+        { $set: update },
+      )
+      if (result.modifiedCount > 0) {
+        this.eventsService.emit(String(deal.userId), {
+          type: 'deal.updated',
+          dealId: String(deal._id),
+          symbol: deal.symbol,
+          status: 'OPEN',
+        })
+      }
+    }
+  }
+}
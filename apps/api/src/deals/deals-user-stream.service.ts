@@ -0,0 +1,72 @@
+import {
+  Injectable,
+  Logger,
+  type OnModuleDestroy,
+  type OnModuleInit,
+} from '@nestjs/common'
+import { concatMap, filter, type Subscription } from 'rxjs'
+
+import {
+  BinanceUserStreamService,
+  type BinanceUserStreamEvent,
+} from '../binance/binance-user-stream.service'
+import { parseDealClientOrderId } from './deal-client-order-id'
+import { DealsService } from './deals.service'
+
+type ExecutionReportEvent = Extract<
+  BinanceUserStreamEvent,
+  { type: 'executionReport' }
+>
+
+/**
+ * Feeds Binance execution reports for orders tagged with a deal id into the
+ * deal, so LIMIT fills land without waiting for the order watcher's poll.
+ */
+@Injectable()
+export class DealsUserStreamService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(DealsUserStreamService.name)
+  private subscription: Subscription | null = null
+
+  constructor(
+    private binanceUserStream: BinanceUserStreamService,
+    private dealsService: DealsService,
+  ) {}
+
+  onModuleInit() {
+    this.subscription = this.binanceUserStream
+      .events()
+      .pipe(
+        filter(
+          (event): event is ExecutionReportEvent =>
+            event.type === 'executionReport',
+        ),
+        // One report at a time keeps fills of the same deal from racing.
+        concatMap((event) => this.handleReport(event)),
+      )
+      .subscribe()
+  }
+
+  onModuleDestroy() {
+    this.subscription?.unsubscribe()
+    this.subscription = null
+  }
+
+  private async handleReport({ userId, report }: ExecutionReportEvent) {
+    const dealId = parseDealClientOrderId(report.clientOrderId)
+    if (!dealId) return
+    try {
+      await this.dealsService.applyStreamOrderUpdate(userId, dealId, {
+        orderId: report.orderId,
+        status: report.orderStatus,
+        executedQty: report.executedQty,
+        trade: report.trade,
+      })
+    } catch (error) {
+      this.logger.warn(
+        `Deal ${dealId} order ${report.orderId}: ${
+          error instanceof Error ? error.message : error
+        }`,
+      )
+    }
+  }
+}
@@ -9,12 +9,16 @@ import {
   Post,
   Query,
   Req,
+  Res,
   UseGuards,
 } from '@nestjs/common'
-import { Request } from 'express'
+import { Request, Response } from 'express'
 import type { HydratedDocument } from 'mongoose'
 
+import { Audited, auditUserId } from '../audit/audited.decorator'
 import { JwtAuthGuard } from '../auth/jwt-auth.guard'
+import { StepUpGuard } from '../auth/step-up.guard'
+import { writeExport } from '../common/export-writer'
 import { ZodValidationPipe } from '../common/zod-validation.pipe'
 import {
   closeDealSchema,
@@ -23,11 +27,19 @@ import {
   addEntryLegSchema,
   bulkDeleteDealsSchema,
   dealsStatsSchema,
+  dealsTimeseriesSchema,
+  exportDealsSchema,
+  importTradeHistorySchema,
   importTradesSchema,
   listDealsSchema,
+  listTrashSchema,
   openDealWithOrderSchema,
   partialCloseDealSchema,
   profitToPositionSchema,
+  purgeDealsSchema,
+  restoreDealsSchema,
+  syncDealsSchema,
+  unrealizedPnlSchema,
   updateDealSchema,
   type AddEntryLegDto,
   type BulkDeleteDealsDto,
@@ -35,16 +47,41 @@ import {
   type CloseDealWithOrderDto,
   type CreateDealDto,
   type DealsStatsQuery,
+  type DealsTimeseriesQuery,
+  type ExportDealsQuery,
+  type ImportTradeHistoryDto,
   type ImportTradesDto,
   type ListDealsQuery,
+  type ListTrashQuery,
   type OpenDealWithOrderDto,
   type PartialCloseDealDto,
   type ProfitToPositionDto,
+  type PurgeDealsDto,
+  type RestoreDealsDto,
+  type SyncDealsDto,
+  type UnrealizedPnlQuery,
   type UpdateDealDto,
 } from './dto/deals.schemas'
-import type { Deal } from './schemas/deal.schema'
+import { Deal } from './schemas/deal.schema'
 import { DealsService } from './deals.service'
 
+const dealTarget = {
+  type: 'deal',
+  model: Deal.name,
+  filter: (req: Request) => ({ _id: req.params.id, userId: auditUserId(req) }),
+}
+
+const dealIdsTarget = {
+  type: 'deal',
+  model: Deal.name,
+  filter: (req: Request) => {
+    const body = req.body as PurgeDealsDto
+    return body.all
+      ? { userId: auditUserId(req), deletedAt: { $ne: null } }
+      : { _id: { $in: body.ids }, userId: auditUserId(req) }
+  },
+}
+
 @UseGuards(JwtAuthGuard)
 @Controller('deals')
 export class DealsController {
@@ -69,15 +106,36 @@ export class DealsController {
   ) {
     const user = req.user as { id: string }
     const result = await this.dealsService.listDeals(user.id, query)
+    const marks = await this.dealsService.getMarkToMarket(result.items)
 
     return {
-      items: result.items.map((item) => this.mapDeal(item)),
+      items: result.items.map((item) => ({
+        ...this.mapDeal(item),
+        ...marks.get(String(item._id)),
+      })),
       page: result.page,
       limit: result.limit,
       total: result.total,
     }
   }
 
+  @Get('export')
+  async exportDeals(
+    @Req() req: Request,
+    @Query(new ZodValidationPipe(exportDealsSchema))
+    query: ExportDealsQuery,
+    @Res() res: Response,
+  ) {
+    const user = req.user as { id: string }
+    const { columns, rows } = this.dealsService.exportDeals(user.id, query)
+    await writeExport(res, {
+      format: query.format,
+      fileName: `deals-${new Date().toISOString().slice(0, 10)}`,
+      columns,
+      rows,
+    })
+  }
+
   @Get('stats')
   async getDealsStats(
     @Req() req: Request,
@@ -88,6 +146,86 @@ export class DealsController {
     return this.dealsService.getDealsStats(user.id, query)
   }
 
+  @Get('analytics/timeseries')
+  async getDealsTimeseries(
+    @Req() req: Request,
+    @Query(new ZodValidationPipe(dealsTimeseriesSchema))
+    query: DealsTimeseriesQuery,
+  ) {
+    const user = req.user as { id: string }
+    return this.dealsService.getDealsTimeseries(user.id, query)
+  }
+
+  @Get('unrealized')
+  async getUnrealizedPnl(
+    @Req() req: Request,
+    @Query(new ZodValidationPipe(unrealizedPnlSchema))
+    query: UnrealizedPnlQuery,
+  ) {
+    const user = req.user as { id: string }
+    return this.dealsService.getUnrealizedPnl(user.id, query)
+  }
+
+  @Get('risk-alerts')
+  async listRiskAlerts(@Req() req: Request) {
+    const user = req.user as { id: string }
+    const deals = await this.dealsService.listRiskAlerts(user.id)
+    return deals.map((deal) => this.mapDeal(deal))
+  }
+
+  @Post('import-history/preview')
+  async previewTradeHistoryImport(
+    @Req() req: Request,
+    @Body(new ZodValidationPipe(importTradeHistorySchema))
+    body: ImportTradeHistoryDto,
+  ) {
+    const user = req.user as { id: string }
+    return this.dealsService.previewTradeHistoryImport(user.id, body)
+  }
+
+  @Post('import-history/commit')
+  async commitTradeHistoryImport(
+    @Req() req: Request,
+    @Body(new ZodValidationPipe(importTradeHistorySchema))
+    body: ImportTradeHistoryDto,
+  ) {
+    const user = req.user as { id: string }
+    return this.dealsService.commitTradeHistoryImport(user.id, body)
+  }
+
+  @Post('sync')
+  async syncDeals(
+    @Req() req: Request,
+    @Body(new ZodValidationPipe(syncDealsSchema))
+    body: SyncDealsDto,
+  ) {
+    const user = req.user as { id: string }
+    return this.dealsService.syncDealsForUser(user.id, body)
+  }
+
+  @Get('sync/cursors')
+  async listSyncCursors(@Req() req: Request) {
+    const user = req.user as { id: string }
+    return this.dealsService.listSyncCursors(user.id)
+  }
+
+  @Get('trash')
+  async listTrash(
+    @Req() req: Request,
+    @Query(new ZodValidationPipe(listTrashSchema))
+    query: ListTrashQuery,
+  ) {
+    const user = req.user as { id: string }
+    const result = await this.dealsService.listTrash(user.id, query)
+
+    return {
+      items: result.items.map((item) => this.mapDeal(item)),
+      page: result.page,
+      limit: result.limit,
+      total: result.total,
+    }
+  }
+
   @Get(':id')
   async getDeal(@Req() req: Request, @Param('id') id: string) {
     const user = req.user as { id: string }
@@ -187,6 +325,8 @@ export class DealsController {
     return result
   }
 
+  @UseGuards(StepUpGuard)
+  @Audited({ action: 'deal.order.opened', recordResponse: true })
   @Post('open-with-order')
   async openWithOrder(
     @Req() req: Request,
@@ -197,6 +337,8 @@ export class DealsController {
     return this.dealsService.openDealWithOrder(user.id, body)
   }
 
+  @UseGuards(StepUpGuard)
+  @Audited({ action: 'deal.order.closed', target: dealTarget })
   @Post(':id/close-with-order')
   async closeWithOrder(
     @Req() req: Request,
@@ -212,6 +354,20 @@ export class DealsController {
     return result
   }
 
+  @Audited({ action: 'deal.order.cancelled', target: dealTarget })
+  @Post(':id/cancel-order')
+  async cancelPendingOrder(@Req() req: Request, @Param('id') id: string) {
+    const user = req.user as { id: string }
+    const result = await this.dealsService.cancelPendingOrderForUser(
+      user.id,
+      id,
+    )
+    if (!result) {
+      throw new NotFoundException('Deal not found')
+    }
+    return result
+  }
+
   @Post(':id/import-trades')
   async importTrades(
     @Req() req: Request,
@@ -232,6 +388,7 @@ export class DealsController {
     return result
   }
 
+  @Audited({ action: 'deal.deleted', target: dealTarget })
   @Delete(':id')
   async deleteDeal(@Req() req: Request, @Param('id') id: string) {
     const user = req.user as { id: string }
@@ -242,6 +399,7 @@ export class DealsController {
     return { ok: true, id: deletedId }
   }
 
+  @Audited({ action: 'deal.bulk_deleted', target: dealIdsTarget })
   @Post('bulk-delete')
   async bulkDeleteDeals(
     @Req() req: Request,
@@ -252,6 +410,28 @@ export class DealsController {
     return this.dealsService.bulkDeleteForUser(user.id, body.ids)
   }
 
+  @Audited({ action: 'deal.restored', target: dealIdsTarget })
+  @Post('restore')
+  async restoreDeals(
+    @Req() req: Request,
+    @Body(new ZodValidationPipe(restoreDealsSchema))
+    body: RestoreDealsDto,
+  ) {
+    const user = req.user as { id: string }
+    return this.dealsService.restoreForUser(user.id, body.ids)
+  }
+
+  @Audited({ action: 'deal.purged', target: dealIdsTarget })
+  @Post('purge')
+  async purgeDeals(
+    @Req() req: Request,
+    @Body(new ZodValidationPipe(purgeDealsSchema))
+    body: PurgeDealsDto,
+  ) {
+    const user = req.user as { id: string }
+    return this.dealsService.purgeForUser(user.id, body.ids)
+  }
+
   private mapDeal(deal: HydratedDocument<Deal> | (Deal & { _id: unknown })) {
     const obj =
       typeof (deal as { toObject?: () => Deal }).toObject === 'function'
@@ -2,16 +2,35 @@ import { Module } from '@nestjs/common'
 import { MongooseModule } from '@nestjs/mongoose'
 
 import { BinanceModule } from '../binance/binance.module'
+import { EventsModule } from '../events/events.module'
+import { ExchangesModule } from '../exchanges/exchanges.module'
 import { DealsController } from './deals.controller'
 import { DealsService } from './deals.service'
+import { DealsOrderWatcherService } from './deals-order-watcher.service'
+import { DealsPriceWatcherService } from './deals-price-watcher.service'
+import { DealsUserStreamService } from './deals-user-stream.service'
 import { Deal, DealSchema } from './schemas/deal.schema'
+import {
+  DealSyncCursor,
+  DealSyncCursorSchema,
+} from './schemas/deal-sync-cursor.schema'
 
 @Module({
   imports: [
-    MongooseModule.forFeature([{ name: Deal.name, schema: DealSchema }]),
+    MongooseModule.forFeature([
+      { name: Deal.name, schema: DealSchema },
+      { name: DealSyncCursor.name, schema: DealSyncCursorSchema },
+    ]),
     BinanceModule,
+    EventsModule,
+    ExchangesModule,
   ],
   controllers: [DealsController],
-  providers: [DealsService],
+  providers: [
+    DealsService,
+    DealsPriceWatcherService,
+    DealsOrderWatcherService,
+    DealsUserStreamService,
+  ],
 })
 export class DealsModule {}
@@ -2,24 +2,41 @@ import {
   BadRequestException,
   ConflictException,
   Injectable,
+  Logger,
+  type OnModuleInit,
 } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
 import { InjectModel } from '@nestjs/mongoose'
 import Big from 'big.js'
-import { Model, type FilterQuery } from 'mongoose'
+import { Model, type FilterQuery, type Types } from 'mongoose'
 
+import type { ExportRow } from '../common/export-writer'
+import { EventsService } from '../events/events.service'
 import {
-  BinanceFilterException,
-  BinanceSpotClientService,
-} from '../binance/binance-spot-client.service'
+  PriceUnavailableError,
+  type ExchangeEnvironment,
+  type ExchangeId,
+  type ExchangeOrder,
+} from '../exchanges/exchange-adapter'
+import { ExchangesService } from '../exchanges/exchanges.service'
+import { BinanceFilterException } from '../binance/binance-spot-client.service'
+import { buildDealClientOrderId } from './deal-client-order-id'
+import { getInitialRisk, validateRiskLevels } from './deal-risk'
 import {
   type CloseDealDto,
   type CloseDealWithOrderDto,
   type CreateDealDto,
   type DealsStatsQuery,
+  type DealsTimeseriesQuery,
+  type ExportDealsQuery,
   type OpenDealWithOrderDto,
+  type UnrealizedPnlQuery,
   type ListDealsQuery,
+  type ListTrashQuery,
   type UpdateDealDto,
+  type ImportTradeHistoryDto,
   type ImportTradesDto,
+  type SyncDealsDto,
   type PartialCloseDealDto,
   type AddEntryLegDto,
   type ProfitToPositionDto,
@@ -31,9 +48,26 @@ import {
   type DealExitLeg,
   type DealEntryLeg,
   type DealLeg,
+  type DealOrderPhase,
+  type DealPendingOrder,
   type TradeFill,
   type DealProfitOp,
 } from './schemas/deal.schema'
+import {
+  DealSyncCursor,
+  type DealSyncCursorDocument,
+} from './schemas/deal-sync-cursor.schema'
+import {
+  parseTradeHistoryFile,
+  type ParsedTradeHistory,
+} from './trade-history.parser'
+import {
+  allocateQty,
+  matchFillsIntoDeals,
+  takeFills,
+  type MatchedDeal,
+  type MatchingStrategy,
+} from './trade-matching'
 
 type TradesAggregate = {
   qty: string
@@ -44,28 +78,300 @@ type TradesAggregate = {
   feeByAsset: Record<string, string>
 }
 
+type SymbolAssets = {
+  exchange: ExchangeId
+  baseAsset: string
+  quoteAsset: string
+}
+
+type TimeseriesInterval = 'day' | 'week' | 'month'
+
+type RealizedEvent = {
+  dealId: string
+  closedAt: Date
+  pnl: Big
+  fee: Big
+}
+
+type StatsGroupBy = 'symbol' | 'direction' | 'month'
+
+type StatsSummary = {
+  totalPnL: string
+  tradesCount: number
+  winRate: number
+  avgPnL: string
+  feesTotal: string
+  feeConversionFailedCount: number
+  avgHoldingMs: number | null
+}
+
+type ClosedDealStatsInput = Pick<
+  Deal,
+  | 'symbol'
+  | 'direction'
+  | 'openedAt'
+  | 'closedAt'
+  | 'realizedPnl'
+  | 'exitLegs'
+  | 'feeConversionFailed'
+> & {
+  entry?: Pick<DealLeg, 'fee' | 'feeAsset' | 'feeInQuote'>
+  exit?: Pick<DealLeg, 'fee' | 'feeAsset' | 'feeInQuote'>
+}
+
+const MY_TRADES_PAGE_LIMIT = 1000
+const DEFAULT_SYNC_MAX_TRADES = 5000
+// Sync cursors were unique per user and symbol before credential profiles.
+const LEGACY_SYNC_CURSOR_INDEX = 'userId_1_symbol_1'
+const DEFAULT_LIMIT_ORDER_TIMEOUT_MS = 24 * 60 * 60 * 1000
+// Order statuses (Binance names) after which no more fills can arrive.
+const FINAL_ORDER_STATUSES = new Set([
+  'FILLED',
+  'CANCELED',
+  'REJECTED',
+  'EXPIRED',
+  'EXPIRED_IN_MATCH',
+])
+
+// One row per deal summary, leg, profit op and trade fill; empty where a
+// column does not apply to the record type.
+const DEAL_EXPORT_COLUMNS = [
+  'dealId',
+  'exchange',
+  'environment',
+  'symbol',
+  'direction',
+  'status',
+  'openedAt',
+  'closedAt',
+  'realizedPnl',
+  'recordType',
+  'at',
+  'qty',
+  'price',
+  'quote',
+  'fee',
+  'feeAsset',
+  'feeInQuote',
+  'source',
+  'orderId',
+  'tradeId',
+  'isBuyer',
+  'isMaker',
+  'note',
+]
+
+type MarkToMarket = {
+  markPrice: string
+  unrealizedPnl: string
+}
+
 @Injectable()
-export class DealsService {
+export class DealsService implements OnModuleInit {
+  private readonly logger = new Logger(DealsService.name)
+
   constructor(
     @InjectModel(Deal.name)
     private dealModel: Model<DealDocument>,
-    private binanceSpotClient: BinanceSpotClientService,
+    @InjectModel(DealSyncCursor.name)
+    private syncCursorModel: Model<DealSyncCursorDocument>,
+    private exchangesService: ExchangesService,
+    private configService: ConfigService,
+    private eventsService: EventsService,
   ) {}
 
+  async onModuleInit() {
+    // Deals saved before exchanges were selectable all came from Binance.
+    try {
+      await this.dealModel.updateMany(
+        { exchange: { $exists: false } },
+        { $set: { exchange: 'BINANCE' } },
+      )
+    } catch (error) {
+      this.logger.warn(
+        `Deal exchange backfill failed: ${
+          error instanceof Error ? error.message : error
+        }`,
+      )
+    }
+    // Deals saved before environments were tracked traded on mainnet.
+    try {
+      await this.dealModel.updateMany(
+        { environment: { $exists: false } },
+        { $set: { environment: 'MAINNET' } },
+      )
+    } catch (error) {
+      this.logger.warn(
+        `Deal environment backfill failed: ${
+          error instanceof Error ? error.message : error
+        }`,
+      )
+    }
+    // Cursors are per credential profile now; one per symbol would collide.
+    try {
+      const indexes = await this.syncCursorModel.collection.indexes()
+      if (indexes.some((index) => index.name === LEGACY_SYNC_CURSOR_INDEX)) {
+        await this.syncCursorModel.collection.dropIndex(
+          LEGACY_SYNC_CURSOR_INDEX,
+        )
+      }
+    } catch (error) {
+      this.logger.warn(
+        `Sync cursor index migration failed: ${
+          error instanceof Error ? error.message : error
+        }`,
+      )
+    }
+    // Prices historical fees, so it runs in the background.
+    void this.backfillFeeInQuote().catch((error: unknown) => {
+      this.logger.warn(
+        `Deal fee backfill failed: ${
+          error instanceof Error ? error.message : error
+        }`,
+      )
+    })
+  }
+
+  /**
+   * Converts leg fees that have no `feeInQuote` yet, e.g. saved before it
+   * existed or while the exchange was unreachable, and recomputes PnL. Only
+   * fees whose pair has no price get flagged; an exchange error ends the run
+   * and the next start tries again. No events are sent for these saves.
+   */
+  private async backfillFeeInQuote() {
+    const hasFee = { $nin: [null, ''] }
+    const noFeeInQuote = { $exists: false }
+    const cursor = this.dealModel
+      .find({
+        pendingOrder: { $exists: false },
+        $or: [
+          { 'entry.fee': hasFee, 'entry.feeInQuote': noFeeInQuote },
+          { 'exit.fee': hasFee, 'exit.feeInQuote': noFeeInQuote },
+          {
+            entryLegs: {
+              $elemMatch: { fee: hasFee, feeInQuote: noFeeInQuote },
+            },
+          },
+          {
+            exitLegs: {
+              $elemMatch: { fee: hasFee, feeInQuote: noFeeInQuote },
+            },
+          },
+        ],
+      })
+      .setOptions({ withDeleted: true })
+      .cursor()
+
+    let updated = 0
+    for await (const deal of cursor) {
+      const convert = (
+        leg: {
+          fee?: string
+          feeAsset?: string
+          price: string
+          feeInQuote?: string
+        },
+        at: Date,
+      ) =>
+        leg.fee && leg.feeInQuote === undefined
+          ? this.resolveLegFeeInQuote(deal.exchange, deal.symbol, leg, at, true)
+          : Promise.resolve(leg.feeInQuote)
+
+      try {
+        deal.entry.feeInQuote = await convert(deal.entry, deal.openedAt)
+        for (const leg of deal.entryLegs ?? []) {
+          leg.feeInQuote = await convert(leg, leg.openedAt)
+        }
+        for (const leg of deal.exitLegs ?? []) {
+          leg.feeInQuote = await convert(leg, leg.closedAt)
+        }
+        if (deal.exit) {
+          deal.exit.feeInQuote = await convert(
+            deal.exit,
+            deal.closedAt ?? deal.openedAt,
+          )
+        }
+      } catch (error) {
+        this.logger.warn(
+          `Deal fee backfill stopped, retrying on the next start: ${
+            error instanceof Error ? error.message : error
+          }`,
+        )
+        break
+      }
+
+      if ((deal.exitLegs ?? []).length > 0) {
+        this.recalcExitLegs(deal)
+      } else if (deal.status === 'CLOSED' && deal.exit) {
+        deal.realizedPnl = this.computePnl(
+          deal.direction,
+          deal.entry.quote,
+          deal.exit.quote,
+          this.getLegFee(deal.entry),
+          this.getLegFee(deal.exit),
+        )
+        this.updateRealizedAvailable(deal)
+        this.updateRMultiple(deal)
+      }
+      // Flagged deals whose fees still have no price come back unchanged.
+      if (!deal.isModified() && deal.feeConversionFailed) {
+        continue
+      }
+      await this.persistDeal(deal)
+      updated += 1
+    }
+    if (updated > 0) {
+      this.logger.log(
+        `Converted leg fees to the quote asset on ${updated} deal(s)`,
+      )
+    }
+  }
+
   async createDeal(userId: string, data: CreateDealDto) {
+    const profile = data.credentialProfileId
+      ? await this.exchangesService.resolveProfile(
+          userId,
+          data.exchange,
+          data.credentialProfileId,
+        )
+      : null
+    if (
+      profile &&
+      data.environment &&
+      data.environment !== profile.environment
+    ) {
+      throw new BadRequestException(
+        `Credential profile ${profile.name} is on ${profile.environment}`,
+      )
+    }
     const entry = {
       ...data.entry,
       quote: this.computeQuote(data.entry.qty, data.entry.price),
+      feeInQuote: await this.resolveLegFeeInQuote(
+        data.exchange,
+        data.symbol,
+        data.entry,
+        data.openedAt,
+      ),
     }
 
     const created = new this.dealModel({
       userId,
+      exchange: data.exchange,
+      credentialProfileId: profile?._id,
+      environment: profile?.environment ?? data.environment ?? 'MAINNET',
       symbol: data.symbol,
       direction: data.direction,
       status: 'OPEN',
       openedAt: data.openedAt,
       note: data.note,
       entry,
+      stopLoss: data.stopLoss ?? undefined,
+      takeProfits: (data.takeProfits ?? []).map((target) => ({
+        price: target.price,
+        percent: target.percent,
+      })),
+      riskAmount: data.riskAmount ?? undefined,
       closedQty: '0',
       remainingQty: entry.qty,
       entryQtyTotal: entry.qty,
@@ -75,16 +381,160 @@ export class DealsService {
       realizedPnlAvailable: '0',
     })
 
-    return created.save()
+    return this.saveDeal(created)
   }
 
   async listDeals(userId: string, query: ListDealsQuery) {
+    const filter = this.buildListFilter(userId, query)
+
+    const page = query.page && query.page > 0 ? query.page : 1
+    const limit = Math.min(query.limit ?? 50, 100)
+    const skip = (page - 1) * limit
+
+    const [items, total] = await Promise.all([
+      this.dealModel
+        .find(filter)
+        .sort({ openedAt: -1, _id: -1 })
+        .skip(skip)
+        .limit(limit),
+      this.dealModel.countDocuments(filter),
+    ])
+
+    return { items, total, page, limit }
+  }
+
+  exportDeals(userId: string, query: ExportDealsQuery) {
+    return {
+      columns: DEAL_EXPORT_COLUMNS,
+      rows: this.iterateDealExportRows(this.buildListFilter(userId, query)),
+    }
+  }
+
+  private async *iterateDealExportRows(
+    filter: FilterQuery<DealDocument>,
+  ): AsyncGenerator<ExportRow> {
+    // A cursor keeps memory flat no matter how many deals match the filter.
+    const cursor = this.dealModel
+      .find(filter)
+      .sort({ openedAt: -1, _id: -1 })
+      .lean<Deal & { _id: Types.ObjectId }>()
+      .cursor()
+
+    for await (const deal of cursor) {
+      yield* this.flattenDealForExport(deal)
+    }
+  }
+
+  private flattenDealForExport(deal: Deal & { _id: Types.ObjectId }) {
+    const base = {
+      dealId: String(deal._id),
+      exchange: deal.exchange,
+      environment: deal.environment,
+      symbol: deal.symbol,
+      direction: deal.direction,
+      status: deal.status,
+      openedAt: deal.openedAt,
+      closedAt: deal.closedAt,
+      realizedPnl: deal.realizedPnl,
+    }
+    const rows: ExportRow[] = [
+      {
+        ...base,
+        recordType: 'DEAL',
+        at: deal.openedAt,
+        qty: deal.entryQtyTotal ?? deal.entry.qty,
+        price: deal.entryAvgPrice ?? deal.entry.price,
+        quote: deal.entryQuoteTotal ?? deal.entry.quote,
+        fee: deal.entry.fee,
+        feeAsset: deal.entry.feeAsset,
+        feeInQuote: deal.entry.feeInQuote,
+        note: deal.note,
+      },
+    ]
+
+    for (const leg of deal.entryLegs ?? []) {
+      rows.push({
+        ...base,
+        recordType: 'ENTRY_LEG',
+        at: leg.openedAt,
+        qty: leg.qty,
+        price: leg.price,
+        quote: leg.quote,
+        fee: leg.fee,
+        feeAsset: leg.feeAsset,
+        feeInQuote: leg.feeInQuote,
+        source: leg.source,
+        orderId: leg.orderId,
+      })
+    }
+    for (const leg of deal.exitLegs ?? []) {
+      rows.push({
+        ...base,
+        recordType: 'EXIT_LEG',
+        at: leg.closedAt,
+        qty: leg.qty,
+        price: leg.price,
+        quote: leg.quote,
+        fee: leg.fee,
+        feeAsset: leg.feeAsset,
+        feeInQuote: leg.feeInQuote,
+        source: leg.source,
+        orderId: leg.orderId,
+      })
+    }
+    for (const op of deal.profitOps ?? []) {
+      rows.push({
+        ...base,
+        recordType: 'PROFIT_OP',
+        at: op.at,
+        qty: op.qty,
+        price: op.price,
+        quote: op.amount,
+        note: op.note,
+      })
+    }
+    const fillRows = (recordType: string, trades: TradeFill[] = []) =>
+      trades.map((trade) => ({
+        ...base,
+        recordType,
+        at: new Date(trade.time),
+        qty: trade.qty,
+        price: trade.price,
+        quote: trade.quoteQty,
+        fee: trade.commission,
+        feeAsset: trade.commissionAsset,
+        orderId: trade.orderId,
+        tradeId: trade.id,
+        isBuyer: trade.isBuyer,
+        isMaker: trade.isMaker,
+      }))
+    rows.push(...fillRows('ENTRY_FILL', deal.entryTrades))
+    rows.push(...fillRows('EXIT_FILL', deal.exitTrades))
+
+    return rows
+  }
+
+  private buildListFilter(
+    userId: string,
+    query: Pick<
+      ListDealsQuery,
+      'status' | 'exchange' | 'environment' | 'symbol' | 'from' | 'to'
+    >,
+  ) {
     const filter: FilterQuery<DealDocument> = { userId }
 
     if (query.status && query.status !== 'ALL') {
       filter.status = query.status
     }
 
+    if (query.exchange) {
+      filter.exchange = query.exchange
+    }
+
+    if (query.environment) {
+      filter.environment = query.environment
+    }
+
     if (query.symbol) {
       filter.symbol = query.symbol
     }
@@ -99,25 +549,20 @@ export class DealsService {
       }
     }
 
-    const page = query.page && query.page > 0 ? query.page : 1
-    const limit = Math.min(query.limit ?? 50, 100)
-    const skip = (page - 1) * limit
-
-    const [items, total] = await Promise.all([
-      this.dealModel
-        .find(filter)
-        .sort({ openedAt: -1, _id: -1 })
-        .skip(skip)
-        .limit(limit),
-      this.dealModel.countDocuments(filter),
-    ])
-
-    return { items, total, page, limit }
+    return filter
   }
 
   async getDealsStats(userId: string, query: DealsStatsQuery) {
     const filter: FilterQuery<DealDocument> = { userId }
 
+    if (query.exchange) {
+      filter.exchange = query.exchange
+    }
+
+    if (query.environment) {
+      filter.environment = query.environment
+    }
+
     if (query.symbol) {
       filter.symbol = query.symbol
     }
@@ -138,7 +583,7 @@ export class DealsService {
       status === 'CLOSED'
         ? Promise.resolve(0)
         : this.dealModel.countDocuments({ ...filter, status: 'OPEN' }),
-      this.getUserProfitBalance(userId),
+      this.getUserProfitBalance(userId, query.environment),
     ])
 
     if (status === 'OPEN') {
@@ -148,61 +593,296 @@ export class DealsService {
         winRate: 0,
         avgPnL: '0',
         feesTotal: '0',
+        feeConversionFailedCount: 0,
         openCount,
         totalRealizedPnl: profitBalance.totalRealizedPnl,
         totalProfitSpent: profitBalance.totalProfitSpent,
         profitAvailable: profitBalance.profitAvailable,
+        ...(query.groupBy ? { groupBy: query.groupBy, groups: [] } : {}),
       }
     }
 
     const closedDeals = await this.dealModel
       .find(
         { ...filter, status: 'CLOSED' },
-        { realizedPnl: 1, 'entry.fee': 1, 'exit.fee': 1, exitLegs: 1 },
+        {
+          symbol: 1,
+          direction: 1,
+          openedAt: 1,
+          closedAt: 1,
+          realizedPnl: 1,
+          'entry.fee': 1,
+          'entry.feeAsset': 1,
+          'entry.feeInQuote': 1,
+          'exit.fee': 1,
+          'exit.feeAsset': 1,
+          'exit.feeInQuote': 1,
+          exitLegs: 1,
+          feeConversionFailed: 1,
+        },
       )
       .lean()
 
-    let totalPnL = new Big(0)
-    let feesTotal = new Big(0)
-    let winCount = 0
+    const totals = this.summarizeClosedDeals(closedDeals)
 
-    for (const deal of closedDeals) {
-      const realized = this.toBig(String(deal.realizedPnl ?? '0'))
-      totalPnL = totalPnL.plus(realized)
-      if (realized.gt(0)) {
-        winCount += 1
+    let groups: Array<{ key: string } & StatsSummary> | undefined
+    if (query.groupBy) {
+      const byKey = new Map<string, typeof closedDeals>()
+      for (const deal of closedDeals) {
+        const key = this.getStatsGroupKey(deal, query.groupBy)
+        const bucket = byKey.get(key) ?? []
+        bucket.push(deal)
+        byKey.set(key, bucket)
       }
+      groups = Array.from(byKey.entries())
+        .map(([key, deals]) => ({ key, ...this.summarizeClosedDeals(deals) }))
+        .sort((left, right) => left.key.localeCompare(right.key))
+    }
 
-      const entryFee = this.toBig(String(deal.entry?.fee ?? '0'))
-      let exitFeesTotal = this.toBig('0')
-      if (Array.isArray(deal.exitLegs) && deal.exitLegs.length > 0) {
-        for (const leg of deal.exitLegs) {
-          exitFeesTotal = exitFeesTotal.plus(this.toBig(String(leg.fee ?? '0')))
+    return {
+      totalPnL: totals.totalPnL,
+      tradesCount: totals.tradesCount,
+      winRate: totals.winRate,
+      avgPnL: totals.avgPnL,
+      feesTotal: totals.feesTotal,
+      feeConversionFailedCount: totals.feeConversionFailedCount,
+      openCount,
+      totalRealizedPnl: profitBalance.totalRealizedPnl,
+      totalProfitSpent: profitBalance.totalProfitSpent,
+      profitAvailable: profitBalance.profitAvailable,
+      ...(groups ? { groupBy: query.groupBy, groups } : {}),
+    }
+  }
+
+  async getDealsTimeseries(userId: string, query: DealsTimeseriesQuery) {
+    const interval = query.interval ?? 'day'
+    const filter: FilterQuery<DealDocument> = { userId }
+
+    if (query.exchange) {
+      filter.exchange = query.exchange
+    }
+
+    if (query.environment) {
+      filter.environment = query.environment
+    }
+
+    if (query.symbol) {
+      filter.symbol = query.symbol
+    }
+
+    const deals = await this.dealModel
+      .find(
+        {
+          ...filter,
+          $or: [{ status: 'CLOSED' }, { 'exitLegs.0': { $exists: true } }],
+        },
+        {
+          direction: 1,
+          status: 1,
+          closedAt: 1,
+          realizedPnl: 1,
+          entry: 1,
+          entryAvgPrice: 1,
+          exit: 1,
+          exitLegs: 1,
+        },
+      )
+      .lean()
+
+    const events = deals
+      .flatMap((deal) => this.collectRealizedEvents(deal))
+      .filter((event) => {
+        if (query.from && event.closedAt < query.from) return false
+        if (query.to && event.closedAt > query.to) return false
+        return true
+      })
+      .sort((left, right) => left.closedAt.getTime() - right.closedAt.getTime())
+
+    const buckets = new Map<
+      string,
+      { start: Date; pnl: Big; fees: Big; exitsCount: number }
+    >()
+    for (const event of events) {
+      const start = this.getBucketStart(event.closedAt, interval)
+      const key = start.toISOString()
+      const bucket = buckets.get(key) ?? {
+        start,
+        pnl: this.toBig('0'),
+        fees: this.toBig('0'),
+        exitsCount: 0,
+      }
+      bucket.pnl = bucket.pnl.plus(event.pnl)
+      bucket.fees = bucket.fees.plus(event.fee)
+      bucket.exitsCount += 1
+      buckets.set(key, bucket)
+    }
+
+    let equity = this.toBig('0')
+    let peak = this.toBig('0')
+    let maxDrawdown = this.toBig('0')
+    const series = Array.from(buckets.values())
+      .sort((left, right) => left.start.getTime() - right.start.getTime())
+      .map((bucket) => {
+        equity = equity.plus(bucket.pnl)
+        if (equity.gt(peak)) {
+          peak = equity
+        }
+        const drawdown = peak.minus(equity)
+        if (drawdown.gt(maxDrawdown)) {
+          maxDrawdown = drawdown
         }
+        return {
+          period: this.formatBucketLabel(bucket.start, interval),
+          start: bucket.start.toISOString(),
+          pnl: bucket.pnl.toString(),
+          cumulativePnl: equity.toString(),
+          drawdown: drawdown.toString(),
+          fees: bucket.fees.toString(),
+          exitsCount: bucket.exitsCount,
+        }
+      })
+
+    const dealResults = new Map<string, { closedAt: Date; pnl: Big }>()
+    for (const event of events) {
+      const current = dealResults.get(event.dealId)
+      dealResults.set(event.dealId, {
+        closedAt:
+          current && current.closedAt > event.closedAt
+            ? current.closedAt
+            : event.closedAt,
+        pnl: (current?.pnl ?? this.toBig('0')).plus(event.pnl),
+      })
+    }
+    const orderedResults = Array.from(dealResults.values()).sort(
+      (left, right) => left.closedAt.getTime() - right.closedAt.getTime(),
+    )
+
+    let grossProfit = this.toBig('0')
+    let grossLoss = this.toBig('0')
+    let winStreak = 0
+    let lossStreak = 0
+    let longestWinStreak = 0
+    let longestLossStreak = 0
+    for (const result of orderedResults) {
+      if (result.pnl.gt(0)) {
+        grossProfit = grossProfit.plus(result.pnl)
+        winStreak += 1
+        lossStreak = 0
+      } else if (result.pnl.lt(0)) {
+        grossLoss = grossLoss.plus(result.pnl.abs())
+        lossStreak += 1
+        winStreak = 0
       } else {
-        exitFeesTotal = this.toBig(String(deal.exit?.fee ?? '0'))
+        winStreak = 0
+        lossStreak = 0
       }
-      feesTotal = feesTotal.plus(entryFee).plus(exitFeesTotal)
+      longestWinStreak = Math.max(longestWinStreak, winStreak)
+      longestLossStreak = Math.max(longestLossStreak, lossStreak)
     }
 
-    const tradesCount = closedDeals.length
-    const avgPnL = tradesCount > 0 ? totalPnL.div(tradesCount).toString() : '0'
-    const winRate =
-      tradesCount > 0
-        ? Number(new Big(winCount).div(tradesCount).times(100).toFixed(2))
-        : 0
+    return {
+      interval,
+      series,
+      summary: {
+        totalPnl: equity.toString(),
+        peakPnl: peak.toString(),
+        maxDrawdown: maxDrawdown.toString(),
+        grossProfit: grossProfit.toString(),
+        grossLoss: grossLoss.toString(),
+        profitFactor: grossLoss.gt(0)
+          ? grossProfit.div(grossLoss).toFixed(2)
+          : null,
+        longestWinStreak,
+        longestLossStreak,
+        dealsCount: orderedResults.length,
+      },
+    }
+  }
+
+  async getUnrealizedPnl(userId: string, query: UnrealizedPnlQuery) {
+    const filter: FilterQuery<DealDocument> = { userId, status: 'OPEN' }
+
+    if (query.exchange) {
+      filter.exchange = query.exchange
+    }
+
+    if (query.environment) {
+      filter.environment = query.environment
+    }
+
+    if (query.symbol) {
+      filter.symbol = query.symbol
+    }
+
+    const deals = await this.dealModel
+      .find(filter)
+      .sort({ openedAt: -1, _id: -1 })
+    const marks = await this.getMarkToMarket(deals)
+
+    let totalUnrealizedPnl = this.toBig('0')
+    const unpricedSymbols = new Set<string>()
+    const items = deals.map((deal) => {
+      const mark = marks.get(String(deal._id))
+      if (mark) {
+        totalUnrealizedPnl = totalUnrealizedPnl.plus(
+          this.toBig(mark.unrealizedPnl),
+        )
+      } else {
+        unpricedSymbols.add(deal.symbol)
+      }
+      return {
+        dealId: String(deal._id),
+        exchange: deal.exchange,
+        environment: deal.environment,
+        symbol: deal.symbol,
+        direction: deal.direction,
+        remainingQty: deal.remainingQty ?? deal.entry.qty,
+        entryAvgPrice: deal.entryAvgPrice ?? deal.entry.price,
+        markPrice: mark?.markPrice ?? null,
+        unrealizedPnl: mark?.unrealizedPnl ?? null,
+      }
+    })
 
     return {
-      totalPnL: totalPnL.toString(),
-      tradesCount,
-      winRate,
-      avgPnL,
-      feesTotal: feesTotal.toString(),
-      openCount,
-      totalRealizedPnl: profitBalance.totalRealizedPnl,
-      totalProfitSpent: profitBalance.totalProfitSpent,
-      profitAvailable: profitBalance.profitAvailable,
+      items,
+      totalUnrealizedPnl: totalUnrealizedPnl.toString(),
+      unpricedSymbols: Array.from(unpricedSymbols),
+      pricedAt: new Date().toISOString(),
+    }
+  }
+
+  async getMarkToMarket(deals: DealDocument[]) {
+    const openDeals = deals.filter((deal) => deal.status === 'OPEN')
+    // The same symbol can trade at different prices on each exchange.
+    const priceKey = (deal: DealDocument) => `${deal.exchange}:${deal.symbol}`
+    const pairs = new Map(openDeals.map((deal) => [priceKey(deal), deal]))
+    const prices = new Map<string, string>()
+
+    await Promise.all(
+      Array.from(pairs, async ([key, deal]) => {
+        try {
+          prices.set(
+            key,
+            await this.exchangesService
+              .get(deal.exchange)
+              .getTickerPrice(deal.symbol),
+          )
+        } catch {
+          // leave symbol unpriced when the ticker is unavailable
+        }
+      }),
+    )
+
+    const result = new Map<string, MarkToMarket>()
+    for (const deal of openDeals) {
+      const markPrice = prices.get(priceKey(deal))
+      if (!markPrice) continue
+      result.set(String(deal._id), {
+        markPrice,
+        unrealizedPnl: this.calcUnrealizedPnl(deal, markPrice),
+      })
     }
+    return result
   }
 
   async findByIdForUser(userId: string, id: string) {
@@ -253,9 +933,17 @@ export class DealsService {
       }
 
       entry.quote = this.computeQuote(nextQty, nextPrice)
+      entry.feeInQuote = await this.resolveLegFeeInQuote(
+        deal.exchange,
+        deal.symbol,
+        entry,
+        deal.openedAt,
+      )
       needsRecalc = deal.status === 'CLOSED' || hasExitLegs
     }
 
+    const riskChanged = this.applyRiskUpdate(deal, update)
+
     if (needsRecalc) {
       if (hasEntryLegs) {
         this.recalcEntryLegs(deal)
@@ -273,16 +961,45 @@ export class DealsService {
           deal.direction,
           deal.entry.quote,
           deal.exit.quote,
-          deal.entry.fee,
-          deal.exit.fee,
+          this.getLegFee(deal.entry),
+          this.getLegFee(deal.exit),
         )
         this.updateRealizedAvailable(deal)
+        this.updateRMultiple(deal)
       } else {
         this.applyLegacyRemaining(deal)
       }
     }
 
-    return deal.save()
+    if (riskChanged || update.direction || update.entry) {
+      const issues = validateRiskLevels({
+        direction: deal.direction,
+        entryPrice: deal.entryAvgPrice ?? deal.entry.price,
+        stopLoss: deal.stopLoss,
+        takeProfits: deal.takeProfits,
+      })
+      if (issues.length > 0) {
+        throw new BadRequestException(
+          issues.map((issue) => issue.message).join('; '),
+        )
+      }
+      this.updateRMultiple(deal)
+    }
+
+    return this.saveDeal(deal)
+  }
+
+  async listRiskAlerts(userId: string) {
+    return this.dealModel
+      .find({
+        userId,
+        status: 'OPEN',
+        $or: [
+          { stopLossHitAt: { $exists: true } },
+          { 'takeProfits.hitAt': { $exists: true } },
+        ],
+      })
+      .sort({ openedAt: -1, _id: -1 })
   }
 
   async closeDealForUser(userId: string, id: string, data: CloseDealDto) {
@@ -294,6 +1011,7 @@ export class DealsService {
     if (deal.status === 'CLOSED') {
       throw new BadRequestException('Deal is already closed')
     }
+    this.assertNoPendingOrder(deal)
 
     this.ensureEntryQuote(deal)
     const remainingQty = this.getRemainingQty(deal)
@@ -305,9 +1023,15 @@ export class DealsService {
       closedAt: data.closedAt,
       source: 'MANUAL',
     })
+    exitLeg.feeInQuote = await this.resolveLegFeeInQuote(
+      deal.exchange,
+      deal.symbol,
+      exitLeg,
+      exitLeg.closedAt,
+    )
     this.addExitLeg(deal, exitLeg)
 
-    return deal.save()
+    return this.saveDeal(deal)
   }
 
   async partialCloseDealForUser(
@@ -323,6 +1047,7 @@ export class DealsService {
     if (deal.status === 'CLOSED') {
       throw new BadRequestException('Deal is already closed')
     }
+    this.assertNoPendingOrder(deal)
 
     this.ensureEntryQuote(deal)
     const exitLeg = this.buildExitLeg({
@@ -333,12 +1058,18 @@ export class DealsService {
       closedAt: data.closedAt ?? new Date(),
       source: 'MANUAL',
     })
+    exitLeg.feeInQuote = await this.resolveLegFeeInQuote(
+      deal.exchange,
+      deal.symbol,
+      exitLeg,
+      exitLeg.closedAt,
+    )
     this.addExitLeg(deal, exitLeg)
     if (data.note) {
       this.appendNote(deal, data.note)
     }
 
-    return deal.save()
+    return this.saveDeal(deal)
   }
 
   async profitToPositionForUser(
@@ -350,8 +1081,13 @@ export class DealsService {
     if (!deal) {
       return null
     }
+    this.assertNoPendingOrder(deal)
 
-    const profitBalance = await this.getUserProfitBalance(userId)
+    // Testnet profit cannot fund a mainnet position, and the other way round.
+    const profitBalance = await this.getUserProfitBalance(
+      userId,
+      deal.environment,
+    )
     const profitAvailable = this.toBig(profitBalance.profitAvailable)
 
     this.ensureEntryQuote(deal)
@@ -402,7 +1138,7 @@ export class DealsService {
     deal.profitSpentTotal = nextSpent.toString()
     this.updateRealizedAvailable(deal)
 
-    await deal.save()
+    await this.saveDeal(deal)
 
     const profitAvailableAfter = profitAvailable.minus(amount)
     const totalProfitSpentAfter = this.toBig(
@@ -433,6 +1169,7 @@ export class DealsService {
     if (deal.status === 'CLOSED') {
       throw new BadRequestException('Deal is already closed')
     }
+    this.assertNoPendingOrder(deal)
 
     this.ensureEntryQuote(deal)
     this.applyLegacyEntryAgg(deal)
@@ -449,6 +1186,12 @@ export class DealsService {
       openedAt: data.openedAt ?? new Date(),
       source: 'MANUAL',
     })
+    entryLeg.feeInQuote = await this.resolveLegFeeInQuote(
+      deal.exchange,
+      deal.symbol,
+      entryLeg,
+      entryLeg.openedAt,
+    )
 
     this.addEntryLeg(deal, entryLeg)
 
@@ -456,7 +1199,7 @@ export class DealsService {
       this.appendNote(deal, data.note)
     }
 
-    await deal.save()
+    await this.saveDeal(deal)
 
     return {
       deal: this.mapDeal(deal),
@@ -493,19 +1236,23 @@ export class DealsService {
 
     let trades: TradeFill[]
     try {
-      trades = await this.binanceSpotClient.getMyTrades(userId, {
-        symbol,
-        orderId: payload.orderId,
-        startTime: payload.startTime,
-        endTime: payload.endTime,
-        limit: payload.limit,
-      })
+      trades = await this.exchangesService.get(deal.exchange).getMyTrades(
+        userId,
+        {
+          symbol,
+          orderId: payload.orderId,
+          startTime: payload.startTime,
+          endTime: payload.endTime,
+          limit: payload.limit,
+        },
+        this.getProfileId(deal),
+      )
     } catch (error) {
-      throw this.mapBinanceError(error)
+      throw this.mapExchangeError(error)
     }
 
-    const result = this.applyTradesToDeal(deal, payload.phase, trades)
-    await deal.save()
+    const result = await this.applyTradesToDeal(deal, payload.phase, trades)
+    await this.saveDeal(deal)
     const leg = this.requireLeg(result.leg, payload.phase)
 
     return {
@@ -519,12 +1266,18 @@ export class DealsService {
         quote: leg.quote,
         fee: leg.fee,
         feeAsset: leg.feeAsset,
+        feeInQuote: leg.feeInQuote,
       },
       preview: result.preview,
     }
   }
 
   async openDealWithOrder(userId: string, payload: OpenDealWithOrderDto) {
+    if (payload.orderType === 'LIMIT') {
+      return this.openDealWithLimitOrder(userId, payload)
+    }
+
+    const exchange = payload.exchange
     const symbol = payload.symbol.trim().toUpperCase()
     const side = payload.direction === 'LONG' ? 'BUY' : 'SELL'
     const orderPayload = this.buildMarketOrderPayload(
@@ -534,24 +1287,17 @@ export class DealsService {
       payload.quoteOrderQty,
     )
 
-    const order = await this.placeMarketOrder(
-      userId,
-      symbol,
-      side,
-      orderPayload,
-    )
-    const trades = await this.fetchTradesByOrderId(
+    const profile = await this.exchangesService.resolveProfile(
       userId,
-      symbol,
-      order.orderId,
+      exchange,
+      payload.credentialProfileId,
     )
-
-    if (trades.length === 0) {
-      throw new ConflictException('Order has no fills yet')
-    }
-
+    // Built up front so the order's client id can carry the deal id.
     const deal = new this.dealModel({
       userId,
+      exchange,
+      credentialProfileId: profile._id,
+      environment: profile.environment,
       symbol,
       direction: payload.direction,
       status: 'OPEN',
@@ -564,13 +1310,32 @@ export class DealsService {
       },
     })
 
-    const applied = this.applyTradesToDeal(deal, 'ENTRY', trades)
-    await deal.save()
-    const leg = this.requireLeg(applied.leg, 'ENTRY')
+    const order = await this.placeDealOrder(deal, side, {
+      type: 'MARKET',
+      ...orderPayload,
+    })
+    const trades =
+      order.fills.length > 0
+        ? order.fills
+        : await this.fetchTradesByOrderId(deal, order.orderId)
 
-    return {
+    if (trades.length === 0) {
+      throw new ConflictException('Order has no fills yet')
+    }
+
+    const applied = await this.applyTradesToDeal(deal, 'ENTRY', trades)
+    await this.saveDeal(deal)
+    const leg = this.requireLeg(applied.leg, 'ENTRY')
+
+    return {
       deal: this.mapDeal(deal),
-      binance: { orderId: order.orderId, side, type: 'MARKET' as const },
+      order: {
+        exchange: deal.exchange,
+        orderId: order.orderId,
+        clientOrderId: order.clientOrderId,
+        side,
+        type: 'MARKET' as const,
+      },
       importedCount: applied.importedCount,
       aggregate: {
         qty: leg.qty,
@@ -578,6 +1343,7 @@ export class DealsService {
         quote: leg.quote,
         fee: leg.fee,
         feeAsset: leg.feeAsset,
+        feeInQuote: leg.feeInQuote,
       },
     }
   }
@@ -595,8 +1361,11 @@ export class DealsService {
     if (deal.status === 'CLOSED') {
       throw new BadRequestException('Deal is already closed')
     }
+    this.assertNoPendingOrder(deal)
+    if (payload.orderType === 'LIMIT') {
+      return this.closeDealWithLimitOrder(userId, deal, payload)
+    }
 
-    const symbol = deal.symbol.trim().toUpperCase()
     const side = deal.direction === 'LONG' ? 'SELL' : 'BUY'
     const orderPayload = this.buildMarketOrderPayload(
       side,
@@ -605,23 +1374,20 @@ export class DealsService {
       payload.quoteOrderQty,
     )
 
-    const order = await this.placeMarketOrder(
-      userId,
-      symbol,
-      side,
-      orderPayload,
-    )
-    const trades = await this.fetchTradesByOrderId(
-      userId,
-      symbol,
-      order.orderId,
-    )
+    const order = await this.placeDealOrder(deal, side, {
+      type: 'MARKET',
+      ...orderPayload,
+    })
+    const trades =
+      order.fills.length > 0
+        ? order.fills
+        : await this.fetchTradesByOrderId(deal, order.orderId)
 
     if (trades.length === 0) {
       throw new ConflictException('Order has no fills yet')
     }
 
-    const applied = this.applyTradesToDeal(deal, 'EXIT', trades)
+    const applied = await this.applyTradesToDeal(deal, 'EXIT', trades)
     this.ensureEntryQuote(deal)
     const leg = this.requireLeg(applied.leg, 'EXIT')
     const exitLeg = this.buildExitLeg({
@@ -630,8 +1396,9 @@ export class DealsService {
       quote: leg.quote,
       fee: leg.fee,
       feeAsset: leg.feeAsset,
+      feeInQuote: leg.feeInQuote,
       closedAt: new Date(),
-      source: 'BINANCE',
+      source: deal.exchange,
       orderId: order.orderId,
     })
     this.addExitLeg(deal, exitLeg)
@@ -639,11 +1406,17 @@ export class DealsService {
       this.appendNote(deal, payload.note)
     }
 
-    await deal.save()
+    await this.saveDeal(deal)
 
     return {
       deal: this.mapDeal(deal),
-      binance: { orderId: order.orderId, side, type: 'MARKET' as const },
+      order: {
+        exchange: deal.exchange,
+        orderId: order.orderId,
+        clientOrderId: order.clientOrderId,
+        side,
+        type: 'MARKET' as const,
+      },
       importedCount: applied.importedCount,
       aggregate: {
         qty: leg.qty,
@@ -651,10 +1424,203 @@ export class DealsService {
         quote: leg.quote,
         fee: leg.fee,
         feeAsset: leg.feeAsset,
+        feeInQuote: leg.feeInQuote,
       },
     }
   }
 
+  async cancelPendingOrderForUser(userId: string, id: string) {
+    const deal = await this.dealModel.findOne({ _id: id, userId })
+    if (!deal) {
+      return null
+    }
+    if (!deal.pendingOrder) {
+      throw new BadRequestException('Deal has no pending order')
+    }
+
+    const synced = await this.syncPendingOrder(deal, { cancel: true })
+    return { deal: synced ? this.mapDeal(synced) : null }
+  }
+
+  /**
+   * Applies new fills of the deal's resting LIMIT order and settles the deal
+   * once the exchange reports a final status. Orders past `expiresAt`, or when
+   * `cancel` is set, are cancelled first. Returns null when an entry order
+   * ended without fills and the deal was removed.
+   */
+  async syncPendingOrder(
+    deal: DealDocument,
+    options: { cancel?: boolean } = {},
+  ) {
+    const pending = deal.pendingOrder
+    if (!pending) {
+      return deal
+    }
+
+    let order = await this.queryDealOrder(deal, pending.orderId)
+    const expired = pending.expiresAt.getTime() <= Date.now()
+    if (
+      !FINAL_ORDER_STATUSES.has(order.status) &&
+      (options.cancel || expired)
+    ) {
+      try {
+        await this.exchangesService
+          .get(deal.exchange)
+          .cancelOrder(
+            String(deal.userId),
+            deal.symbol,
+            pending.orderId,
+            this.getProfileId(deal),
+          )
+      } catch {
+        // The order may have filled meanwhile; the re-query below settles it.
+      }
+      order = await this.queryDealOrder(deal, pending.orderId)
+    }
+
+    const appliedQty = this.getAppliedOrderQty(deal, pending)
+    const trades = this.toBig(order.executedQty).gt(appliedQty)
+      ? await this.fetchTradesByOrderId(deal, pending.orderId)
+      : []
+    const result = await this.applyPendingOrderUpdate(deal, order, trades)
+    return result.deal
+  }
+
+  /**
+   * Applies a user data stream execution report to the deal whose resting
+   * LIMIT order it describes. MARKET orders are settled from their FULL
+   * placement response, so reports for them are ignored.
+   */
+  async applyStreamOrderUpdate(
+    userId: string,
+    dealId: string,
+    report: {
+      orderId: number
+      status: string
+      executedQty: string
+      trade?: TradeFill
+    },
+  ) {
+    const deal = await this.dealModel.findOne({
+      _id: dealId,
+      userId,
+      exchange: 'BINANCE',
+      'pendingOrder.orderId': report.orderId,
+    })
+    if (!deal?.pendingOrder) {
+      return null
+    }
+
+    let trades = report.trade ? [report.trade] : []
+    const knownQty = this.getAppliedOrderQty(deal, deal.pendingOrder).plus(
+      this.toBig(report.trade?.qty ?? '0'),
+    )
+    // A dropped connection can skip fills; pull the full list instead.
+    if (this.toBig(report.executedQty).gt(knownQty)) {
+      trades = await this.fetchTradesByOrderId(deal, report.orderId)
+    }
+    const result = await this.applyPendingOrderUpdate(
+      deal,
+      { status: report.status, executedQty: report.executedQty },
+      trades,
+    )
+    return result.deal
+  }
+
+  async previewTradeHistoryImport(
+    userId: string,
+    payload: ImportTradeHistoryDto,
+  ) {
+    const history = await this.loadTradeHistory(userId, payload)
+
+    return {
+      fileName: payload.fileName,
+      tradesCount: history.tradesCount,
+      duplicateCount: history.duplicateCount,
+      skippedRows: history.skippedRows,
+      deals: history.deals.map((deal) => this.summarizeMatchedDeal(deal)),
+    }
+  }
+
+  async commitTradeHistoryImport(
+    userId: string,
+    payload: ImportTradeHistoryDto,
+  ) {
+    const history = await this.loadTradeHistory(userId, payload)
+    const assetsBySymbol = new Map<string, SymbolAssets | null>()
+    const created: DealDocument[] = []
+
+    for (const matched of history.deals) {
+      if (!assetsBySymbol.has(matched.symbol)) {
+        assetsBySymbol.set(
+          matched.symbol,
+          await this.resolveSymbolAssets('BINANCE', matched.symbol),
+        )
+      }
+      const deal = await this.buildDealFromMatch(
+        userId,
+        matched,
+        assetsBySymbol.get(matched.symbol) ?? null,
+        `Imported from ${payload.fileName}.`,
+      )
+      created.push(await this.saveDeal(deal))
+    }
+
+    return {
+      createdCount: created.length,
+      tradesCount: history.tradesCount,
+      duplicateCount: history.duplicateCount,
+      skippedCount: history.skippedRows.length,
+      dealIds: created.map((deal) => String(deal._id)),
+    }
+  }
+
+  async syncDealsForUser(userId: string, payload: SyncDealsDto) {
+    const profile = await this.exchangesService.resolveProfile(
+      userId,
+      'BINANCE',
+      payload.credentialProfileId,
+    )
+    const symbols = Array.from(new Set(payload.symbols))
+    const results = []
+    for (const symbol of symbols) {
+      results.push(
+        await this.syncSymbolTrades(
+          userId,
+          {
+            id: profile._id,
+            isDefault: profile.isDefault,
+            environment: profile.environment,
+          },
+          symbol,
+          payload.strategy,
+          payload.maxTrades ?? DEFAULT_SYNC_MAX_TRADES,
+        ),
+      )
+    }
+    return {
+      credentialProfileId: String(profile._id),
+      strategy: payload.strategy,
+      symbols: results,
+    }
+  }
+
+  async listSyncCursors(userId: string) {
+    const cursors = await this.syncCursorModel
+      .find({ userId })
+      .sort({ symbol: 1 })
+      .lean()
+    return cursors.map((cursor) => ({
+      credentialProfileId: cursor.credentialProfileId
+        ? String(cursor.credentialProfileId)
+        : null,
+      symbol: cursor.symbol,
+      lastTradeId: cursor.lastTradeId,
+      strategy: cursor.strategy,
+      lastSyncedAt: cursor.lastSyncedAt,
+    }))
+  }
+
   async deleteByIdForUser(userId: string, id: string) {
     const deal = await this.dealModel.findById(id)
     if (!deal) {
@@ -663,7 +1629,15 @@ export class DealsService {
     if (String(deal.userId) !== userId) {
       return null
     }
-    await deal.deleteOne()
+    this.assertNoPendingOrder(deal)
+    await this.dealModel.updateOne(
+      { _id: deal._id },
+      { $set: { deletedAt: new Date() } },
+    )
+    this.eventsService.emit(userId, {
+      type: 'deal.deleted',
+      dealId: String(deal._id),
+    })
     return String(deal._id)
   }
 
@@ -672,13 +1646,22 @@ export class DealsService {
       throw new BadRequestException('ids must not be empty')
     }
     const deals = await this.dealModel
-      .find({ _id: { $in: ids }, userId }, { _id: 1 })
+      .find(
+        { _id: { $in: ids }, userId, pendingOrder: { $exists: false } },
+        { _id: 1 },
+      )
       .lean()
     const deletableIds = deals.map((deal) => String(deal._id))
     if (deletableIds.length === 0) {
       return { ok: true, deletedCount: 0, deletedIds: [] }
     }
-    await this.dealModel.deleteMany({ _id: { $in: deletableIds }, userId })
+    await this.dealModel.updateMany(
+      { _id: { $in: deletableIds }, userId },
+      { $set: { deletedAt: new Date() } },
+    )
+    for (const dealId of deletableIds) {
+      this.eventsService.emit(userId, { type: 'deal.deleted', dealId })
+    }
     return {
       ok: true,
       deletedCount: deletableIds.length,
@@ -686,6 +1669,67 @@ export class DealsService {
     }
   }
 
+  async listTrash(userId: string, query: ListTrashQuery) {
+    const filter = { userId, deletedAt: { $ne: null } }
+
+    const page = query.page && query.page > 0 ? query.page : 1
+    const limit = Math.min(query.limit ?? 50, 100)
+    const skip = (page - 1) * limit
+
+    const [items, total] = await Promise.all([
+      this.dealModel
+        .find(filter)
+        .sort({ deletedAt: -1, _id: -1 })
+        .skip(skip)
+        .limit(limit),
+      this.dealModel.countDocuments(filter),
+    ])
+
+    return { items, total, page, limit }
+  }
+
+  async restoreForUser(userId: string, ids: string[]) {
+    const filter = { _id: { $in: ids }, userId, deletedAt: { $ne: null } }
+    const deals = await this.dealModel.find(filter, { _id: 1 }).lean()
+    const restoredIds = deals.map((deal) => String(deal._id))
+    if (restoredIds.length === 0) {
+      return { ok: true, restoredCount: 0, restoredIds: [] }
+    }
+    await this.dealModel.updateMany(
+      { ...filter, _id: { $in: restoredIds } },
+      { $unset: { deletedAt: 1 } },
+    )
+    for (const dealId of restoredIds) {
+      this.eventsService.emit(userId, { type: 'deal.restored', dealId })
+    }
+    return {
+      ok: true,
+      restoredCount: restoredIds.length,
+      restoredIds,
+    }
+  }
+
+  /** Deletes trashed deals for good: the given ones, or all of them. */
+  async purgeForUser(userId: string, ids?: string[]) {
+    const filter: FilterQuery<DealDocument> = {
+      userId,
+      deletedAt: { $ne: null },
+    }
+    if (ids) {
+      filter._id = { $in: ids }
+    }
+    const deals = await this.dealModel.find(filter, { _id: 1 }).lean()
+    const purgedIds = deals.map((deal) => String(deal._id))
+    if (purgedIds.length === 0) {
+      return { ok: true, purgedCount: 0 }
+    }
+    await this.dealModel.deleteMany({ ...filter, _id: { $in: purgedIds } })
+    for (const dealId of purgedIds) {
+      this.eventsService.emit(userId, { type: 'deal.purged', dealId })
+    }
+    return { ok: true, purgedCount: purgedIds.length }
+  }
+
   private computeQuote(qty: string, price: string) {
     return this.toBig(qty).times(this.toBig(price)).toString()
   }
@@ -696,8 +1740,9 @@ export class DealsService {
     quote?: string
     fee?: string
     feeAsset?: string
+    feeInQuote?: string
     openedAt: Date
-    source?: 'MANUAL' | 'BINANCE'
+    source?: 'MANUAL' | ExchangeId
     orderId?: number
   }): DealEntryLeg {
     const quote = input.quote ?? this.computeQuote(input.qty, input.price)
@@ -707,6 +1752,7 @@ export class DealsService {
       quote,
       fee: input.fee,
       feeAsset: input.feeAsset,
+      feeInQuote: input.feeInQuote,
       openedAt: input.openedAt,
       source: input.source,
       orderId: input.orderId,
@@ -725,8 +1771,9 @@ export class DealsService {
     quote?: string
     fee?: string
     feeAsset?: string
+    feeInQuote?: string
     closedAt: Date
-    source?: 'MANUAL' | 'BINANCE'
+    source?: 'MANUAL' | ExchangeId
     orderId?: number
   }): DealExitLeg {
     const quote = input.quote ?? this.computeQuote(input.qty, input.price)
@@ -736,6 +1783,7 @@ export class DealsService {
       quote,
       fee: input.fee,
       feeAsset: input.feeAsset,
+      feeInQuote: input.feeInQuote,
       closedAt: input.closedAt,
       source: input.source,
       orderId: input.orderId,
@@ -765,6 +1813,36 @@ export class DealsService {
     this.recalcExitLegs(deal)
   }
 
+  /** Saves the deal and pushes the matching event to the user's tabs. */
+  private async saveDeal(deal: DealDocument) {
+    const type = deal.isNew
+      ? 'deal.created'
+      : deal.isModified('status') && deal.status === 'CLOSED'
+        ? 'deal.closed'
+        : 'deal.updated'
+    const saved = await this.persistDeal(deal)
+    this.eventsService.emit(String(saved.userId), {
+      type,
+      dealId: String(saved._id),
+      symbol: saved.symbol,
+      status: saved.status,
+    })
+    return saved
+  }
+
+  private persistDeal(deal: DealDocument) {
+    deal.feeConversionFailed = this.hasUnpricedFee(deal) || undefined
+    return deal.save()
+  }
+
+  private assertNoPendingOrder(deal: DealDocument) {
+    if (deal.pendingOrder) {
+      throw new ConflictException(
+        `Deal has a pending ${deal.pendingOrder.phase.toLowerCase()} order ${deal.pendingOrder.orderId}`,
+      )
+    }
+  }
+
   private getEntryAgg(deal: DealDocument) {
     this.ensureEntryQuote(deal)
     const entryLegs = deal.entryLegs ?? []
@@ -822,7 +1900,7 @@ export class DealsService {
     for (const leg of exitLegs) {
       closedQty = closedQty.plus(this.toBig(leg.qty))
       closedQuote = closedQuote.plus(this.toBig(leg.quote))
-      feesTotal = feesTotal.plus(this.toBig(leg.fee ?? '0'))
+      feesTotal = feesTotal.plus(this.toBig(this.getLegFee(leg)))
     }
     return {
       closedQty: closedQty.toString(),
@@ -838,7 +1916,7 @@ export class DealsService {
   ) {
     const exitQty = this.toBig(exitLeg.qty)
     const exitQuote = this.toBig(exitLeg.quote)
-    const exitFee = this.toBig(exitLeg.fee ?? '0')
+    const exitFee = this.toBig(this.getLegFee(exitLeg))
     const basis = exitQty.times(this.toBig(entryAvgPrice))
     const pnl =
       direction === 'LONG'
@@ -847,6 +1925,151 @@ export class DealsService {
     return pnl.toString()
   }
 
+  private summarizeClosedDeals(deals: ClosedDealStatsInput[]): StatsSummary {
+    let totalPnL = new Big(0)
+    let feesTotal = new Big(0)
+    let winCount = 0
+    let feeConversionFailedCount = 0
+    let holdingTotalMs = 0
+    let holdingCount = 0
+
+    for (const deal of deals) {
+      const realized = this.toBig(String(deal.realizedPnl ?? '0'))
+      totalPnL = totalPnL.plus(realized)
+      if (realized.gt(0)) {
+        winCount += 1
+      }
+
+      const entryFee = this.toBig(String(this.getLegFee(deal.entry)))
+      let exitFeesTotal = this.toBig('0')
+      if (Array.isArray(deal.exitLegs) && deal.exitLegs.length > 0) {
+        for (const leg of deal.exitLegs) {
+          exitFeesTotal = exitFeesTotal.plus(
+            this.toBig(String(this.getLegFee(leg))),
+          )
+        }
+      } else {
+        exitFeesTotal = this.toBig(String(this.getLegFee(deal.exit)))
+      }
+      feesTotal = feesTotal.plus(entryFee).plus(exitFeesTotal)
+      if (deal.feeConversionFailed) {
+        feeConversionFailedCount += 1
+      }
+
+      if (deal.openedAt && deal.closedAt) {
+        const holdingMs =
+          new Date(deal.closedAt).getTime() - new Date(deal.openedAt).getTime()
+        if (Number.isFinite(holdingMs) && holdingMs >= 0) {
+          holdingTotalMs += holdingMs
+          holdingCount += 1
+        }
+      }
+    }
+
+    const tradesCount = deals.length
+    const avgPnL = tradesCount > 0 ? totalPnL.div(tradesCount).toString() : '0'
+    const winRate =
+      tradesCount > 0
+        ? Number(new Big(winCount).div(tradesCount).times(100).toFixed(2))
+        : 0
+
+    return {
+      totalPnL: totalPnL.toString(),
+      tradesCount,
+      winRate,
+      avgPnL,
+      feesTotal: feesTotal.toString(),
+      feeConversionFailedCount,
+      avgHoldingMs:
+        holdingCount > 0 ? Math.round(holdingTotalMs / holdingCount) : null,
+    }
+  }
+
+  private getStatsGroupKey(deal: ClosedDealStatsInput, groupBy: StatsGroupBy) {
+    if (groupBy === 'symbol') {
+      return deal.symbol
+    }
+    if (groupBy === 'direction') {
+      return deal.direction
+    }
+    const closedAt = deal.closedAt ? new Date(deal.closedAt) : null
+    return closedAt ? closedAt.toISOString().slice(0, 7) : 'UNKNOWN'
+  }
+
+  private collectRealizedEvents(
+    deal: Pick<
+      Deal,
+      | 'direction'
+      | 'status'
+      | 'closedAt'
+      | 'realizedPnl'
+      | 'entry'
+      | 'entryAvgPrice'
+      | 'exit'
+      | 'exitLegs'
+    > & { _id: unknown },
+  ): RealizedEvent[] {
+    const dealId = String(deal._id)
+    const exitLegs = deal.exitLegs ?? []
+    if (exitLegs.length > 0) {
+      const entryAvgPrice = deal.entryAvgPrice ?? deal.entry.price
+      return exitLegs.map((leg) => ({
+        dealId,
+        closedAt: new Date(leg.closedAt),
+        pnl: this.toBig(
+          this.calcPartialPnl(deal.direction, entryAvgPrice, leg),
+        ),
+        fee: this.toBig(this.getLegFee(leg)),
+      }))
+    }
+
+    if (deal.status !== 'CLOSED' || !deal.closedAt) {
+      return []
+    }
+    return [
+      {
+        dealId,
+        closedAt: new Date(deal.closedAt),
+        pnl: this.toBig(String(deal.realizedPnl ?? '0')),
+        fee: this.toBig(this.getLegFee(deal.entry)).plus(
+          this.toBig(this.getLegFee(deal.exit)),
+        ),
+      },
+    ]
+  }
+
+  private getBucketStart(date: Date, interval: TimeseriesInterval) {
+    const start = new Date(
+      Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+    )
+    if (interval === 'week') {
+      const weekday = (start.getUTCDay() + 6) % 7
+      start.setUTCDate(start.getUTCDate() - weekday)
+    }
+    if (interval === 'month') {
+      start.setUTCDate(1)
+    }
+    return start
+  }
+
+  private formatBucketLabel(start: Date, interval: TimeseriesInterval) {
+    const iso = start.toISOString()
+    return interval === 'month' ? iso.slice(0, 7) : iso.slice(0, 10)
+  }
+
+  private calcUnrealizedPnl(deal: DealDocument, markPrice: string) {
+    const remainingQty = this.toBig(
+      deal.remainingQty ?? deal.entryQtyTotal ?? deal.entry.qty,
+    )
+    const avgPrice = this.toBig(deal.entryAvgPrice ?? deal.entry.price)
+    const mark = this.toBig(markPrice)
+    const pnl =
+      deal.direction === 'LONG'
+        ? mark.minus(avgPrice).times(remainingQty)
+        : avgPrice.minus(mark).times(remainingQty)
+    return pnl.toString()
+  }
+
   private recalcExitLegs(
     deal: DealDocument,
     options: { preserveRealizedPnl?: boolean } = {},
@@ -899,6 +2122,54 @@ export class DealsService {
         quote: aggregate.closedQuote,
       }
     }
+    this.updateRMultiple(deal)
+  }
+
+  private applyRiskUpdate(deal: DealDocument, update: UpdateDealDto) {
+    let changed = false
+    if (Object.prototype.hasOwnProperty.call(update, 'stopLoss')) {
+      if (update.stopLoss !== deal.stopLoss) {
+        deal.stopLoss = update.stopLoss ?? undefined
+        deal.stopLossHitAt = undefined
+        deal.stopLossHitPrice = undefined
+      }
+      changed = true
+    }
+    if (Object.prototype.hasOwnProperty.call(update, 'takeProfits')) {
+      // Levels that stay at the same price keep their hit flag.
+      const previous = deal.takeProfits ?? []
+      deal.takeProfits = (update.takeProfits ?? []).map((target) => {
+        const kept = previous.find((item) => item.price === target.price)
+        return {
+          price: target.price,
+          percent: target.percent,
+          hitAt: kept?.hitAt,
+          hitPrice: kept?.hitPrice,
+        }
+      })
+      changed = true
+    }
+    if (Object.prototype.hasOwnProperty.call(update, 'riskAmount')) {
+      deal.riskAmount = update.riskAmount ?? undefined
+      changed = true
+    }
+    return changed
+  }
+
+  private updateRMultiple(deal: DealDocument) {
+    const risk =
+      deal.status === 'CLOSED' && deal.realizedPnl
+        ? getInitialRisk({
+            riskAmount: deal.riskAmount,
+            stopLoss: deal.stopLoss,
+            entryPrice: deal.entryAvgPrice ?? deal.entry.price,
+            entryQty: deal.entryQtyTotal ?? deal.entry.qty,
+          })
+        : null
+    deal.rMultiple =
+      risk && risk.gt(0) && deal.realizedPnl
+        ? this.toBig(deal.realizedPnl).div(risk).round(2).toString()
+        : undefined
   }
 
   private applyLegacyRemaining(deal: DealDocument) {
@@ -944,6 +2215,7 @@ export class DealsService {
           quote: deal.entry.quote,
           fee: deal.entry.fee,
           feeAsset: deal.entry.feeAsset,
+          feeInQuote: deal.entry.feeInQuote,
           openedAt: deal.openedAt ?? new Date(),
           source: 'MANUAL',
         })
@@ -966,9 +2238,15 @@ export class DealsService {
     deal.realizedPnlAvailable = available.lt(0) ? '0' : available.toString()
   }
 
-  private async getUserProfitBalance(userId: string) {
+  private async getUserProfitBalance(
+    userId: string,
+    environment?: ExchangeEnvironment,
+  ) {
     const deals = await this.dealModel
-      .find({ userId }, { realizedPnl: 1, profitSpentTotal: 1 })
+      .find(environment ? { userId, environment } : { userId }, {
+        realizedPnl: 1,
+        profitSpentTotal: 1,
+      })
       .lean()
     let totalRealized = this.toBig('0')
     let totalSpent = this.toBig('0')
@@ -1016,49 +2294,302 @@ export class DealsService {
     return { quantity }
   }
 
-  private async placeMarketOrder(
-    userId: string,
-    symbol: string,
+  /** Places an order for the deal, tagged with its id, with its keys. */
+  private async placeDealOrder(
+    deal: DealDocument,
     side: 'BUY' | 'SELL',
-    payload: { quantity?: string; quoteOrderQty?: string },
-  ) {
+    payload: {
+      type: 'MARKET' | 'LIMIT'
+      quantity?: string
+      quoteOrderQty?: string
+      price?: string
+    },
+  ): Promise<ExchangeOrder> {
     try {
-      const response = await this.binanceSpotClient.placeOrder(userId, {
-        symbol,
-        side,
-        type: 'MARKET',
-        quantity: payload.quantity,
-        quoteOrderQty: payload.quoteOrderQty,
-      })
-      const orderId = Number(
-        (response as { orderId?: number | string }).orderId,
+      return await this.exchangesService.get(deal.exchange).placeOrder(
+        String(deal.userId),
+        {
+          symbol: deal.symbol,
+          side,
+          type: payload.type,
+          quantity: payload.quantity,
+          quoteOrderQty: payload.quoteOrderQty,
+          price: payload.price,
+          clientOrderId: buildDealClientOrderId(String(deal._id)),
+        },
+        this.getProfileId(deal),
       )
-      if (!Number.isFinite(orderId)) {
-        throw new BadRequestException('Binance orderId missing in response')
-      }
-      return { orderId }
     } catch (error) {
-      throw this.mapBinanceError(error)
+      throw this.mapExchangeError(error)
     }
   }
 
-  private async fetchTradesByOrderId(
+  private async openDealWithLimitOrder(
     userId: string,
-    symbol: string,
-    orderId: number,
+    payload: OpenDealWithOrderDto,
+  ) {
+    const { quantity, price } = payload
+    if (!quantity || !price) {
+      throw new BadRequestException(
+        'quantity and price are required for LIMIT orders',
+      )
+    }
+    const symbol = payload.symbol.trim().toUpperCase()
+    const side = payload.direction === 'LONG' ? 'BUY' : 'SELL'
+    const profile = await this.exchangesService.resolveProfile(
+      userId,
+      payload.exchange,
+      payload.credentialProfileId,
+    )
+
+    const deal = new this.dealModel({
+      userId,
+      exchange: payload.exchange,
+      credentialProfileId: profile._id,
+      environment: profile.environment,
+      symbol,
+      direction: payload.direction,
+      status: 'PENDING',
+      openedAt: new Date(),
+      note: payload.note,
+      entry: {
+        qty: '0',
+        price: '0',
+        quote: '0',
+      },
+    })
+
+    const order = await this.placeDealOrder(deal, side, {
+      type: 'LIMIT',
+      quantity,
+      price,
+    })
+    deal.pendingOrder = this.buildPendingOrder(order, 'ENTRY', side, price)
+    const result = await this.applyPendingOrderUpdate(deal, order, order.fills)
+    if (!result.deal) {
+      throw new ConflictException(`Order ${order.status} without fills`)
+    }
+
+    return this.mapLimitOrderResult(result.deal, 'ENTRY', order, side, result)
+  }
+
+  private async closeDealWithLimitOrder(
+    userId: string,
+    deal: DealDocument,
+    payload: CloseDealWithOrderDto,
+  ) {
+    const price = payload.price
+    if (!price) {
+      throw new BadRequestException('price is required for LIMIT orders')
+    }
+    this.ensureEntryQuote(deal)
+    this.applyLegacyEntryAgg(deal)
+    const remainingQty = this.getRemainingQty(deal)
+    const quantity = payload.quantity ?? remainingQty
+    if (this.toBig(quantity).gt(this.toBig(remainingQty))) {
+      throw new BadRequestException('quantity exceeds remaining qty')
+    }
+
+    const side = deal.direction === 'LONG' ? 'SELL' : 'BUY'
+    const order = await this.placeDealOrder(deal, side, {
+      type: 'LIMIT',
+      quantity,
+      price,
+    })
+    deal.pendingOrder = this.buildPendingOrder(order, 'EXIT', side, price)
+    if (payload.note) {
+      this.appendNote(deal, payload.note)
+    }
+    const result = await this.applyPendingOrderUpdate(deal, order, order.fills)
+
+    return this.mapLimitOrderResult(deal, 'EXIT', order, side, result)
+  }
+
+  private buildPendingOrder(
+    order: ExchangeOrder,
+    phase: DealOrderPhase,
+    side: 'BUY' | 'SELL',
+    price: string,
+  ): DealPendingOrder {
+    const timeout = Number(
+      this.configService.get('DEALS_LIMIT_ORDER_TIMEOUT_MS') ??
+        DEFAULT_LIMIT_ORDER_TIMEOUT_MS,
+    )
+    const placedAt = new Date()
+    return {
+      orderId: order.orderId,
+      clientOrderId: order.clientOrderId,
+      phase,
+      side,
+      price,
+      origQty: order.origQty,
+      executedQty: '0',
+      status: order.status,
+      placedAt,
+      expiresAt: new Date(
+        placedAt.getTime() +
+          (Number.isFinite(timeout) && timeout > 0
+            ? timeout
+            : DEFAULT_LIMIT_ORDER_TIMEOUT_MS),
+      ),
+    }
+  }
+
+  /**
+   * Applies fills of the pending order that the deal has not seen yet, then
+   * clears the order once it is final. Entry fills grow the entry leg; each
+   * batch of exit fills becomes its own exit leg. A PENDING deal whose order
+   * ended without fills is deleted.
+   */
+  private async applyPendingOrderUpdate(
+    deal: DealDocument,
+    order: { status: string; executedQty: string },
+    trades: TradeFill[],
+  ): Promise<{ deal: DealDocument | null; importedCount: number }> {
+    const pending = deal.pendingOrder
+    if (!pending) {
+      return { deal, importedCount: 0 }
+    }
+
+    const existing =
+      pending.phase === 'ENTRY'
+        ? (deal.entryTrades ?? [])
+        : (deal.exitTrades ?? [])
+    const seen = new Set(existing.map((trade) => trade.id))
+    const fresh = trades.filter(
+      (trade) => trade.orderId === pending.orderId && !seen.has(trade.id),
+    )
+
+    if (fresh.length > 0) {
+      const times = fresh.map((trade) => trade.time)
+      if (pending.phase === 'ENTRY') {
+        if (existing.length === 0) {
+          // The deal opens with its first fill, not when the order was placed.
+          deal.openedAt = new Date(Math.min(...times))
+        }
+        await this.applyTradesToDeal(deal, 'ENTRY', fresh)
+      } else {
+        await this.applyTradesToDeal(deal, 'EXIT', fresh)
+        const leg = await this.buildLegFromTrades(
+          deal,
+          fresh,
+          await this.resolveSymbolAssets(deal.exchange, deal.symbol),
+        )
+        this.addExitLeg(
+          deal,
+          this.buildExitLeg({
+            ...leg,
+            closedAt: new Date(Math.max(...times)),
+            source: deal.exchange,
+            orderId: pending.orderId,
+          }),
+        )
+      }
+    }
+
+    pending.status = order.status
+    pending.executedQty = order.executedQty
+    if (FINAL_ORDER_STATUSES.has(order.status)) {
+      deal.pendingOrder = undefined
+      if (deal.status === 'PENDING') {
+        if ((deal.entryTrades ?? []).length === 0) {
+          if (!deal.isNew) {
+            await deal.deleteOne()
+            this.eventsService.emit(String(deal.userId), {
+              type: 'deal.deleted',
+              dealId: String(deal._id),
+            })
+          }
+          return { deal: null, importedCount: 0 }
+        }
+        deal.status = 'OPEN'
+      }
+    }
+
+    await this.saveDeal(deal)
+    return { deal, importedCount: fresh.length }
+  }
+
+  private getAppliedOrderQty(deal: DealDocument, pending: DealPendingOrder) {
+    const trades =
+      pending.phase === 'ENTRY'
+        ? (deal.entryTrades ?? [])
+        : (deal.exitTrades ?? [])
+    return trades
+      .filter((trade) => trade.orderId === pending.orderId)
+      .reduce((sum, trade) => sum.plus(this.toBig(trade.qty)), this.toBig('0'))
+  }
+
+  private mapLimitOrderResult(
+    deal: DealDocument,
+    phase: DealOrderPhase,
+    order: ExchangeOrder,
+    side: 'BUY' | 'SELL',
+    result: { importedCount: number },
   ) {
+    const exitLegs = deal.exitLegs ?? []
+    const leg = phase === 'ENTRY' ? deal.entry : exitLegs[exitLegs.length - 1]
+    return {
+      deal: this.mapDeal(deal),
+      order: {
+        exchange: deal.exchange,
+        orderId: order.orderId,
+        clientOrderId: order.clientOrderId,
+        side,
+        type: 'LIMIT' as const,
+        status: order.status,
+      },
+      importedCount: result.importedCount,
+      aggregate:
+        result.importedCount > 0 && leg
+          ? {
+              qty: leg.qty,
+              price: leg.price,
+              quote: leg.quote,
+              fee: leg.fee,
+              feeAsset: leg.feeAsset,
+              feeInQuote: leg.feeInQuote,
+            }
+          : null,
+    }
+  }
+
+  private async queryDealOrder(deal: DealDocument, orderId: number) {
     try {
-      return await this.binanceSpotClient.getMyTrades(userId, {
-        symbol,
-        orderId,
-        limit: 100,
-      })
+      return await this.exchangesService
+        .get(deal.exchange)
+        .queryOrder(
+          String(deal.userId),
+          deal.symbol,
+          orderId,
+          this.getProfileId(deal),
+        )
+    } catch (error) {
+      throw this.mapExchangeError(error)
+    }
+  }
+
+  private async fetchTradesByOrderId(deal: DealDocument, orderId: number) {
+    try {
+      return await this.exchangesService
+        .get(deal.exchange)
+        .getMyTrades(
+          String(deal.userId),
+          { symbol: deal.symbol, orderId, limit: 100 },
+          this.getProfileId(deal),
+        )
     } catch (error) {
-      throw this.mapBinanceError(error)
+      throw this.mapExchangeError(error)
     }
   }
 
-  private applyTradesToDeal(
+  private getProfileId(deal: DealDocument) {
+    return deal.credentialProfileId
+      ? String(deal.credentialProfileId)
+      : undefined
+  }
+
+  private async applyTradesToDeal(
     deal: DealDocument,
     phase: 'ENTRY' | 'EXIT',
     trades: TradeFill[],
@@ -1066,7 +2597,10 @@ export class DealsService {
     const existing =
       phase === 'ENTRY' ? (deal.entryTrades ?? []) : (deal.exitTrades ?? [])
     const { merged, importedCount } = this.mergeTrades(existing, trades)
+    const assets = await this.resolveSymbolAssets(deal.exchange, deal.symbol)
     const aggregate = this.aggregateTrades(merged)
+    aggregate.feeInQuote = await this.convertTradeFees(merged, assets)
+    aggregate.quoteAsset = assets?.quoteAsset
 
     if (phase === 'ENTRY') {
       this.applyAggregateToLeg(deal.entry, aggregate, deal)
@@ -1089,10 +2623,11 @@ export class DealsService {
         deal.direction,
         deal.entry.quote,
         deal.exit.quote,
-        deal.entry.fee,
-        deal.exit.fee,
+        this.getLegFee(deal.entry),
+        this.getLegFee(deal.exit),
       )
       this.updateRealizedAvailable(deal)
+      this.updateRMultiple(deal)
     }
     if (phase === 'ENTRY') {
       const hasEntryLegs =
@@ -1118,6 +2653,391 @@ export class DealsService {
     }
   }
 
+  private async syncSymbolTrades(
+    userId: string,
+    profile: {
+      id: Types.ObjectId
+      isDefault: boolean
+      environment: ExchangeEnvironment
+    },
+    symbol: string,
+    strategy: MatchingStrategy,
+    maxTrades: number,
+  ) {
+    // Deals and cursors saved before profiles belong to the default profile.
+    const profileFilter = profile.isDefault
+      ? { $in: [profile.id, null] }
+      : profile.id
+    const cursor = await this.syncCursorModel.findOne({
+      userId,
+      credentialProfileId: profileFilter,
+      symbol,
+    })
+    let fromId = cursor ? cursor.lastTradeId + 1 : 0
+    const fetched: TradeFill[] = []
+    let hasMore = false
+
+    // myTrades caps each page at 1000 rows, so walk forward by trade id.
+    let pageFull = true
+    while (pageFull) {
+      let page: TradeFill[]
+      try {
+        page = await this.exchangesService
+          .get('BINANCE')
+          .getMyTrades(
+            userId,
+            { symbol, fromId, limit: MY_TRADES_PAGE_LIMIT },
+            String(profile.id),
+          )
+      } catch (error) {
+        throw this.mapExchangeError(error)
+      }
+      fetched.push(...page)
+      pageFull = page.length === MY_TRADES_PAGE_LIMIT
+      if (pageFull) {
+        fromId = page[page.length - 1].id + 1
+        if (fetched.length >= maxTrades) {
+          hasMore = true
+          break
+        }
+      }
+    }
+
+    // Trashed deals keep their trades so a sync does not import them again.
+    const deals = await this.dealModel
+      .find({
+        userId,
+        exchange: 'BINANCE',
+        credentialProfileId: profileFilter,
+        symbol,
+      })
+      .setOptions({ withDeleted: true })
+      .sort({ openedAt: 1, _id: 1 })
+    const seen = new Set<number>()
+    // Fills of resting deal orders are applied by the order watcher.
+    const pendingOrderIds = new Set<number>()
+    for (const deal of deals) {
+      if (deal.pendingOrder) {
+        pendingOrderIds.add(deal.pendingOrder.orderId)
+      }
+      for (const trade of [
+        ...(deal.entryTrades ?? []),
+        ...(deal.exitTrades ?? []),
+      ]) {
+        seen.add(trade.id)
+      }
+    }
+    const fresh = fetched
+      .filter(
+        (trade) => !seen.has(trade.id) && !pendingOrderIds.has(trade.orderId),
+      )
+      .sort((left, right) => left.id - right.id)
+
+    const assets = await this.resolveSymbolAssets('BINANCE', symbol)
+    let openDeals = deals.filter(
+      (deal) => deal.status === 'OPEN' && !deal.pendingOrder && !deal.deletedAt,
+    )
+    const touched = new Set<DealDocument>()
+    let openedCount = 0
+    let extendedCount = 0
+    let exitLegsCount = 0
+
+    for (const orderTrades of this.groupTradesByOrder(fresh)) {
+      const direction: DealDirection = orderTrades[0].isBuyer ? 'LONG' : 'SHORT'
+      let pending = orderTrades
+
+      const opposite = openDeals.filter((deal) => deal.direction !== direction)
+      if (opposite.length > 0) {
+        const orderQty = pending.reduce(
+          (sum, trade) => sum.plus(this.toBig(trade.qty)),
+          this.toBig('0'),
+        )
+        const allocations = allocateQty(
+          opposite.map((deal) => this.toBig(this.getRemainingQty(deal))),
+          orderQty,
+          strategy,
+        )
+        for (const [index, allocation] of allocations.entries()) {
+          if (allocation.lte(0)) continue
+          const deal = opposite[index]
+          const { taken, rest } = takeFills(pending, allocation)
+          pending = rest
+          const leg = await this.buildLegFromTrades(deal, taken, assets)
+          this.addExitLeg(
+            deal,
+            this.buildExitLeg({
+              ...leg,
+              closedAt: new Date(taken[taken.length - 1].time),
+              source: 'BINANCE',
+              orderId: taken[0].orderId,
+            }),
+          )
+          deal.exitTrades = [...(deal.exitTrades ?? []), ...taken]
+          touched.add(deal)
+          exitLegsCount += 1
+        }
+        openDeals = openDeals.filter((deal) => deal.status === 'OPEN')
+      }
+
+      if (pending.length === 0) {
+        continue
+      }
+
+      const target = [...openDeals]
+        .reverse()
+        .find((deal) => deal.direction === direction)
+      if (target) {
+        const leg = await this.buildLegFromTrades(target, pending, assets)
+        this.addEntryLeg(
+          target,
+          this.buildEntryLeg({
+            ...leg,
+            openedAt: new Date(pending[0].time),
+            source: 'BINANCE',
+            orderId: pending[0].orderId,
+          }),
+        )
+        target.entryTrades = [...(target.entryTrades ?? []), ...pending]
+        touched.add(target)
+        extendedCount += 1
+        continue
+      }
+
+      const remainingQty = pending
+        .reduce(
+          (sum, trade) => sum.plus(this.toBig(trade.qty)),
+          this.toBig('0'),
+        )
+        .toString()
+      const created = await this.buildDealFromMatch(
+        userId,
+        {
+          symbol,
+          direction,
+          entryTrades: pending,
+          exitTrades: [],
+          remainingQty,
+        },
+        assets,
+        'Opened by trade sync.',
+        profile,
+      )
+      openDeals.push(created)
+      touched.add(created)
+      openedCount += 1
+    }
+
+    for (const deal of touched) {
+      await this.saveDeal(deal)
+    }
+
+    const lastTradeId = fetched.length
+      ? fetched.reduce((max, trade) => Math.max(max, trade.id), 0)
+      : cursor?.lastTradeId
+    const lastSyncedAt = new Date()
+    if (lastTradeId !== undefined) {
+      await this.syncCursorModel.updateOne(
+        cursor
+          ? { _id: cursor._id }
+          : { userId, credentialProfileId: profile.id, symbol },
+        {
+          $set: {
+            credentialProfileId: profile.id,
+            lastTradeId,
+            strategy,
+            lastSyncedAt,
+          },
+        },
+        { upsert: true },
+      )
+    }
+
+    return {
+      symbol,
+      fetchedCount: fetched.length,
+      importedCount: fresh.length,
+      openedCount,
+      extendedCount,
+      exitLegsCount,
+      lastTradeId: lastTradeId ?? null,
+      hasMore,
+      lastSyncedAt,
+    }
+  }
+
+  private async loadTradeHistory(
+    userId: string,
+    payload: ImportTradeHistoryDto,
+  ) {
+    let parsed: ParsedTradeHistory
+    try {
+      parsed = await parseTradeHistoryFile(
+        payload.fileName,
+        Buffer.from(payload.content, 'base64'),
+      )
+    } catch (error) {
+      throw new BadRequestException(
+        error instanceof Error ? error.message : 'Trade history is invalid',
+      )
+    }
+
+    const symbols = Array.from(new Set(parsed.fills.map((fill) => fill.symbol)))
+    const existing = await this.dealModel
+      .find(
+        { userId, symbol: { $in: symbols } },
+        { symbol: 1, 'entryTrades.id': 1, 'exitTrades.id': 1 },
+      )
+      .setOptions({ withDeleted: true })
+      .lean()
+    const seen = new Set<string>()
+    for (const deal of existing) {
+      for (const trade of [
+        ...(deal.entryTrades ?? []),
+        ...(deal.exitTrades ?? []),
+      ]) {
+        seen.add(`${deal.symbol}:${trade.id}`)
+      }
+    }
+
+    const fresh = []
+    let duplicateCount = 0
+    for (const fill of parsed.fills) {
+      const key = `${fill.symbol}:${fill.id}`
+      if (seen.has(key)) {
+        duplicateCount += 1
+        continue
+      }
+      seen.add(key)
+      fresh.push(fill)
+    }
+
+    return {
+      tradesCount: parsed.fills.length,
+      duplicateCount,
+      skippedRows: parsed.skippedRows,
+      deals: matchFillsIntoDeals(fresh),
+    }
+  }
+
+  private summarizeMatchedDeal(deal: MatchedDeal) {
+    const entry = this.aggregateTrades(deal.entryTrades)
+    const exit = this.aggregateTrades(deal.exitTrades)
+    const exitQty = this.toBig(exit.qty)
+    const basis = exitQty.times(this.toBig(entry.price))
+    const exitQuote = this.toBig(exit.quote)
+    const closed = this.toBig(deal.remainingQty).eq(0)
+    const lastExit = deal.exitTrades[deal.exitTrades.length - 1]
+
+    return {
+      symbol: deal.symbol,
+      direction: deal.direction,
+      status: closed ? ('CLOSED' as const) : ('OPEN' as const),
+      openedAt: new Date(deal.entryTrades[0].time),
+      closedAt: closed && lastExit ? new Date(lastExit.time) : undefined,
+      entryQty: entry.qty,
+      entryAvgPrice: entry.price,
+      exitQty: exit.qty,
+      exitAvgPrice: exitQty.gt(0) ? exit.price : undefined,
+      remainingQty: deal.remainingQty,
+      tradesCount: deal.entryTrades.length + deal.exitTrades.length,
+      grossPnl: (deal.direction === 'LONG'
+        ? exitQuote.minus(basis)
+        : basis.minus(exitQuote)
+      ).toString(),
+    }
+  }
+
+  private async buildDealFromMatch(
+    userId: string,
+    matched: MatchedDeal,
+    assets: SymbolAssets | null,
+    note: string,
+    // Trade history exports only come from real accounts.
+    profile?: { id: Types.ObjectId; environment: ExchangeEnvironment },
+  ) {
+    const deal = new this.dealModel({
+      userId,
+      exchange: 'BINANCE',
+      credentialProfileId: profile?.id,
+      environment: profile?.environment ?? 'MAINNET',
+      symbol: matched.symbol,
+      direction: matched.direction,
+      status: 'OPEN',
+      openedAt: new Date(matched.entryTrades[0].time),
+      note,
+      entry: {
+        qty: '0',
+        price: '0',
+        quote: '0',
+      },
+      entryTrades: matched.entryTrades,
+      exitTrades: matched.exitTrades,
+      profitSpentTotal: '0',
+      realizedPnlAvailable: '0',
+    })
+
+    deal.entry = await this.buildLegFromTrades(
+      deal,
+      matched.entryTrades,
+      assets,
+    )
+    deal.entryLegs = []
+    for (const trades of this.groupTradesByOrder(matched.entryTrades)) {
+      const leg = await this.buildLegFromTrades(deal, trades, assets)
+      deal.entryLegs.push(
+        this.buildEntryLeg({
+          ...leg,
+          openedAt: new Date(trades[0].time),
+          source: 'BINANCE',
+          orderId: trades[0].orderId > 0 ? trades[0].orderId : undefined,
+        }),
+      )
+    }
+    this.recalcEntryLegs(deal)
+
+    deal.exitLegs = []
+    for (const trades of this.groupTradesByOrder(matched.exitTrades)) {
+      const leg = await this.buildLegFromTrades(deal, trades, assets)
+      deal.exitLegs.push(
+        this.buildExitLeg({
+          ...leg,
+          closedAt: new Date(trades[trades.length - 1].time),
+          source: 'BINANCE',
+          orderId: trades[0].orderId > 0 ? trades[0].orderId : undefined,
+        }),
+      )
+    }
+    this.recalcExitLegs(deal)
+
+    return deal
+  }
+
+  private async buildLegFromTrades(
+    deal: DealDocument,
+    trades: TradeFill[],
+    assets: SymbolAssets | null,
+  ) {
+    const aggregate = this.aggregateTrades(trades)
+    aggregate.feeInQuote = await this.convertTradeFees(trades, assets)
+    aggregate.quoteAsset = assets?.quoteAsset
+    const leg: DealLeg = { qty: '0', price: '0', quote: '0' }
+    this.applyAggregateToLeg(leg, aggregate, deal)
+    return leg
+  }
+
+  private groupTradesByOrder(trades: TradeFill[]) {
+    const groups: TradeFill[][] = []
+    for (const trade of trades) {
+      const last = groups[groups.length - 1]
+      if (last && last[0].orderId === trade.orderId) {
+        last.push(trade)
+      } else {
+        groups.push([trade])
+      }
+    }
+    return groups
+  }
+
   private mergeTrades(existing: TradeFill[], incoming: TradeFill[]) {
     const merged = [...existing]
     const seen = new Set(existing.map((trade) => trade.id))
@@ -1164,24 +3084,185 @@ export class DealsService {
       feeByAssetRecord[asset] = total.toString()
     }
 
-    let feeInQuote: string | undefined
-    let quoteAsset: string | undefined
-    if (feeByAsset.size === 1) {
-      const [asset, total] = Array.from(feeByAsset.entries())[0]
-      feeInQuote = total.toString()
-      quoteAsset = asset
-    }
-
     return {
       qty: sumQty.toString(),
       quote: sumQuote.toString(),
       price: price.toString(),
-      feeInQuote,
-      quoteAsset,
       feeByAsset: feeByAssetRecord,
     }
   }
 
+  private async convertTradeFees(
+    trades: TradeFill[],
+    assets: SymbolAssets | null,
+  ) {
+    let total = this.toBig('0')
+    for (const trade of trades) {
+      const converted = await this.convertFeeToQuote(
+        {
+          fee: trade.commission,
+          feeAsset: trade.commissionAsset,
+          price: trade.price,
+          time: trade.time,
+        },
+        assets,
+      )
+      if (converted === undefined) {
+        return undefined
+      }
+      total = total.plus(this.toBig(converted))
+    }
+    return total.toString()
+  }
+
+  private async resolveLegFeeInQuote(
+    exchange: ExchangeId,
+    symbol: string,
+    leg: { fee?: string; feeAsset?: string; price: string },
+    at: Date,
+    // Rethrow exchange errors instead of treating the fee as unpriceable.
+    strict = false,
+  ) {
+    if (!leg.fee) {
+      return undefined
+    }
+    if (!leg.feeAsset) {
+      return leg.fee
+    }
+    const assets = await this.resolveSymbolAssets(exchange, symbol, strict)
+    if (!assets && this.isQuoteSuffix(symbol, leg.feeAsset)) {
+      // Without symbol info a fee in the pair's quote asset is still known.
+      return leg.fee
+    }
+    return this.convertFeeToQuote(
+      {
+        fee: leg.fee,
+        feeAsset: leg.feeAsset,
+        price: leg.price,
+        time: at.getTime(),
+      },
+      assets,
+      strict,
+    )
+  }
+
+  private isQuoteSuffix(symbol: string, asset: string) {
+    return symbol.length > asset.length && symbol.endsWith(asset)
+  }
+
+  private async resolveSymbolAssets(
+    exchange: ExchangeId,
+    symbol: string,
+    strict = false,
+  ): Promise<SymbolAssets | null> {
+    try {
+      const info = await this.exchangesService
+        .get(exchange)
+        .getSymbolInfo(symbol)
+      return {
+        exchange,
+        baseAsset: info.baseAsset,
+        quoteAsset: info.quoteAsset,
+      }
+    } catch (error) {
+      if (strict && !(error instanceof PriceUnavailableError)) {
+        throw error
+      }
+      return null
+    }
+  }
+
+  /**
+   * Converts a fee into the deal's quote asset. Base-asset fees use the fill
+   * price; any other asset is priced from the deal exchange's 1m candle at
+   * the fill time.
+   * Returns undefined when the fee cannot be priced; in `strict` mode only
+   * when the exchange has no price, other errors are rethrown.
+   */
+  private async convertFeeToQuote(
+    input: { fee: string; feeAsset: string; price: string; time: number },
+    assets: SymbolAssets | null,
+    strict = false,
+  ) {
+    const fee = this.toBig(input.fee)
+    if (fee.eq(0)) {
+      return '0'
+    }
+    if (!assets) {
+      return undefined
+    }
+    if (input.feeAsset === assets.quoteAsset) {
+      return fee.toString()
+    }
+    if (input.feeAsset === assets.baseAsset) {
+      return fee.times(this.toBig(input.price)).toString()
+    }
+
+    const adapter = this.exchangesService.get(assets.exchange)
+    try {
+      const price = await adapter.getHistoricalPrice(
+        `${input.feeAsset}${assets.quoteAsset}`,
+        input.time,
+      )
+      return fee.times(this.toBig(price)).toString()
+    } catch (error) {
+      if (strict && !(error instanceof PriceUnavailableError)) {
+        throw error
+      }
+      // Some pairs only trade the other way round, e.g. USDTTRY.
+    }
+    try {
+      const price = this.toBig(
+        await adapter.getHistoricalPrice(
+          `${assets.quoteAsset}${input.feeAsset}`,
+          input.time,
+        ),
+      )
+      return price.gt(0) ? fee.div(price).toString() : undefined
+    } catch (error) {
+      if (strict && !(error instanceof PriceUnavailableError)) {
+        throw error
+      }
+      return undefined
+    }
+  }
+
+  /**
+   * Leg fee in the quote asset. A fee in another asset that could not be
+   * converted counts as zero; `feeConversionFailed` flags the deal instead
+   * of mixing currencies into PnL.
+   */
+  private getLegFee(leg?: {
+    fee?: string
+    feeAsset?: string
+    feeInQuote?: string
+  }) {
+    if (leg?.feeInQuote !== undefined) {
+      return leg.feeInQuote
+    }
+    return leg?.feeAsset ? '0' : (leg?.fee ?? '0')
+  }
+
+  private hasUnpricedFee(deal: DealDocument) {
+    const legs: Array<{
+      fee?: string
+      feeAsset?: string
+      feeInQuote?: string
+    }> = [
+      deal.entry,
+      ...(deal.exit ? [deal.exit] : []),
+      ...(deal.entryLegs ?? []),
+      ...(deal.exitLegs ?? []),
+    ]
+    return legs.some(
+      (leg) =>
+        Boolean(leg.fee) &&
+        Boolean(leg.feeAsset) &&
+        leg.feeInQuote === undefined &&
+        !this.toBig(leg.fee ?? '0').eq(0),
+    )
+  }
+
   private applyAggregateToLeg(
     leg: DealLeg,
     aggregate: TradesAggregate,
@@ -1191,7 +3272,13 @@ export class DealsService {
     leg.price = aggregate.price
     leg.quote = aggregate.quote
 
+    leg.feeInQuote = aggregate.feeInQuote
+
     const feeAssets = Object.keys(aggregate.feeByAsset)
+    if (feeAssets.length > 0 && aggregate.feeInQuote === undefined) {
+      this.appendNoteOnce(deal, 'Fee conversion to quote failed.')
+    }
+
     if (feeAssets.length === 1) {
       const asset = feeAssets[0]
       leg.fee = aggregate.feeByAsset[asset]
@@ -1200,6 +3287,11 @@ export class DealsService {
     }
 
     if (feeAssets.length > 1) {
+      if (aggregate.feeInQuote !== undefined && aggregate.quoteAsset) {
+        leg.fee = aggregate.feeInQuote
+        leg.feeAsset = aggregate.quoteAsset
+        return
+      }
       this.appendNoteOnce(deal, 'Fee assets are mixed.')
     }
   }
@@ -1221,7 +3313,7 @@ export class DealsService {
     deal.note = next.length > 500 ? next.slice(0, 500) : next
   }
 
-  private mapBinanceError(error: unknown) {
+  private mapExchangeError(error: unknown) {
     if (error instanceof BinanceFilterException) {
       return new BadRequestException(error.message)
     }
@@ -1232,7 +3324,7 @@ export class DealsService {
       }
       return new BadRequestException(message)
     }
-    return new BadRequestException('Binance request failed')
+    return new BadRequestException('Exchange request failed')
   }
 
   private mapDeal(deal: DealDocument) {
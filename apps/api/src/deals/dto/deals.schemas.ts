@@ -1,6 +1,13 @@
 import Big from 'big.js'
 import { z } from 'zod'
 
+import {
+  credentialProfileIdSchema,
+  exchangeEnvironmentSchema,
+  exchangeIdSchema,
+} from '../../exchanges/dto/exchanges.schemas'
+import { validateRiskLevels } from '../deal-risk'
+
 const emptyToUndefined = (value: unknown) =>
   value === '' || value === null ? undefined : value
 
@@ -38,22 +45,73 @@ const legInputSchema = z.object({
   feeAsset: z.string().trim().min(1).optional(),
 })
 
-export const createDealSchema = z.object({
-  symbol: uppercaseSymbolSchema,
-  direction: z.enum(['LONG', 'SHORT']),
-  openedAt: z.coerce.date(),
-  note: z.string().trim().max(500).optional(),
-  entry: legInputSchema,
+const takeProfitInputSchema = z.object({
+  price: positiveDecimalStringSchema,
+  percent: positiveDecimalStringSchema.refine(
+    (value) => new Big(value).lte(100),
+    'Percent must be at most 100',
+  ),
 })
 
-export const updateDealSchema = z.object({
-  symbol: uppercaseSymbolSchema.optional(),
-  direction: z.enum(['LONG', 'SHORT']).optional(),
-  openedAt: z.coerce.date().optional(),
-  note: z.string().trim().max(500).optional(),
-  entry: legInputSchema.partial().optional(),
+const riskInputSchema = z.object({
+  stopLoss: positiveDecimalStringSchema.nullable().optional(),
+  takeProfits: z.array(takeProfitInputSchema).max(10).nullable().optional(),
+  riskAmount: positiveDecimalStringSchema.nullable().optional(),
 })
 
+const addRiskIssues = (
+  values: {
+    direction?: 'LONG' | 'SHORT'
+    entry?: { price?: string }
+  } & z.infer<typeof riskInputSchema>,
+  ctx: z.RefinementCtx,
+) => {
+  // Without both direction and entry price the service checks the merged deal.
+  if (!values.direction || !values.entry?.price) {
+    return
+  }
+  for (const issue of validateRiskLevels({
+    direction: values.direction,
+    entryPrice: values.entry.price,
+    stopLoss: values.stopLoss,
+    takeProfits: values.takeProfits,
+  })) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, ...issue })
+  }
+}
+
+export const createDealSchema = z
+  .object({
+    exchange: exchangeIdSchema.default('BINANCE'),
+    credentialProfileId: z.preprocess(
+      emptyToUndefined,
+      credentialProfileIdSchema.optional(),
+    ),
+    // Manual deals only; a credential profile brings its own environment.
+    environment: z.preprocess(
+      emptyToUndefined,
+      exchangeEnvironmentSchema.optional(),
+    ),
+    symbol: uppercaseSymbolSchema,
+    direction: z.enum(['LONG', 'SHORT']),
+    openedAt: z.coerce.date(),
+    note: z.string().trim().max(500).optional(),
+    entry: legInputSchema,
+  })
+  .merge(riskInputSchema)
+  .superRefine(addRiskIssues)
+
+export const updateDealSchema = z
+  .object({
+    symbol: uppercaseSymbolSchema.optional(),
+    direction: z.enum(['LONG', 'SHORT']).optional(),
+    openedAt: z.coerce.date().optional(),
+    note: z.string().trim().max(500).optional(),
+    entry: legInputSchema.partial().optional(),
+  })
+  .merge(riskInputSchema)
+  .superRefine(addRiskIssues)
+
 export const closeDealSchema = z.object({
   closedAt: z.coerce.date(),
   exit: legInputSchema,
@@ -83,7 +141,12 @@ export const listDealsSchema = z.object({
   to: z.preprocess(emptyToUndefined, z.coerce.date().optional()),
   status: z.preprocess(
     emptyToUndefined,
-    z.enum(['OPEN', 'CLOSED', 'ALL']).optional(),
+    z.enum(['PENDING', 'OPEN', 'CLOSED', 'ALL']).optional(),
+  ),
+  exchange: z.preprocess(emptyToUndefined, exchangeIdSchema.optional()),
+  environment: z.preprocess(
+    emptyToUndefined,
+    exchangeEnvironmentSchema.optional(),
   ),
   symbol: z.preprocess(emptyToUndefined, uppercaseSymbolSchema.optional()),
   page: z.preprocess(
@@ -96,6 +159,15 @@ export const listDealsSchema = z.object({
   ),
 })
 
+export const exportDealsSchema = listDealsSchema
+  .omit({ page: true, limit: true })
+  .extend({
+    format: z.preprocess(
+      emptyToUndefined,
+      z.enum(['csv', 'json', 'xlsx']).default('csv'),
+    ),
+  })
+
 export const dealsStatsSchema = z.object({
   from: z.preprocess(emptyToUndefined, z.coerce.date().optional()),
   to: z.preprocess(emptyToUndefined, z.coerce.date().optional()),
@@ -103,25 +175,106 @@ export const dealsStatsSchema = z.object({
     emptyToUndefined,
     z.enum(['OPEN', 'CLOSED', 'ALL']).optional(),
   ),
+  exchange: z.preprocess(emptyToUndefined, exchangeIdSchema.optional()),
+  environment: z.preprocess(
+    emptyToUndefined,
+    exchangeEnvironmentSchema.optional(),
+  ),
   symbol: z.preprocess(emptyToUndefined, uppercaseSymbolSchema.optional()),
+  groupBy: z.preprocess(
+    emptyToUndefined,
+    z.enum(['symbol', 'direction', 'month']).optional(),
+  ),
 })
 
-export const openDealWithOrderSchema = z.object({
-  symbol: uppercaseSymbolSchema,
-  direction: z.enum(['LONG', 'SHORT']),
-  marketBuyMode: z.enum(['QUOTE', 'BASE']).optional(),
-  quoteOrderQty: positiveDecimalStringSchema.optional(),
-  quantity: positiveDecimalStringSchema.optional(),
-  note: z.string().trim().max(500).optional(),
+export const dealsTimeseriesSchema = z.object({
+  from: z.preprocess(emptyToUndefined, z.coerce.date().optional()),
+  to: z.preprocess(emptyToUndefined, z.coerce.date().optional()),
+  exchange: z.preprocess(emptyToUndefined, exchangeIdSchema.optional()),
+  environment: z.preprocess(
+    emptyToUndefined,
+    exchangeEnvironmentSchema.optional(),
+  ),
+  symbol: z.preprocess(emptyToUndefined, uppercaseSymbolSchema.optional()),
+  interval: z.preprocess(
+    emptyToUndefined,
+    z.enum(['day', 'week', 'month']).optional(),
+  ),
 })
 
-export const closeDealWithOrderSchema = z.object({
-  marketBuyMode: z.enum(['QUOTE', 'BASE']).optional(),
-  quoteOrderQty: positiveDecimalStringSchema.optional(),
-  quantity: positiveDecimalStringSchema.optional(),
-  note: z.string().trim().max(500).optional(),
+export const unrealizedPnlSchema = z.object({
+  exchange: z.preprocess(emptyToUndefined, exchangeIdSchema.optional()),
+  environment: z.preprocess(
+    emptyToUndefined,
+    exchangeEnvironmentSchema.optional(),
+  ),
+  symbol: z.preprocess(emptyToUndefined, uppercaseSymbolSchema.optional()),
 })
 
+const dealOrderTypeSchema = z.enum(['MARKET', 'LIMIT'])
+
+// LIMIT orders are sized in base and rest at `price`; MARKET ignores it.
+function addDealOrderIssues(
+  values: { orderType?: 'MARKET' | 'LIMIT'; price?: string; quantity?: string },
+  ctx: z.RefinementCtx,
+) {
+  if (values.orderType !== 'LIMIT') {
+    if (values.price !== undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'price is only allowed for LIMIT orders',
+        path: ['price'],
+      })
+    }
+    return
+  }
+  if (!values.price) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'price is required for LIMIT orders',
+      path: ['price'],
+    })
+  }
+}
+
+export const openDealWithOrderSchema = z
+  .object({
+    exchange: exchangeIdSchema.default('BINANCE'),
+    credentialProfileId: z.preprocess(
+      emptyToUndefined,
+      credentialProfileIdSchema.optional(),
+    ),
+    symbol: uppercaseSymbolSchema,
+    direction: z.enum(['LONG', 'SHORT']),
+    orderType: dealOrderTypeSchema.optional(),
+    price: positiveDecimalStringSchema.optional(),
+    marketBuyMode: z.enum(['QUOTE', 'BASE']).optional(),
+    quoteOrderQty: positiveDecimalStringSchema.optional(),
+    quantity: positiveDecimalStringSchema.optional(),
+    note: z.string().trim().max(500).optional(),
+  })
+  .superRefine((values, ctx) => {
+    addDealOrderIssues(values, ctx)
+    if (values.orderType === 'LIMIT' && !values.quantity) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'quantity is required for LIMIT orders',
+        path: ['quantity'],
+      })
+    }
+  })
+
+export const closeDealWithOrderSchema = z
+  .object({
+    orderType: dealOrderTypeSchema.optional(),
+    price: positiveDecimalStringSchema.optional(),
+    marketBuyMode: z.enum(['QUOTE', 'BASE']).optional(),
+    quoteOrderQty: positiveDecimalStringSchema.optional(),
+    quantity: positiveDecimalStringSchema.optional(),
+    note: z.string().trim().max(500).optional(),
+  })
+  .superRefine(addDealOrderIssues)
+
 export const importTradesSchema = z
   .object({
     phase: z.enum(['ENTRY', 'EXIT']),
@@ -161,10 +314,51 @@ export const importTradesSchema = z
     }
   })
 
+export const importTradeHistorySchema = z.object({
+  fileName: z.string().trim().min(1).max(255),
+  // Base64 of the exported CSV/XLSX file, capped at roughly 10 MB decoded.
+  content: z
+    .string()
+    .trim()
+    .min(1)
+    .max(14_000_000)
+    .regex(/^[A-Za-z0-9+/]+={0,2}$/, 'Content must be base64'),
+})
+
+export const syncDealsSchema = z.object({
+  credentialProfileId: credentialProfileIdSchema.optional(),
+  symbols: z.array(uppercaseSymbolSchema).min(1).max(20),
+  strategy: z.enum(['FIFO', 'LIFO', 'AVERAGE']).default('FIFO'),
+  maxTrades: z.coerce.number().int().min(1000).max(20000).optional(),
+})
+
 export const bulkDeleteDealsSchema = z.object({
   ids: z.array(z.string().trim().min(1)).min(1),
 })
 
+export const listTrashSchema = z.object({
+  page: z.preprocess(
+    emptyToUndefined,
+    z.coerce.number().int().positive().optional(),
+  ),
+  limit: z.preprocess(
+    emptyToUndefined,
+    z.coerce.number().int().positive().optional(),
+  ),
+})
+
+export const restoreDealsSchema = bulkDeleteDealsSchema
+
+// Either the given ids or, with `all`, everything in the trash.
+export const purgeDealsSchema = z
+  .object({
+    ids: z.array(z.string().trim().min(1)).min(1).optional(),
+    all: z.literal(true).optional(),
+  })
+  .refine((value) => Boolean(value.ids) !== Boolean(value.all), {
+    message: 'Provide either ids or all',
+  })
+
 export type CreateDealDto = z.infer<typeof createDealSchema>
 export type UpdateDealDto = z.infer<typeof updateDealSchema>
 export type CloseDealDto = z.infer<typeof closeDealSchema>
@@ -172,8 +366,16 @@ export type PartialCloseDealDto = z.infer<typeof partialCloseDealSchema>
 export type AddEntryLegDto = z.infer<typeof addEntryLegSchema>
 export type ProfitToPositionDto = z.infer<typeof profitToPositionSchema>
 export type ListDealsQuery = z.infer<typeof listDealsSchema>
+export type ExportDealsQuery = z.infer<typeof exportDealsSchema>
 export type DealsStatsQuery = z.infer<typeof dealsStatsSchema>
+export type DealsTimeseriesQuery = z.infer<typeof dealsTimeseriesSchema>
+export type UnrealizedPnlQuery = z.infer<typeof unrealizedPnlSchema>
 export type OpenDealWithOrderDto = z.infer<typeof openDealWithOrderSchema>
 export type CloseDealWithOrderDto = z.infer<typeof closeDealWithOrderSchema>
 export type ImportTradesDto = z.infer<typeof importTradesSchema>
+export type ImportTradeHistoryDto = z.infer<typeof importTradeHistorySchema>
+export type SyncDealsDto = z.infer<typeof syncDealsSchema>
 export type BulkDeleteDealsDto = z.infer<typeof bulkDeleteDealsSchema>
+export type ListTrashQuery = z.infer<typeof listTrashSchema>
+export type RestoreDealsDto = z.infer<typeof restoreDealsSchema>
+export type PurgeDealsDto = z.infer<typeof purgeDealsSchema>
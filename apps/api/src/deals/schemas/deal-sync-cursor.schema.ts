@@ -0,0 +1,38 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose'
+import { type HydratedDocument, Types } from 'mongoose'
+
+import type { MatchingStrategy } from '../trade-matching'
+
+export type DealSyncCursorDocument = HydratedDocument<DealSyncCursor>
+
+@Schema({ timestamps: true })
+export class DealSyncCursor {
+  @Prop({ type: Types.ObjectId, required: true, index: true })
+  userId!: Types.ObjectId
+
+  // Unset on cursors saved before credential profiles; they belong to the default.
+  @Prop({ type: Types.ObjectId })
+  credentialProfileId?: Types.ObjectId
+
+  @Prop({ required: true, uppercase: true, trim: true })
+  symbol!: string
+
+  @Prop({ required: true })
+  lastTradeId!: number
+
+  @Prop({ required: true, enum: ['FIFO', 'LIFO', 'AVERAGE'] })
+  strategy!: MatchingStrategy
+
+  @Prop({ required: true })
+  lastSyncedAt!: Date
+
+  createdAt?: Date
+  updatedAt?: Date
+}
+
+export const DealSyncCursorSchema = SchemaFactory.createForClass(DealSyncCursor)
+
+DealSyncCursorSchema.index(
+  { userId: 1, credentialProfileId: 1, symbol: 1 },
+  { unique: true },
+)
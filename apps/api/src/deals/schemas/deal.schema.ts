@@ -1,11 +1,22 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose'
 import { type HydratedDocument, Types } from 'mongoose'
 
+import {
+  EXCHANGE_ENVIRONMENTS,
+  EXCHANGE_IDS,
+  type ExchangeEnvironment,
+  type ExchangeId,
+} from '../../exchanges/exchange-adapter'
+import { softDeletePlugin } from '../../common/soft-delete.plugin'
+
 export type DealDocument = HydratedDocument<Deal>
 export type DealDirection = 'LONG' | 'SHORT'
-export type DealStatus = 'OPEN' | 'CLOSED'
-export type ExitLegSource = 'MANUAL' | 'BINANCE'
-export type EntryLegSource = 'MANUAL' | 'BINANCE'
+export type DealStatus = 'PENDING' | 'OPEN' | 'CLOSED'
+export type DealOrderPhase = 'ENTRY' | 'EXIT'
+export type ExitLegSource = 'MANUAL' | ExchangeId
+export type EntryLegSource = 'MANUAL' | ExchangeId
+
+const LEG_SOURCES = ['MANUAL', ...EXCHANGE_IDS]
 
 @Schema({ _id: false })
 export class TradeFill {
@@ -58,6 +69,9 @@ export class DealLeg {
 
   @Prop({ trim: true })
   feeAsset?: string
+
+  @Prop({ trim: true })
+  feeInQuote?: string
 }
 
 export const DealLegSchema = SchemaFactory.createForClass(DealLeg)
@@ -79,10 +93,13 @@ export class DealExitLeg {
   @Prop({ trim: true })
   feeAsset?: string
 
+  @Prop({ trim: true })
+  feeInQuote?: string
+
   @Prop({ required: true })
   closedAt!: Date
 
-  @Prop({ enum: ['MANUAL', 'BINANCE'] })
+  @Prop({ enum: LEG_SOURCES })
   source?: ExitLegSource
 
   @Prop()
@@ -108,10 +125,13 @@ export class DealEntryLeg {
   @Prop({ trim: true })
   feeAsset?: string
 
+  @Prop({ trim: true })
+  feeInQuote?: string
+
   @Prop({ required: true })
   openedAt!: Date
 
-  @Prop({ enum: ['MANUAL', 'BINANCE'] })
+  @Prop({ enum: LEG_SOURCES })
   source?: EntryLegSource
 
   @Prop()
@@ -140,18 +160,89 @@ export class DealProfitOp {
 
 export const DealProfitOpSchema = SchemaFactory.createForClass(DealProfitOp)
 
+@Schema({ _id: false })
+export class DealTakeProfit {
+  @Prop({ required: true, trim: true })
+  price!: string
+
+  // Share of the position to close at this level, 0-100.
+  @Prop({ required: true, trim: true })
+  percent!: string
+
+  @Prop()
+  hitAt?: Date
+
+  @Prop({ trim: true })
+  hitPrice?: string
+}
+
+export const DealTakeProfitSchema = SchemaFactory.createForClass(DealTakeProfit)
+
+// Resting LIMIT order placed for the deal; fills are applied as they arrive.
+@Schema({ _id: false })
+export class DealPendingOrder {
+  @Prop({ required: true })
+  orderId!: number
+
+  @Prop({ required: true, trim: true })
+  clientOrderId!: string
+
+  @Prop({ required: true, enum: ['ENTRY', 'EXIT'] })
+  phase!: DealOrderPhase
+
+  @Prop({ required: true, enum: ['BUY', 'SELL'] })
+  side!: 'BUY' | 'SELL'
+
+  @Prop({ required: true, trim: true })
+  price!: string
+
+  @Prop({ required: true, trim: true })
+  origQty!: string
+
+  @Prop({ required: true, trim: true })
+  executedQty!: string
+
+  @Prop({ required: true, trim: true })
+  status!: string
+
+  @Prop({ required: true })
+  placedAt!: Date
+
+  @Prop({ required: true })
+  expiresAt!: Date
+}
+
+export const DealPendingOrderSchema =
+  SchemaFactory.createForClass(DealPendingOrder)
+
 @Schema({ timestamps: true })
 export class Deal {
   @Prop({ type: Types.ObjectId, required: true, index: true })
   userId!: Types.ObjectId
 
+  // Deals created before other exchanges were supported are Binance deals.
+  @Prop({ required: true, enum: EXCHANGE_IDS, default: 'BINANCE' })
+  exchange!: ExchangeId
+
+  // Keys that sign the deal's orders and imports; the default profile if unset.
+  @Prop({ type: Types.ObjectId })
+  credentialProfileId?: Types.ObjectId
+
+  // Copied from the credential profile so testnet PnL stays out of real stats.
+  @Prop({ required: true, enum: EXCHANGE_ENVIRONMENTS, default: 'MAINNET' })
+  environment!: ExchangeEnvironment
+
   @Prop({ required: true, uppercase: true, trim: true })
   symbol!: string
 
   @Prop({ required: true, enum: ['LONG', 'SHORT'] })
   direction!: DealDirection
 
-  @Prop({ required: true, enum: ['OPEN', 'CLOSED'], default: 'OPEN' })
+  @Prop({
+    required: true,
+    enum: ['PENDING', 'OPEN', 'CLOSED'],
+    default: 'OPEN',
+  })
   status!: DealStatus
 
   @Prop({ required: true })
@@ -205,14 +296,48 @@ export class Deal {
   @Prop({ trim: true })
   realizedPnl?: string
 
+  @Prop({ trim: true })
+  stopLoss?: string
+
+  @Prop()
+  stopLossHitAt?: Date
+
+  @Prop({ trim: true })
+  stopLossHitPrice?: string
+
+  @Prop({ type: [DealTakeProfitSchema] })
+  takeProfits?: DealTakeProfit[]
+
+  @Prop({ trim: true })
+  riskAmount?: string
+
+  @Prop({ trim: true })
+  rMultiple?: string
+
+  @Prop({ type: DealPendingOrderSchema })
+  pendingOrder?: DealPendingOrder
+
   @Prop({ maxlength: 500, trim: true })
   note?: string
 
+  // A leg fee in another asset could not be priced; PnL leaves it out.
+  @Prop()
+  feeConversionFailed?: boolean
+
+  // In the trash since then; purged once the retention period is over.
+  @Prop()
+  deletedAt?: Date
+
   createdAt?: Date
   updatedAt?: Date
 }
 
 export const DealSchema = SchemaFactory.createForClass(Deal)
 
+DealSchema.plugin(softDeletePlugin)
+
 DealSchema.index({ userId: 1, openedAt: -1 })
+DealSchema.index({ userId: 1, environment: 1, openedAt: -1 })
 DealSchema.index({ userId: 1, symbol: 1 })
+DealSchema.index({ 'pendingOrder.orderId': 1 }, { sparse: true })
+DealSchema.index({ deletedAt: 1 }, { sparse: true })
@@ -0,0 +1,300 @@
+import { createHash } from 'node:crypto'
+import Big from 'big.js'
+import { readSheet } from 'read-excel-file/node'
+
+import type { TradeFill } from './schemas/deal.schema'
+
+export type HistoryTradeFill = TradeFill & { symbol: string }
+
+export type SkippedHistoryRow = {
+  row: number
+  reason: string
+}
+
+export type ParsedTradeHistory = {
+  fills: HistoryTradeFill[]
+  skippedRows: SkippedHistoryRow[]
+}
+
+type HistoryColumn =
+  | 'time'
+  | 'symbol'
+  | 'side'
+  | 'type'
+  | 'price'
+  | 'executed'
+  | 'amount'
+  | 'total'
+  | 'fee'
+  | 'feeAsset'
+  | 'tradeId'
+  | 'orderId'
+
+// Binance has shipped a few export layouts over the years; headers are matched
+// after lowercasing and dropping everything but letters and digits.
+const HEADER_ALIASES: Record<string, HistoryColumn> = {
+  dateutc: 'time',
+  date: 'time',
+  time: 'time',
+  pair: 'symbol',
+  market: 'symbol',
+  symbol: 'symbol',
+  side: 'side',
+  type: 'type',
+  price: 'price',
+  executed: 'executed',
+  amount: 'amount',
+  total: 'total',
+  fee: 'fee',
+  feecoin: 'feeAsset',
+  feeasset: 'feeAsset',
+  commissionasset: 'feeAsset',
+  tradeid: 'tradeId',
+  id: 'tradeId',
+  orderid: 'orderId',
+  orderno: 'orderId',
+}
+
+const MAX_SKIPPED_ROWS = 50
+
+export async function parseTradeHistoryFile(
+  fileName: string,
+  content: Buffer,
+): Promise<ParsedTradeHistory> {
+  const isXlsx =
+    fileName.toLowerCase().endsWith('.xlsx') ||
+    content.subarray(0, 2).toString('latin1') === 'PK'
+  const rows = isXlsx
+    ? (await readSheet(content)).map((row) => row.map(stringifyCell))
+    : parseCsv(content.toString('utf8').replace(/^\uFEFF/, ''))
+
+  const headerIndex = rows.findIndex((row) => {
+    const columns = row.map(normalizeHeader)
+    return columns.includes('time') && columns.includes('symbol')
+  })
+  if (headerIndex < 0) {
+    throw new Error('Trade history header row not found')
+  }
+
+  const columnIndex = new Map<HistoryColumn, number>()
+  rows[headerIndex].forEach((cell, index) => {
+    const column = normalizeHeader(cell)
+    if (column && !columnIndex.has(column)) {
+      columnIndex.set(column, index)
+    }
+  })
+
+  const fills: HistoryTradeFill[] = []
+  const skippedRows: SkippedHistoryRow[] = []
+  const occurrences = new Map<string, number>()
+
+  for (let index = headerIndex + 1; index < rows.length; index += 1) {
+    const row = rows[index]
+    if (row.every((cell) => !cell.trim())) {
+      continue
+    }
+    const get = (column: HistoryColumn) => {
+      const position = columnIndex.get(column)
+      return position === undefined ? '' : (row[position] ?? '').trim()
+    }
+
+    const result = parseRow(get)
+    if (typeof result === 'string') {
+      if (skippedRows.length < MAX_SKIPPED_ROWS) {
+        skippedRows.push({ row: index + 1, reason: result })
+      }
+      continue
+    }
+
+    const { fill, tradeId, orderId } = result
+    const fingerprint = [
+      fill.symbol,
+      fill.isBuyer ? 'BUY' : 'SELL',
+      fill.time,
+      fill.price,
+      fill.qty,
+      fill.commission,
+    ].join('|')
+    const occurrence = occurrences.get(fingerprint) ?? 0
+    occurrences.set(fingerprint, occurrence + 1)
+
+    fills.push({
+      ...fill,
+      // Exports without ids get stable negative ids so a re-upload of the same
+      // file is still caught by duplicate detection.
+      id: tradeId ?? -hashToInt(`${fingerprint}|${occurrence}`),
+      orderId:
+        orderId ??
+        -hashToInt(
+          `${fill.symbol}|${fill.isBuyer ? 'BUY' : 'SELL'}|${fill.time}`,
+        ),
+    })
+  }
+
+  return { fills, skippedRows }
+}
+
+function parseRow(get: (column: HistoryColumn) => string):
+  | string
+  | {
+      fill: Omit<HistoryTradeFill, 'id' | 'orderId'>
+      tradeId?: number
+      orderId?: number
+    } {
+  const symbol = get('symbol')
+    .toUpperCase()
+    .replace(/[^A-Z0-9]/g, '')
+  if (!symbol) {
+    return 'Symbol is missing'
+  }
+
+  const side = (get('side') || get('type')).toUpperCase()
+  if (side !== 'BUY' && side !== 'SELL') {
+    return 'Side must be BUY or SELL'
+  }
+
+  const time = parseTime(get('time'))
+  if (time === null) {
+    return 'Date is invalid'
+  }
+
+  const price = parseAmount(get('price'))
+  // Older exports put qty in "Executed" and quote in "Amount"; newer ones use
+  // "Amount" for qty and "Total" for quote.
+  const hasExecuted = Boolean(get('executed'))
+  const qty = parseAmount(get(hasExecuted ? 'executed' : 'amount'))
+  const quote = parseAmount(get(hasExecuted ? 'amount' : 'total'))
+  const fee = parseAmount(get('fee'))
+
+  if (!price || new Big(price.value).lte(0)) {
+    return 'Price is invalid'
+  }
+  if (!qty || new Big(qty.value).lte(0)) {
+    return 'Quantity is invalid'
+  }
+
+  const commission = fee?.value ?? '0'
+  const commissionAsset = (
+    get('feeAsset') ||
+    fee?.asset ||
+    quote?.asset ||
+    ''
+  ).toUpperCase()
+  if (!commissionAsset) {
+    return 'Fee asset is missing'
+  }
+
+  const tradeId = parseInteger(get('tradeId'))
+  const orderId = parseInteger(get('orderId'))
+
+  return {
+    fill: {
+      symbol,
+      price: price.value,
+      qty: qty.value,
+      quoteQty:
+        quote?.value ?? new Big(qty.value).times(price.value).toString(),
+      commission,
+      commissionAsset,
+      time,
+      isBuyer: side === 'BUY',
+      isMaker: false,
+    },
+    tradeId,
+    orderId,
+  }
+}
+
+function parseCsv(text: string) {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index]
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        cell += '"'
+        index += 1
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+      continue
+    }
+    if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') {
+        index += 1
+      }
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+  return rows
+}
+
+function stringifyCell(value: unknown) {
+  if (value === null || value === undefined) return ''
+  if (value instanceof Date) return value.toISOString()
+  return String(value)
+}
+
+function normalizeHeader(value: string) {
+  return HEADER_ALIASES[value.toLowerCase().replace(/[^a-z0-9]/g, '')]
+}
+
+function parseTime(value: string) {
+  if (!value) return null
+  if (/^\d+$/.test(value)) {
+    const numeric = Number(value)
+    return numeric < 1e12 ? numeric * 1000 : numeric
+  }
+  // "2024-01-05 12:34:56" in the export is UTC without a zone suffix.
+  const iso = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}(:\d{2})?$/.test(value)
+    ? `${value.replace(' ', 'T')}Z`
+    : value
+  const time = Date.parse(iso)
+  return Number.isNaN(time) ? null : time
+}
+
+function parseAmount(value: string) {
+  const match = value
+    .replace(/,/g, '')
+    .match(/^(\d+(?:\.\d+)?(?:e[-+]?\d+)?)\s*([A-Za-z0-9]*)$/i)
+  if (!match) return null
+  try {
+    return {
+      value: new Big(match[1]).toString(),
+      asset: match[2] ? match[2].toUpperCase() : undefined,
+    }
+  } catch {
+    return null
+  }
+}
+
+function parseInteger(value: string) {
+  if (!/^\d+$/.test(value)) return undefined
+  const numeric = Number(value)
+  return Number.isSafeInteger(numeric) ? numeric : undefined
+}
+
+function hashToInt(value: string) {
+  const digest = createHash('sha256').update(value).digest()
+  return digest.readUIntBE(0, 6)
+}
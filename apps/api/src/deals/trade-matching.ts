@@ -0,0 +1,177 @@
+import Big from 'big.js'
+
+import type { DealDirection, TradeFill } from './schemas/deal.schema'
+
+export type MatchingStrategy = 'FIFO' | 'LIFO' | 'AVERAGE'
+
+export type MatchableFill = TradeFill & { symbol: string }
+
+export type MatchedDeal = {
+  symbol: string
+  direction: DealDirection
+  entryTrades: TradeFill[]
+  exitTrades: TradeFill[]
+  remainingQty: string
+}
+
+type OpenLot = MatchedDeal & { remaining: Big; lastEntryOrderId: number }
+
+// Binance spot quantities never go beyond 8 decimals.
+const QTY_DP = 8
+
+/**
+ * Groups fills into deals per symbol. Fills of the same order on the open side
+ * share a deal; opposite-side fills close open deals according to `strategy`,
+ * and any quantity left over opens a deal in the other direction.
+ */
+export function matchFillsIntoDeals(
+  fills: MatchableFill[],
+  strategy: MatchingStrategy = 'FIFO',
+): MatchedDeal[] {
+  const sorted = [...fills].sort((left, right) =>
+    left.time !== right.time ? left.time - right.time : left.id - right.id,
+  )
+  const openBySymbol = new Map<string, OpenLot[]>()
+  const deals: OpenLot[] = []
+
+  for (const fill of sorted) {
+    const { symbol, ...trade } = fill
+    let openLots = openBySymbol.get(symbol) ?? []
+    const fillDirection: DealDirection = fill.isBuyer ? 'LONG' : 'SHORT'
+    let pending = new Big(fill.qty)
+
+    if (openLots.length > 0 && openLots[0].direction !== fillDirection) {
+      const allocations = allocateQty(
+        openLots.map((lot) => lot.remaining),
+        pending,
+        strategy,
+      )
+      allocations.forEach((allocation, index) => {
+        if (allocation.lte(0)) return
+        const lot = openLots[index]
+        lot.exitTrades.push(splitFill(trade, allocation))
+        lot.remaining = lot.remaining.minus(allocation)
+        pending = pending.minus(allocation)
+      })
+      openLots = openLots.filter((lot) => lot.remaining.gt(0))
+    }
+    openBySymbol.set(symbol, openLots)
+
+    if (pending.lte(0)) {
+      continue
+    }
+
+    const entryTrade = splitFill(trade, pending)
+    const lastLot = openLots[openLots.length - 1]
+    if (
+      lastLot &&
+      lastLot.direction === fillDirection &&
+      lastLot.lastEntryOrderId === fill.orderId &&
+      lastLot.exitTrades.length === 0
+    ) {
+      lastLot.entryTrades.push(entryTrade)
+      lastLot.remaining = lastLot.remaining.plus(pending)
+      continue
+    }
+
+    const lot: OpenLot = {
+      symbol,
+      direction: fillDirection,
+      entryTrades: [entryTrade],
+      exitTrades: [],
+      remainingQty: '0',
+      remaining: pending,
+      lastEntryOrderId: fill.orderId,
+    }
+    openLots.push(lot)
+    deals.push(lot)
+  }
+
+  return deals.map((lot) => ({
+    symbol: lot.symbol,
+    direction: lot.direction,
+    entryTrades: lot.entryTrades,
+    exitTrades: lot.exitTrades,
+    remainingQty: lot.remaining.toString(),
+  }))
+}
+
+/**
+ * Splits `qty` across open lots given oldest first. FIFO drains the oldest lot
+ * first, LIFO the newest, AVERAGE reduces every lot pro rata.
+ */
+export function allocateQty(
+  remainings: Big[],
+  qty: Big,
+  strategy: MatchingStrategy,
+) {
+  const allocations = remainings.map(() => new Big(0))
+  const total = remainings.reduce((sum, value) => sum.plus(value), new Big(0))
+  if (total.lte(0) || qty.lte(0)) {
+    return allocations
+  }
+  const target = qty.gt(total) ? total : qty
+
+  if (strategy === 'AVERAGE') {
+    let left = target
+    remainings.forEach((remaining, index) => {
+      const share =
+        index === remainings.length - 1
+          ? left
+          : target.times(remaining).div(total).round(QTY_DP, Big.roundDown)
+      allocations[index] = share.gt(remaining) ? remaining : share
+      left = left.minus(allocations[index])
+    })
+    return allocations
+  }
+
+  const order = remainings.map((_, index) => index)
+  if (strategy === 'LIFO') {
+    order.reverse()
+  }
+  let left = target
+  for (const index of order) {
+    if (left.lte(0)) break
+    const taken = left.lt(remainings[index]) ? left : remainings[index]
+    allocations[index] = taken
+    left = left.minus(taken)
+  }
+  return allocations
+}
+
+/** Takes `qty` off the front of `trades`, splitting the boundary fill. */
+export function takeFills(trades: TradeFill[], qty: Big) {
+  const taken: TradeFill[] = []
+  const rest: TradeFill[] = []
+  let left = qty
+
+  for (const trade of trades) {
+    const tradeQty = new Big(trade.qty)
+    if (left.lte(0)) {
+      rest.push(trade)
+    } else if (tradeQty.lte(left)) {
+      taken.push(trade)
+      left = left.minus(tradeQty)
+    } else {
+      taken.push(splitFill(trade, left))
+      rest.push(splitFill(trade, tradeQty.minus(left)))
+      left = new Big(0)
+    }
+  }
+
+  return { taken, rest }
+}
+
+export function splitFill(trade: TradeFill, qty: Big): TradeFill {
+  const fullQty = new Big(trade.qty)
+  if (qty.eq(fullQty)) {
+    return { ...trade }
+  }
+  const ratio = qty.div(fullQty)
+  return {
+    ...trade,
+    qty: qty.toString(),
+    quoteQty: new Big(trade.quoteQty).times(ratio).toString(),
+    commission: new Big(trade.commission).times(ratio).toString(),
+  }
+}
@@ -0,0 +1,26 @@
+import {
+  Controller,
+  type MessageEvent,
+  Req,
+  Sse,
+  UseGuards,
+} from '@nestjs/common'
+import { Request } from 'express'
+import { map, type Observable } from 'rxjs'
+
+import { JwtAuthGuard } from '../auth/jwt-auth.guard'
+import { EventsService } from './events.service'
+
+@UseGuards(JwtAuthGuard)
+@Controller('events')
+export class EventsController {
+  constructor(private eventsService: EventsService) {}
+
+  @Sse()
+  stream(@Req() req: Request): Observable<MessageEvent> {
+    const user = req.user as { id: string }
+    return this.eventsService
+      .stream(user.id)
+      .pipe(map((event) => ({ type: event.type, data: event })))
+  }
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common'
+
+import { EventsController } from './events.controller'
+import { EventsService } from './events.service'
+
+@Module({
+  controllers: [EventsController],
+  providers: [EventsService],
+  exports: [EventsService],
+})
+export class EventsModule {}
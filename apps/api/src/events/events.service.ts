@@ -0,0 +1,80 @@
+import { Injectable, type OnModuleDestroy } from '@nestjs/common'
+import { filter, map, Subject, type Observable } from 'rxjs'
+
+import type { ExchangeId } from '../exchanges/exchange-adapter'
+
+/** Events pushed to the user's open tabs over `GET /events`. */
+export type AppEvent =
+  | {
+      type: 'deal.created' | 'deal.updated' | 'deal.closed'
+      dealId: string
+      symbol: string
+      status: string
+    }
+  | {
+      type: 'deal.deleted' | 'deal.restored' | 'deal.purged'
+      dealId: string
+    }
+  | {
+      type:
+        | 'transaction.created'
+        | 'transaction.updated'
+        | 'transaction.deleted'
+        | 'transaction.restored'
+        | 'transaction.purged'
+      transactionId: string
+    }
+  | {
+      // `order.updated` covers reports without a fill, e.g. new or canceled.
+      type: 'order.filled' | 'order.updated'
+      exchange: ExchangeId
+      profileId: string
+      symbol: string
+      orderId: number
+      clientOrderId: string
+      side: 'BUY' | 'SELL'
+      status: string
+      executedQty: string
+    }
+  | {
+      type: 'balance.updated'
+      exchange: ExchangeId
+      profileId: string
+    }
+  | {
+      type: 'credentials.updated'
+      exchange: ExchangeId
+      profileId: string
+      connected: boolean
+    }
+  | {
+      type: 'credentials.tested'
+      exchange: ExchangeId
+      profileId: string
+      ok: boolean
+      message?: string
+    }
+
+export type AppEventType = AppEvent['type']
+
+type UserAppEvent = { userId: string; event: AppEvent }
+
+@Injectable()
+export class EventsService implements OnModuleDestroy {
+  private readonly events$ = new Subject<UserAppEvent>()
+
+  onModuleDestroy() {
+    this.events$.complete()
+  }
+
+  emit(userId: string, event: AppEvent) {
+    this.events$.next({ userId, event })
+  }
+
+  stream(userId: string): Observable<AppEvent> {
+    return this.events$.pipe(
+      filter((entry) => entry.userId === userId),
+      map((entry) => entry.event),
+    )
+  }
+}
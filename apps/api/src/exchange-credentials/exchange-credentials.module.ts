@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common'
+import { MongooseModule } from '@nestjs/mongoose'
+
+import { EncryptionService } from '../common/encryption.service'
+import { EventsModule } from '../events/events.module'
+import { ExchangeCredentialsService } from './exchange-credentials.service'
+import {
+  ExchangeCredentials,
+  ExchangeCredentialsSchema,
+} from './schemas/exchange-credentials.schema'
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: ExchangeCredentials.name, schema: ExchangeCredentialsSchema },
+    ]),
+    EventsModule,
+  ],
+  providers: [ExchangeCredentialsService, EncryptionService],
+  exports: [ExchangeCredentialsService],
+})
+export class ExchangeCredentialsModule {}
@@ -0,0 +1,395 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  type OnModuleInit,
+} from '@nestjs/common'
+import { InjectModel } from '@nestjs/mongoose'
+import { Model, Types } from 'mongoose'
+
+import {
+  EncryptionService,
+  type EncryptedString,
+} from '../common/encryption.service'
+import { EventsService } from '../events/events.service'
+import {
+  type ExchangeApiCredentials,
+  type ExchangeCredentialsTestResult,
+  type ExchangeEnvironment,
+  type ExchangeId,
+} from '../exchanges/exchange-adapter'
+import {
+  ExchangeCredentials,
+  type ExchangeCredentialsDocument,
+} from './schemas/exchange-credentials.schema'
+
+// Binance keys were stored one per user before credentials became per exchange.
+const LEGACY_BINANCE_COLLECTION = 'binancecredentials'
+// One key pair per user and exchange, before named profiles.
+const LEGACY_EXCHANGE_INDEX = 'userId_1_exchange_1'
+const DEFAULT_PROFILE_NAME = 'Main'
+
+type LegacyBinanceCredentials = {
+  _id: Types.ObjectId
+  userId: Types.ObjectId
+  apiKeyEnc: EncryptedString
+  apiSecretEnc: EncryptedString
+  apiKeyLast4: string
+  lastTestedAt?: Date
+  lastTestOk?: boolean
+  lastTestError?: string
+  createdAt?: Date
+  updatedAt?: Date
+}
+
+export type ExchangeProfileCredentials = ExchangeApiCredentials & {
+  profileId: string
+}
+
+export type ExchangeProfileInput = {
+  name: string
+  environment: ExchangeEnvironment
+  apiKey: string
+  apiSecret: string
+  isDefault?: boolean
+}
+
+@Injectable()
+export class ExchangeCredentialsService implements OnModuleInit {
+  private readonly logger = new Logger(ExchangeCredentialsService.name)
+
+  constructor(
+    @InjectModel(ExchangeCredentials.name)
+    private credentialsModel: Model<ExchangeCredentialsDocument>,
+    private encryptionService: EncryptionService,
+    private eventsService: EventsService,
+  ) {}
+
+  async onModuleInit() {
+    try {
+      await this.migrateLegacyBinanceCredentials()
+      await this.migrateToProfiles()
+    } catch (error) {
+      this.logger.warn(
+        `Exchange credentials migration failed: ${
+          error instanceof Error ? error.message : error
+        }`,
+      )
+    }
+  }
+
+  /** The given profile, or the user's default profile for the exchange. */
+  async getCredentials(
+    userId: string,
+    exchange: ExchangeId,
+    profileId?: string,
+  ) {
+    if (profileId !== undefined) {
+      if (!Types.ObjectId.isValid(profileId)) {
+        return null
+      }
+      return this.credentialsModel.findOne({
+        _id: profileId,
+        userId,
+        exchange,
+      })
+    }
+    return this.credentialsModel
+      .findOne({ userId, exchange })
+      .sort({ isDefault: -1, createdAt: 1, _id: 1 })
+  }
+
+  /** The default profile when it is on `environment`, else the oldest there. */
+  async getEnvironmentCredentials(
+    userId: string,
+    exchange: ExchangeId,
+    environment: ExchangeEnvironment,
+  ) {
+    return this.credentialsModel
+      .findOne({ userId, exchange, environment })
+      .sort({ isDefault: -1, createdAt: 1, _id: 1 })
+  }
+
+  async listCredentials(userId: string) {
+    return this.credentialsModel
+      .find({ userId })
+      .sort({ exchange: 1, createdAt: 1, _id: 1 })
+  }
+
+  /** Profile ids of the exchange, for every user unless one is given. */
+  async listProfiles(exchange: ExchangeId, userId?: string) {
+    const profiles = await this.credentialsModel
+      .find(userId ? { exchange, userId } : { exchange }, { userId: 1 })
+      .lean<Array<{ _id: unknown; userId: unknown }>>()
+    return profiles.map((profile) => ({
+      userId: String(profile.userId),
+      profileId: String(profile._id),
+    }))
+  }
+
+  async getDecryptedCredentials(
+    userId: string,
+    exchange: ExchangeId,
+    profileId?: string,
+  ): Promise<ExchangeProfileCredentials | null> {
+    const credentials = await this.getCredentials(userId, exchange, profileId)
+    if (!credentials) {
+      return null
+    }
+    return this.decrypt(credentials)
+  }
+
+  decrypt(
+    credentials: ExchangeCredentialsDocument,
+  ): ExchangeProfileCredentials {
+    const userId = String(credentials.userId)
+    return {
+      profileId: String(credentials._id),
+      apiKey: this.encryptionService.decrypt(credentials.apiKeyEnc, userId),
+      apiSecret: this.encryptionService.decrypt(
+        credentials.apiSecretEnc,
+        userId,
+      ),
+      environment: credentials.environment,
+    }
+  }
+
+  async createProfile(
+    userId: string,
+    exchange: ExchangeId,
+    input: ExchangeProfileInput,
+  ) {
+    // The first profile of an exchange is its default.
+    const hasProfiles = await this.credentialsModel.exists({ userId, exchange })
+    const isDefault = !hasProfiles || Boolean(input.isDefault)
+
+    const profile = new this.credentialsModel({
+      userId,
+      exchange,
+      name: input.name,
+      environment: input.environment,
+      isDefault,
+      ...this.encryptKeys(userId, input.apiKey, input.apiSecret),
+    })
+    await this.saveProfile(profile, isDefault)
+    this.emitUpdated(profile, true)
+    return profile
+  }
+
+  async updateProfile(
+    userId: string,
+    exchange: ExchangeId,
+    profileId: string,
+    input: Partial<ExchangeProfileInput>,
+  ) {
+    const profile = await this.getCredentials(userId, exchange, profileId)
+    if (!profile) {
+      return null
+    }
+
+    if (input.name !== undefined) {
+      profile.name = input.name
+    }
+    if (input.environment !== undefined) {
+      profile.environment = input.environment
+    }
+    if (input.apiKey !== undefined && input.apiSecret !== undefined) {
+      profile.set(this.encryptKeys(userId, input.apiKey, input.apiSecret))
+    }
+    // A test of other keys or another environment says nothing about these.
+    if (profile.isModified('apiKeyEnc') || profile.isModified('environment')) {
+      profile.set({
+        lastTestedAt: undefined,
+        lastTestOk: undefined,
+        lastTestError: undefined,
+      })
+    }
+    const makeDefault = Boolean(input.isDefault) && !profile.isDefault
+    if (makeDefault) {
+      profile.isDefault = true
+    }
+
+    await this.saveProfile(profile, makeDefault)
+    this.emitUpdated(profile, true)
+    return profile
+  }
+
+  async deleteProfile(userId: string, exchange: ExchangeId, profileId: string) {
+    if (!Types.ObjectId.isValid(profileId)) {
+      return null
+    }
+    const deleted = await this.credentialsModel.findOneAndDelete({
+      _id: profileId,
+      userId,
+      exchange,
+    })
+    if (!deleted) {
+      return null
+    }
+
+    if (deleted.isDefault) {
+      const next = await this.getCredentials(userId, exchange)
+      if (next) {
+        next.isDefault = true
+        await next.save()
+      }
+    }
+    this.emitUpdated(deleted, false)
+    return deleted
+  }
+
+  /** Replaces the keys of the default profile, creating it when missing. */
+  async upsertCredentials(
+    userId: string,
+    exchange: ExchangeId,
+    apiKey: string,
+    apiSecret: string,
+  ) {
+    const profile = await this.getCredentials(userId, exchange)
+    if (!profile) {
+      return this.createProfile(userId, exchange, {
+        name: DEFAULT_PROFILE_NAME,
+        environment: 'MAINNET',
+        apiKey,
+        apiSecret,
+      })
+    }
+    return this.updateProfile(userId, exchange, String(profile._id), {
+      apiKey,
+      apiSecret,
+    })
+  }
+
+  /** Deletes the default profile; the oldest remaining one takes over. */
+  async deleteCredentials(userId: string, exchange: ExchangeId) {
+    const profile = await this.getCredentials(userId, exchange)
+    if (!profile) {
+      return null
+    }
+    return this.deleteProfile(userId, exchange, String(profile._id))
+  }
+
+  async recordTestResult(
+    credentials: ExchangeCredentialsDocument,
+    result: ExchangeCredentialsTestResult,
+  ) {
+    const update: Partial<ExchangeCredentials> = {
+      lastTestedAt: new Date(),
+      lastTestOk: result.ok,
+      lastTestError: result.ok
+        ? undefined
+        : this.sanitizeErrorMessage(result.message),
+    }
+
+    credentials.set(update)
+    await credentials.save()
+    this.eventsService.emit(String(credentials.userId), {
+      type: 'credentials.tested',
+      exchange: credentials.exchange,
+      profileId: String(credentials._id),
+      ok: result.ok,
+      message: update.lastTestError,
+    })
+  }
+
+  private encryptKeys(userId: string, apiKey: string, apiSecret: string) {
+    return {
+      apiKeyEnc: this.encryptionService.encrypt(apiKey, userId),
+      apiSecretEnc: this.encryptionService.encrypt(apiSecret, userId),
+      apiKeyLast4: apiKey.slice(-4),
+    }
+  }
+
+  private async saveProfile(
+    profile: ExchangeCredentialsDocument,
+    takeDefault: boolean,
+  ) {
+    try {
+      await profile.save()
+    } catch (error) {
+      if ((error as { code?: number }).code === 11000) {
+        throw new ConflictException(
+          `A ${profile.exchange} profile named "${profile.name}" already exists`,
+        )
+      }
+      throw error
+    }
+    if (takeDefault) {
+      await this.credentialsModel.updateMany(
+        {
+          userId: profile.userId,
+          exchange: profile.exchange,
+          _id: { $ne: profile._id },
+          isDefault: true,
+        },
+        { $set: { isDefault: false } },
+      )
+    }
+  }
+
+  private emitUpdated(
+    profile: ExchangeCredentialsDocument,
+    connected: boolean,
+  ) {
+    this.eventsService.emit(String(profile.userId), {
+      type: 'credentials.updated',
+      exchange: profile.exchange,
+      profileId: String(profile._id),
+      connected,
+    })
+  }
+
+  private async migrateLegacyBinanceCredentials() {
+    const legacy =
+      this.credentialsModel.db.collection<LegacyBinanceCredentials>(
+        LEGACY_BINANCE_COLLECTION,
+      )
+    const documents = await legacy.find().toArray()
+    for (const { _id, ...document } of documents) {
+      // Keys saved since the switch win over the legacy copy.
+      await this.credentialsModel.collection.updateOne(
+        { userId: document.userId, exchange: 'BINANCE' },
+        {
+          $setOnInsert: {
+            ...document,
+            exchange: 'BINANCE',
+            name: DEFAULT_PROFILE_NAME,
+            environment: 'MAINNET',
+            isDefault: true,
+          },
+        },
+        { upsert: true },
+      )
+      await legacy.deleteOne({ _id })
+    }
+    if (documents.length > 0) {
+      this.logger.log(
+        `Moved ${documents.length} Binance credential(s) to per-exchange credentials`,
+      )
+    }
+  }
+
+  private async migrateToProfiles() {
+    // The one-pair-per-exchange index would reject a second profile.
+    const indexes = await this.credentialsModel.collection.indexes()
+    if (indexes.some((index) => index.name === LEGACY_EXCHANGE_INDEX)) {
+      await this.credentialsModel.collection.dropIndex(LEGACY_EXCHANGE_INDEX)
+    }
+    // Keys saved before profiles were the only pair for their exchange.
+    await this.credentialsModel.collection.updateMany(
+      { name: { $exists: false } },
+      {
+        $set: {
+          name: DEFAULT_PROFILE_NAME,
+          environment: 'MAINNET',
+          isDefault: true,
+        },
+      },
+    )
+  }
+
+  private sanitizeErrorMessage(message?: string) {
+    if (!message) return 'Exchange request failed.'
+    return message.slice(0, 500)
+  }
+}
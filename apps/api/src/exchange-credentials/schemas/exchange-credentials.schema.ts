@@ -0,0 +1,62 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose'
+import { type HydratedDocument, Types } from 'mongoose'
+
+import { type EncryptedString } from '../../common/encryption.service'
+import { EncryptedStringSchema } from '../../common/encrypted-string.schema'
+import {
+  EXCHANGE_ENVIRONMENTS,
+  EXCHANGE_IDS,
+  type ExchangeEnvironment,
+  type ExchangeId,
+} from '../../exchanges/exchange-adapter'
+
+export type ExchangeCredentialsDocument = HydratedDocument<ExchangeCredentials>
+
+// One named key pair (profile) per exchange account, e.g. main and sub-accounts.
+@Schema({ timestamps: true })
+export class ExchangeCredentials {
+  @Prop({ type: Types.ObjectId, required: true, index: true })
+  userId!: Types.ObjectId
+
+  @Prop({ required: true, enum: EXCHANGE_IDS })
+  exchange!: ExchangeId
+
+  @Prop({ required: true, trim: true, maxlength: 50, default: 'Main' })
+  name!: string
+
+  @Prop({ required: true, enum: EXCHANGE_ENVIRONMENTS, default: 'MAINNET' })
+  environment!: ExchangeEnvironment
+
+  // Used when a request names no profile.
+  @Prop({ required: true, default: false })
+  isDefault!: boolean
+
+  @Prop({ type: EncryptedStringSchema, required: true })
+  apiKeyEnc!: EncryptedString
+
+  @Prop({ type: EncryptedStringSchema, required: true })
+  apiSecretEnc!: EncryptedString
+
+  @Prop({ required: true, trim: true })
+  apiKeyLast4!: string
+
+  @Prop()
+  lastTestedAt?: Date
+
+  @Prop()
+  lastTestOk?: boolean
+
+  @Prop({ maxlength: 500, trim: true })
+  lastTestError?: string
+
+  createdAt?: Date
+  updatedAt?: Date
+}
+
+export const ExchangeCredentialsSchema =
+  SchemaFactory.createForClass(ExchangeCredentials)
+
+ExchangeCredentialsSchema.index(
+  { userId: 1, exchange: 1, name: 1 },
+  { unique: true },
+)
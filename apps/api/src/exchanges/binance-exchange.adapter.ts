@@ -0,0 +1,150 @@
+import { Injectable } from '@nestjs/common'
+import Big from 'big.js'
+
+import {
+  BinanceSpotClientService,
+  type SpotOrderResponse,
+} from '../binance/binance-spot-client.service'
+import { BinanceService } from '../binance/binance.service'
+import {
+  type ExchangeAdapter,
+  type ExchangeApiCredentials,
+  type ExchangeOrder,
+  type ExchangeOrderRequest,
+  type ExchangeSymbolInfo,
+  type ExchangeTrade,
+  type ExchangeTradesQuery,
+} from './exchange-adapter'
+
+@Injectable()
+export class BinanceExchangeAdapter implements ExchangeAdapter {
+  readonly id = 'BINANCE' as const
+
+  constructor(
+    private binanceSpotClient: BinanceSpotClientService,
+    private binanceService: BinanceService,
+  ) {}
+
+  getAccount(userId: string, profileId?: string) {
+    return this.binanceSpotClient.getAccount(userId, profileId)
+  }
+
+  getTickerPrice(symbol: string) {
+    return this.binanceSpotClient.getCachedTickerPrice(symbol)
+  }
+
+  getHistoricalPrice(symbol: string, time: number) {
+    return this.binanceSpotClient.getHistoricalPrice(symbol, time)
+  }
+
+  async getSymbolInfo(symbol: string): Promise<ExchangeSymbolInfo> {
+    const info = await this.binanceSpotClient.getExchangeInfo(symbol)
+    return {
+      baseAsset: info.baseAsset,
+      quoteAsset: info.quoteAsset,
+      filters: {
+        minQty: info.filters.lotSize?.minQty,
+        maxQty: info.filters.lotSize?.maxQty,
+        stepSize: info.filters.lotSize?.stepSize,
+        tickSize: info.filters.priceFilter?.tickSize,
+        minNotional: info.filters.notional?.minNotional,
+      },
+    }
+  }
+
+  async placeOrder(
+    userId: string,
+    order: ExchangeOrderRequest,
+    profileId?: string,
+  ): Promise<ExchangeOrder> {
+    const response = await this.binanceSpotClient.placeOrder(
+      userId,
+      {
+        symbol: order.symbol,
+        side: order.side,
+        type: order.type,
+        quantity: order.quantity,
+        quoteOrderQty: order.quoteOrderQty,
+        price: order.price,
+        timeInForce: order.type === 'LIMIT' ? 'GTC' : undefined,
+        newClientOrderId: order.clientOrderId,
+      },
+      profileId,
+    )
+    const orderId = Number(response.orderId)
+    if (!Number.isFinite(orderId)) {
+      throw new Error('Binance orderId missing in response')
+    }
+    return {
+      orderId,
+      clientOrderId: response.clientOrderId ?? order.clientOrderId,
+      status: response.status ?? 'NEW',
+      origQty: response.origQty ?? order.quantity ?? '0',
+      executedQty: response.executedQty ?? '0',
+      fills: this.mapOrderFills(response, orderId, order.side),
+    }
+  }
+
+  async queryOrder(
+    userId: string,
+    symbol: string,
+    orderId: number,
+    profileId?: string,
+  ): Promise<ExchangeOrder> {
+    const order = await this.binanceSpotClient.queryOrder(
+      userId,
+      { symbol, orderId: String(orderId) },
+      profileId,
+    )
+    return {
+      orderId,
+      clientOrderId: order.clientOrderId,
+      status: order.status ?? 'NEW',
+      origQty: order.origQty ?? '0',
+      executedQty: order.executedQty ?? '0',
+      fills: [],
+    }
+  }
+
+  async cancelOrder(
+    userId: string,
+    symbol: string,
+    orderId: number,
+    profileId?: string,
+  ) {
+    await this.binanceSpotClient.cancelOrder(
+      userId,
+      { symbol, orderId: String(orderId) },
+      profileId,
+    )
+  }
+
+  getMyTrades(userId: string, query: ExchangeTradesQuery, profileId?: string) {
+    return this.binanceSpotClient.getMyTrades(userId, query, profileId)
+  }
+
+  checkCredentials(credentials: ExchangeApiCredentials) {
+    return this.binanceService.checkCredentials(credentials)
+  }
+
+  /** Fills from a FULL placement response in the shape myTrades returns. */
+  private mapOrderFills(
+    response: SpotOrderResponse,
+    orderId: number,
+    side: 'BUY' | 'SELL',
+  ): ExchangeTrade[] {
+    return (response.fills ?? []).map((fill) => ({
+      id: fill.tradeId,
+      orderId,
+      price: fill.price,
+      qty: fill.qty,
+      quoteQty: new Big(fill.price).times(fill.qty).toString(),
+      commission: fill.commission,
+      commissionAsset: fill.commissionAsset,
+      time: response.transactTime,
+      isBuyer: side === 'BUY',
+      // Fills reported at placement are against resting orders.
+      isMaker: false,
+    }))
+  }
+}
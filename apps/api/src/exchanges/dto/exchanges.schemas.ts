@@ -0,0 +1,49 @@
+import { z } from 'zod'
+
+import { EXCHANGE_ENVIRONMENTS, EXCHANGE_IDS } from '../exchange-adapter'
+
+export const exchangeIdSchema = z.enum(EXCHANGE_IDS)
+
+export const exchangeEnvironmentSchema = z.enum(EXCHANGE_ENVIRONMENTS)
+
+export const credentialProfileIdSchema = z
+  .string()
+  .regex(/^[0-9a-f]{24}$/i, 'Invalid profile id')
+
+export const exchangeCredentialsSchema = z.object({
+  apiKey: z.string().min(10),
+  apiSecret: z.string().min(10),
+})
+
+export const createExchangeProfileSchema = exchangeCredentialsSchema.extend({
+  name: z.string().trim().min(1).max(50),
+  environment: exchangeEnvironmentSchema.default('MAINNET'),
+  isDefault: z.boolean().optional(),
+})
+
+export const updateExchangeProfileSchema = z
+  .object({
+    name: z.string().trim().min(1).max(50).optional(),
+    environment: exchangeEnvironmentSchema.optional(),
+    apiKey: z.string().min(10).optional(),
+    apiSecret: z.string().min(10).optional(),
+    // Only ever set; another profile has to take over the default.
+    isDefault: z.literal(true).optional(),
+  })
+  .superRefine((values, ctx) => {
+    if ((values.apiKey === undefined) !== (values.apiSecret === undefined)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'apiKey and apiSecret must be changed together',
+        path: [values.apiKey === undefined ? 'apiKey' : 'apiSecret'],
+      })
+    }
+  })
+
+export type ExchangeCredentialsDto = z.infer<typeof exchangeCredentialsSchema>
+export type CreateExchangeProfileDto = z.infer<
+  typeof createExchangeProfileSchema
+>
+export type UpdateExchangeProfileDto = z.infer<
+  typeof updateExchangeProfileSchema
+>
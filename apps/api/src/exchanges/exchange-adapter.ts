@@ -0,0 +1,142 @@
+export const EXCHANGE_IDS = ['BINANCE', 'GATE'] as const
+
+export type ExchangeId = (typeof EXCHANGE_IDS)[number]
+
+export const EXCHANGE_LABELS: Record<ExchangeId, string> = {
+  BINANCE: 'Binance',
+  GATE: 'Gate.io',
+}
+
+export const EXCHANGE_ENVIRONMENTS = ['MAINNET', 'TESTNET'] as const
+
+export type ExchangeEnvironment = (typeof EXCHANGE_ENVIRONMENTS)[number]
+
+export type ExchangeApiCredentials = {
+  apiKey: string
+  apiSecret: string
+  // Picks the exchange base URL; mainnet when omitted.
+  environment?: ExchangeEnvironment
+}
+
+export type ExchangeCredentialsTestResult =
+  | { ok: true }
+  | { ok: false; message: string }
+
+export type ExchangeAccount = {
+  balances: Array<{ asset: string; free: string; locked: string }>
+}
+
+/**
+ * The exchange answered that it has no such pair or no candle for it, so a
+ * retry will not help. Network and server errors stay plain `Error`s.
+ */
+export class PriceUnavailableError extends Error {}
+
+/** Symbol metadata with the order filters callers may pre-check. */
+export type ExchangeSymbolInfo = {
+  baseAsset: string
+  quoteAsset: string
+  filters: {
+    minQty?: string
+    maxQty?: string
+    stepSize?: string
+    tickSize?: string
+    minNotional?: string
+  }
+}
+
+/** A fill in the shape Binance `myTrades` returns it. */
+export type ExchangeTrade = {
+  id: number
+  orderId: number
+  price: string
+  qty: string
+  quoteQty: string
+  commission: string
+  commissionAsset: string
+  time: number
+  isBuyer: boolean
+  isMaker: boolean
+}
+
+export type ExchangeOrderRequest = {
+  symbol: string
+  side: 'BUY' | 'SELL'
+  type: 'MARKET' | 'LIMIT'
+  quantity?: string
+  // MARKET BUY sized in the quote asset.
+  quoteOrderQty?: string
+  price?: string
+  clientOrderId: string
+}
+
+export type ExchangeOrder = {
+  orderId: number
+  clientOrderId: string
+  status: string
+  origQty: string
+  executedQty: string
+  // Fills known at placement; empty when the exchange reports them later.
+  fills: ExchangeTrade[]
+}
+
+export type ExchangeTradesQuery = {
+  symbol: string
+  orderId?: number
+  startTime?: number
+  endTime?: number
+  fromId?: number
+  limit?: number
+}
+
+/**
+ * Spot operations the app needs from an exchange. Symbols are base+quote
+ * without a separator (BTCUSDT) and order statuses use Binance names (NEW,
+ * PARTIALLY_FILLED, FILLED, CANCELED, REJECTED, EXPIRED), so deals treat
+ * every exchange alike. Signed calls use the credential profile `profileId`,
+ * or the user's default profile for the exchange when it is omitted.
+ */
+export interface ExchangeAdapter {
+  readonly id: ExchangeId
+
+  getAccount(userId: string, profileId?: string): Promise<ExchangeAccount>
+
+  /** Last price, cached for a few seconds. */
+  getTickerPrice(symbol: string): Promise<string>
+
+  /** Close of the 1m candle that contains `time`. */
+  getHistoricalPrice(symbol: string, time: number): Promise<string>
+
+  getSymbolInfo(symbol: string): Promise<ExchangeSymbolInfo>
+
+  placeOrder(
+    userId: string,
+    order: ExchangeOrderRequest,
+    profileId?: string,
+  ): Promise<ExchangeOrder>
+
+  queryOrder(
+    userId: string,
+    symbol: string,
+    orderId: number,
+    profileId?: string,
+  ): Promise<ExchangeOrder>
+
+  cancelOrder(
+    userId: string,
+    symbol: string,
+    orderId: number,
+    profileId?: string,
+  ): Promise<void>
+
+  getMyTrades(
+    userId: string,
+    query: ExchangeTradesQuery,
+    profileId?: string,
+  ): Promise<ExchangeTrade[]>
+
+  /** Signed read-only call that proves the keys work. */
+  checkCredentials(
+    credentials: ExchangeApiCredentials,
+  ): Promise<ExchangeCredentialsTestResult>
+}
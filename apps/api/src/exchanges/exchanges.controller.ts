@@ -0,0 +1,169 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  NotFoundException,
+  Param,
+  Patch,
+  Post,
+  Req,
+  UseGuards,
+} from '@nestjs/common'
+import { Request } from 'express'
+
+import { Audited, auditUserId } from '../audit/audited.decorator'
+import { JwtAuthGuard } from '../auth/jwt-auth.guard'
+import { StepUpGuard } from '../auth/step-up.guard'
+import { BinanceUserStreamService } from '../binance/binance-user-stream.service'
+import { ZodValidationPipe } from '../common/zod-validation.pipe'
+import { ExchangeCredentialsService } from '../exchange-credentials/exchange-credentials.service'
+import { ExchangeCredentials } from '../exchange-credentials/schemas/exchange-credentials.schema'
+import {
+  createExchangeProfileSchema,
+  credentialProfileIdSchema,
+  exchangeIdSchema,
+  updateExchangeProfileSchema,
+  type CreateExchangeProfileDto,
+  type UpdateExchangeProfileDto,
+} from './dto/exchanges.schemas'
+import { type ExchangeId } from './exchange-adapter'
+import { ExchangesService } from './exchanges.service'
+
+// Every profile of the exchange: creating or deleting one can move the
+// default flag.
+const profilesTarget = {
+  type: 'exchangeCredentials',
+  model: ExchangeCredentials.name,
+  filter: (req: Request) => ({
+    userId: auditUserId(req),
+    exchange: String(req.params.exchange).toUpperCase(),
+  }),
+}
+
+@UseGuards(JwtAuthGuard)
+@Controller('exchanges')
+export class ExchangesController {
+  constructor(
+    private exchangesService: ExchangesService,
+    private credentialsService: ExchangeCredentialsService,
+    private binanceUserStream: BinanceUserStreamService,
+  ) {}
+
+  @Get()
+  async listExchanges(@Req() req: Request) {
+    const user = req.user as { id: string }
+    return this.exchangesService.listForUser(user.id)
+  }
+
+  @UseGuards(StepUpGuard)
+  @Audited({ action: 'credentials.profile.created', target: profilesTarget })
+  @Post(':exchange/profiles')
+  async createProfile(
+    @Req() req: Request,
+    @Param('exchange', new ZodValidationPipe(exchangeIdSchema))
+    exchange: ExchangeId,
+    @Body(new ZodValidationPipe(createExchangeProfileSchema))
+    body: CreateExchangeProfileDto,
+  ) {
+    const user = req.user as { id: string }
+    const profile = await this.credentialsService.createProfile(
+      user.id,
+      exchange,
+      body,
+    )
+    const profileId = String(profile._id)
+    if (exchange === 'BINANCE') {
+      void this.binanceUserStream.start(user.id, profileId)
+    }
+    return { ok: true, id: profileId }
+  }
+
+  @UseGuards(StepUpGuard)
+  @Audited({ action: 'credentials.profile.updated', target: profilesTarget })
+  @Patch(':exchange/profiles/:profileId')
+  async updateProfile(
+    @Req() req: Request,
+    @Param('exchange', new ZodValidationPipe(exchangeIdSchema))
+    exchange: ExchangeId,
+    @Param('profileId', new ZodValidationPipe(credentialProfileIdSchema))
+    profileId: string,
+    @Body(new ZodValidationPipe(updateExchangeProfileSchema))
+    body: UpdateExchangeProfileDto,
+  ) {
+    const user = req.user as { id: string }
+    await this.getProfileOrThrow(user.id, exchange, profileId)
+    const keysChanged =
+      body.apiKey !== undefined || body.environment !== undefined
+    if (exchange === 'BINANCE' && keysChanged) {
+      // The listenKey can only be closed with the keys that opened it.
+      await this.binanceUserStream.stop(profileId)
+    }
+    await this.credentialsService.updateProfile(
+      user.id,
+      exchange,
+      profileId,
+      body,
+    )
+    if (exchange === 'BINANCE' && keysChanged) {
+      void this.binanceUserStream.start(user.id, profileId)
+    }
+    return { ok: true }
+  }
+
+  @UseGuards(StepUpGuard)
+  @Audited({ action: 'credentials.profile.deleted', target: profilesTarget })
+  @Delete(':exchange/profiles/:profileId')
+  async deleteProfile(
+    @Req() req: Request,
+    @Param('exchange', new ZodValidationPipe(exchangeIdSchema))
+    exchange: ExchangeId,
+    @Param('profileId', new ZodValidationPipe(credentialProfileIdSchema))
+    profileId: string,
+  ) {
+    const user = req.user as { id: string }
+    await this.getProfileOrThrow(user.id, exchange, profileId)
+    if (exchange === 'BINANCE') {
+      // The listenKey can only be closed while the keys still exist.
+      await this.binanceUserStream.stop(profileId)
+    }
+    await this.credentialsService.deleteProfile(user.id, exchange, profileId)
+    return { ok: true }
+  }
+
+  @Post(':exchange/profiles/:profileId/test')
+  async testProfile(
+    @Req() req: Request,
+    @Param('exchange', new ZodValidationPipe(exchangeIdSchema))
+    exchange: ExchangeId,
+    @Param('profileId', new ZodValidationPipe(credentialProfileIdSchema))
+    profileId: string,
+  ) {
+    const user = req.user as { id: string }
+    const result = await this.exchangesService.testCredentials(
+      user.id,
+      exchange,
+      profileId,
+    )
+    if (!result) {
+      throw new NotFoundException('Profile not found')
+    }
+    return result
+  }
+
+  private async getProfileOrThrow(
+    userId: string,
+    exchange: ExchangeId,
+    profileId: string,
+  ) {
+    const profile = await this.credentialsService.getCredentials(
+      userId,
+      exchange,
+      profileId,
+    )
+    if (!profile) {
+      throw new NotFoundException('Profile not found')
+    }
+    return profile
+  }
+}
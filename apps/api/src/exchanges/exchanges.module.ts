@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common'
+
+import { BinanceModule } from '../binance/binance.module'
+import { ExchangeCredentialsModule } from '../exchange-credentials/exchange-credentials.module'
+import { BinanceExchangeAdapter } from './binance-exchange.adapter'
+import { ExchangesController } from './exchanges.controller'
+import { ExchangesService } from './exchanges.service'
+import { GateExchangeAdapter } from './gate-exchange.adapter'
+
+@Module({
+  imports: [BinanceModule, ExchangeCredentialsModule],
+  controllers: [ExchangesController],
+  providers: [BinanceExchangeAdapter, GateExchangeAdapter, ExchangesService],
+  exports: [ExchangesService],
+})
+export class ExchangesModule {}
@@ -0,0 +1,103 @@
+import { BadRequestException, Injectable } from '@nestjs/common'
+
+import { ExchangeCredentialsService } from '../exchange-credentials/exchange-credentials.service'
+import { BinanceExchangeAdapter } from './binance-exchange.adapter'
+import {
+  EXCHANGE_IDS,
+  EXCHANGE_LABELS,
+  type ExchangeAdapter,
+  type ExchangeCredentialsTestResult,
+  type ExchangeId,
+} from './exchange-adapter'
+import { GateExchangeAdapter } from './gate-exchange.adapter'
+
+/** Looks up the adapter for an exchange and manages per-exchange keys. */
+@Injectable()
+export class ExchangesService {
+  private readonly adapters: Map<ExchangeId, ExchangeAdapter>
+
+  constructor(
+    binanceAdapter: BinanceExchangeAdapter,
+    gateAdapter: GateExchangeAdapter,
+    private credentialsService: ExchangeCredentialsService,
+  ) {
+    this.adapters = new Map<ExchangeId, ExchangeAdapter>([
+      [binanceAdapter.id, binanceAdapter],
+      [gateAdapter.id, gateAdapter],
+    ])
+  }
+
+  get(exchange: ExchangeId): ExchangeAdapter {
+    const adapter = this.adapters.get(exchange)
+    if (!adapter) {
+      throw new Error(`Exchange ${exchange} is not supported`)
+    }
+    return adapter
+  }
+
+  async listForUser(userId: string) {
+    const credentials = await this.credentialsService.listCredentials(userId)
+    return EXCHANGE_IDS.map((exchange) => ({
+      exchange,
+      label: EXCHANGE_LABELS[exchange],
+      profiles: credentials
+        .filter((item) => item.exchange === exchange)
+        .map((item) => ({
+          id: String(item._id),
+          name: item.name,
+          environment: item.environment,
+          isDefault: item.isDefault,
+          apiKeyLast4: item.apiKeyLast4,
+          updatedAt: item.updatedAt?.toISOString(),
+          lastTestedAt: item.lastTestedAt?.toISOString(),
+          lastTestOk: item.lastTestOk,
+          lastTestError: item.lastTestError,
+        })),
+    }))
+  }
+
+  /**
+   * The profile an order or import should sign with: the given one, or the
+   * user's default for the exchange.
+   */
+  async resolveProfile(
+    userId: string,
+    exchange: ExchangeId,
+    profileId?: string,
+  ) {
+    const profile = await this.credentialsService.getCredentials(
+      userId,
+      exchange,
+      profileId,
+    )
+    if (!profile) {
+      throw new BadRequestException(
+        profileId
+          ? `${EXCHANGE_LABELS[exchange]} credential profile not found`
+          : `${EXCHANGE_LABELS[exchange]} keys not configured`,
+      )
+    }
+    return profile
+  }
+
+  async testCredentials(
+    userId: string,
+    exchange: ExchangeId,
+    profileId: string,
+  ): Promise<ExchangeCredentialsTestResult | null> {
+    const credentials = await this.credentialsService.getCredentials(
+      userId,
+      exchange,
+      profileId,
+    )
+    if (!credentials) {
+      return null
+    }
+
+    const result = await this.get(exchange).checkCredentials(
+      this.credentialsService.decrypt(credentials),
+    )
+    await this.credentialsService.recordTestResult(credentials, result)
+    return result
+  }
+}
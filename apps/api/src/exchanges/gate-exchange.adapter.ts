@@ -0,0 +1,494 @@
+import { Injectable } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { createHash, createHmac } from 'node:crypto'
+import Big from 'big.js'
+
+import { ExchangeCredentialsService } from '../exchange-credentials/exchange-credentials.service'
+import {
+  PriceUnavailableError,
+  type ExchangeAccount,
+  type ExchangeAdapter,
+  type ExchangeApiCredentials,
+  type ExchangeCredentialsTestResult,
+  type ExchangeEnvironment,
+  type ExchangeOrder,
+  type ExchangeOrderRequest,
+  type ExchangeSymbolInfo,
+  type ExchangeTrade,
+  type ExchangeTradesQuery,
+} from './exchange-adapter'
+
+const DEFAULT_GATE_BASE_URL = 'https://api.gateio.ws'
+const DEFAULT_GATE_TESTNET_BASE_URL = 'https://api-testnet.gateapi.io'
+const API_PREFIX = '/api/v4'
+// Gate.io `text` is `t-` plus at most 28 characters.
+const MAX_ORDER_TEXT_LENGTH = 28
+
+type GateCurrencyPair = {
+  id: string
+  base: string
+  quote: string
+  min_base_amount?: string
+  max_base_amount?: string
+  min_quote_amount?: string
+  amount_precision?: number
+  precision?: number
+}
+
+type GateOrder = {
+  id: string
+  text?: string
+  status: 'open' | 'closed' | 'cancelled'
+  finish_as?: string
+  type: 'limit' | 'market'
+  side: 'buy' | 'sell'
+  amount: string
+  price?: string
+  left?: string
+  filled_amount?: string
+  filled_total?: string
+  avg_deal_price?: string
+}
+
+type GateTrade = {
+  id: string
+  create_time_ms: string
+  side: 'buy' | 'sell'
+  role: 'taker' | 'maker'
+  amount: string
+  price: string
+  order_id: string
+  fee: string
+  fee_currency: string
+}
+
+type RequestParams = Record<string, string | number | undefined>
+
+/**
+ * Gate.io spot API v4 behind the exchange adapter. Pairs are written
+ * BASE_QUOTE there, so symbols are resolved through the pair list.
+ */
+@Injectable()
+export class GateExchangeAdapter implements ExchangeAdapter {
+  readonly id = 'GATE' as const
+
+  private pairsCache: {
+    value: Map<string, GateCurrencyPair>
+    expiresAt: number
+  } | null = null
+  private readonly pairsTtlMs = 60 * 60 * 1000
+  private readonly tickerPriceCache = new Map<
+    string,
+    { value: string; expiresAt: number }
+  >()
+  private readonly tickerPriceTtlMs = 10 * 1000
+  private readonly candlePriceCache = new Map<
+    string,
+    { value: string; expiresAt: number }
+  >()
+  private readonly candlePriceTtlMs = 60 * 60 * 1000
+
+  constructor(
+    private configService: ConfigService,
+    private credentialsService: ExchangeCredentialsService,
+  ) {}
+
+  async getAccount(
+    userId: string,
+    profileId?: string,
+  ): Promise<ExchangeAccount> {
+    const credentials = await this.getCredentials(userId, profileId)
+    const accounts = await this.signedRequest<
+      Array<{ currency: string; available: string; locked: string }>
+    >('GET', '/spot/accounts', credentials)
+    return {
+      balances: accounts.map((account) => ({
+        asset: account.currency,
+        free: account.available,
+        locked: account.locked,
+      })),
+    }
+  }
+
+  async getTickerPrice(symbol: string) {
+    const pair = await this.getPair(symbol)
+    const cached = this.tickerPriceCache.get(pair.id)
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.value
+    }
+
+    const tickers = await this.publicRequest<Array<{ last?: string }>>(
+      '/spot/tickers',
+      { currency_pair: pair.id },
+    )
+    const price = tickers[0]?.last
+    if (!price) {
+      throw new Error('Gate.io ticker price unavailable.')
+    }
+    this.tickerPriceCache.set(pair.id, {
+      value: price,
+      expiresAt: Date.now() + this.tickerPriceTtlMs,
+    })
+    return price
+  }
+
+  async getHistoricalPrice(symbol: string, time: number) {
+    const pair = await this.getPair(symbol)
+    const minuteStart = Math.floor(time / 60000) * 60
+    const cacheKey = `${pair.id}:${minuteStart}`
+    const cached = this.candlePriceCache.get(cacheKey)
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.value
+    }
+
+    // Rows are [time, quote volume, close, high, low, open, ...].
+    const candles = await this.publicRequest<string[][]>('/spot/candlesticks', {
+      currency_pair: pair.id,
+      interval: '1m',
+      from: minuteStart,
+      to: minuteStart + 59,
+    })
+    const close = candles[0]?.[2]
+    if (!close) {
+      throw new PriceUnavailableError('Gate.io candle price unavailable.')
+    }
+    this.candlePriceCache.set(cacheKey, {
+      value: close,
+      expiresAt: Date.now() + this.candlePriceTtlMs,
+    })
+    return close
+  }
+
+  async getSymbolInfo(symbol: string): Promise<ExchangeSymbolInfo> {
+    const pair = await this.getPair(symbol)
+    return {
+      baseAsset: pair.base,
+      quoteAsset: pair.quote,
+      filters: {
+        minQty: pair.min_base_amount,
+        maxQty: pair.max_base_amount,
+        stepSize:
+          pair.amount_precision === undefined
+            ? undefined
+            : new Big(10).pow(-pair.amount_precision).toString(),
+        tickSize:
+          pair.precision === undefined
+            ? undefined
+            : new Big(10).pow(-pair.precision).toString(),
+        minNotional: pair.min_quote_amount,
+      },
+    }
+  }
+
+  async placeOrder(
+    userId: string,
+    order: ExchangeOrderRequest,
+    profileId?: string,
+  ): Promise<ExchangeOrder> {
+    const pair = await this.getPair(order.symbol)
+    const credentials = await this.getCredentials(userId, profileId)
+    // MARKET BUY amounts are in the quote asset on Gate.io.
+    const amount =
+      order.type === 'MARKET' && order.side === 'BUY'
+        ? order.quoteOrderQty
+        : order.quantity
+    if (!amount) {
+      throw new Error(
+        order.type === 'MARKET' && order.side === 'BUY'
+          ? 'Gate.io MARKET BUY orders need quoteOrderQty'
+          : 'quantity is required',
+      )
+    }
+
+    const placed = await this.signedRequest<GateOrder>(
+      'POST',
+      '/spot/orders',
+      credentials,
+      {},
+      {
+        text: this.toOrderText(order.clientOrderId),
+        currency_pair: pair.id,
+        type: order.type === 'LIMIT' ? 'limit' : 'market',
+        account: 'spot',
+        side: order.side === 'BUY' ? 'buy' : 'sell',
+        amount,
+        price: order.type === 'LIMIT' ? order.price : undefined,
+        time_in_force: order.type === 'LIMIT' ? 'gtc' : 'ioc',
+      },
+    )
+    return this.mapOrder(placed)
+  }
+
+  async queryOrder(
+    userId: string,
+    symbol: string,
+    orderId: number,
+    profileId?: string,
+  ): Promise<ExchangeOrder> {
+    const pair = await this.getPair(symbol)
+    const credentials = await this.getCredentials(userId, profileId)
+    const order = await this.signedRequest<GateOrder>(
+      'GET',
+      `/spot/orders/${orderId}`,
+      credentials,
+      { currency_pair: pair.id },
+    )
+    return this.mapOrder(order)
+  }
+
+  async cancelOrder(
+    userId: string,
+    symbol: string,
+    orderId: number,
+    profileId?: string,
+  ) {
+    const pair = await this.getPair(symbol)
+    const credentials = await this.getCredentials(userId, profileId)
+    await this.signedRequest('DELETE', `/spot/orders/${orderId}`, credentials, {
+      currency_pair: pair.id,
+    })
+  }
+
+  async getMyTrades(
+    userId: string,
+    query: ExchangeTradesQuery,
+    profileId?: string,
+  ): Promise<ExchangeTrade[]> {
+    const pair = await this.getPair(query.symbol)
+    const credentials = await this.getCredentials(userId, profileId)
+    const trades = await this.signedRequest<GateTrade[]>(
+      'GET',
+      '/spot/my_trades',
+      credentials,
+      {
+        currency_pair: pair.id,
+        order_id: query.orderId,
+        limit: query.limit,
+        from:
+          query.startTime === undefined
+            ? undefined
+            : Math.floor(query.startTime / 1000),
+        to:
+          query.endTime === undefined
+            ? undefined
+            : Math.ceil(query.endTime / 1000),
+      },
+    )
+
+    return (
+      trades
+        .map((trade) => ({
+          id: Number(trade.id),
+          orderId: Number(trade.order_id),
+          price: trade.price,
+          qty: trade.amount,
+          quoteQty: new Big(trade.price).times(trade.amount).toString(),
+          commission: trade.fee,
+          commissionAsset: trade.fee_currency,
+          time: Number(trade.create_time_ms),
+          isBuyer: trade.side === 'buy',
+          isMaker: trade.role === 'maker',
+        }))
+        // There is no fromId paging on Gate.io; filter to match Binance.
+        .filter(
+          (trade) => query.fromId === undefined || trade.id >= query.fromId,
+        )
+        .sort((left, right) => left.id - right.id)
+    )
+  }
+
+  async checkCredentials(
+    credentials: ExchangeApiCredentials,
+  ): Promise<ExchangeCredentialsTestResult> {
+    try {
+      await this.signedRequest('GET', '/spot/accounts', credentials)
+      return { ok: true }
+    } catch (error) {
+      return {
+        ok: false,
+        message:
+          error instanceof Error
+            ? error.message
+            : 'Failed to test Gate.io credentials.',
+      }
+    }
+  }
+
+  private mapOrder(order: GateOrder): ExchangeOrder {
+    const executedQty = this.getExecutedQty(order)
+    const isQuoteSized = order.type === 'market' && order.side === 'buy'
+    return {
+      orderId: Number(order.id),
+      clientOrderId: order.text ?? '',
+      status: this.mapOrderStatus(order, executedQty),
+      origQty: isQuoteSized ? executedQty : order.amount,
+      executedQty,
+      // Gate.io does not return fills with the order; read them from my_trades.
+      fills: [],
+    }
+  }
+
+  private getExecutedQty(order: GateOrder) {
+    if (order.filled_amount) {
+      return order.filled_amount
+    }
+    if (order.type === 'market' && order.side === 'buy') {
+      // `amount` and `left` are quote here; derive base from the average price.
+      const total = new Big(order.filled_total || '0')
+      const avgPrice = new Big(order.avg_deal_price || '0')
+      return avgPrice.gt(0) ? total.div(avgPrice).toString() : '0'
+    }
+    return new Big(order.amount).minus(order.left || '0').toString()
+  }
+
+  private mapOrderStatus(order: GateOrder, executedQty: string) {
+    if (order.status === 'closed') {
+      return 'FILLED'
+    }
+    if (order.status === 'cancelled') {
+      return order.finish_as === 'ioc' || order.finish_as === 'fok'
+        ? 'EXPIRED'
+        : 'CANCELED'
+    }
+    return new Big(executedQty).gt(0) ? 'PARTIALLY_FILLED' : 'NEW'
+  }
+
+  private toOrderText(clientOrderId: string) {
+    // Keep the leading deal id of `deal_<id>_<suffix>` within the limit.
+    const compact = clientOrderId
+      .replace(/^deal_/, '')
+      .replace(/[^0-9A-Za-z.-]/g, '')
+    return `t-${compact.slice(0, MAX_ORDER_TEXT_LENGTH)}`
+  }
+
+  private async getPair(symbol: string) {
+    const pairs = await this.getPairs()
+    const pair = pairs.get(symbol.toUpperCase())
+    if (!pair) {
+      throw new PriceUnavailableError(`Gate.io pair for ${symbol} not found.`)
+    }
+    return pair
+  }
+
+  private async getPairs() {
+    if (this.pairsCache && this.pairsCache.expiresAt > Date.now()) {
+      return this.pairsCache.value
+    }
+    const pairs = await this.publicRequest<GateCurrencyPair[]>(
+      '/spot/currency_pairs',
+    )
+    const value = new Map(
+      pairs.map((pair) => [`${pair.base}${pair.quote}`.toUpperCase(), pair]),
+    )
+    this.pairsCache = { value, expiresAt: Date.now() + this.pairsTtlMs }
+    return value
+  }
+
+  private async getCredentials(userId: string, profileId?: string) {
+    const credentials = await this.credentialsService.getDecryptedCredentials(
+      userId,
+      'GATE',
+      profileId,
+    )
+    if (!credentials) {
+      throw new Error('Gate.io keys not configured')
+    }
+    return credentials
+  }
+
+  private async publicRequest<T>(path: string, params: RequestParams = {}) {
+    const query = this.buildQuery(params)
+    const response = await fetch(
+      `${this.getBaseUrl()}${API_PREFIX}${path}${query ? `?${query}` : ''}`,
+      { headers: { Accept: 'application/json' } },
+    )
+    if (!response.ok) {
+      throw new Error(await this.extractGateError(response))
+    }
+    return (await response.json()) as T
+  }
+
+  /** APIv4 signature: HMAC-SHA512 over method, path, query, body hash, time. */
+  private async signedRequest<T>(
+    method: 'GET' | 'POST' | 'DELETE',
+    path: string,
+    credentials: ExchangeApiCredentials,
+    params: RequestParams = {},
+    body?: Record<string, string | undefined>,
+  ): Promise<T> {
+    const query = this.buildQuery(params)
+    const payload = body ? JSON.stringify(body) : ''
+    const timestamp = String(Math.floor(Date.now() / 1000))
+    const signature = createHmac('sha512', credentials.apiSecret)
+      .update(
+        [
+          method,
+          `${API_PREFIX}${path}`,
+          query,
+          createHash('sha512').update(payload).digest('hex'),
+          timestamp,
+        ].join('\n'),
+      )
+      .digest('hex')
+
+    const response = await fetch(
+      `${this.getBaseUrl(credentials.environment)}${API_PREFIX}${path}${query ? `?${query}` : ''}`,
+      {
+        method,
+        headers: {
+          Accept: 'application/json',
+          'Content-Type': 'application/json',
+          KEY: credentials.apiKey,
+          Timestamp: timestamp,
+          SIGN: signature,
+        },
+        body: body ? payload : undefined,
+      },
+    )
+    if (!response.ok) {
+      throw new Error(await this.extractGateError(response))
+    }
+    return (await response.json()) as T
+  }
+
+  private buildQuery(params: RequestParams) {
+    const query = new URLSearchParams()
+    Object.entries(params).forEach(([key, value]) => {
+      if (value === undefined) return
+      query.append(key, String(value))
+    })
+    return query.toString()
+  }
+
+  /** Market data always comes from mainnet; testnet prices are synthetic. */
+  private getBaseUrl(environment?: ExchangeEnvironment) {
+    const base =
+      environment === 'TESTNET'
+        ? (this.configService.get<string>('GATE_SPOT_TESTNET_BASE_URL') ??
+          DEFAULT_GATE_TESTNET_BASE_URL)
+        : (this.configService.get<string>('GATE_SPOT_BASE_URL') ??
+          DEFAULT_GATE_BASE_URL)
+    return base.replace(/\/+$/, '')
+  }
+
+  private async extractGateError(response: Response) {
+    try {
+      const data = (await response.json()) as {
+        label?: string
+        message?: string
+      }
+      if (
+        data?.label === 'INVALID_KEY' ||
+        data?.label === 'INVALID_SIGNATURE'
+      ) {
+        return 'Invalid API key, IP restriction, or missing permissions.'
+      }
+      if (data?.message) {
+        return data.message
+      }
+    } catch {
+      // ignore JSON parsing errors
+    }
+    return `Gate.io request failed (${response.status}).`
+  }
+}
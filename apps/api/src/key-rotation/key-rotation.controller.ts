@@ -0,0 +1,27 @@
+import { Controller, Get, Post, UseGuards } from '@nestjs/common'
+
+import { Audited } from '../audit/audited.decorator'
+import { JwtAuthGuard } from '../auth/jwt-auth.guard'
+import { Roles } from '../auth/roles.decorator'
+import { RolesGuard } from '../auth/roles.guard'
+import { KeyRotationService } from './key-rotation.service'
+
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles('admin')
+@Controller('admin/key-rotation')
+export class KeyRotationController {
+  constructor(private keyRotationService: KeyRotationService) {}
+
+  @Get()
+  async getStatus() {
+    return this.keyRotationService.getStatus()
+  }
+
+  @Audited({ action: 'admin.key_rotation.run', recordResponse: true })
+  @Post()
+  async reencrypt() {
+    const result = await this.keyRotationService.reencrypt()
+    const status = await this.keyRotationService.getStatus()
+    return { ...result, status }
+  }
+}
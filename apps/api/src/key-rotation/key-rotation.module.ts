@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common'
+import { MongooseModule } from '@nestjs/mongoose'
+
+import { RolesGuard } from '../auth/roles.guard'
+import { EncryptionService } from '../common/encryption.service'
+import {
+  ExchangeCredentials,
+  ExchangeCredentialsSchema,
+} from '../exchange-credentials/schemas/exchange-credentials.schema'
+import { User, UserSchema } from '../users/schemas/user.schema'
+import { KeyRotationController } from './key-rotation.controller'
+import { KeyRotationService } from './key-rotation.service'
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: ExchangeCredentials.name, schema: ExchangeCredentialsSchema },
+      { name: User.name, schema: UserSchema },
+    ]),
+  ],
+  controllers: [KeyRotationController],
+  providers: [KeyRotationService, EncryptionService, RolesGuard],
+  exports: [KeyRotationService],
+})
+export class KeyRotationModule {}
@@ -0,0 +1,217 @@
+import { Injectable, Logger } from '@nestjs/common'
+import { InjectModel } from '@nestjs/mongoose'
+import { Model, Types } from 'mongoose'
+
+import {
+  EncryptionService,
+  type EncryptedString,
+} from '../common/encryption.service'
+import {
+  ExchangeCredentials,
+  type ExchangeCredentialsDocument,
+} from '../exchange-credentials/schemas/exchange-credentials.schema'
+import { User, type UserDocument } from '../users/schemas/user.schema'
+
+const REENCRYPT_BATCH_SIZE = 100
+
+export type KeyRotationTargetStatus = {
+  name: string
+  total: number
+  outdated: number
+}
+
+export type KeyRotationStatus = {
+  currentVersion: number
+  total: number
+  outdated: number
+  // Documents by the oldest key version of their encrypted fields.
+  versions: Array<{ version: number; count: number }>
+  targets: KeyRotationTargetStatus[]
+}
+
+export type KeyRotationResult = {
+  reencrypted: number
+  failed: number
+  remaining: number
+}
+
+type EncryptedTarget = {
+  name: string
+  collection: Model<unknown>['collection']
+  fields: string[]
+  // The AAD of every payload binds it to this user id.
+  userIdField: '_id' | 'userId'
+}
+
+type EncryptedDocument = {
+  _id: Types.ObjectId
+  userId?: Types.ObjectId
+} & Record<string, EncryptedString | undefined>
+
+/** Finds and re-wraps encrypted fields that are not on the newest master key. */
+@Injectable()
+export class KeyRotationService {
+  private readonly logger = new Logger(KeyRotationService.name)
+  private readonly targets: EncryptedTarget[]
+
+  constructor(
+    @InjectModel(ExchangeCredentials.name)
+    credentialsModel: Model<ExchangeCredentialsDocument>,
+    @InjectModel(User.name)
+    userModel: Model<UserDocument>,
+    private encryptionService: EncryptionService,
+  ) {
+    this.targets = [
+      {
+        name: 'exchangeCredentials',
+        collection: credentialsModel.collection,
+        fields: ['apiKeyEnc', 'apiSecretEnc'],
+        userIdField: 'userId',
+      },
+      {
+        name: 'totpSecrets',
+        collection: userModel.collection,
+        fields: ['totpSecretEnc'],
+        userIdField: '_id',
+      },
+    ]
+  }
+
+  async getStatus(): Promise<KeyRotationStatus> {
+    const versionCounts = new Map<number, number>()
+    const targets: KeyRotationTargetStatus[] = []
+    for (const target of this.targets) {
+      const versions = await target.collection
+        .aggregate<{ _id: number; count: number }>([
+          { $match: this.encryptedFilter(target) },
+          {
+            $group: {
+              _id: {
+                $min: target.fields.map((field) => `$${field}.v`),
+              },
+              count: { $sum: 1 },
+            },
+          },
+        ])
+        .toArray()
+      for (const item of versions) {
+        versionCounts.set(
+          item._id,
+          (versionCounts.get(item._id) ?? 0) + item.count,
+        )
+      }
+      targets.push({
+        name: target.name,
+        total: versions.reduce((sum, item) => sum + item.count, 0),
+        outdated: await target.collection.countDocuments(
+          this.outdatedFilter(target),
+        ),
+      })
+    }
+
+    return {
+      currentVersion: this.encryptionService.currentVersion,
+      total: targets.reduce((sum, item) => sum + item.total, 0),
+      outdated: targets.reduce((sum, item) => sum + item.outdated, 0),
+      versions: Array.from(versionCounts, ([version, count]) => ({
+        version,
+        count,
+      })).sort((a, b) => a.version - b.version),
+      targets,
+    }
+  }
+
+  /**
+   * Re-wraps every encrypted field that is not on the newest master key.
+   * Documents that fail to decrypt are logged and left as they are.
+   */
+  async reencrypt(): Promise<KeyRotationResult> {
+    const result = { reencrypted: 0, failed: 0, remaining: 0 }
+    for (const target of this.targets) {
+      const targetResult = await this.reencryptTarget(target)
+      result.reencrypted += targetResult.reencrypted
+      result.failed += targetResult.failed
+      result.remaining += targetResult.remaining
+    }
+    this.logger.log(
+      `Re-encrypted ${result.reencrypted} document(s) to key v${this.encryptionService.currentVersion}, ${result.remaining} remaining`,
+    )
+    return result
+  }
+
+  private async reencryptTarget(
+    target: EncryptedTarget,
+  ): Promise<KeyRotationResult> {
+    let reencrypted = 0
+    let failed = 0
+    let lastId: Types.ObjectId | undefined
+    const projection = Object.fromEntries(
+      [target.userIdField, ...target.fields].map((field) => [field, 1]),
+    )
+    for (;;) {
+      const batch = await target.collection
+        .find<EncryptedDocument>(
+          {
+            ...this.outdatedFilter(target),
+            ...(lastId ? { _id: { $gt: lastId } } : {}),
+          },
+          { projection },
+        )
+        .sort({ _id: 1 })
+        .limit(REENCRYPT_BATCH_SIZE)
+        .toArray()
+      if (batch.length === 0) {
+        break
+      }
+      lastId = batch[batch.length - 1]._id
+
+      for (const document of batch) {
+        const userId = String(document[target.userIdField])
+        try {
+          const filter: Record<string, unknown> = { _id: document._id }
+          const update: Record<string, EncryptedString> = {}
+          for (const field of target.fields) {
+            const payload = document[field]
+            if (!payload) continue
+            // Values replaced by the user meanwhile are already on the new key.
+            filter[`${field}.iv`] = payload.iv
+            update[field] = this.encryptionService.reencrypt(payload, userId)
+          }
+          const updated = await target.collection.updateOne(filter, {
+            $set: update,
+          })
+          if (updated.modifiedCount > 0) {
+            reencrypted += 1
+          }
+        } catch (error) {
+          failed += 1
+          this.logger.warn(
+            `Could not re-encrypt ${target.name} ${String(document._id)}: ${
+              error instanceof Error ? error.message : error
+            }`,
+          )
+        }
+      }
+    }
+
+    const remaining = await target.collection.countDocuments(
+      this.outdatedFilter(target),
+    )
+    return { reencrypted, failed, remaining }
+  }
+
+  private encryptedFilter(target: EncryptedTarget) {
+    return {
+      $or: target.fields.map((field) => ({ [field]: { $exists: true } })),
+    }
+  }
+
+  private outdatedFilter(target: EncryptedTarget) {
+    const currentVersion = this.encryptionService.currentVersion
+    return {
+      $or: target.fields.map((field) => ({
+        [`${field}.v`]: { $exists: true, $ne: currentVersion },
+      })),
+    }
+  }
+}
@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common'
+import { MongooseModule } from '@nestjs/mongoose'
+
+import { LoginThrottleService } from './login-throttle.service'
+import {
+  LoginThrottle,
+  LoginThrottleSchema,
+} from './schemas/login-throttle.schema'
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: LoginThrottle.name, schema: LoginThrottleSchema },
+    ]),
+  ],
+  providers: [LoginThrottleService],
+  exports: [LoginThrottleService],
+})
+export class LoginThrottleModule {}
@@ -0,0 +1,211 @@
+import { HttpException, HttpStatus, Injectable } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { InjectModel } from '@nestjs/mongoose'
+import { Model } from 'mongoose'
+
+import {
+  LoginThrottle,
+  type LoginThrottleDocument,
+  type ThrottleScope,
+} from './schemas/login-throttle.schema'
+
+type ThrottlePolicy = {
+  // Failures within the window that cost nothing.
+  freeAttempts: number
+  windowMs: number
+  // Whether reaching the lockout threshold locks the account.
+  lockout?: boolean
+}
+
+const MINUTE_MS = 60 * 1000
+const MAX_BACKOFF_MS = 15 * MINUTE_MS
+const DEFAULT_LOCKOUT_THRESHOLD = 10
+const DEFAULT_LOCKOUT_MINUTES = 15
+
+const POLICIES: Record<ThrottleScope, ThrottlePolicy> = {
+  'login-ip': { freeAttempts: 10, windowMs: 15 * MINUTE_MS },
+  'login-email': { freeAttempts: 3, windowMs: 15 * MINUTE_MS, lockout: true },
+  // Every registration and reset request counts, successful or not.
+  'register-ip': { freeAttempts: 5, windowMs: 60 * MINUTE_MS },
+  'reset-ip': { freeAttempts: 10, windowMs: 60 * MINUTE_MS },
+  'reset-email': { freeAttempts: 3, windowMs: 60 * MINUTE_MS },
+  // TOTP and recovery codes of one user, wherever they are checked.
+  'two-factor': { freeAttempts: 3, windowMs: 15 * MINUTE_MS, lockout: true },
+}
+
+export type ThrottleKey = { scope: ThrottleScope; value?: string }
+
+@Injectable()
+export class LoginThrottleService {
+  private readonly lockoutThreshold: number
+  private readonly lockoutMs: number
+
+  constructor(
+    @InjectModel(LoginThrottle.name)
+    private throttleModel: Model<LoginThrottleDocument>,
+    configService: ConfigService,
+  ) {
+    this.lockoutThreshold = Number(
+      configService.get('AUTH_LOCKOUT_THRESHOLD') ?? DEFAULT_LOCKOUT_THRESHOLD,
+    )
+    this.lockoutMs =
+      Number(
+        configService.get('AUTH_LOCKOUT_MINUTES') ?? DEFAULT_LOCKOUT_MINUTES,
+      ) * MINUTE_MS
+  }
+
+  /** Throws 429 while any of the keys is in backoff or locked out. */
+  async assertAllowed(keys: ThrottleKey[]) {
+    const now = Date.now()
+    for (const key of this.presentKeys(keys)) {
+      const throttle = await this.throttleModel.findOne(key)
+      if (!throttle) continue
+      if (throttle.lockedUntil && throttle.lockedUntil.getTime() > now) {
+        this.reject(
+          'Account temporarily locked after too many failed attempts',
+          throttle.lockedUntil,
+        )
+      }
+      if (throttle.blockedUntil && throttle.blockedUntil.getTime() > now) {
+        this.reject('Too many attempts', throttle.blockedUntil)
+      }
+    }
+  }
+
+  /**
+   * Counts an attempt against every key and starts the backoff once the free
+   * attempts are used up. Returns true when this attempt locked an account.
+   */
+  async recordAttempt(keys: ThrottleKey[]) {
+    let locked = false
+    for (const key of this.presentKeys(keys)) {
+      locked = (await this.recordKeyAttempt(key)) || locked
+    }
+    return locked
+  }
+
+  async reset(keys: ThrottleKey[]) {
+    const present = this.presentKeys(keys)
+    if (present.length > 0) {
+      await this.throttleModel.deleteMany({ $or: present })
+    }
+  }
+
+  /** Lifts the lockout and backoff of an email; false when none was set. */
+  async unlockEmail(email: string) {
+    const result = await this.throttleModel.deleteOne({
+      scope: 'login-email',
+      value: email.trim().toLowerCase(),
+    })
+    return result.deletedCount > 0
+  }
+
+  /** Lockout end by email, for accounts that are locked right now. */
+  async listLockedEmails() {
+    const throttles = await this.throttleModel.find({
+      scope: 'login-email',
+      lockedUntil: { $gt: new Date() },
+    })
+    return new Map(
+      throttles.map((throttle) => [throttle.value, throttle.lockedUntil!]),
+    )
+  }
+
+  private async recordKeyAttempt(key: { scope: ThrottleScope; value: string }) {
+    const policy = POLICIES[key.scope]
+    const now = new Date()
+    // A quiet window starts the count over, unless the key is locked.
+    await this.throttleModel.updateOne(
+      {
+        ...key,
+        windowStartedAt: { $lt: new Date(now.getTime() - policy.windowMs) },
+        $or: [
+          { lockedUntil: { $exists: false } },
+          { lockedUntil: { $lt: now } },
+        ],
+      },
+      {
+        $set: { failures: 0, windowStartedAt: now },
+        $unset: { blockedUntil: 1, lockedUntil: 1 },
+      },
+    )
+    const throttle = await this.incrementFailures(key, now)
+
+    const update: Partial<LoginThrottle> = {}
+    const excess = throttle.failures - policy.freeAttempts
+    if (excess > 0) {
+      const backoffMs = Math.min(1000 * 2 ** (excess - 1), MAX_BACKOFF_MS)
+      update.blockedUntil = new Date(now.getTime() + backoffMs)
+    }
+    const locked =
+      Boolean(policy.lockout) &&
+      throttle.failures >= this.lockoutThreshold &&
+      !(throttle.lockedUntil && throttle.lockedUntil > now)
+    if (locked) {
+      update.lockedUntil = new Date(now.getTime() + this.lockoutMs)
+    }
+    const ends = [
+      throttle.windowStartedAt.getTime() + policy.windowMs,
+      update.blockedUntil?.getTime() ?? 0,
+      (update.lockedUntil ?? throttle.lockedUntil)?.getTime() ?? 0,
+    ]
+    update.expiresAt = new Date(Math.max(...ends))
+    await this.throttleModel.updateOne({ _id: throttle._id }, { $set: update })
+    return locked
+  }
+
+  private async incrementFailures(
+    key: { scope: ThrottleScope; value: string },
+    now: Date,
+  ) {
+    const increment = () =>
+      this.throttleModel.findOneAndUpdate(
+        key,
+        {
+          $inc: { failures: 1 },
+          $setOnInsert: { windowStartedAt: now },
+        },
+        { upsert: true, new: true },
+      )
+    try {
+      return await increment()
+    } catch (error) {
+      // Parallel first attempts race to insert the key; the loser's retry
+      // updates the document the winner created.
+      if ((error as { code?: number }).code !== 11000) {
+        throw error
+      }
+      return increment()
+    }
+  }
+
+  private presentKeys(keys: ThrottleKey[]) {
+    return keys.flatMap((key) =>
+      key.value
+        ? [{ scope: key.scope, value: key.value.trim().toLowerCase() }]
+        : [],
+    )
+  }
+
+  private reject(message: string, until: Date) {
+    const retryAfter = Math.max(
+      Math.ceil((until.getTime() - Date.now()) / 1000),
+      1,
+    )
+    throw new HttpException(
+      {
+        statusCode: HttpStatus.TOO_MANY_REQUESTS,
+        message: `${message}. Try again in ${formatWait(retryAfter)}.`,
+        retryAfter,
+      },
+      HttpStatus.TOO_MANY_REQUESTS,
+    )
+  }
+}
+
+function formatWait(seconds: number) {
+  if (seconds < 60) {
+    return `${seconds} s`
+  }
+  return `${Math.ceil(seconds / 60)} min`
+}
@@ -0,0 +1,53 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose'
+import { type HydratedDocument } from 'mongoose'
+
+export type LoginThrottleDocument = HydratedDocument<LoginThrottle>
+
+export const THROTTLE_SCOPES = [
+  'login-ip',
+  'login-email',
+  'register-ip',
+  'reset-ip',
+  'reset-email',
+  'two-factor',
+] as const
+
+export type ThrottleScope = (typeof THROTTLE_SCOPES)[number]
+
+// Failure counter of one IP address, email or user, kept in Mongo across
+// restarts.
+@Schema({ timestamps: true })
+export class LoginThrottle {
+  @Prop({ required: true, enum: THROTTLE_SCOPES })
+  scope!: ThrottleScope
+
+  // IP address, lowercased email or user id.
+  @Prop({ required: true })
+  value!: string
+
+  @Prop({ required: true, default: 0 })
+  failures!: number
+
+  @Prop({ required: true })
+  windowStartedAt!: Date
+
+  // Exponential backoff: no attempts before this time.
+  @Prop()
+  blockedUntil?: Date
+
+  // Account lockout after too many failures for one email.
+  @Prop()
+  lockedUntil?: Date
+
+  // The document is dropped once the window and any block are over.
+  @Prop({ required: true })
+  expiresAt!: Date
+
+  createdAt?: Date
+  updatedAt?: Date
+}
+
+export const LoginThrottleSchema = SchemaFactory.createForClass(LoginThrottle)
+
+LoginThrottleSchema.index({ scope: 1, value: 1 }, { unique: true })
+LoginThrottleSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 })
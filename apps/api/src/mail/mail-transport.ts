@@ -0,0 +1,13 @@
+export type MailMessage = {
+  to: string
+  subject: string
+  text: string
+}
+
+/**
+ * Delivers outgoing mail. Bound in MailModule; point the provider at another
+ * implementation (SMTP, an email API) to send real mail.
+ */
+export abstract class MailTransport {
+  abstract send(message: MailMessage): Promise<void>
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common'
+import { ConfigModule } from '@nestjs/config'
+
+import { MailTransport } from './mail-transport'
+import { OutboxMailTransport } from './outbox-mail.transport'
+
+@Module({
+  imports: [ConfigModule],
+  providers: [{ provide: MailTransport, useClass: OutboxMailTransport }],
+  exports: [MailTransport],
+})
+export class MailModule {}
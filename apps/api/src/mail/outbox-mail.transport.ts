@@ -0,0 +1,41 @@
+import { Injectable, Logger } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { randomUUID } from 'node:crypto'
+import { mkdir, writeFile } from 'node:fs/promises'
+import { join, resolve } from 'node:path'
+
+import { MailTransport, type MailMessage } from './mail-transport'
+
+const DEFAULT_OUTBOX_DIR = 'outbox'
+
+/** Offline default: every message becomes an .eml file in the outbox folder. */
+@Injectable()
+export class OutboxMailTransport extends MailTransport {
+  private readonly logger = new Logger(OutboxMailTransport.name)
+  private readonly outboxDir: string
+
+  constructor(configService: ConfigService) {
+    super()
+    this.outboxDir = resolve(
+      configService.get<string>('MAIL_OUTBOX_DIR') ?? DEFAULT_OUTBOX_DIR,
+    )
+  }
+
+  async send(message: MailMessage) {
+    const sentAt = new Date()
+    const fileName = `${sentAt.toISOString().replace(/[:.]/g, '-')}-${randomUUID()}.eml`
+    const content = [
+      `Date: ${sentAt.toUTCString()}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      message.text,
+      '',
+    ].join('\r\n')
+
+    await mkdir(this.outboxDir, { recursive: true })
+    await writeFile(join(this.outboxDir, fileName), content, 'utf8')
+    this.logger.log(`Mail "${message.subject}" to ${message.to}: ${fileName}`)
+  }
+}
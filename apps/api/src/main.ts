@@ -1,18 +1,36 @@
 import { ConfigService } from '@nestjs/config'
 import { NestFactory } from '@nestjs/core'
+import type { NestExpressApplication } from '@nestjs/platform-express'
 import cookieParser from 'cookie-parser'
+import { json } from 'express'
 
 import { AppModule } from './app.module'
+import { parseMasterKeys } from './common/encryption.service'
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule)
+  // Body parsers are registered below so one route can take larger bodies.
+  const app = await NestFactory.create<NestExpressApplication>(AppModule, {
+    bodyParser: false,
+  })
   const configService = app.get(ConfigService)
 
   validateEnv(configService)
+  // Throttling and audit logs key on req.ip, which is the proxy's address
+  // unless the proxy is trusted to set X-Forwarded-For.
+  const trustProxy = parseTrustProxy(configService.get<string>('TRUST_PROXY'))
+  if (trustProxy !== undefined) {
+    app.set('trust proxy', trustProxy)
+  }
   app.use(cookieParser())
+  // Trade history imports arrive as base64 files in the JSON body; every
+  // other route keeps the default 100kb limit.
+  app.use('/deals/import-history', json({ limit: '15mb' }))
+  app.useBodyParser('json')
+  app.useBodyParser('urlencoded', { extended: true })
   app.enableCors({
     origin: 'http://localhost:5173',
     credentials: true,
+    exposedHeaders: ['Content-Disposition'],
   })
 
   const port = Number(configService.get('PORT') ?? 4000)
@@ -21,6 +39,14 @@ async function bootstrap() {
 
 bootstrap()
 
+// `true`, a hop count, or addresses/subnets such as `loopback, 10.0.0.0/8`.
+function parseTrustProxy(value?: string) {
+  const trimmed = value?.trim()
+  if (!trimmed || trimmed === 'false') return undefined
+  if (trimmed === 'true') return true
+  return /^\d+$/.test(trimmed) ? Number(trimmed) : trimmed
+}
+
 function validateEnv(configService: ConfigService) {
   const required = [
     'MONGO_URI',
@@ -29,7 +55,6 @@ function validateEnv(configService: ConfigService) {
     'JWT_ACCESS_TTL',
     'JWT_REFRESH_TTL',
     'COOKIE_SECURE',
-    'MASTER_KEY_HEX',
   ]
 
   const missing = required.filter((key) => !configService.get(key))
@@ -42,8 +67,8 @@ function validateEnv(configService: ConfigService) {
     throw new Error('COOKIE_SECURE must be "true" or "false"')
   }
 
-  const masterKeyHex = configService.get('MASTER_KEY_HEX')
-  if (!/^[0-9a-fA-F]{64}$/.test(String(masterKeyHex))) {
-    throw new Error('MASTER_KEY_HEX must be a 64-character hex string')
-  }
+  parseMasterKeys(
+    configService.get<string>('MASTER_KEY_HEX'),
+    configService.get<string>('MASTER_KEYS'),
+  )
 }
@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common'
+import { MongooseModule } from '@nestjs/mongoose'
+
+import { PasswordResetTokensService } from './password-reset-tokens.service'
+import {
+  PasswordResetToken,
+  PasswordResetTokenSchema,
+} from './schemas/password-reset-token.schema'
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: PasswordResetToken.name, schema: PasswordResetTokenSchema },
+    ]),
+  ],
+  providers: [PasswordResetTokensService],
+  exports: [PasswordResetTokensService],
+})
+export class PasswordResetTokensModule {}
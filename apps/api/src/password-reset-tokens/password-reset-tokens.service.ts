@@ -0,0 +1,40 @@
+import { Injectable } from '@nestjs/common'
+import { InjectModel } from '@nestjs/mongoose'
+import { Model, Types } from 'mongoose'
+
+import {
+  PasswordResetToken,
+  type PasswordResetTokenDocument,
+} from './schemas/password-reset-token.schema'
+
+@Injectable()
+export class PasswordResetTokensService {
+  constructor(
+    @InjectModel(PasswordResetToken.name)
+    private passwordResetTokenModel: Model<PasswordResetTokenDocument>,
+  ) {}
+
+  /** Issues a token and invalidates any the user still had. */
+  async replaceForUser(params: {
+    userId: Types.ObjectId
+    tokenHash: string
+    expiresAt: Date
+  }) {
+    await this.deleteByUser(params.userId)
+    return this.passwordResetTokenModel.create(params)
+  }
+
+  /** Marks a live token used; null when unknown, expired or already used. */
+  async consume(tokenHash: string) {
+    const now = new Date()
+    return this.passwordResetTokenModel.findOneAndUpdate(
+      { tokenHash, usedAt: { $exists: false }, expiresAt: { $gt: now } },
+      { $set: { usedAt: now } },
+      { new: true },
+    )
+  }
+
+  async deleteByUser(userId: string | Types.ObjectId) {
+    return this.passwordResetTokenModel.deleteMany({ userId })
+  }
+}
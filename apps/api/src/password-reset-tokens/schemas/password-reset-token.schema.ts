@@ -0,0 +1,28 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose'
+import { type HydratedDocument, Types } from 'mongoose'
+
+export type PasswordResetTokenDocument = HydratedDocument<PasswordResetToken>
+
+@Schema({ timestamps: { createdAt: true, updatedAt: false } })
+export class PasswordResetToken {
+  @Prop({ type: Types.ObjectId, required: true, index: true })
+  userId!: Types.ObjectId
+
+  // SHA-256 of the token in the emailed link; the token itself is not kept.
+  @Prop({ required: true, unique: true })
+  tokenHash!: string
+
+  @Prop({ required: true })
+  expiresAt!: Date
+
+  // Set when the token resets the password; it never works twice.
+  @Prop()
+  usedAt?: Date
+
+  createdAt?: Date
+}
+
+export const PasswordResetTokenSchema =
+  SchemaFactory.createForClass(PasswordResetToken)
+
+PasswordResetTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 })
@@ -0,0 +1,27 @@
+import { Controller, Get, Query, Req, UseGuards } from '@nestjs/common'
+import { Request } from 'express'
+
+import { JwtAuthGuard } from '../auth/jwt-auth.guard'
+import { ZodValidationPipe } from '../common/zod-validation.pipe'
+import { exchangeEnvironmentSchema } from '../exchanges/dto/exchanges.schemas'
+import { type ExchangeEnvironment } from '../exchanges/exchange-adapter'
+import { PortfolioService } from './portfolio.service'
+
+const environmentQuery = new ZodValidationPipe(
+  exchangeEnvironmentSchema.default('MAINNET'),
+)
+
+@UseGuards(JwtAuthGuard)
+@Controller('portfolio')
+export class PortfolioController {
+  constructor(private portfolioService: PortfolioService) {}
+
+  @Get('holdings')
+  async getHoldings(
+    @Req() req: Request,
+    @Query('environment', environmentQuery) environment: ExchangeEnvironment,
+  ) {
+    const user = req.user as { id: string }
+    return this.portfolioService.getHoldings(user.id, environment)
+  }
+}
@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common'
+import { MongooseModule } from '@nestjs/mongoose'
+
+import { BinanceModule } from '../binance/binance.module'
+import { ExchangeCredentialsModule } from '../exchange-credentials/exchange-credentials.module'
+import {
+  Transaction,
+  TransactionSchema,
+} from '../transactions/schemas/transaction.schema'
+import { PortfolioController } from './portfolio.controller'
+import { PortfolioService } from './portfolio.service'
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Transaction.name, schema: TransactionSchema },
+    ]),
+    BinanceModule,
+    ExchangeCredentialsModule,
+  ],
+  controllers: [PortfolioController],
+  providers: [PortfolioService],
+})
+export class PortfolioModule {}
@@ -0,0 +1,273 @@
+import { Injectable } from '@nestjs/common'
+import { InjectModel } from '@nestjs/mongoose'
+import Big from 'big.js'
+import { Model } from 'mongoose'
+
+import { BinanceSpotClientService } from '../binance/binance-spot-client.service'
+import { ExchangeCredentialsService } from '../exchange-credentials/exchange-credentials.service'
+import { type ExchangeEnvironment } from '../exchanges/exchange-adapter'
+import {
+  Transaction,
+  type TransactionDocument,
+} from '../transactions/schemas/transaction.schema'
+import { getTransactionFeeInQuote } from '../transactions/transaction-fee'
+
+type SymbolAssets = {
+  baseAsset: string
+  quoteAsset: string
+}
+
+type Position = {
+  symbol: string
+  assets: SymbolAssets | null
+  qty: Big
+  cost: Big
+  unpricedCount: number
+}
+
+type QuoteTotals = {
+  invested: Big
+  value: Big
+}
+
+@Injectable()
+export class PortfolioService {
+  constructor(
+    @InjectModel(Transaction.name)
+    private transactionModel: Model<TransactionDocument>,
+    private binanceSpotClient: BinanceSpotClientService,
+    private exchangeCredentialsService: ExchangeCredentialsService,
+  ) {}
+
+  async getHoldings(userId: string, environment: ExchangeEnvironment) {
+    const transactions = await this.transactionModel
+      .find({ userId, environment })
+      .sort({ occurredAt: 1, _id: 1 })
+      .lean<Transaction[]>()
+
+    const symbols = Array.from(new Set(transactions.map((tx) => tx.symbol)))
+    const [assetsBySymbol, prices, account] = await Promise.all([
+      this.resolveAssets(symbols),
+      this.resolvePrices(symbols),
+      this.loadAccount(userId, environment),
+    ])
+
+    const positions = new Map<string, Position>()
+    for (const transaction of transactions) {
+      const position = positions.get(transaction.symbol) ?? {
+        symbol: transaction.symbol,
+        assets: assetsBySymbol.get(transaction.symbol) ?? null,
+        qty: new Big(0),
+        cost: new Big(0),
+        unpricedCount: 0,
+      }
+      positions.set(transaction.symbol, position)
+      this.applyTransaction(position, transaction)
+    }
+
+    // Net quantity per base asset across every pair that trades it, which is
+    // what the exchange balance should match.
+    const netByAsset = new Map<string, Big>()
+    for (const position of positions.values()) {
+      const asset = position.assets?.baseAsset
+      if (!asset) continue
+      netByAsset.set(
+        asset,
+        (netByAsset.get(asset) ?? new Big(0)).plus(position.qty),
+      )
+    }
+
+    const priced = Array.from(positions.values())
+      .filter((position) => !position.qty.eq(0))
+      .map((position) => {
+        const price = prices.get(position.symbol)
+        return {
+          position,
+          price,
+          value: price ? position.qty.times(price) : null,
+        }
+      })
+
+    // Allocation only makes sense among holdings valued in the same asset.
+    const quoteTotals = new Map<string, QuoteTotals>()
+    for (const { position, value } of priced) {
+      const quoteAsset = position.assets?.quoteAsset
+      if (!quoteAsset) continue
+      const totals = quoteTotals.get(quoteAsset) ?? {
+        invested: new Big(0),
+        value: new Big(0),
+      }
+      totals.invested = totals.invested.plus(position.cost)
+      totals.value = totals.value.plus(value ?? 0)
+      quoteTotals.set(quoteAsset, totals)
+    }
+
+    const holdings = priced
+      .map(({ position, price, value }) => {
+        const baseAsset = position.assets?.baseAsset ?? null
+        const quoteAsset = position.assets?.quoteAsset ?? null
+        const totalValue = quoteAsset
+          ? quoteTotals.get(quoteAsset)?.value
+          : undefined
+        const balance =
+          baseAsset && account.balances
+            ? (account.balances.get(baseAsset) ?? new Big(0))
+            : null
+        const netAssetQty = baseAsset ? netByAsset.get(baseAsset) : undefined
+        return {
+          symbol: position.symbol,
+          baseAsset,
+          quoteAsset,
+          netQty: position.qty.toFixed(),
+          avgCost: position.qty.gt(0)
+            ? position.cost.div(position.qty).round(8).toFixed()
+            : null,
+          invested: position.cost.round(8).toFixed(),
+          price: price ?? null,
+          value: value ? value.round(8).toFixed() : null,
+          unrealizedPnl: value
+            ? value.minus(position.cost).round(8).toFixed()
+            : null,
+          allocationPct:
+            value && totalValue && totalValue.gt(0)
+              ? value.div(totalValue).times(100).round(2).toFixed()
+              : null,
+          exchangeQty: balance ? balance.toFixed() : null,
+          // Compared per asset: several pairs can share one base balance.
+          diffQty:
+            balance && netAssetQty
+              ? balance.minus(netAssetQty).toFixed()
+              : null,
+          unpricedTransactionCount: position.unpricedCount,
+        }
+      })
+      .sort((left, right) => Number(right.value ?? 0) - Number(left.value ?? 0))
+
+    const trackedAssets = new Set(holdings.map((holding) => holding.baseAsset))
+    const untrackedBalances = account.balances
+      ? Array.from(account.balances.entries())
+          .filter(([asset]) => !trackedAssets.has(asset))
+          .map(([asset, qty]) => ({ asset, qty: qty.toFixed() }))
+      : []
+
+    return {
+      holdings,
+      totals: Array.from(quoteTotals.entries()).map(([quoteAsset, totals]) => ({
+        quoteAsset,
+        invested: totals.invested.round(8).toFixed(),
+        value: totals.value.round(8).toFixed(),
+        unrealizedPnl: totals.value.minus(totals.invested).round(8).toFixed(),
+      })),
+      untrackedBalances,
+      account: {
+        available: account.balances !== null,
+        error: account.error,
+      },
+      pricedAt: new Date().toISOString(),
+    }
+  }
+
+  /**
+   * Average-cost bookkeeping: buys add quantity and cost (fees included),
+   * sells remove quantity at the current average so the average is unchanged.
+   */
+  private applyTransaction(position: Position, transaction: Transaction) {
+    const qty = new Big(String(transaction.quantity))
+    if (!transaction.price || transaction.price <= 0) {
+      position.unpricedCount += 1
+    }
+    const price = new Big(String(transaction.price ?? 0))
+    const fee = getTransactionFeeInQuote(
+      transaction,
+      price,
+      position.assets ?? undefined,
+    )
+
+    if (transaction.type === 'BUY') {
+      position.qty = position.qty.plus(qty)
+      position.cost = position.cost.plus(qty.times(price)).plus(fee)
+      return
+    }
+
+    if (position.qty.gt(0)) {
+      const sold = qty.gt(position.qty) ? position.qty : qty
+      position.cost = position.cost.minus(
+        position.cost.times(sold).div(position.qty),
+      )
+    }
+    position.qty = position.qty.minus(qty)
+    if (position.qty.lte(0)) {
+      position.cost = new Big(0)
+    }
+  }
+
+  private async resolveAssets(symbols: string[]) {
+    const result = new Map<string, SymbolAssets>()
+    await Promise.all(
+      symbols.map(async (symbol) => {
+        try {
+          const info = await this.binanceSpotClient.getExchangeInfo(symbol)
+          result.set(symbol, {
+            baseAsset: info.baseAsset,
+            quoteAsset: info.quoteAsset,
+          })
+        } catch {
+          // unknown pairs stay without assets and are left out of reconciliation
+        }
+      }),
+    )
+    return result
+  }
+
+  private async resolvePrices(symbols: string[]) {
+    const result = new Map<string, string>()
+    await Promise.all(
+      symbols.map(async (symbol) => {
+        try {
+          result.set(
+            symbol,
+            await this.binanceSpotClient.getCachedTickerPrice(symbol),
+          )
+        } catch {
+          // leave symbol unpriced when the ticker is unavailable
+        }
+      }),
+    )
+    return result
+  }
+
+  // Balances come from a Binance profile on the same environment.
+  private async loadAccount(userId: string, environment: ExchangeEnvironment) {
+    try {
+      const profile =
+        await this.exchangeCredentialsService.getEnvironmentCredentials(
+          userId,
+          'BINANCE',
+          environment,
+        )
+      if (!profile) {
+        return {
+          balances: null,
+          error: `No Binance API keys for ${environment.toLowerCase()}`,
+        }
+      }
+      const account = await this.binanceSpotClient.getAccount(
+        userId,
+        String(profile._id),
+      )
+      const balances = new Map<string, Big>()
+      for (const balance of account.balances) {
+        const total = new Big(balance.free).plus(balance.locked)
+        if (total.gt(0)) {
+          balances.set(balance.asset, total)
+        }
+      }
+      return { balances, error: null }
+    } catch (error) {
+      return {
+        balances: null,
+        error: error instanceof Error ? error.message : 'Account unavailable',
+      }
+    }
+  }
+}
@@ -1,4 +1,4 @@
-import { Injectable } from '@nestjs/common'
+import { Injectable, Logger, type OnModuleInit } from '@nestjs/common'
 import { InjectModel } from '@nestjs/mongoose'
 import { Model, Types } from 'mongoose'
 
@@ -8,16 +8,38 @@ import {
 } from './schemas/refresh-token.schema'
 
 @Injectable()
-export class RefreshTokensService {
+export class RefreshTokensService implements OnModuleInit {
+  private readonly logger = new Logger(RefreshTokensService.name)
+
   constructor(
     @InjectModel(RefreshToken.name)
     private refreshTokenModel: Model<RefreshTokenDocument>
   ) {}
 
+  async onModuleInit() {
+    try {
+      // Tokens issued before families each start their own.
+      await this.refreshTokenModel.collection.updateMany(
+        { familyId: { $exists: false } },
+        [{ $set: { familyId: '$_id', signedInAt: '$createdAt' } }]
+      )
+    } catch (error) {
+      this.logger.warn(
+        `Refresh token migration failed: ${
+          error instanceof Error ? error.message : error
+        }`
+      )
+    }
+  }
+
   async create(params: {
     userId: Types.ObjectId
     tokenHash: string
+    familyId: Types.ObjectId
     expiresAt: Date
+    signedInAt: Date
+    userAgent?: string
+    ip?: string
   }) {
     const created = new this.refreshTokenModel(params)
     return created.save()
@@ -27,7 +49,38 @@ export class RefreshTokensService {
     return this.refreshTokenModel.findOne({ tokenHash })
   }
 
-  async deleteByHash(tokenHash: string) {
-    return this.refreshTokenModel.deleteOne({ tokenHash })
+  /** Marks the token as exchanged; null when another request got there first. */
+  async markRotated(tokenHash: string) {
+    return this.refreshTokenModel.findOneAndUpdate(
+      { tokenHash, rotatedAt: { $exists: false } },
+      { $set: { rotatedAt: new Date() } },
+      { new: true }
+    )
+  }
+
+  /** The live token of every session of the user, most recently used first. */
+  async listActive(userId: string) {
+    return this.refreshTokenModel
+      .find({
+        userId,
+        rotatedAt: { $exists: false },
+        expiresAt: { $gt: new Date() }
+      })
+      .sort({ createdAt: -1 })
+  }
+
+  async deleteFamily(familyId: string | Types.ObjectId, userId?: string) {
+    return this.refreshTokenModel.deleteMany(
+      userId ? { familyId, userId } : { familyId }
+    )
+  }
+
+  /** Revokes every session of the user, optionally sparing one family. */
+  async deleteByUser(userId: string, exceptFamilyId?: string) {
+    return this.refreshTokenModel.deleteMany(
+      exceptFamilyId
+        ? { userId, familyId: { $ne: new Types.ObjectId(exceptFamilyId) } }
+        : { userId }
+    )
   }
 }
@@ -11,8 +11,31 @@ export class RefreshToken {
   @Prop({ required: true, index: true })
   tokenHash!: string
 
+  // Every token rotated from one login shares it; a family is a session.
+  @Prop({ type: Types.ObjectId, required: true, index: true })
+  familyId!: Types.ObjectId
+
   @Prop({ required: true })
   expiresAt!: Date
+
+  // Set once the token is exchanged; presenting it again means it leaked.
+  @Prop()
+  rotatedAt?: Date
+
+  // Login time of the family, carried over on every rotation.
+  @Prop({ required: true })
+  signedInAt!: Date
+
+  @Prop({ maxlength: 500 })
+  userAgent?: string
+
+  @Prop()
+  ip?: string
+
+  createdAt?: Date
 }
 
 export const RefreshTokenSchema = SchemaFactory.createForClass(RefreshToken)
+
+// Rotated tokens are kept for reuse detection until they expire anyway.
+RefreshTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 })
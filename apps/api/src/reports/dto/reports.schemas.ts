@@ -0,0 +1,34 @@
+import { z } from 'zod'
+
+const emptyToUndefined = (value: unknown) =>
+  value === '' || value === null ? undefined : value
+
+const uppercaseSymbolSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .regex(/^[A-Z0-9]+$/, 'Symbol must be uppercase')
+
+export const taxLotsSchema = z.object({
+  year: z.preprocess(
+    emptyToUndefined,
+    z.coerce
+      .number()
+      .int()
+      .min(2009)
+      .max(2100)
+      .default(() => new Date().getUTCFullYear()),
+  ),
+  method: z.preprocess(
+    emptyToUndefined,
+    z.enum(['FIFO', 'LIFO', 'HIFO', 'AVERAGE']).default('FIFO'),
+  ),
+  // ALL counts a trade twice when it is recorded both ways.
+  source: z.preprocess(
+    emptyToUndefined,
+    z.enum(['ALL', 'TRANSACTIONS', 'DEALS']).default('TRANSACTIONS'),
+  ),
+  symbol: z.preprocess(emptyToUndefined, uppercaseSymbolSchema.optional()),
+})
+
+export type TaxLotsQuery = z.infer<typeof taxLotsSchema>
@@ -0,0 +1,44 @@
+import { Controller, Get, Query, Req, Res, UseGuards } from '@nestjs/common'
+import { Request, Response } from 'express'
+
+import { JwtAuthGuard } from '../auth/jwt-auth.guard'
+import { writeExport } from '../common/export-writer'
+import { ZodValidationPipe } from '../common/zod-validation.pipe'
+import { taxLotsSchema, type TaxLotsQuery } from './dto/reports.schemas'
+import { ReportsService } from './reports.service'
+
+@UseGuards(JwtAuthGuard)
+@Controller('reports')
+export class ReportsController {
+  constructor(private reportsService: ReportsService) {}
+
+  @Get('tax-lots')
+  async getTaxLotReport(
+    @Req() req: Request,
+    @Query(new ZodValidationPipe(taxLotsSchema))
+    query: TaxLotsQuery,
+  ) {
+    const user = req.user as { id: string }
+    return this.reportsService.getTaxLotReport(user.id, query)
+  }
+
+  @Get('tax-lots/export')
+  async exportTaxLotReport(
+    @Req() req: Request,
+    @Query(new ZodValidationPipe(taxLotsSchema))
+    query: TaxLotsQuery,
+    @Res() res: Response,
+  ) {
+    const user = req.user as { id: string }
+    const { columns, rows } = await this.reportsService.exportTaxLotReport(
+      user.id,
+      query,
+    )
+    await writeExport(res, {
+      format: 'csv',
+      fileName: `tax-lots-${query.year}-${query.method.toLowerCase()}`,
+      columns,
+      rows,
+    })
+  }
+}
@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common'
+import { MongooseModule } from '@nestjs/mongoose'
+
+import { Deal, DealSchema } from '../deals/schemas/deal.schema'
+import {
+  Transaction,
+  TransactionSchema,
+} from '../transactions/schemas/transaction.schema'
+import { ReportsController } from './reports.controller'
+import { ReportsService } from './reports.service'
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Transaction.name, schema: TransactionSchema },
+      { name: Deal.name, schema: DealSchema },
+    ]),
+  ],
+  controllers: [ReportsController],
+  providers: [ReportsService],
+})
+export class ReportsModule {}
@@ -0,0 +1,276 @@
+import { Injectable } from '@nestjs/common'
+import { InjectModel } from '@nestjs/mongoose'
+import Big from 'big.js'
+import { Model, type FilterQuery, type Types } from 'mongoose'
+
+import type { ExportRow } from '../common/export-writer'
+import {
+  Deal,
+  type DealDocument,
+  type DealLeg,
+} from '../deals/schemas/deal.schema'
+import {
+  Transaction,
+  type TransactionDocument,
+} from '../transactions/schemas/transaction.schema'
+import { getTransactionFeeInQuote } from '../transactions/transaction-fee'
+import { type TaxLotsQuery } from './dto/reports.schemas'
+import {
+  formatAmount,
+  matchTaxLots,
+  type HoldingTerm,
+  type TaxEvent,
+  type TaxLotDisposal,
+} from './tax-lots'
+
+type TermTotals = {
+  count: number
+  proceeds: string
+  costBasis: string
+  gain: string
+}
+
+// Column order follows a capital-gains schedule (Form 8949 style).
+const TAX_LOT_EXPORT_COLUMNS = [
+  'Description',
+  'Date Acquired',
+  'Date Sold',
+  'Proceeds',
+  'Cost Basis',
+  'Gain or Loss',
+  'Term',
+  'Holding Days',
+]
+
+const TERM_LABELS: Record<HoldingTerm, string> = {
+  SHORT: 'Short-term',
+  LONG: 'Long-term',
+}
+
+@Injectable()
+export class ReportsService {
+  constructor(
+    @InjectModel(Transaction.name)
+    private transactionModel: Model<TransactionDocument>,
+    @InjectModel(Deal.name)
+    private dealModel: Model<DealDocument>,
+  ) {}
+
+  async getTaxLotReport(userId: string, query: TaxLotsQuery) {
+    const yearStart = new Date(Date.UTC(query.year, 0, 1))
+    const yearEnd = new Date(Date.UTC(query.year + 1, 0, 1))
+
+    // Lots bought in earlier years still feed this year's disposals, so
+    // everything up to the end of the year is replayed.
+    const [transactionEvents, dealEvents] = await Promise.all([
+      query.source === 'DEALS'
+        ? { events: [], skippedCount: 0 }
+        : this.loadTransactionEvents(userId, query.symbol, yearEnd),
+      query.source === 'TRANSACTIONS'
+        ? []
+        : this.loadDealEvents(userId, query.symbol, yearEnd),
+    ])
+    const events = [...transactionEvents.events, ...dealEvents].filter(
+      (event) => event.at < yearEnd,
+    )
+
+    const { disposals, openLots } = matchTaxLots(events, query.method)
+    const yearDisposals = disposals.filter(
+      (disposal) => disposal.disposedAt >= yearStart,
+    )
+
+    return {
+      year: query.year,
+      method: query.method,
+      source: query.source,
+      disposals: yearDisposals,
+      openLots,
+      summary: {
+        shortTerm: this.sumTerm(yearDisposals, 'SHORT'),
+        longTerm: this.sumTerm(yearDisposals, 'LONG'),
+        total: this.sumTerm(yearDisposals),
+        uncoveredCount: yearDisposals.filter((disposal) => !disposal.acquiredAt)
+          .length,
+        skippedTransactionCount: transactionEvents.skippedCount,
+      },
+    }
+  }
+
+  async exportTaxLotReport(userId: string, query: TaxLotsQuery) {
+    const report = await this.getTaxLotReport(userId, query)
+    const rows: ExportRow[] = []
+
+    for (const term of ['SHORT', 'LONG'] as const) {
+      const termDisposals = report.disposals.filter(
+        (disposal) => disposal.term === term,
+      )
+      for (const disposal of termDisposals) {
+        rows.push({
+          Description: `${disposal.quantity} ${disposal.symbol}`,
+          // Disposals without a matching buy are reported as "VARIOUS" with
+          // zero basis, the way brokers report missing basis.
+          'Date Acquired': disposal.acquiredAt
+            ? this.formatDate(disposal.acquiredAt)
+            : 'VARIOUS',
+          'Date Sold': this.formatDate(disposal.disposedAt),
+          Proceeds: disposal.proceeds,
+          'Cost Basis': disposal.costBasis,
+          'Gain or Loss': disposal.gain,
+          Term: TERM_LABELS[term],
+          'Holding Days': disposal.holdingDays,
+        })
+      }
+      const totals = this.sumTerm(termDisposals)
+      rows.push({
+        Description: `Total ${TERM_LABELS[term].toLowerCase()}`,
+        Proceeds: totals.proceeds,
+        'Cost Basis': totals.costBasis,
+        'Gain or Loss': totals.gain,
+        Term: TERM_LABELS[term],
+      })
+    }
+
+    return { columns: TAX_LOT_EXPORT_COLUMNS, rows }
+  }
+
+  private async loadTransactionEvents(
+    userId: string,
+    symbol: string | undefined,
+    until: Date,
+  ) {
+    const filter: FilterQuery<TransactionDocument> = {
+      userId,
+      // Testnet fills are not taxable events.
+      environment: 'MAINNET',
+      occurredAt: { $lt: until },
+    }
+    if (symbol) {
+      filter.symbol = symbol
+    }
+    const transactions = await this.transactionModel
+      .find(filter)
+      .lean<(Transaction & { _id: Types.ObjectId })[]>()
+
+    const events: TaxEvent[] = []
+    let skippedCount = 0
+    for (const transaction of transactions) {
+      // Without a price there is no basis or proceeds to report.
+      if (!transaction.price || transaction.price <= 0) {
+        skippedCount += 1
+        continue
+      }
+      const qty = new Big(String(transaction.quantity))
+      const price = new Big(String(transaction.price))
+      events.push({
+        side: transaction.type,
+        position: 'LONG',
+        symbol: transaction.symbol,
+        at: new Date(transaction.occurredAt),
+        qty,
+        quote: qty.times(price),
+        fee: getTransactionFeeInQuote(transaction, price),
+        source: 'TRANSACTION',
+        refId: String(transaction._id),
+      })
+    }
+    return { events, skippedCount }
+  }
+
+  private async loadDealEvents(
+    userId: string,
+    symbol: string | undefined,
+    until: Date,
+  ) {
+    const filter: FilterQuery<DealDocument> = {
+      userId,
+      environment: 'MAINNET',
+      openedAt: { $lt: until },
+    }
+    if (symbol) {
+      filter.symbol = symbol
+    }
+    const deals = await this.dealModel
+      .find(filter)
+      .select({
+        symbol: 1,
+        direction: 1,
+        status: 1,
+        openedAt: 1,
+        closedAt: 1,
+        entry: 1,
+        entryLegs: 1,
+        exit: 1,
+        exitLegs: 1,
+      })
+      .lean<(Deal & { _id: Types.ObjectId })[]>()
+
+    const events: TaxEvent[] = []
+    for (const deal of deals) {
+      const refId = String(deal._id)
+      // A SHORT deal sells first and buys back on exit.
+      const entrySide = deal.direction === 'LONG' ? 'BUY' : 'SELL'
+      const exitSide = deal.direction === 'LONG' ? 'SELL' : 'BUY'
+      const entries =
+        deal.entryLegs && deal.entryLegs.length > 0
+          ? deal.entryLegs.map((leg) => ({ leg, at: leg.openedAt }))
+          : [{ leg: deal.entry, at: deal.openedAt }]
+      const exits =
+        deal.exitLegs && deal.exitLegs.length > 0
+          ? deal.exitLegs.map((leg) => ({ leg, at: leg.closedAt }))
+          : deal.status === 'CLOSED' && deal.exit && deal.closedAt
+            ? [{ leg: deal.exit, at: deal.closedAt }]
+            : []
+
+      for (const { leg, at } of entries) {
+        events.push(this.buildLegEvent(deal, entrySide, leg, at, refId))
+      }
+      for (const { leg, at } of exits) {
+        events.push(this.buildLegEvent(deal, exitSide, leg, at, refId))
+      }
+    }
+    return events
+  }
+
+  private buildLegEvent(
+    deal: Pick<Deal, 'symbol' | 'direction'>,
+    side: TaxEvent['side'],
+    leg: DealLeg,
+    at: Date,
+    refId: string,
+  ): TaxEvent {
+    const qty = new Big(leg.qty)
+    return {
+      side,
+      position: deal.direction,
+      symbol: deal.symbol,
+      at: new Date(at),
+      qty,
+      quote: leg.quote ? new Big(leg.quote) : qty.times(leg.price),
+      // An unconverted fee in another asset is left out, as in deal PnL.
+      fee: new Big(leg.feeInQuote ?? (leg.feeAsset ? '0' : (leg.fee ?? '0'))),
+      source: 'DEAL',
+      refId,
+    }
+  }
+
+  private sumTerm(disposals: TaxLotDisposal[], term?: HoldingTerm) {
+    const selected = term
+      ? disposals.filter((disposal) => disposal.term === term)
+      : disposals
+    const sum = (pick: (disposal: TaxLotDisposal) => string) =>
+      formatAmount(
+        selected.reduce((total, item) => total.plus(pick(item)), new Big(0)),
+      )
+    const totals: TermTotals = {
+      count: selected.length,
+      proceeds: sum((disposal) => disposal.proceeds),
+      costBasis: sum((disposal) => disposal.costBasis),
+      gain: sum((disposal) => disposal.gain),
+    }
+    return totals
+  }
+
+  private formatDate(value: Date) {
+    return value.toISOString().slice(0, 10)
+  }
+}
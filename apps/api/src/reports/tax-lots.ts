@@ -0,0 +1,279 @@
+import Big from 'big.js'
+
+export type CostBasisMethod = 'FIFO' | 'LIFO' | 'HIFO' | 'AVERAGE'
+export type HoldingTerm = 'SHORT' | 'LONG'
+export type TaxEventSource = 'TRANSACTION' | 'DEAL'
+
+export type TaxEvent = {
+  side: 'BUY' | 'SELL'
+  // SHORT events sell first and buy back within the same ref.
+  position: 'LONG' | 'SHORT'
+  symbol: string
+  at: Date
+  qty: Big
+  quote: Big
+  // Already converted to the quote asset.
+  fee: Big
+  source: TaxEventSource
+  refId: string
+}
+
+export type TaxLotRef = {
+  source: TaxEventSource
+  refId: string
+}
+
+export type TaxLotDisposal = {
+  symbol: string
+  quantity: string
+  acquiredAt: Date | null
+  disposedAt: Date
+  proceeds: string
+  costBasis: string
+  gain: string
+  term: HoldingTerm
+  holdingDays: number | null
+  acquisition: TaxLotRef | null
+  disposal: TaxLotRef
+}
+
+export type OpenTaxLot = {
+  symbol: string
+  acquiredAt: Date
+  quantity: string
+  unitCost: string
+  costBasis: string
+  acquisition: TaxLotRef
+}
+
+type Lot = {
+  acquiredAt: Date
+  qty: Big
+  cost: Big
+  ref: TaxLotRef
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const AMOUNT_DP = 8
+
+/**
+ * Replays buys and sells per symbol in time order. A buy opens a lot whose
+ * basis includes its fee; a sell consumes open lots in the order given by
+ * `method`, net of its own fee. Sells with no lots left to consume come back
+ * as disposals with a zero basis and no acquisition date.
+ *
+ * Short positions never touch the long lots: each short sale opens a lot
+ * of its own ref, and the buy-back closes it first in, first out, with the
+ * sale as proceeds and the buy-back as basis. Shorts still open at the end
+ * are not reported.
+ */
+export function matchTaxLots(events: TaxEvent[], method: CostBasisMethod) {
+  const sorted = [...events].sort((left, right) => {
+    const diff = left.at.getTime() - right.at.getTime()
+    if (diff !== 0) return diff
+    // Stamped with the same time: the opening side funds the closing one.
+    return Number(!opensPosition(left)) - Number(!opensPosition(right))
+  })
+  const lotsBySymbol = new Map<string, Lot[]>()
+  const shortLotsByRef = new Map<string, Lot[]>()
+  const disposals: TaxLotDisposal[] = []
+
+  for (const event of sorted) {
+    if (event.position === 'SHORT') {
+      const key = `${event.source}:${event.refId}`
+      const lots = shortLotsByRef.get(key) ?? []
+      shortLotsByRef.set(key, matchShortEvent(event, lots, disposals))
+      continue
+    }
+
+    const lots = lotsBySymbol.get(event.symbol) ?? []
+    lotsBySymbol.set(event.symbol, lots)
+    const ref = { source: event.source, refId: event.refId }
+
+    if (event.side === 'BUY') {
+      lots.push({
+        acquiredAt: event.at,
+        qty: event.qty,
+        cost: event.quote.plus(event.fee),
+        ref,
+      })
+      continue
+    }
+
+    const netProceeds = event.quote.minus(event.fee)
+    if (method === 'AVERAGE') {
+      poolLots(lots)
+    }
+    let left = event.qty
+    for (const lot of orderLots(lots, method)) {
+      if (left.lte(0)) break
+      const taken = left.lt(lot.qty) ? left : lot.qty
+      const cost = lot.cost.times(taken).div(lot.qty)
+      disposals.push(
+        buildDisposal(
+          event,
+          taken,
+          netProceeds.times(taken).div(event.qty),
+          cost,
+          lot.acquiredAt,
+          lot.ref,
+        ),
+      )
+      lot.cost = lot.cost.minus(cost)
+      lot.qty = lot.qty.minus(taken)
+      left = left.minus(taken)
+    }
+    if (left.gt(0)) {
+      disposals.push(
+        buildDisposal(
+          event,
+          left,
+          netProceeds.times(left).div(event.qty),
+          new Big(0),
+          null,
+          null,
+        ),
+      )
+    }
+    lotsBySymbol.set(
+      event.symbol,
+      lots.filter((lot) => lot.qty.gt(0)),
+    )
+  }
+
+  const openLots: OpenTaxLot[] = []
+  for (const [symbol, lots] of lotsBySymbol) {
+    for (const lot of lots) {
+      openLots.push({
+        symbol,
+        acquiredAt: lot.acquiredAt,
+        quantity: formatAmount(lot.qty),
+        unitCost: formatAmount(lot.cost.div(lot.qty)),
+        costBasis: formatAmount(lot.cost),
+        acquisition: lot.ref,
+      })
+    }
+  }
+
+  return { disposals, openLots }
+}
+
+export function getHoldingTerm(acquiredAt: Date, disposedAt: Date) {
+  // Long-term means held for more than one calendar year.
+  const anniversary = new Date(acquiredAt)
+  anniversary.setUTCFullYear(anniversary.getUTCFullYear() + 1)
+  return disposedAt.getTime() > anniversary.getTime() ? 'LONG' : 'SHORT'
+}
+
+export function formatAmount(value: Big) {
+  return value.round(AMOUNT_DP).toFixed()
+}
+
+function opensPosition(event: TaxEvent) {
+  return event.side === (event.position === 'SHORT' ? 'SELL' : 'BUY')
+}
+
+/**
+ * A short sale opens a lot carrying its net proceeds in `cost`; a buy-back
+ * closes those lots and reports them with its own cost as the basis.
+ * Returns the lots still open.
+ */
+function matchShortEvent(
+  event: TaxEvent,
+  lots: Lot[],
+  disposals: TaxLotDisposal[],
+) {
+  const ref = { source: event.source, refId: event.refId }
+  if (event.side === 'SELL') {
+    lots.push({
+      acquiredAt: event.at,
+      qty: event.qty,
+      cost: event.quote.minus(event.fee),
+      ref,
+    })
+    return lots
+  }
+
+  const totalCost = event.quote.plus(event.fee)
+  let left = event.qty
+  for (const lot of lots) {
+    if (left.lte(0)) break
+    const taken = left.lt(lot.qty) ? left : lot.qty
+    const proceeds = lot.cost.times(taken).div(lot.qty)
+    disposals.push(
+      buildDisposal(
+        event,
+        taken,
+        proceeds,
+        totalCost.times(taken).div(event.qty),
+        lot.acquiredAt,
+        lot.ref,
+      ),
+    )
+    lot.cost = lot.cost.minus(proceeds)
+    lot.qty = lot.qty.minus(taken)
+    left = left.minus(taken)
+  }
+  if (left.gt(0)) {
+    // Bought back more than was sold short: a loss with no proceeds.
+    disposals.push(
+      buildDisposal(
+        event,
+        left,
+        new Big(0),
+        totalCost.times(left).div(event.qty),
+        null,
+        null,
+      ),
+    )
+  }
+  return lots.filter((lot) => lot.qty.gt(0))
+}
+
+function orderLots(lots: Lot[], method: CostBasisMethod) {
+  if (method === 'LIFO') {
+    return [...lots].reverse()
+  }
+  if (method === 'HIFO') {
+    return [...lots].sort((left, right) =>
+      right.cost.div(right.qty).cmp(left.cost.div(left.qty)),
+    )
+  }
+  // FIFO, and AVERAGE once every lot carries the pooled unit cost.
+  return lots
+}
+
+function poolLots(lots: Lot[]) {
+  const qty = lots.reduce((sum, lot) => sum.plus(lot.qty), new Big(0))
+  if (qty.lte(0)) return
+  const cost = lots.reduce((sum, lot) => sum.plus(lot.cost), new Big(0))
+  const unitCost = cost.div(qty)
+  for (const lot of lots) {
+    lot.cost = unitCost.times(lot.qty)
+  }
+}
+
+function buildDisposal(
+  event: TaxEvent,
+  qty: Big,
+  proceeds: Big,
+  cost: Big,
+  acquiredAt: Date | null,
+  acquisition: TaxLotRef | null,
+): TaxLotDisposal {
+  return {
+    symbol: event.symbol,
+    quantity: formatAmount(qty),
+    acquiredAt,
+    disposedAt: event.at,
+    proceeds: formatAmount(proceeds),
+    costBasis: formatAmount(cost),
+    gain: formatAmount(proceeds.minus(cost)),
+    term: acquiredAt ? getHoldingTerm(acquiredAt, event.at) : 'SHORT',
+    holdingDays: acquiredAt
+      ? Math.floor((event.at.getTime() - acquiredAt.getTime()) / DAY_MS)
+      : null,
+    acquisition,
+    disposal: { source: event.source, refId: event.refId },
+  }
+}
@@ -1,5 +1,7 @@
 import { z } from 'zod'
 
+import { exchangeEnvironmentSchema } from '../../exchanges/dto/exchanges.schemas'
+
 const emptyToUndefined = (value: unknown) =>
   value === '' || value === null ? undefined : value
 
@@ -18,6 +20,7 @@ const baseTransactionSchema = z.object({
   feeAsset: z.string().trim().min(1).optional(),
   occurredAt: z.coerce.date(),
   exchange: z.string().trim().min(1).optional(),
+  environment: exchangeEnvironmentSchema.optional(),
   note: z.string().trim().max(500).optional(),
 })
 
@@ -30,6 +33,10 @@ export const listTransactionsSchema = z.object({
   to: z.preprocess(emptyToUndefined, z.coerce.date().optional()),
   symbol: z.preprocess(emptyToUndefined, uppercaseSymbolSchema.optional()),
   type: z.preprocess(emptyToUndefined, z.enum(['BUY', 'SELL']).optional()),
+  environment: z.preprocess(
+    emptyToUndefined,
+    exchangeEnvironmentSchema.optional(),
+  ),
   page: z.preprocess(
     emptyToUndefined,
     z.coerce.number().int().positive().optional(),
@@ -40,6 +47,38 @@ export const listTransactionsSchema = z.object({
   ),
 })
 
+export const exportTransactionsSchema = listTransactionsSchema
+  .omit({ page: true, limit: true })
+  .extend({
+    format: z.preprocess(
+      emptyToUndefined,
+      z.enum(['csv', 'json', 'xlsx']).default('csv'),
+    ),
+  })
+
+export const listTrashSchema = listTransactionsSchema.pick({
+  page: true,
+  limit: true,
+})
+
+export const restoreTransactionsSchema = z.object({
+  ids: z.array(z.string().trim().min(1)).min(1),
+})
+
+// Either the given ids or, with `all`, everything in the trash.
+export const purgeTransactionsSchema = z
+  .object({
+    ids: z.array(z.string().trim().min(1)).min(1).optional(),
+    all: z.literal(true).optional(),
+  })
+  .refine((value) => Boolean(value.ids) !== Boolean(value.all), {
+    message: 'Provide either ids or all',
+  })
+
 export type CreateTransactionDto = z.infer<typeof createTransactionSchema>
 export type UpdateTransactionDto = z.infer<typeof updateTransactionSchema>
 export type ListTransactionsQuery = z.infer<typeof listTransactionsSchema>
+export type ExportTransactionsQuery = z.infer<typeof exportTransactionsSchema>
+export type ListTrashQuery = z.infer<typeof listTrashSchema>
+export type RestoreTransactionsDto = z.infer<typeof restoreTransactionsSchema>
+export type PurgeTransactionsDto = z.infer<typeof purgeTransactionsSchema>
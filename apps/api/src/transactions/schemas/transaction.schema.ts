@@ -1,6 +1,12 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose'
 import { type HydratedDocument, Types } from 'mongoose'
 
+import {
+  EXCHANGE_ENVIRONMENTS,
+  type ExchangeEnvironment,
+} from '../../exchanges/exchange-adapter'
+import { softDeletePlugin } from '../../common/soft-delete.plugin'
+
 export type TransactionDocument = HydratedDocument<Transaction>
 export type TransactionType = 'BUY' | 'SELL'
 
@@ -40,14 +46,25 @@ export class Transaction {
   @Prop({ default: 'binance', trim: true })
   exchange?: string
 
+  @Prop({ required: true, enum: EXCHANGE_ENVIRONMENTS, default: 'MAINNET' })
+  environment!: ExchangeEnvironment
+
   @Prop({ maxlength: 500, trim: true })
   note?: string
 
+  // In the trash since then; purged once the retention period is over.
+  @Prop()
+  deletedAt?: Date
+
   createdAt?: Date
   updatedAt?: Date
 }
 
 export const TransactionSchema = SchemaFactory.createForClass(Transaction)
 
+TransactionSchema.plugin(softDeletePlugin)
+
 TransactionSchema.index({ userId: 1, occurredAt: -1 })
+TransactionSchema.index({ userId: 1, environment: 1, occurredAt: -1 })
 TransactionSchema.index({ userId: 1, symbol: 1 })
+TransactionSchema.index({ deletedAt: 1 }, { sparse: true })
@@ -0,0 +1,35 @@
+import Big from 'big.js'
+
+import type { Transaction } from './schemas/transaction.schema'
+
+/**
+ * Converts a transaction fee into the pair's quote asset. Transactions carry
+ * no exchange metadata, so without `assets` the pair is split by the fee
+ * asset: a suffix is the quote asset, a prefix the base asset. Fees in any
+ * other asset count as zero.
+ */
+export function getTransactionFeeInQuote(
+  transaction: Pick<Transaction, 'symbol' | 'fee' | 'feeAsset'>,
+  price: Big,
+  assets?: { baseAsset: string; quoteAsset: string },
+) {
+  if (!transaction.fee) {
+    return new Big(0)
+  }
+  const fee = new Big(String(transaction.fee))
+  const feeAsset = transaction.feeAsset?.toUpperCase()
+  if (!feeAsset) {
+    return fee
+  }
+
+  const isQuote = assets
+    ? feeAsset === assets.quoteAsset
+    : transaction.symbol.endsWith(feeAsset) && transaction.symbol !== feeAsset
+  if (isQuote) {
+    return fee
+  }
+  const isBase = assets
+    ? feeAsset === assets.baseAsset
+    : transaction.symbol.startsWith(feeAsset)
+  return isBase ? fee.times(price) : new Big(0)
+}
@@ -9,24 +9,46 @@ import {
   Post,
   Query,
   Req,
+  Res,
   UseGuards,
 } from '@nestjs/common'
-import { Request } from 'express'
+import { Request, Response } from 'express'
 import type { HydratedDocument } from 'mongoose'
 
+import { Audited, auditUserId } from '../audit/audited.decorator'
 import { JwtAuthGuard } from '../auth/jwt-auth.guard'
+import { writeExport } from '../common/export-writer'
 import { ZodValidationPipe } from '../common/zod-validation.pipe'
 import {
   createTransactionSchema,
+  exportTransactionsSchema,
   listTransactionsSchema,
+  listTrashSchema,
+  purgeTransactionsSchema,
+  restoreTransactionsSchema,
   updateTransactionSchema,
   type CreateTransactionDto,
+  type ExportTransactionsQuery,
   type ListTransactionsQuery,
+  type ListTrashQuery,
+  type PurgeTransactionsDto,
+  type RestoreTransactionsDto,
   type UpdateTransactionDto,
 } from './dto/transactions.schemas'
-import type { Transaction } from './schemas/transaction.schema'
+import { Transaction } from './schemas/transaction.schema'
 import { TransactionsService } from './transactions.service'
 
+const transactionIdsTarget = {
+  type: 'transaction',
+  model: Transaction.name,
+  filter: (req: Request) => {
+    const body = req.body as PurgeTransactionsDto
+    return body.all
+      ? { userId: auditUserId(req), deletedAt: { $ne: null } }
+      : { _id: { $in: body.ids }, userId: auditUserId(req) }
+  },
+}
+
 @UseGuards(JwtAuthGuard)
 @Controller('transactions')
 export class TransactionsController {
@@ -66,6 +88,65 @@ export class TransactionsController {
     }
   }
 
+  @Get('export')
+  async exportTransactions(
+    @Req() req: Request,
+    @Query(new ZodValidationPipe(exportTransactionsSchema))
+    query: ExportTransactionsQuery,
+    @Res() res: Response,
+  ) {
+    const user = req.user as { id: string }
+    const { columns, rows } = this.transactionsService.exportTransactions(
+      user.id,
+      query,
+    )
+    await writeExport(res, {
+      format: query.format,
+      fileName: `transactions-${new Date().toISOString().slice(0, 10)}`,
+      columns,
+      rows,
+    })
+  }
+
+  @Get('trash')
+  async listTrash(
+    @Req() req: Request,
+    @Query(new ZodValidationPipe(listTrashSchema))
+    query: ListTrashQuery,
+  ) {
+    const user = req.user as { id: string }
+    const result = await this.transactionsService.listTrash(user.id, query)
+
+    return {
+      items: result.items.map((item) => this.mapTransaction(item)),
+      page: result.page,
+      limit: result.limit,
+      total: result.total,
+    }
+  }
+
+  @Audited({ action: 'transaction.restored', target: transactionIdsTarget })
+  @Post('restore')
+  async restoreTransactions(
+    @Req() req: Request,
+    @Body(new ZodValidationPipe(restoreTransactionsSchema))
+    body: RestoreTransactionsDto,
+  ) {
+    const user = req.user as { id: string }
+    return this.transactionsService.restoreForUser(user.id, body.ids)
+  }
+
+  @Audited({ action: 'transaction.purged', target: transactionIdsTarget })
+  @Post('purge')
+  async purgeTransactions(
+    @Req() req: Request,
+    @Body(new ZodValidationPipe(purgeTransactionsSchema))
+    body: PurgeTransactionsDto,
+  ) {
+    const user = req.user as { id: string }
+    return this.transactionsService.purgeForUser(user.id, body.ids)
+  }
+
   @Get(':id')
   async getTransaction(@Req() req: Request, @Param('id') id: string) {
     const user = req.user as { id: string }
@@ -100,6 +181,14 @@ export class TransactionsController {
     return this.mapTransaction(updated)
   }
 
+  @Audited({
+    action: 'transaction.deleted',
+    target: {
+      type: 'transaction',
+      model: Transaction.name,
+      filter: (req) => ({ _id: req.params.id, userId: auditUserId(req) }),
+    },
+  })
   @Delete(':id')
   async deleteTransaction(@Req() req: Request, @Param('id') id: string) {
     const user = req.user as { id: string }
@@ -1,6 +1,8 @@
 import { Module } from '@nestjs/common'
 import { MongooseModule } from '@nestjs/mongoose'
 
+import { EventsModule } from '../events/events.module'
+
 import { Transaction, TransactionSchema } from './schemas/transaction.schema'
 import { TransactionsController } from './transactions.controller'
 import { TransactionsService } from './transactions.service'
@@ -10,6 +12,7 @@ import { TransactionsService } from './transactions.service'
     MongooseModule.forFeature([
       { name: Transaction.name, schema: TransactionSchema },
     ]),
+    EventsModule,
   ],
   controllers: [TransactionsController],
   providers: [TransactionsService],
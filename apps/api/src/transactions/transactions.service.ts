@@ -1,33 +1,133 @@
-import { Injectable } from '@nestjs/common'
+import { Injectable, Logger, type OnModuleInit } from '@nestjs/common'
 import { InjectModel } from '@nestjs/mongoose'
-import { Model, type FilterQuery } from 'mongoose'
+import { Model, type FilterQuery, type Types } from 'mongoose'
 
+import type { ExportRow } from '../common/export-writer'
+import { EventsService } from '../events/events.service'
 import {
   Transaction,
   type TransactionDocument,
 } from './schemas/transaction.schema'
 import {
   type CreateTransactionDto,
+  type ExportTransactionsQuery,
   type ListTransactionsQuery,
+  type ListTrashQuery,
   type UpdateTransactionDto,
 } from './dto/transactions.schemas'
 
+const TRANSACTION_EXPORT_COLUMNS = [
+  'id',
+  'occurredAt',
+  'type',
+  'symbol',
+  'quantity',
+  'price',
+  'fee',
+  'feeAsset',
+  'exchange',
+  'environment',
+  'note',
+]
+
 @Injectable()
-export class TransactionsService {
+export class TransactionsService implements OnModuleInit {
+  private readonly logger = new Logger(TransactionsService.name)
+
   constructor(
     @InjectModel(Transaction.name)
     private transactionModel: Model<TransactionDocument>,
+    private eventsService: EventsService,
   ) {}
 
+  async onModuleInit() {
+    // Transactions saved before environments were tracked are mainnet ones.
+    try {
+      await this.transactionModel.updateMany(
+        { environment: { $exists: false } },
+        { $set: { environment: 'MAINNET' } },
+      )
+    } catch (error) {
+      this.logger.warn(
+        `Transaction environment backfill failed: ${
+          error instanceof Error ? error.message : error
+        }`,
+      )
+    }
+  }
+
   async createTransaction(userId: string, data: CreateTransactionDto) {
     const created = new this.transactionModel({
       userId,
       ...data,
     })
-    return created.save()
+    const saved = await created.save()
+    this.eventsService.emit(userId, {
+      type: 'transaction.created',
+      transactionId: String(saved._id),
+    })
+    return saved
   }
 
   async listTransactions(userId: string, query: ListTransactionsQuery) {
+    const filter = this.buildListFilter(userId, query)
+
+    const page = query.page && query.page > 0 ? query.page : 1
+    const limit = Math.min(query.limit ?? 20, 100)
+    const skip = (page - 1) * limit
+
+    const [items, total] = await Promise.all([
+      this.transactionModel
+        .find(filter)
+        .sort({ occurredAt: -1, _id: -1 })
+        .skip(skip)
+        .limit(limit),
+      this.transactionModel.countDocuments(filter),
+    ])
+
+    return { items, total, page, limit }
+  }
+
+  exportTransactions(userId: string, query: ExportTransactionsQuery) {
+    return {
+      columns: TRANSACTION_EXPORT_COLUMNS,
+      rows: this.iterateExportRows(this.buildListFilter(userId, query)),
+    }
+  }
+
+  private async *iterateExportRows(
+    filter: FilterQuery<TransactionDocument>,
+  ): AsyncGenerator<ExportRow> {
+    const cursor = this.transactionModel
+      .find(filter)
+      .sort({ occurredAt: -1, _id: -1 })
+      .lean<Transaction & { _id: Types.ObjectId }>()
+      .cursor()
+
+    for await (const transaction of cursor) {
+      yield {
+        id: String(transaction._id),
+        occurredAt: transaction.occurredAt,
+        type: transaction.type,
+        symbol: transaction.symbol,
+        quantity: transaction.quantity,
+        price: transaction.price,
+        fee: transaction.fee,
+        feeAsset: transaction.feeAsset,
+        exchange: transaction.exchange,
+        environment: transaction.environment,
+        note: transaction.note,
+      }
+    }
+  }
+
+  private buildListFilter(
+    userId: string,
+    query: Pick<
+      ListTransactionsQuery,
+      'symbol' | 'type' | 'environment' | 'from' | 'to'
+    >,
+  ) {
     const filter: FilterQuery<TransactionDocument> = { userId }
 
     if (query.symbol) {
@@ -38,6 +138,10 @@ export class TransactionsService {
       filter.type = query.type
     }
 
+    if (query.environment) {
+      filter.environment = query.environment
+    }
+
     if (query.from || query.to) {
       filter.occurredAt = {}
       if (query.from) {
@@ -48,6 +152,50 @@ export class TransactionsService {
       }
     }
 
+    return filter
+  }
+
+  async findByIdForUser(userId: string, id: string) {
+    return this.transactionModel.findOne({ _id: id, userId })
+  }
+
+  async updateByIdForUser(
+    userId: string,
+    id: string,
+    update: UpdateTransactionDto,
+  ) {
+    const updated = await this.transactionModel.findOneAndUpdate(
+      { _id: id, userId },
+      update,
+      { new: true },
+    )
+    if (updated) {
+      this.eventsService.emit(userId, {
+        type: 'transaction.updated',
+        transactionId: id,
+      })
+    }
+    return updated
+  }
+
+  async deleteByIdForUser(userId: string, id: string) {
+    const deleted = await this.transactionModel.findOneAndUpdate(
+      { _id: id, userId },
+      { $set: { deletedAt: new Date() } },
+      { new: true },
+    )
+    if (deleted) {
+      this.eventsService.emit(userId, {
+        type: 'transaction.deleted',
+        transactionId: id,
+      })
+    }
+    return deleted
+  }
+
+  async listTrash(userId: string, query: ListTrashQuery) {
+    const filter = { userId, deletedAt: { $ne: null } }
+
     const page = query.page && query.page > 0 ? query.page : 1
     const limit = Math.min(query.limit ?? 20, 100)
     const skip = (page - 1) * limit
@@ -55,7 +203,7 @@ export class TransactionsService {
     const [items, total] = await Promise.all([
       this.transactionModel
         .find(filter)
-        .sort({ occurredAt: -1, _id: -1 })
+        .sort({ deletedAt: -1, _id: -1 })
         .skip(skip)
         .limit(limit),
       this.transactionModel.countDocuments(filter),
@@ -64,21 +212,58 @@ export class TransactionsService {
     return { items, total, page, limit }
   }
 
-  async findByIdForUser(userId: string, id: string) {
-    return this.transactionModel.findOne({ _id: id, userId })
+  async restoreForUser(userId: string, ids: string[]) {
+    const filter = { _id: { $in: ids }, userId, deletedAt: { $ne: null } }
+    const transactions = await this.transactionModel
+      .find(filter, { _id: 1 })
+      .lean()
+    const restoredIds = transactions.map((item) => String(item._id))
+    if (restoredIds.length === 0) {
+      return { ok: true, restoredCount: 0, restoredIds: [] }
+    }
+    await this.transactionModel.updateMany(
+      { ...filter, _id: { $in: restoredIds } },
+      { $unset: { deletedAt: 1 } },
+    )
+    for (const transactionId of restoredIds) {
+      this.eventsService.emit(userId, {
+        type: 'transaction.restored',
+        transactionId,
+      })
+    }
+    return {
+      ok: true,
+      restoredCount: restoredIds.length,
+      restoredIds,
+    }
   }
 
-  async updateByIdForUser(
-    userId: string,
-    id: string,
-    update: UpdateTransactionDto,
-  ) {
-    return this.transactionModel.findOneAndUpdate({ _id: id, userId }, update, {
-      new: true,
+  /** Deletes trashed transactions for good: the given ones, or all of them. */
+  async purgeForUser(userId: string, ids?: string[]) {
+    const filter: FilterQuery<TransactionDocument> = {
+      userId,
+      deletedAt: { $ne: null },
+    }
+    if (ids) {
+      filter._id = { $in: ids }
+    }
+    const transactions = await this.transactionModel
+      .find(filter, { _id: 1 })
+      .lean()
+    const purgedIds = transactions.map((item) => String(item._id))
+    if (purgedIds.length === 0) {
+      return { ok: true, purgedCount: 0 }
+    }
+    await this.transactionModel.deleteMany({
+      ...filter,
+      _id: { $in: purgedIds },
     })
-  }
-
-  async deleteByIdForUser(userId: string, id: string) {
-    return this.transactionModel.findOneAndDelete({ _id: id, userId })
+    for (const transactionId of purgedIds) {
+      this.eventsService.emit(userId, {
+        type: 'transaction.purged',
+        transactionId,
+      })
+    }
+    return { ok: true, purgedCount: purgedIds.length }
   }
 }
@@ -0,0 +1,91 @@
+import {
+  Injectable,
+  Logger,
+  type OnModuleDestroy,
+  type OnModuleInit,
+} from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { InjectModel } from '@nestjs/mongoose'
+import { Model } from 'mongoose'
+
+import { Deal, type DealDocument } from '../deals/schemas/deal.schema'
+import {
+  Transaction,
+  type TransactionDocument,
+} from '../transactions/schemas/transaction.schema'
+
+const DEFAULT_RETENTION_DAYS = 30
+const DEFAULT_PURGE_INTERVAL_MS = 60 * 60 * 1000
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Deletes deals and transactions that have sat in the trash for longer
+ * than `TRASH_RETENTION_DAYS`. Set `TRASH_PURGE_INTERVAL_MS=0` to keep
+ * them until they are purged by hand.
+ */
+@Injectable()
+export class TrashPurgeService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(TrashPurgeService.name)
+  private timer: NodeJS.Timeout | null = null
+  private running = false
+
+  constructor(
+    @InjectModel(Deal.name)
+    private dealModel: Model<DealDocument>,
+    @InjectModel(Transaction.name)
+    private transactionModel: Model<TransactionDocument>,
+    private configService: ConfigService,
+  ) {}
+
+  onModuleInit() {
+    const interval = Number(
+      this.configService.get('TRASH_PURGE_INTERVAL_MS') ??
+        DEFAULT_PURGE_INTERVAL_MS,
+    )
+    if (!Number.isFinite(interval) || interval <= 0) {
+      return
+    }
+    this.timer = setInterval(() => void this.tick(), interval)
+    this.timer.unref()
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  async tick() {
+    if (this.running) return
+    this.running = true
+    try {
+      await this.purgeExpired()
+    } catch (error) {
+      this.logger.warn(
+        `Trash purge failed: ${error instanceof Error ? error.message : error}`,
+      )
+    } finally {
+      this.running = false
+    }
+  }
+
+  private async purgeExpired() {
+    const days = Number(
+      this.configService.get('TRASH_RETENTION_DAYS') ?? DEFAULT_RETENTION_DAYS,
+    )
+    if (!Number.isFinite(days) || days < 0) {
+      return
+    }
+    const filter = { deletedAt: { $lte: new Date(Date.now() - days * DAY_MS) } }
+    const [deals, transactions] = await Promise.all([
+      this.dealModel.deleteMany(filter),
+      this.transactionModel.deleteMany(filter),
+    ])
+    if (deals.deletedCount > 0 || transactions.deletedCount > 0) {
+      this.logger.log(
+        `Purged ${deals.deletedCount} deal(s) and ${transactions.deletedCount} transaction(s) from the trash`,
+      )
+    }
+  }
+}
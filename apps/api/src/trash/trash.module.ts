@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common'
+import { MongooseModule } from '@nestjs/mongoose'
+
+import { Deal, DealSchema } from '../deals/schemas/deal.schema'
+import {
+  Transaction,
+  TransactionSchema,
+} from '../transactions/schemas/transaction.schema'
+import { TrashPurgeService } from './trash-purge.service'
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Deal.name, schema: DealSchema },
+      { name: Transaction.name, schema: TransactionSchema },
+    ]),
+  ],
+  providers: [TrashPurgeService],
+})
+export class TrashModule {}
@@ -1,6 +1,9 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose'
 import { type HydratedDocument } from 'mongoose'
 
+import { EncryptedStringSchema } from '../../common/encrypted-string.schema'
+import { type EncryptedString } from '../../common/encryption.service'
+
 export type UserDocument = HydratedDocument<User>
 export type UserRole = 'user' | 'admin'
 
@@ -15,6 +18,25 @@ export class User {
   @Prop({ default: 'user' })
   role!: UserRole
 
+  // TOTP secret; saved at enrollment and in use once twoFactorEnabled is set.
+  @Prop({ type: EncryptedStringSchema })
+  totpSecretEnc?: EncryptedString
+
+  @Prop({ default: false })
+  twoFactorEnabled!: boolean
+
+  // Order placement and credential changes need a fresh TOTP check.
+  @Prop({ default: false })
+  twoFactorStepUp!: boolean
+
+  // SHA-256 hashes of the unused one-time recovery codes.
+  @Prop({ type: [String], default: [] })
+  recoveryCodeHashes!: string[]
+
+  // Last accepted TOTP time step, so a code cannot be replayed.
+  @Prop()
+  totpLastStep?: number
+
   createdAt?: Date
   updatedAt?: Date
 }
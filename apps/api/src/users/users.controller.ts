@@ -7,36 +7,77 @@ import {
   NotFoundException,
   Param,
   Patch,
+  Post,
   Req,
   UseGuards,
 } from '@nestjs/common'
 import { Request } from 'express'
 
+import { AuditService } from '../audit/audit.service'
+import { Audited } from '../audit/audited.decorator'
 import { ZodValidationPipe } from '../common/zod-validation.pipe'
 import { JwtAuthGuard } from '../auth/jwt-auth.guard'
 import { Roles } from '../auth/roles.decorator'
 import { RolesGuard } from '../auth/roles.guard'
+import { LoginThrottleService } from '../login-throttle/login-throttle.service'
 import { updateUserRoleSchema } from './dto/users.schemas'
-import { type UserRole } from './schemas/user.schema'
+import { User, type UserRole } from './schemas/user.schema'
 import { UsersService } from './users.service'
 
+const userTarget = {
+  type: 'user',
+  model: User.name,
+  filter: (req: Request) => ({ _id: req.params.id }),
+}
+
 @UseGuards(JwtAuthGuard, RolesGuard)
 @Roles('admin')
 @Controller('users')
 export class UsersController {
-  constructor(private usersService: UsersService) {}
+  constructor(
+    private usersService: UsersService,
+    private loginThrottleService: LoginThrottleService,
+    private auditService: AuditService,
+  ) {}
 
   @Get()
   async listUsers() {
     const users = await this.usersService.listUsers()
+    const locked = await this.loginThrottleService.listLockedEmails()
     return users.map((user) => ({
       id: user._id.toString(),
       email: user.email,
       role: user.role,
       createdAt: user.createdAt,
+      lockedUntil: locked.get(user.email) ?? null,
     }))
   }
 
+  /** Lifts a failed-login lockout before it runs out. */
+  @Post(':id/unlock')
+  async unlockUser(@Param('id') id: string, @Req() req: Request) {
+    const target = await this.usersService.findById(id)
+    if (!target) {
+      throw new NotFoundException('User not found')
+    }
+
+    const unlocked = await this.loginThrottleService.unlockEmail(target.email)
+    if (unlocked) {
+      const currentUser = req.user as { id: string; email: string }
+      await this.auditService.record({
+        action: 'auth.account.unlocked',
+        actorId: currentUser.id,
+        actorEmail: currentUser.email,
+        targetType: 'user',
+        targetId: target._id.toString(),
+        ip: req.ip,
+        userAgent: req.get('user-agent'),
+      })
+    }
+    return { ok: true }
+  }
+
+  @Audited({ action: 'user.role.updated', target: userTarget })
   @Patch(':id')
   async updateUserRole(
     @Param('id') id: string,
@@ -77,6 +118,7 @@ export class UsersController {
     }
   }
 
+  @Audited({ action: 'user.deleted', target: userTarget })
   @Delete(':id')
   async deleteUser(@Param('id') id: string, @Req() req: Request) {
     const currentUser = req.user as { id?: string }
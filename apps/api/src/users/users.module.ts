@@ -1,7 +1,9 @@
 import { Module } from '@nestjs/common'
 import { MongooseModule } from '@nestjs/mongoose'
 
+import { AuditModule } from '../audit/audit.module'
 import { RolesGuard } from '../auth/roles.guard'
+import { LoginThrottleModule } from '../login-throttle/login-throttle.module'
 import { User, UserSchema } from './schemas/user.schema'
 import { UsersController } from './users.controller'
 import { UsersService } from './users.service'
@@ -9,6 +11,8 @@ import { UsersService } from './users.service'
 @Module({
   imports: [
     MongooseModule.forFeature([{ name: User.name, schema: UserSchema }]),
+    LoginThrottleModule,
+    AuditModule,
   ],
   controllers: [UsersController],
   providers: [UsersService, RolesGuard],
@@ -2,6 +2,7 @@ import { ConflictException, Injectable } from '@nestjs/common'
 import { InjectModel } from '@nestjs/mongoose'
 import { Model } from 'mongoose'
 
+import { type EncryptedString } from '../common/encryption.service'
 import { User, type UserDocument, type UserRole } from './schemas/user.schema'
 
 @Injectable()
@@ -51,10 +52,98 @@ export class UsersService {
       .sort({ createdAt: -1 })
   }
 
+  async updatePassword(id: string, passwordHash: string) {
+    return this.userModel.findByIdAndUpdate(
+      id,
+      { $set: { passwordHash } },
+      { new: true },
+    )
+  }
+
   async updateRole(id: string, role: UserRole) {
     return this.userModel.findByIdAndUpdate(id, { role }, { new: true })
   }
 
+  /** Starts enrollment: a new secret that is not in use until enabled. */
+  async setTotpSecret(id: string, totpSecretEnc: EncryptedString) {
+    return this.userModel.findByIdAndUpdate(
+      id,
+      {
+        $set: {
+          totpSecretEnc,
+          twoFactorEnabled: false,
+          twoFactorStepUp: false,
+          recoveryCodeHashes: [],
+        },
+        $unset: { totpLastStep: 1 },
+      },
+      { new: true },
+    )
+  }
+
+  async enableTwoFactor(id: string, recoveryCodeHashes: string[]) {
+    return this.userModel.findByIdAndUpdate(
+      id,
+      { $set: { twoFactorEnabled: true, recoveryCodeHashes } },
+      { new: true },
+    )
+  }
+
+  async disableTwoFactor(id: string) {
+    return this.userModel.findByIdAndUpdate(
+      id,
+      {
+        $set: {
+          twoFactorEnabled: false,
+          twoFactorStepUp: false,
+          recoveryCodeHashes: [],
+        },
+        $unset: { totpSecretEnc: 1, totpLastStep: 1 },
+      },
+      { new: true },
+    )
+  }
+
+  async setRecoveryCodes(id: string, recoveryCodeHashes: string[]) {
+    return this.userModel.findByIdAndUpdate(
+      id,
+      { $set: { recoveryCodeHashes } },
+      { new: true },
+    )
+  }
+
+  async setTwoFactorStepUp(id: string, twoFactorStepUp: boolean) {
+    return this.userModel.findByIdAndUpdate(
+      id,
+      { $set: { twoFactorStepUp } },
+      { new: true },
+    )
+  }
+
+  /** Records a TOTP step; null when it is not newer than the last one used. */
+  async recordTotpStep(id: string, step: number) {
+    return this.userModel.findOneAndUpdate(
+      {
+        _id: id,
+        $or: [
+          { totpLastStep: { $exists: false } },
+          { totpLastStep: { $lt: step } },
+        ],
+      },
+      { $set: { totpLastStep: step } },
+      { new: true },
+    )
+  }
+
+  /** Removes a recovery code; null when the user does not have it. */
+  async consumeRecoveryCode(id: string, codeHash: string) {
+    return this.userModel.findOneAndUpdate(
+      { _id: id, recoveryCodeHashes: codeHash },
+      { $pull: { recoveryCodeHashes: codeHash } },
+      { new: true },
+    )
+  }
+
   async deleteById(id: string) {
     return this.userModel.findByIdAndDelete(id)
   }
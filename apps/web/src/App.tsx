@@ -2,19 +2,26 @@ import { NavLink, Navigate, Route, Routes, useLocation } from 'react-router-dom'
 
 import ProtectedRoute from './auth/ProtectedRoute'
 import { useAuth } from './auth/AuthProvider'
+import { useAppEvents } from './lib/events'
+import AdminAuditPage from './routes/AdminAuditPage'
 import AdminUsersPage from './routes/AdminUsersPage'
 import DashboardPage from './routes/DashboardPage'
 import DealsPage from './routes/DealsPage'
+import ForgotPasswordPage from './routes/ForgotPasswordPage'
 import LoginPage from './routes/LoginPage'
+import PortfolioPage from './routes/PortfolioPage'
 import RegisterPage from './routes/RegisterPage'
+import ResetPasswordPage from './routes/ResetPasswordPage'
 import SettingsPage from './routes/SettingsPage'
 import SpotPage from './routes/SpotPage'
 import TransactionsPage from './routes/TransactionsPage'
+import TrashPage from './routes/TrashPage'
 
 function Layout() {
   const { user } = useAuth()
   const location = useLocation()
   const isDealsRoute = location.pathname.startsWith('/deals')
+  useAppEvents()
   const linkClass = ({ isActive }: { isActive: boolean }) =>
     `text-sm font-medium ${isActive ? 'text-primary' : 'text-muted-foreground'}`
 
@@ -40,14 +47,25 @@ function Layout() {
           <NavLink to="/deals" className={linkClass}>
             Deals
           </NavLink>
+          <NavLink to="/portfolio" className={linkClass}>
+            Portfolio
+          </NavLink>
           <NavLink to="/spot" className={linkClass}>
             Spot
           </NavLink>
+          <NavLink to="/trash" className={linkClass}>
+            Trash
+          </NavLink>
           {user?.role === 'admin' && (
             <NavLink to="/admin/users" className={linkClass}>
               Users
             </NavLink>
           )}
+          {user?.role === 'admin' && (
+            <NavLink to="/admin/audit" className={linkClass}>
+              Audit
+            </NavLink>
+          )}
         </nav>
       </header>
       <main
@@ -57,6 +75,8 @@ function Layout() {
           <Route path="/" element={<Navigate to="/login" replace />} />
           <Route path="/login" element={<LoginPage />} />
           <Route path="/register" element={<RegisterPage />} />
+          <Route path="/forgot-password" element={<ForgotPasswordPage />} />
+          <Route path="/reset-password" element={<ResetPasswordPage />} />
           <Route
             path="/dashboard"
             element={
@@ -89,6 +109,14 @@ function Layout() {
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/portfolio"
+            element={
+              <ProtectedRoute>
+                <PortfolioPage />
+              </ProtectedRoute>
+            }
+          />
           <Route
             path="/spot"
             element={
@@ -97,6 +125,14 @@ function Layout() {
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/trash"
+            element={
+              <ProtectedRoute>
+                <TrashPage />
+              </ProtectedRoute>
+            }
+          />
           <Route
             path="/admin/users"
             element={
@@ -105,6 +141,14 @@ function Layout() {
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/admin/audit"
+            element={
+              <ProtectedRoute>
+                <AdminAuditPage />
+              </ProtectedRoute>
+            }
+          />
         </Routes>
       </main>
     </div>
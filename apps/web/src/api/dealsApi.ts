@@ -1,11 +1,22 @@
-import { apiFetch } from '@/lib/api'
+import { apiDownload, apiFetch, type ExportFormat } from '@/lib/api'
+import type { ExchangeEnvironment, ExchangeId } from '@/lib/exchanges'
 import {
   type Deal,
+  type DealOrderType,
   type DealWithOrderResponse,
   type DealsListResponse,
+  type DealsStatsGroupBy,
   type DealsStatsResponse,
+  type DealsSyncCursor,
+  type DealsSyncResponse,
+  type DealsSyncStrategy,
+  type DealsTimeseriesInterval,
+  type DealsTimeseriesResponse,
   type DealStatus,
   type ImportTradesResponse,
+  type TradeHistoryCommitResponse,
+  type TradeHistoryPreviewResponse,
+  type UnrealizedPnlResponse,
 } from '@/types/deals'
 
 export type DealEntryPayload = {
@@ -22,15 +33,40 @@ export type DealExitPayload = {
   feeAsset?: string
 }
 
+export type DealTakeProfitPayload = {
+  price: string
+  percent: string
+}
+
 export type CreateDealPayload = {
+  exchange?: ExchangeId
+  credentialProfileId?: string
+  // Only for deals without a credential profile.
+  environment?: ExchangeEnvironment
   symbol: string
   direction: 'LONG' | 'SHORT'
   openedAt: string
   note?: string
   entry: DealEntryPayload
+  stopLoss?: string
+  takeProfits?: DealTakeProfitPayload[]
+  riskAmount?: string
 }
 
-export type UpdateDealPayload = CreateDealPayload
+// null clears a risk field that was set before.
+export type UpdateDealPayload = Omit<
+  CreateDealPayload,
+  | 'exchange'
+  | 'credentialProfileId'
+  | 'environment'
+  | 'stopLoss'
+  | 'takeProfits'
+  | 'riskAmount'
+> & {
+  stopLoss?: string | null
+  takeProfits?: DealTakeProfitPayload[] | null
+  riskAmount?: string | null
+}
 
 export type CloseDealPayload = {
   closedAt: string
@@ -86,9 +122,24 @@ export type ImportTradesPayload = {
   symbol?: string
 }
 
+export type TradeHistoryFilePayload = {
+  fileName: string
+  content: string
+}
+
+export type SyncDealsPayload = {
+  credentialProfileId?: string
+  symbols: string[]
+  strategy: DealsSyncStrategy
+}
+
 export type OpenDealWithOrderPayload = {
+  exchange?: ExchangeId
+  credentialProfileId?: string
   symbol: string
   direction: 'LONG' | 'SHORT'
+  orderType?: DealOrderType
+  price?: string
   marketBuyMode?: 'QUOTE' | 'BASE'
   quoteOrderQty?: string
   quantity?: string
@@ -96,6 +147,8 @@ export type OpenDealWithOrderPayload = {
 }
 
 export type CloseDealWithOrderPayload = {
+  orderType?: DealOrderType
+  price?: string
   marketBuyMode?: 'QUOTE' | 'BASE'
   quoteOrderQty?: string
   quantity?: string
@@ -106,6 +159,8 @@ export type DealsListFilters = {
   from?: string
   to?: string
   status?: 'ALL' | DealStatus
+  exchange?: ExchangeId
+  environment?: ExchangeEnvironment
   symbol?: string
 }
 
@@ -114,7 +169,10 @@ type AuthOptions = {
   onUnauthorized: () => Promise<string | null>
 }
 
-function buildQuery(filters: DealsListFilters) {
+function buildQuery(
+  filters: DealsListFilters,
+  extra: Record<string, string | undefined> = {},
+) {
   const params = new URLSearchParams()
 
   if (filters.from) params.set('from', filters.from)
@@ -122,7 +180,12 @@ function buildQuery(filters: DealsListFilters) {
   if (filters.status && filters.status !== 'ALL') {
     params.set('status', filters.status)
   }
+  if (filters.exchange) params.set('exchange', filters.exchange)
+  if (filters.environment) params.set('environment', filters.environment)
   if (filters.symbol) params.set('symbol', filters.symbol)
+  for (const [key, value] of Object.entries(extra)) {
+    if (value) params.set(key, value)
+  }
 
   const query = params.toString()
   return query ? `?${query}` : ''
@@ -146,6 +209,18 @@ export async function fetchDeals(filters: DealsListFilters, auth: AuthOptions) {
   }
 }
 
+export async function exportDeals(
+  filters: DealsListFilters,
+  format: ExportFormat,
+  auth: AuthOptions,
+) {
+  return apiDownload(`/deals/export${buildQuery(filters, { format })}`, {
+    method: 'GET',
+    accessToken: auth.accessToken,
+    onUnauthorized: auth.onUnauthorized,
+  })
+}
+
 export async function createDeal(
   payload: CreateDealPayload,
   auth: AuthOptions,
@@ -244,17 +319,97 @@ export async function bulkDeleteDeals(ids: string[], auth: AuthOptions) {
   })
 }
 
-export async function fetchDealsStats(
-  filters: DealsListFilters,
+export async function fetchDealsTrash(
+  page: number,
+  limit: number,
   auth: AuthOptions,
 ) {
-  return apiFetch<DealsStatsResponse>(`/deals/stats${buildQuery(filters)}`, {
-    method: 'GET',
+  const result = await apiFetch<DealsListResponse>(
+    `/deals/trash?page=${page}&limit=${limit}`,
+    {
+      method: 'GET',
+      accessToken: auth.accessToken,
+      onUnauthorized: auth.onUnauthorized,
+    },
+  )
+  return {
+    ...result,
+    items: result.items.map((deal) => ({
+      ...deal,
+      id: deal.id || deal._id || '',
+    })),
+  }
+}
+
+export async function restoreDeals(ids: string[], auth: AuthOptions) {
+  return apiFetch<{
+    ok: true
+    restoredCount: number
+    restoredIds: string[]
+  }>(`/deals/restore`, {
+    method: 'POST',
+    body: JSON.stringify({ ids }),
     accessToken: auth.accessToken,
     onUnauthorized: auth.onUnauthorized,
   })
 }
 
+/** Deletes trashed deals for good; without ids it empties the trash. */
+export async function purgeDeals(ids: string[] | undefined, auth: AuthOptions) {
+  return apiFetch<{ ok: true; purgedCount: number }>(`/deals/purge`, {
+    method: 'POST',
+    body: JSON.stringify(ids ? { ids } : { all: true }),
+    accessToken: auth.accessToken,
+    onUnauthorized: auth.onUnauthorized,
+  })
+}
+
+export async function fetchDealsStats(
+  filters: DealsListFilters & { groupBy?: DealsStatsGroupBy },
+  auth: AuthOptions,
+) {
+  const { groupBy, ...rest } = filters
+  return apiFetch<DealsStatsResponse>(
+    `/deals/stats${buildQuery(rest, { groupBy })}`,
+    {
+      method: 'GET',
+      accessToken: auth.accessToken,
+      onUnauthorized: auth.onUnauthorized,
+    },
+  )
+}
+
+export async function fetchDealsTimeseries(
+  filters: Omit<DealsListFilters, 'status'> & {
+    interval?: DealsTimeseriesInterval
+  },
+  auth: AuthOptions,
+) {
+  const { interval, ...rest } = filters
+  return apiFetch<DealsTimeseriesResponse>(
+    `/deals/analytics/timeseries${buildQuery(rest, { interval })}`,
+    {
+      method: 'GET',
+      accessToken: auth.accessToken,
+      onUnauthorized: auth.onUnauthorized,
+    },
+  )
+}
+
+export async function fetchUnrealizedPnl(
+  filters: Pick<DealsListFilters, 'exchange' | 'environment' | 'symbol'>,
+  auth: AuthOptions,
+) {
+  return apiFetch<UnrealizedPnlResponse>(
+    `/deals/unrealized${buildQuery(filters)}`,
+    {
+      method: 'GET',
+      accessToken: auth.accessToken,
+      onUnauthorized: auth.onUnauthorized,
+    },
+  )
+}
+
 export async function importDealTrades(
   dealId: string,
   payload: ImportTradesPayload,
@@ -268,6 +423,58 @@ export async function importDealTrades(
   })
 }
 
+export async function previewTradeHistoryImport(
+  payload: TradeHistoryFilePayload,
+  auth: AuthOptions,
+) {
+  return apiFetch<TradeHistoryPreviewResponse>(
+    `/deals/import-history/preview`,
+    {
+      method: 'POST',
+      body: JSON.stringify(payload),
+      accessToken: auth.accessToken,
+      onUnauthorized: auth.onUnauthorized,
+    },
+  )
+}
+
+export async function commitTradeHistoryImport(
+  payload: TradeHistoryFilePayload,
+  auth: AuthOptions,
+) {
+  return apiFetch<TradeHistoryCommitResponse>(`/deals/import-history/commit`, {
+    method: 'POST',
+    body: JSON.stringify(payload),
+    accessToken: auth.accessToken,
+    onUnauthorized: auth.onUnauthorized,
+  })
+}
+
+export async function syncDeals(payload: SyncDealsPayload, auth: AuthOptions) {
+  return apiFetch<DealsSyncResponse>(`/deals/sync`, {
+    method: 'POST',
+    body: JSON.stringify(payload),
+    accessToken: auth.accessToken,
+    onUnauthorized: auth.onUnauthorized,
+  })
+}
+
+export async function fetchRiskAlerts(auth: AuthOptions) {
+  return apiFetch<Deal[]>(`/deals/risk-alerts`, {
+    method: 'GET',
+    accessToken: auth.accessToken,
+    onUnauthorized: auth.onUnauthorized,
+  })
+}
+
+export async function fetchSyncCursors(auth: AuthOptions) {
+  return apiFetch<DealsSyncCursor[]>(`/deals/sync/cursors`, {
+    method: 'GET',
+    accessToken: auth.accessToken,
+    onUnauthorized: auth.onUnauthorized,
+  })
+}
+
 export async function openDealWithOrder(
   payload: OpenDealWithOrderPayload,
   auth: AuthOptions,
@@ -280,6 +487,17 @@ export async function openDealWithOrder(
   })
 }
 
+export async function cancelDealPendingOrder(
+  dealId: string,
+  auth: AuthOptions,
+) {
+  return apiFetch<{ deal: Deal | null }>(`/deals/${dealId}/cancel-order`, {
+    method: 'POST',
+    accessToken: auth.accessToken,
+    onUnauthorized: auth.onUnauthorized,
+  })
+}
+
 export async function closeDealWithOrder(
   dealId: string,
   payload: CloseDealWithOrderPayload,
@@ -4,10 +4,12 @@ import {
   useContext,
   useEffect,
   useMemo,
+  useRef,
   useState,
 } from 'react'
 
-import { apiFetch } from '@/lib/api'
+import StepUpDialog from '@/components/auth/StepUpDialog'
+import { apiFetch, setStepUpHandler } from '@/lib/api'
 
 type User = {
   id: string
@@ -20,12 +22,25 @@ type AuthResponse = {
   accessToken: string
 }
 
+type LoginResponse =
+  | AuthResponse
+  | { twoFactorRequired: true; challengeToken: string }
+
+// A challenge means the password was right and a TOTP code is still needed.
+type LoginResult = {
+  twoFactorChallenge?: string
+}
+
 type AuthContextValue = {
   user: User | null
   accessToken: string | null
   isInitializing: boolean
   isAuthenticated: boolean
-  login: (email: string, password: string) => Promise<void>
+  login: (email: string, password: string) => Promise<LoginResult>
+  completeTwoFactorLogin: (
+    challengeToken: string,
+    code: string,
+  ) => Promise<void>
   register: (email: string, password: string) => Promise<void>
   logout: () => Promise<void>
   refresh: () => Promise<string | null>
@@ -38,7 +53,17 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [accessToken, setAccessToken] = useState<string | null>(null)
   const [isInitializing, setIsInitializing] = useState(true)
 
-  const refresh = useCallback(async () => {
+  const pendingRefresh = useRef<Promise<string | null> | null>(null)
+  const accessTokenRef = useRef<string | null>(null)
+  const pendingStepUp = useRef<Promise<string | null> | null>(null)
+  const stepUpResolver = useRef<((token: string | null) => void) | null>(null)
+  const [isStepUpOpen, setIsStepUpOpen] = useState(false)
+
+  useEffect(() => {
+    accessTokenRef.current = accessToken
+  }, [accessToken])
+
+  const requestRefresh = useCallback(async () => {
     try {
       const response = await fetch(
         `${import.meta.env.VITE_API_URL}/auth/refresh`,
@@ -72,6 +97,17 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   }, [])
 
+  // Concurrent callers share one request: replaying a rotated refresh token
+  // counts as reuse on the server.
+  const refresh = useCallback(() => {
+    if (!pendingRefresh.current) {
+      pendingRefresh.current = requestRefresh().finally(() => {
+        pendingRefresh.current = null
+      })
+    }
+    return pendingRefresh.current
+  }, [requestRefresh])
+
   useEffect(() => {
     let isActive = true
     const bootstrap = async () => {
@@ -124,14 +160,66 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   }, [refresh])
 
   const login = useCallback(async (email: string, password: string) => {
-    const data = await apiFetch<AuthResponse>('/auth/login', {
+    const data = await apiFetch<LoginResponse>('/auth/login', {
       method: 'POST',
       body: JSON.stringify({ email, password }),
     })
+    if ('twoFactorRequired' in data) {
+      return { twoFactorChallenge: data.challengeToken }
+    }
     setUser(data.user)
     setAccessToken(data.accessToken)
+    return {}
   }, [])
 
+  const completeTwoFactorLogin = useCallback(
+    async (challengeToken: string, code: string) => {
+      const data = await apiFetch<AuthResponse>('/auth/login/2fa', {
+        method: 'POST',
+        body: JSON.stringify({ challengeToken, code }),
+      })
+      setUser(data.user)
+      setAccessToken(data.accessToken)
+    },
+    [],
+  )
+
+  // Requests rejected by the API's step-up check wait here for a TOTP code.
+  useEffect(() => {
+    setStepUpHandler(() => {
+      if (!pendingStepUp.current) {
+        pendingStepUp.current = new Promise<string | null>((resolve) => {
+          stepUpResolver.current = resolve
+          setIsStepUpOpen(true)
+        }).finally(() => {
+          pendingStepUp.current = null
+        })
+      }
+      return pendingStepUp.current
+    })
+    return () => setStepUpHandler(null)
+  }, [])
+
+  const finishStepUp = useCallback((token: string | null) => {
+    stepUpResolver.current?.(token)
+    stepUpResolver.current = null
+    setIsStepUpOpen(false)
+  }, [])
+
+  const verifyStepUp = useCallback(
+    async (code: string) => {
+      const data = await apiFetch<{ accessToken: string }>('/auth/2fa/verify', {
+        method: 'POST',
+        body: JSON.stringify({ code }),
+        accessToken: accessTokenRef.current,
+        onUnauthorized: refresh,
+      })
+      setAccessToken(data.accessToken)
+      finishStepUp(data.accessToken)
+    },
+    [refresh, finishStepUp],
+  )
+
   const register = useCallback(async (email: string, password: string) => {
     const data = await apiFetch<AuthResponse>('/auth/register', {
       method: 'POST',
@@ -158,14 +246,33 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       isInitializing,
       isAuthenticated: Boolean(user && accessToken),
       login,
+      completeTwoFactorLogin,
       register,
       logout,
       refresh,
     }),
-    [user, accessToken, isInitializing, login, register, logout, refresh],
+    [
+      user,
+      accessToken,
+      isInitializing,
+      login,
+      completeTwoFactorLogin,
+      register,
+      logout,
+      refresh,
+    ],
   )
 
-  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>
+  return (
+    <AuthContext.Provider value={value}>
+      {children}
+      <StepUpDialog
+        open={isStepUpOpen}
+        onVerify={verifyStepUp}
+        onCancel={() => finishStepUp(null)}
+      />
+    </AuthContext.Provider>
+  )
 }
 
 export function useAuth() {
@@ -6,3 +6,36 @@ export const authSchema = z.object({
 })
 
 export type AuthFormData = z.infer<typeof authSchema>
+
+const newPasswordSchema = z
+  .string()
+  .min(8, 'Password must be at least 8 characters')
+
+export const forgotPasswordSchema = z.object({
+  email: z.string().email('Enter a valid email')
+})
+
+export const resetPasswordSchema = z
+  .object({
+    password: newPasswordSchema,
+    confirmPassword: z.string()
+  })
+  .refine((values) => values.password === values.confirmPassword, {
+    message: 'Passwords do not match',
+    path: ['confirmPassword']
+  })
+
+export const changePasswordSchema = z
+  .object({
+    currentPassword: z.string().min(1, 'Enter your current password'),
+    newPassword: newPasswordSchema,
+    confirmPassword: z.string()
+  })
+  .refine((values) => values.newPassword === values.confirmPassword, {
+    message: 'Passwords do not match',
+    path: ['confirmPassword']
+  })
+
+export type ForgotPasswordFormData = z.infer<typeof forgotPasswordSchema>
+export type ResetPasswordFormData = z.infer<typeof resetPasswordSchema>
+export type ChangePasswordFormData = z.infer<typeof changePasswordSchema>
@@ -0,0 +1,91 @@
+import { useEffect, useState } from 'react'
+
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+
+type StepUpDialogProps = {
+  open: boolean
+  onVerify: (code: string) => Promise<void>
+  onCancel: () => void
+}
+
+/** Asks for a TOTP or recovery code before an order or credential change. */
+export default function StepUpDialog({
+  open,
+  onVerify,
+  onCancel,
+}: StepUpDialogProps) {
+  const [code, setCode] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [isVerifying, setIsVerifying] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+    setCode('')
+    setError(null)
+    setIsVerifying(false)
+  }, [open])
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!code.trim()) return
+    setIsVerifying(true)
+    setError(null)
+    try {
+      await onVerify(code.trim())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Verification failed.')
+    } finally {
+      setIsVerifying(false)
+    }
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(nextOpen) => {
+        if (!nextOpen) onCancel()
+      }}
+    >
+      <DialogContent className="max-w-sm">
+        <form className="space-y-4" onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Two-factor verification</DialogTitle>
+            <DialogDescription>
+              Enter the code from your authenticator app to continue.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="step-up-code">Code</Label>
+            <Input
+              id="step-up-code"
+              autoComplete="one-time-code"
+              inputMode="numeric"
+              autoFocus
+              value={code}
+              onChange={(event) => setCode(event.target.value)}
+            />
+            {error ? <p className="text-sm text-destructive">{error}</p> : null}
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isVerifying || !code.trim()}>
+              {isVerifying ? 'Verifying...' : 'Verify'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
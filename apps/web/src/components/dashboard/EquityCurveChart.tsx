@@ -0,0 +1,111 @@
+import { useMemo } from 'react'
+
+import { formatMoneyDisplay } from '@/lib/format'
+import type { DealsTimeseriesPoint } from '@/types/deals'
+
+type EquityCurveChartProps = {
+  points: DealsTimeseriesPoint[]
+  height?: number
+}
+
+const WIDTH = 640
+const PADDING_X = 8
+const PADDING_Y = 12
+
+export default function EquityCurveChart({
+  points,
+  height = 220,
+}: EquityCurveChartProps) {
+  const chart = useMemo(() => {
+    const values = points.map((point) => Number(point.cumulativePnl) || 0)
+    // Keep the zero line in view so gains and losses read at a glance.
+    const min = Math.min(0, ...values)
+    const max = Math.max(0, ...values)
+    const range = max - min || 1
+    const innerWidth = WIDTH - PADDING_X * 2
+    const innerHeight = height - PADDING_Y * 2
+    const step = values.length > 1 ? innerWidth / (values.length - 1) : 0
+
+    const toY = (value: number) =>
+      PADDING_Y + innerHeight - ((value - min) / range) * innerHeight
+    const coords = values.map((value, index) => ({
+      x: values.length > 1 ? PADDING_X + index * step : WIDTH / 2,
+      y: toY(value),
+    }))
+
+    const line = coords
+      .map(
+        (coord, index) =>
+          `${index === 0 ? 'M' : 'L'}${coord.x.toFixed(2)},${coord.y.toFixed(2)}`,
+      )
+      .join(' ')
+    const zeroY = toY(0)
+    const area =
+      coords.length > 1
+        ? `${line} L${coords[coords.length - 1].x.toFixed(2)},${zeroY.toFixed(2)} L${coords[0].x.toFixed(2)},${zeroY.toFixed(2)} Z`
+        : ''
+
+    return {
+      line,
+      area,
+      zeroY,
+      coords,
+      min,
+      max,
+      last: values[values.length - 1] ?? 0,
+    }
+  }, [points, height])
+
+  if (points.length === 0) {
+    return null
+  }
+
+  const positive = chart.last >= 0
+  const stroke = positive ? '#059669' : '#dc2626'
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>Max: {formatMoneyDisplay(chart.max)}</span>
+        <span>Min: {formatMoneyDisplay(chart.min)}</span>
+      </div>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${height}`}
+        className="h-auto w-full"
+        role="img"
+        aria-label="Equity curve"
+      >
+        <line
+          x1={PADDING_X}
+          x2={WIDTH - PADDING_X}
+          y1={chart.zeroY}
+          y2={chart.zeroY}
+          stroke="currentColor"
+          strokeOpacity={0.2}
+          strokeDasharray="4 4"
+        />
+        {chart.area ? (
+          <path d={chart.area} fill={stroke} fillOpacity={0.08} />
+        ) : null}
+        <path d={chart.line} fill="none" stroke={stroke} strokeWidth={2} />
+        {chart.coords.map((coord, index) => (
+          <circle
+            key={points[index].start}
+            cx={coord.x}
+            cy={coord.y}
+            r={points.length > 60 ? 0 : 2.5}
+            fill={stroke}
+          >
+            <title>
+              {`${points[index].period}: ${formatMoneyDisplay(points[index].cumulativePnl)} (${formatMoneyDisplay(points[index].pnl)})`}
+            </title>
+          </circle>
+        ))}
+      </svg>
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>{points[0].period}</span>
+        <span>{points[points.length - 1].period}</span>
+      </div>
+    </div>
+  )
+}
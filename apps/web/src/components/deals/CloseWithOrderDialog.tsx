@@ -55,6 +55,8 @@ export default function CloseWithOrderDialog({
     resolver: zodResolver(closeWithOrderSchema),
     defaultValues: {
       closeSide,
+      orderType: 'MARKET',
+      price: '',
       marketBuyMode: closeSide === 'BUY' ? 'BASE' : undefined,
       quantity: deal.entry?.qty ? formatInputValue(deal.entry.qty, 'qty') : '',
       quoteOrderQty: '',
@@ -64,11 +66,15 @@ export default function CloseWithOrderDialog({
   })
 
   const marketBuyMode = form.watch('marketBuyMode')
+  const orderType = form.watch('orderType')
+  const isLimit = orderType === 'LIMIT'
 
   useEffect(() => {
     if (!open) return
     form.reset({
       closeSide,
+      orderType: 'MARKET',
+      price: '',
       marketBuyMode: closeSide === 'BUY' ? 'BASE' : undefined,
       quantity: deal.entry?.qty ? formatInputValue(deal.entry.qty, 'qty') : '',
       quoteOrderQty: '',
@@ -84,9 +90,17 @@ export default function CloseWithOrderDialog({
 
   const mutation = useMutation({
     mutationFn: async (values: CloseWithOrderFormValues) => {
+      const isLimitOrder = values.orderType === 'LIMIT'
       const payload = {
-        marketBuyMode: closeSide === 'BUY' ? values.marketBuyMode : undefined,
-        quoteOrderQty: values.quoteOrderQty?.trim() || undefined,
+        orderType: values.orderType,
+        price: isLimitOrder ? values.price?.trim() || undefined : undefined,
+        marketBuyMode:
+          closeSide === 'BUY' && !isLimitOrder
+            ? values.marketBuyMode
+            : undefined,
+        quoteOrderQty: isLimitOrder
+          ? undefined
+          : values.quoteOrderQty?.trim() || undefined,
         quantity: values.quantity?.trim() || undefined,
         note: values.note?.trim() || undefined,
       }
@@ -95,11 +109,17 @@ export default function CloseWithOrderDialog({
         onUnauthorized: refresh,
       })
     },
-    onSuccess: () => {
+    onSuccess: (result) => {
       queryClient.invalidateQueries({ queryKey: dealsQueryKey })
       queryClient.invalidateQueries({ queryKey: statsQueryKey })
       onOpenChange(false)
-      onSuccess?.('Сделка закрыта через рыночный ордер')
+      onSuccess?.(
+        result.order.type === 'LIMIT'
+          ? result.deal.pendingOrder
+            ? 'Лимитный ордер на закрытие выставлен, исполнения подтянутся автоматически'
+            : 'Сделка закрыта через лимитный ордер'
+          : 'Сделка закрыта через рыночный ордер',
+      )
     },
     onError: (error) => {
       const data = (
@@ -137,7 +157,46 @@ export default function CloseWithOrderDialog({
               <Label>Сторона закрытия</Label>
               <Input value={closeSide} readOnly />
             </div>
-            {closeSide === 'BUY' && (
+            <div className="space-y-2">
+              <Label htmlFor="close-order-type">Тип ордера</Label>
+              <Select
+                value={orderType}
+                onValueChange={(value) =>
+                  form.setValue(
+                    'orderType',
+                    value as CloseWithOrderFormValues['orderType'],
+                    { shouldValidate: true },
+                  )
+                }
+              >
+                <SelectTrigger id="close-order-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="MARKET">MARKET</SelectItem>
+                  <SelectItem value="LIMIT">LIMIT</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {isLimit && (
+              <div className="space-y-2">
+                <Label htmlFor="close-order-price">Лимитная цена</Label>
+                <Input
+                  id="close-order-price"
+                  inputMode="decimal"
+                  {...form.register('price')}
+                />
+                {form.formState.errors.price && (
+                  <p className="text-sm text-destructive">
+                    {form.formState.errors.price.message}
+                  </p>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  Ордер GTC; неисполненный остаток отменяется по таймауту.
+                </p>
+              </div>
+            )}
+            {closeSide === 'BUY' && !isLimit && (
               <div className="space-y-2">
                 <Label htmlFor="close-order-buy-mode">Режим покупки</Label>
                 <Select
@@ -166,7 +225,7 @@ export default function CloseWithOrderDialog({
                 </p>
               </div>
             )}
-            {(closeSide === 'SELL' || marketBuyMode === 'BASE') && (
+            {(closeSide === 'SELL' || isLimit || marketBuyMode === 'BASE') && (
               <div className="space-y-2">
                 <Label htmlFor="close-order-qty">Количество</Label>
                 <Input
@@ -181,7 +240,7 @@ export default function CloseWithOrderDialog({
                 )}
               </div>
             )}
-            {closeSide === 'BUY' && marketBuyMode === 'QUOTE' && (
+            {closeSide === 'BUY' && !isLimit && marketBuyMode === 'QUOTE' && (
               <div className="space-y-2">
                 <Label htmlFor="close-order-quote">Сумма в quote</Label>
                 <Input
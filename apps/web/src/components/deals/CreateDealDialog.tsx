@@ -30,7 +30,15 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select'
+import {
+  EXCHANGE_ENVIRONMENT_LABELS,
+  EXCHANGE_ENVIRONMENTS,
+  EXCHANGE_IDS,
+  EXCHANGE_LABELS,
+} from '@/lib/exchanges'
 import { toastError } from '@/lib/toast'
+import DealProfileSelect from '@/components/deals/DealProfileSelect'
+import DealRiskFields from '@/components/deals/DealRiskFields'
 import { createDealSchema, type CreateDealFormValues } from '@/validation/deals'
 
 type CreateDealDialogProps = {
@@ -40,6 +48,9 @@ type CreateDealDialogProps = {
 }
 
 const defaultValues: CreateDealFormValues = {
+  exchange: 'BINANCE',
+  credentialProfileId: undefined,
+  environment: 'MAINNET',
   symbol: '',
   direction: 'LONG',
   openedAt: '',
@@ -49,6 +60,9 @@ const defaultValues: CreateDealFormValues = {
     fee: undefined,
     feeAsset: '',
   },
+  stopLoss: undefined,
+  takeProfits: [],
+  riskAmount: undefined,
   note: '',
 }
 
@@ -82,6 +96,12 @@ export default function CreateDealDialog({
   const createMutation = useMutation({
     mutationFn: async (values: CreateDealFormValues) => {
       const payload = {
+        exchange: values.exchange,
+        credentialProfileId: values.credentialProfileId,
+        // A credential profile brings its own environment.
+        environment: values.credentialProfileId
+          ? undefined
+          : values.environment,
         symbol: values.symbol.trim().toUpperCase(),
         direction: values.direction,
         openedAt: toLocalDateIso(fromLocalDateIso(values.openedAt)),
@@ -92,6 +112,10 @@ export default function CreateDealDialog({
           fee: values.entry.fee || undefined,
           feeAsset: values.entry.feeAsset?.trim() || undefined,
         },
+        stopLoss: values.stopLoss || undefined,
+        takeProfits:
+          values.takeProfits.length > 0 ? values.takeProfits : undefined,
+        riskAmount: values.riskAmount || undefined,
       }
       return createDeal(payload, {
         accessToken,
@@ -127,6 +151,63 @@ export default function CreateDealDialog({
         >
           <div className="space-y-4">
             <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="deal-exchange">Биржа</Label>
+                <Select
+                  value={form.watch('exchange')}
+                  onValueChange={(value) => {
+                    form.setValue(
+                      'exchange',
+                      value as CreateDealFormValues['exchange'],
+                    )
+                    form.setValue('credentialProfileId', undefined)
+                  }}
+                >
+                  <SelectTrigger id="deal-exchange">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EXCHANGE_IDS.map((exchange) => (
+                      <SelectItem key={exchange} value={exchange}>
+                        {EXCHANGE_LABELS[exchange]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <DealProfileSelect
+                id="deal-profile"
+                exchange={form.watch('exchange')}
+                value={form.watch('credentialProfileId')}
+                onChange={(profileId) =>
+                  form.setValue('credentialProfileId', profileId)
+                }
+              />
+              {!form.watch('credentialProfileId') ? (
+                <div className="space-y-2">
+                  <Label htmlFor="deal-environment">Среда</Label>
+                  <Select
+                    value={form.watch('environment')}
+                    onValueChange={(value) =>
+                      form.setValue(
+                        'environment',
+                        value as CreateDealFormValues['environment'],
+                      )
+                    }
+                  >
+                    <SelectTrigger id="deal-environment">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {EXCHANGE_ENVIRONMENTS.map((environment) => (
+                        <SelectItem key={environment} value={environment}>
+                          {EXCHANGE_ENVIRONMENT_LABELS[environment]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ) : null}
               <div className="space-y-2">
                 <Label htmlFor="deal-symbol">Символ</Label>
                 <Input id="deal-symbol" {...form.register('symbol')} />
@@ -261,6 +342,8 @@ export default function CreateDealDialog({
               </div>
             </div>
 
+            <DealRiskFields form={form} idPrefix="deal" />
+
             <div className="space-y-2">
               <Label htmlFor="deal-note">Заметка</Label>
               <Input id="deal-note" {...form.register('note')} />
@@ -115,7 +115,11 @@ export default function DealHistoryTable({ events }: DealHistoryTableProps) {
           const fee = row.original.fee
           if (!fee) return '-'
           const asset = row.original.feeAsset ?? ''
-          return `${formatMoneyDisplay(fee)} ${asset}`.trim()
+          const label = `${formatMoneyDisplay(fee)} ${asset}`.trim()
+          const feeInQuote = row.original.feeInQuote
+          return feeInQuote && feeInQuote !== fee
+            ? `${label} (≈ ${formatMoneyDisplay(feeInQuote)})`
+            : label
         },
       },
       {
@@ -0,0 +1,72 @@
+import { useQuery } from '@tanstack/react-query'
+
+import { useAuth } from '@/auth/AuthProvider'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  formatExchangeProfile,
+  listExchanges,
+  type ExchangeId,
+} from '@/lib/exchanges'
+
+type DealProfileSelectProps = {
+  id: string
+  exchange: ExchangeId
+  value?: string
+  onChange: (profileId: string | undefined) => void
+}
+
+// Radix Select reserves the empty string, so the default profile gets a token.
+const DEFAULT_PROFILE_VALUE = 'DEFAULT'
+
+/** Credential profile picker; hidden while the exchange has a single profile. */
+export default function DealProfileSelect({
+  id,
+  exchange,
+  value,
+  onChange,
+}: DealProfileSelectProps) {
+  const { accessToken, refresh } = useAuth()
+
+  const exchangesQuery = useQuery({
+    queryKey: ['exchanges'],
+    queryFn: () => listExchanges({ accessToken, onUnauthorized: refresh }),
+  })
+  const profiles =
+    exchangesQuery.data?.find((status) => status.exchange === exchange)
+      ?.profiles ?? []
+
+  if (profiles.length < 2) {
+    return null
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>API-ключи</Label>
+      <Select
+        value={value ?? DEFAULT_PROFILE_VALUE}
+        onValueChange={(next) =>
+          onChange(next === DEFAULT_PROFILE_VALUE ? undefined : next)
+        }
+      >
+        <SelectTrigger id={id}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={DEFAULT_PROFILE_VALUE}>По умолчанию</SelectItem>
+          {profiles.map((profile) => (
+            <SelectItem key={profile.id} value={profile.id}>
+              {formatExchangeProfile(profile)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+}
@@ -0,0 +1,122 @@
+import { useFieldArray, type UseFormReturn } from 'react-hook-form'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { type CreateDealFormValues } from '@/validation/deals'
+
+type DealRiskFieldsProps = {
+  // Create and edit forms share the same risk fields.
+  form: UseFormReturn<CreateDealFormValues>
+  idPrefix: string
+}
+
+const MAX_TAKE_PROFITS = 10
+
+export default function DealRiskFields({
+  form,
+  idPrefix,
+}: DealRiskFieldsProps) {
+  const takeProfits = useFieldArray({
+    control: form.control,
+    name: 'takeProfits',
+  })
+  const errors = form.formState.errors
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs font-semibold text-muted-foreground">Риск</p>
+      <div className="grid gap-2 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-stop-loss`}>Стоп-лосс</Label>
+          <Input
+            id={`${idPrefix}-stop-loss`}
+            inputMode="decimal"
+            {...form.register('stopLoss')}
+          />
+          {errors.stopLoss && (
+            <p className="text-sm text-destructive">
+              {errors.stopLoss.message}
+            </p>
+          )}
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-risk-amount`}>Риск на сделку</Label>
+          <Input
+            id={`${idPrefix}-risk-amount`}
+            inputMode="decimal"
+            {...form.register('riskAmount')}
+          />
+          {errors.riskAmount && (
+            <p className="text-sm text-destructive">
+              {errors.riskAmount.message}
+            </p>
+          )}
+          <p className="text-xs text-muted-foreground">
+            В котируемой валюте. Если пусто, риск считается по стопу.
+          </p>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label>Тейк-профиты</Label>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            disabled={takeProfits.fields.length >= MAX_TAKE_PROFITS}
+            onClick={() => takeProfits.append({ price: '', percent: '' })}
+          >
+            Добавить
+          </Button>
+        </div>
+        {takeProfits.fields.map((field, index) => (
+          <div
+            key={field.id}
+            className="grid gap-2 md:grid-cols-[1fr_120px_auto]"
+          >
+            <div className="space-y-1">
+              <Input
+                aria-label={`Цена тейка ${index + 1}`}
+                placeholder="Цена"
+                inputMode="decimal"
+                {...form.register(`takeProfits.${index}.price`)}
+              />
+              {errors.takeProfits?.[index]?.price && (
+                <p className="text-sm text-destructive">
+                  {errors.takeProfits[index]?.price?.message}
+                </p>
+              )}
+            </div>
+            <div className="space-y-1">
+              <Input
+                aria-label={`Доля позиции тейка ${index + 1}`}
+                placeholder="% позиции"
+                inputMode="decimal"
+                {...form.register(`takeProfits.${index}.percent`)}
+              />
+              {errors.takeProfits?.[index]?.percent && (
+                <p className="text-sm text-destructive">
+                  {errors.takeProfits[index]?.percent?.message}
+                </p>
+              )}
+            </div>
+            <Button
+              type="button"
+              variant="ghost"
+              onClick={() => takeProfits.remove(index)}
+            >
+              Удалить
+            </Button>
+          </div>
+        ))}
+        {errors.takeProfits?.root && (
+          <p className="text-sm text-destructive">
+            {errors.takeProfits.root.message}
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -3,7 +3,7 @@ import { MoreHorizontal } from 'lucide-react'
 import { useMutation, useQueryClient } from '@tanstack/react-query'
 
 import { useAuth } from '@/auth/AuthProvider'
-import { deleteDeal } from '@/api/dealsApi'
+import { cancelDealPendingOrder, deleteDeal } from '@/api/dealsApi'
 import { Button } from '@/components/ui/button'
 import {
   DropdownMenu,
@@ -24,6 +24,7 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog'
 import { toastError, toastSuccess } from '@/lib/toast'
+import { useUndoDealsDelete } from '@/lib/trash'
 import { type Deal } from '@/types/deals'
 
 type DealsRowActionsProps = {
@@ -53,10 +54,38 @@ export default function DealsRowActions({
 }: DealsRowActionsProps) {
   const { accessToken, refresh } = useAuth()
   const queryClient = useQueryClient()
+  const showUndo = useUndoDealsDelete()
   const [openDelete, setOpenDelete] = useState(false)
-  const isClosed = deal.status === 'CLOSED'
+  const hasPendingOrder = Boolean(deal.pendingOrder)
+  // Manual changes would race the fills of a resting order.
+  const isLocked = deal.status === 'CLOSED' || hasPendingOrder
   const dealId = deal.id
 
+  const cancelOrderMutation = useMutation({
+    mutationFn: () =>
+      cancelDealPendingOrder(dealId, {
+        accessToken,
+        onUnauthorized: refresh,
+      }),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['deals'] })
+      queryClient.invalidateQueries({ queryKey: ['dealsStats'] })
+      if (!result.deal) {
+        onDeleted?.(dealId)
+        toastSuccess('Ордер отменён без исполнений, сделка удалена')
+        return
+      }
+      toastSuccess('Ордер отменён')
+    },
+    onError: (error) => {
+      if (error instanceof Error) {
+        toastError(`Ошибка отмены ордера: ${error.message}`)
+        return
+      }
+      toastError('Ошибка отмены ордера: неизвестная ошибка')
+    },
+  })
+
   const deleteMutation = useMutation({
     mutationFn: () =>
       deleteDeal(dealId, {
@@ -68,7 +97,7 @@ export default function DealsRowActions({
       queryClient.invalidateQueries({ queryKey: ['dealsStats'] })
       setOpenDelete(false)
       onDeleted?.(dealId)
-      toastSuccess('Сделка удалена')
+      showUndo('Сделка перемещена в корзину', [dealId])
     },
     onError: (error) => {
       if (error instanceof Error) {
@@ -107,37 +136,46 @@ export default function DealsRowActions({
             </DropdownMenuItem>
             <DropdownMenuItem
               onClick={() => onAddEntry(deal)}
-              disabled={isClosed}
+              disabled={isLocked}
             >
               Добавить вход (DCA)
             </DropdownMenuItem>
             <DropdownMenuItem
               onClick={() => onProfitToPosition(deal)}
-              disabled={isClosed}
+              disabled={isLocked}
             >
               Реинвестировать прибыль
             </DropdownMenuItem>
             <DropdownMenuItem
               onClick={() => onPartialClose(deal)}
-              disabled={isClosed}
+              disabled={isLocked}
             >
               Частичное закрытие
             </DropdownMenuItem>
           </DropdownMenuGroup>
           <DropdownMenuSeparator />
           <DropdownMenuGroup>
-            <DropdownMenuItem onClick={() => onClose(deal)} disabled={isClosed}>
+            <DropdownMenuItem onClick={() => onClose(deal)} disabled={isLocked}>
               Закрыть
             </DropdownMenuItem>
             <DropdownMenuItem
               onClick={() => onCloseWithOrder(deal)}
-              disabled={isClosed}
+              disabled={isLocked}
             >
               Закрыть через ордер
             </DropdownMenuItem>
+            {hasPendingOrder && (
+              <DropdownMenuItem
+                onClick={() => cancelOrderMutation.mutate()}
+                disabled={cancelOrderMutation.isPending}
+              >
+                Отменить лимитный ордер
+              </DropdownMenuItem>
+            )}
           </DropdownMenuGroup>
           <DropdownMenuSeparator />
           <DropdownMenuItem
+            disabled={hasPendingOrder}
             onSelect={(event) => {
               event.preventDefault()
               setOpenDelete(true)
@@ -153,7 +191,7 @@ export default function DealsRowActions({
           <AlertDialogHeader>
             <AlertDialogTitle>Удалить сделку?</AlertDialogTitle>
             <AlertDialogDescription>
-              Это действие нельзя отменить.
+              Сделка попадёт в корзину, откуда её можно восстановить.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
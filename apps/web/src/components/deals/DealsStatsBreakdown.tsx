@@ -0,0 +1,245 @@
+import { useMemo, useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import {
+  type Cell,
+  type ColumnDef,
+  flexRender,
+  type Header,
+  type HeaderGroup,
+  type Row,
+  type SortingState,
+} from '@tanstack/react-table'
+import { ArrowDown, ArrowUp, ArrowUpDown } from 'lucide-react'
+
+import { useAuth } from '@/auth/AuthProvider'
+import { fetchDealsStats, type DealsListFilters } from '@/api/dealsApi'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { formatMoneyDisplay, formatNum } from '@/lib/format'
+import { useAppTable } from '@/lib/table'
+import type { DealsStatsGroup, DealsStatsGroupBy } from '@/types/deals'
+
+type DealsStatsBreakdownProps = {
+  queryFilters: DealsListFilters
+}
+
+const groupByLabels: Record<DealsStatsGroupBy, string> = {
+  symbol: 'Символ',
+  direction: 'Направление',
+  month: 'Месяц',
+}
+
+const formatHolding = (value: number | null) => {
+  if (value === null) return '-'
+  const totalMinutes = Math.round(value / 60000)
+  const days = Math.floor(totalMinutes / (60 * 24))
+  const hours = Math.floor((totalMinutes % (60 * 24)) / 60)
+  const minutes = totalMinutes % 60
+  if (days > 0) return `${days}д ${hours}ч`
+  if (hours > 0) return `${hours}ч ${minutes}м`
+  return `${minutes}м`
+}
+
+const getSignedClass = (value?: string) => {
+  const numeric = Number(value)
+  if (Number.isNaN(numeric) || numeric === 0) return 'text-muted-foreground'
+  return numeric > 0 ? 'text-emerald-600' : 'text-red-600'
+}
+
+const formatGroupKey = (groupBy: DealsStatsGroupBy, key: string) => {
+  if (groupBy === 'direction') {
+    return key === 'LONG' ? 'Лонг' : key === 'SHORT' ? 'Шорт' : key
+  }
+  return key
+}
+
+export default function DealsStatsBreakdown({
+  queryFilters,
+}: DealsStatsBreakdownProps) {
+  const { accessToken, refresh } = useAuth()
+  const [groupBy, setGroupBy] = useState<DealsStatsGroupBy>('symbol')
+  const [sorting, setSorting] = useState<SortingState>([
+    { id: 'totalPnL', desc: true },
+  ])
+
+  const groupsQuery = useQuery({
+    queryKey: ['dealsStats', queryFilters, groupBy],
+    queryFn: () =>
+      fetchDealsStats(
+        { ...queryFilters, groupBy },
+        {
+          accessToken,
+          onUnauthorized: refresh,
+        },
+      ),
+  })
+
+  const data = useMemo(() => groupsQuery.data?.groups ?? [], [groupsQuery.data])
+
+  const columns = useMemo<ColumnDef<DealsStatsGroup>[]>(
+    () => [
+      {
+        accessorKey: 'key',
+        header: groupByLabels[groupBy],
+        cell: ({ row }: { row: Row<DealsStatsGroup> }) =>
+          formatGroupKey(groupBy, row.original.key),
+      },
+      {
+        accessorKey: 'tradesCount',
+        header: 'Сделок',
+      },
+      {
+        accessorKey: 'winRate',
+        header: 'Win rate',
+        cell: ({ row }: { row: Row<DealsStatsGroup> }) =>
+          `${formatNum(row.original.winRate, { maxFrac: 2 })}%`,
+      },
+      {
+        id: 'totalPnL',
+        accessorFn: (row) => Number(row.totalPnL),
+        header: 'PnL',
+        cell: ({ row }: { row: Row<DealsStatsGroup> }) => (
+          <span className={getSignedClass(row.original.totalPnL)}>
+            {formatMoneyDisplay(row.original.totalPnL)}
+          </span>
+        ),
+      },
+      {
+        id: 'avgPnL',
+        accessorFn: (row) => Number(row.avgPnL),
+        header: 'Средний PnL',
+        cell: ({ row }: { row: Row<DealsStatsGroup> }) => (
+          <span className={getSignedClass(row.original.avgPnL)}>
+            {formatMoneyDisplay(row.original.avgPnL)}
+          </span>
+        ),
+      },
+      {
+        id: 'feesTotal',
+        accessorFn: (row) => Number(row.feesTotal),
+        header: 'Комиссии',
+        cell: ({ row }: { row: Row<DealsStatsGroup> }) =>
+          row.original.feeConversionFailedCount > 0
+            ? `${formatMoneyDisplay(row.original.feesTotal)} (без пересчёта: ${row.original.feeConversionFailedCount})`
+            : formatMoneyDisplay(row.original.feesTotal),
+      },
+      {
+        id: 'avgHoldingMs',
+        accessorFn: (row) => row.avgHoldingMs ?? 0,
+        header: 'Среднее удержание',
+        cell: ({ row }: { row: Row<DealsStatsGroup> }) =>
+          formatHolding(row.original.avgHoldingMs),
+      },
+    ],
+    [groupBy],
+  )
+
+  const table = useAppTable({
+    data,
+    columns,
+    state: { sorting },
+    onSortingChange: setSorting,
+  })
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-xs font-medium text-muted-foreground">
+          Разбивка по группам (закрытые сделки)
+        </p>
+        <Select
+          value={groupBy}
+          onValueChange={(value) => setGroupBy(value as DealsStatsGroupBy)}
+        >
+          <SelectTrigger className="h-8 w-[160px] text-xs">
+            <SelectValue placeholder="Группировка" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="symbol">По символу</SelectItem>
+            <SelectItem value="direction">По направлению</SelectItem>
+            <SelectItem value="month">По месяцу</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      {groupsQuery.isLoading ? (
+        <p className="text-sm text-muted-foreground">Загрузка...</p>
+      ) : data.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          Нет закрытых сделок для разбивки.
+        </p>
+      ) : (
+        <div className="overflow-x-auto rounded-md border border-border">
+          <Table>
+            <TableHeader>
+              {table
+                .getHeaderGroups()
+                .map((headerGroup: HeaderGroup<DealsStatsGroup>) => (
+                  <TableRow key={headerGroup.id}>
+                    {headerGroup.headers.map(
+                      (header: Header<DealsStatsGroup, unknown>) => {
+                        const sortState = header.column.getIsSorted()
+                        return (
+                          <TableHead
+                            key={header.id}
+                            className="px-3 py-2 text-xs font-medium text-muted-foreground"
+                          >
+                            <div
+                              className="flex cursor-pointer select-none items-center gap-1"
+                              onClick={header.column.getToggleSortingHandler()}
+                            >
+                              <span>
+                                {flexRender(
+                                  header.column.columnDef.header,
+                                  header.getContext(),
+                                )}
+                              </span>
+                              {sortState === 'asc' ? (
+                                <ArrowUp className="h-3 w-3 text-foreground" />
+                              ) : sortState === 'desc' ? (
+                                <ArrowDown className="h-3 w-3 text-foreground" />
+                              ) : (
+                                <ArrowUpDown className="h-3 w-3 text-muted-foreground/60" />
+                              )}
+                            </div>
+                          </TableHead>
+                        )
+                      },
+                    )}
+                  </TableRow>
+                ))}
+            </TableHeader>
+            <TableBody>
+              {table.getRowModel().rows.map((row: Row<DealsStatsGroup>) => (
+                <TableRow key={row.id}>
+                  {row
+                    .getVisibleCells()
+                    .map((cell: Cell<DealsStatsGroup, unknown>) => (
+                      <TableCell key={cell.id} className="px-3 py-2 text-sm">
+                        {flexRender(
+                          cell.column.columnDef.cell,
+                          cell.getContext(),
+                        )}
+                      </TableCell>
+                    ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -3,6 +3,7 @@ import { useMutation, useQueryClient } from '@tanstack/react-query'
 import { useAuth } from '@/auth/AuthProvider'
 import { deleteDeal } from '@/api/dealsApi'
 import { toastError } from '@/lib/toast'
+import { useUndoDealsDelete } from '@/lib/trash'
 import {
   AlertDialog,
   AlertDialogAction,
@@ -17,7 +18,6 @@ type DeleteDealDialogProps = {
   dealId: string | null
   open: boolean
   onOpenChange: (open: boolean) => void
-  onSuccess?: (message: string) => void
   onDeleted?: (id: string) => void
 }
 
@@ -25,11 +25,11 @@ export default function DeleteDealDialog({
   dealId,
   open,
   onOpenChange,
-  onSuccess,
   onDeleted,
 }: DeleteDealDialogProps) {
   const { accessToken, refresh } = useAuth()
   const queryClient = useQueryClient()
+  const showUndo = useUndoDealsDelete()
 
   const deleteMutation = useMutation({
     mutationFn: async () => {
@@ -47,7 +47,7 @@ export default function DeleteDealDialog({
       queryClient.invalidateQueries({ queryKey: ['dealsStats'] })
       onOpenChange(false)
       onDeleted?.(result.id)
-      onSuccess?.('Сделка удалена')
+      showUndo('Сделка перемещена в корзину', [result.id])
     },
     onError: (error) => {
       if (!(error instanceof Error)) {
@@ -68,7 +68,7 @@ export default function DeleteDealDialog({
         <AlertDialogHeader>
           <AlertDialogTitle>Удалить сделку?</AlertDialogTitle>
           <AlertDialogDescription>
-            Это действие нельзя отменить.
+            Сделка попадёт в корзину, откуда её можно восстановить.
           </AlertDialogDescription>
         </AlertDialogHeader>
         <AlertDialogFooter>
@@ -32,6 +32,7 @@ import { cn } from '@/lib/utils'
 import { fromLocalDateIso, toLocalDateIso } from '@/lib/dateLocal'
 import { formatInputValue } from '@/lib/format'
 import { toastError } from '@/lib/toast'
+import DealRiskFields from '@/components/deals/DealRiskFields'
 import { type Deal } from '@/types/deals'
 import { editDealSchema, type EditDealFormValues } from '@/validation/deals'
 
@@ -59,6 +60,8 @@ export default function EditDealDialog({
   const form = useForm<EditDealFormValues>({
     resolver: zodResolver(editDealSchema),
     defaultValues: {
+      exchange: 'BINANCE',
+      environment: 'MAINNET',
       symbol: '',
       direction: 'LONG',
       openedAt: '',
@@ -68,6 +71,9 @@ export default function EditDealDialog({
         fee: undefined,
         feeAsset: '',
       },
+      stopLoss: undefined,
+      takeProfits: [],
+      riskAmount: undefined,
       note: '',
     },
   })
@@ -75,6 +81,8 @@ export default function EditDealDialog({
   useEffect(() => {
     if (!deal || !open) return
     form.reset({
+      exchange: deal.exchange,
+      environment: deal.environment,
       symbol: deal.symbol,
       direction: deal.direction,
       openedAt: deal.openedAt || toLocalDateIso(new Date()),
@@ -84,6 +92,14 @@ export default function EditDealDialog({
         fee: deal.entry.fee ? formatInputValue(deal.entry.fee, 'money') : '',
         feeAsset: deal.entry.feeAsset ?? '',
       },
+      stopLoss: deal.stopLoss ? formatInputValue(deal.stopLoss, 'price') : '',
+      takeProfits: (deal.takeProfits ?? []).map((target) => ({
+        price: formatInputValue(target.price, 'price'),
+        percent: target.percent,
+      })),
+      riskAmount: deal.riskAmount
+        ? formatInputValue(deal.riskAmount, 'money')
+        : '',
       note: deal.note ?? '',
     })
   }, [deal, open, form])
@@ -104,6 +120,10 @@ export default function EditDealDialog({
           fee: values.entry.fee || undefined,
           feeAsset: values.entry.feeAsset?.trim() || undefined,
         },
+        // Empty risk inputs clear the stored values.
+        stopLoss: values.stopLoss || null,
+        takeProfits: values.takeProfits,
+        riskAmount: values.riskAmount || null,
       }
       return updateDeal(deal.id, payload, {
         accessToken,
@@ -113,6 +133,7 @@ export default function EditDealDialog({
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['deals'] })
       queryClient.invalidateQueries({ queryKey: ['dealsStats'] })
+      queryClient.invalidateQueries({ queryKey: ['dealsRiskAlerts'] })
       onOpenChange(false)
       onSuccess?.('Сделка обновлена')
     },
@@ -273,6 +294,8 @@ export default function EditDealDialog({
               </div>
             </div>
 
+            <DealRiskFields form={form} idPrefix="edit-deal" />
+
             <div className="space-y-2">
               <Label htmlFor="edit-deal-note">Заметка</Label>
               <Input id="edit-deal-note" {...form.register('note')} />
@@ -0,0 +1,264 @@
+import { useEffect, useState } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
+import { useAuth } from '@/auth/AuthProvider'
+import {
+  commitTradeHistoryImport,
+  previewTradeHistoryImport,
+  type TradeHistoryFilePayload,
+} from '@/api/dealsApi'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { type TradeHistoryPreviewResponse } from '@/types/deals'
+import {
+  formatMoneyDisplay,
+  formatPriceDisplay,
+  formatQtyDisplay,
+} from '@/lib/format'
+import { toastError } from '@/lib/toast'
+
+type ImportHistoryDialogProps = {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSuccess?: (message: string) => void
+}
+
+const MAX_FILE_SIZE = 10 * 1024 * 1024
+
+async function readFileAsBase64(file: File) {
+  const bytes = new Uint8Array(await file.arrayBuffer())
+  let binary = ''
+  const chunkSize = 0x8000
+  for (let index = 0; index < bytes.length; index += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(index, index + chunkSize))
+  }
+  return btoa(binary)
+}
+
+export default function ImportHistoryDialog({
+  open,
+  onOpenChange,
+  onSuccess,
+}: ImportHistoryDialogProps) {
+  const { accessToken, refresh } = useAuth()
+  const queryClient = useQueryClient()
+  const [file, setFile] = useState<File | null>(null)
+  const [payload, setPayload] = useState<TradeHistoryFilePayload | null>(null)
+  const [preview, setPreview] = useState<TradeHistoryPreviewResponse | null>(
+    null,
+  )
+  const [isLoading, setIsLoading] = useState(false)
+  const [isApplying, setIsApplying] = useState(false)
+  useEffect(() => {
+    if (!open) return
+    setFile(null)
+    setPayload(null)
+    setPreview(null)
+    setIsLoading(false)
+    setIsApplying(false)
+  }, [open])
+  const handleFileChange = (next: File | null) => {
+    setFile(next)
+    setPayload(null)
+    setPreview(null)
+  }
+  const handleLoadPreview = async () => {
+    if (!file) return
+    if (file.size > MAX_FILE_SIZE) {
+      toastError('Файл больше 10 МБ')
+      return
+    }
+    setIsLoading(true)
+    try {
+      const nextPayload = {
+        fileName: file.name,
+        content: await readFileAsBase64(file),
+      }
+      const result = await previewTradeHistoryImport(nextPayload, {
+        accessToken,
+        onUnauthorized: refresh,
+      })
+      setPayload(nextPayload)
+      setPreview(result)
+    } catch (err) {
+      toastError(
+        `Ошибка превью: ${
+          err instanceof Error ? err.message : 'Не удалось разобрать файл'
+        }`,
+      )
+    } finally {
+      setIsLoading(false)
+    }
+  }
+  const handleApply = async () => {
+    if (!payload) return
+    setIsApplying(true)
+    try {
+      const result = await commitTradeHistoryImport(payload, {
+        accessToken,
+        onUnauthorized: refresh,
+      })
+      queryClient.invalidateQueries({ queryKey: ['deals'] })
+      queryClient.invalidateQueries({ queryKey: ['dealsStats'] })
+      onOpenChange(false)
+      onSuccess?.(
+        `Создано сделок: ${result.createdCount}, дубликатов пропущено: ${result.duplicateCount}`,
+      )
+    } catch (err) {
+      toastError(
+        `Ошибка импорта: ${
+          err instanceof Error ? err.message : 'Не удалось импортировать'
+        }`,
+      )
+    } finally {
+      setIsApplying(false)
+    }
+  }
+  const deals = preview?.deals ?? []
+  const skippedRows = preview?.skippedRows ?? []
+  const disableLoad = isLoading || isApplying || !file
+  const disableApply = isApplying || isLoading || !payload || deals.length === 0
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Импорт истории сделок Binance</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-6">
+          <div className="grid gap-4 md:grid-cols-[1fr_auto] md:items-end">
+            <div className="space-y-2">
+              <Label htmlFor="import-history-file">Файл CSV / XLSX</Label>
+              <Input
+                id="import-history-file"
+                type="file"
+                accept=".csv,.xlsx"
+                onChange={(event) =>
+                  handleFileChange(event.target.files?.[0] ?? null)
+                }
+              />
+              <p className="text-xs text-muted-foreground">
+                Binance → Orders → Spot Order → Trade History → Export.
+              </p>
+              <p className="text-xs text-muted-foreground">
+                Исполнения группируются в сделки по символу, закрытия
+                сопоставляются по FIFO. Уже импортированные trade id
+                пропускаются.
+              </p>
+            </div>
+            <Button onClick={handleLoadPreview} disabled={disableLoad}>
+              {isLoading ? 'Загрузка...' : 'Показать превью'}
+            </Button>
+          </div>
+          {preview ? (
+            <div className="grid gap-3 md:grid-cols-4">
+              <div>
+                <p className="text-xs text-muted-foreground">Исполнений</p>
+                <p className="text-sm font-medium">{preview.tradesCount}</p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Дубликатов</p>
+                <p className="text-sm font-medium">{preview.duplicateCount}</p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Пропущено строк</p>
+                <p className="text-sm font-medium">{skippedRows.length}</p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Новых сделок</p>
+                <p className="text-sm font-medium">{deals.length}</p>
+              </div>
+            </div>
+          ) : null}
+          {skippedRows.length > 0 ? (
+            <div className="space-y-1 text-xs text-muted-foreground">
+              {skippedRows.slice(0, 5).map((row) => (
+                <p key={row.row}>
+                  Строка {row.row}: {row.reason}
+                </p>
+              ))}
+            </div>
+          ) : null}
+          <div className="space-y-2">
+            <p className="text-sm font-semibold">Превью</p>
+            {deals.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Нет сделок</p>
+            ) : (
+              <div className="max-h-80 overflow-auto rounded-md border border-border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Символ</TableHead>
+                      <TableHead>Направление</TableHead>
+                      <TableHead>Статус</TableHead>
+                      <TableHead>Открыта</TableHead>
+                      <TableHead>Вход</TableHead>
+                      <TableHead>Выход</TableHead>
+                      <TableHead>Остаток</TableHead>
+                      <TableHead>PnL (без комиссий)</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {deals.map((deal, index) => (
+                      <TableRow
+                        key={`${deal.symbol}:${deal.openedAt}:${index}`}
+                      >
+                        <TableCell>{deal.symbol}</TableCell>
+                        <TableCell>
+                          {deal.direction === 'LONG' ? 'Лонг' : 'Шорт'}
+                        </TableCell>
+                        <TableCell>
+                          {deal.status === 'CLOSED' ? 'Закрыта' : 'Открыта'}
+                        </TableCell>
+                        <TableCell>
+                          {new Date(deal.openedAt).toLocaleString()}
+                        </TableCell>
+                        <TableCell>
+                          {formatQtyDisplay(deal.entryQty)} @{' '}
+                          {formatPriceDisplay(deal.entryAvgPrice)}
+                        </TableCell>
+                        <TableCell>
+                          {deal.exitAvgPrice
+                            ? `${formatQtyDisplay(deal.exitQty)} @ ${formatPriceDisplay(deal.exitAvgPrice)}`
+                            : '-'}
+                        </TableCell>
+                        <TableCell>
+                          {formatQtyDisplay(deal.remainingQty)}
+                        </TableCell>
+                        <TableCell>
+                          {formatMoneyDisplay(deal.grossPnl)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Закрыть
+            </Button>
+            <Button onClick={handleApply} disabled={disableApply}>
+              {isApplying ? 'Импортируем...' : 'Импортировать'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -22,6 +22,8 @@ import {
   SelectValue,
 } from '@/components/ui/select'
 import { type DealsListFilters } from '@/api/dealsApi'
+import DealProfileSelect from '@/components/deals/DealProfileSelect'
+import { EXCHANGE_IDS, EXCHANGE_LABELS } from '@/lib/exchanges'
 import { toastError, toastWarning } from '@/lib/toast'
 import {
   openWithOrderSchema,
@@ -36,8 +38,12 @@ type OpenWithOrderDialogProps = {
 }
 
 const defaultValues: OpenWithOrderFormValues = {
+  exchange: 'BINANCE',
+  credentialProfileId: undefined,
   symbol: '',
   direction: 'LONG',
+  orderType: 'MARKET',
+  price: '',
   marketBuyMode: 'QUOTE',
   quoteOrderQty: '',
   quantity: '',
@@ -61,6 +67,8 @@ export default function OpenWithOrderDialog({
 
   const direction = form.watch('direction')
   const marketBuyMode = form.watch('marketBuyMode')
+  const orderType = form.watch('orderType')
+  const isLimit = orderType === 'LIMIT'
   const isBuy = direction === 'LONG'
   const symbolField = form.register('symbol')
 
@@ -77,11 +85,19 @@ export default function OpenWithOrderDialog({
 
   const mutation = useMutation({
     mutationFn: async (values: OpenWithOrderFormValues) => {
+      const isLimitOrder = values.orderType === 'LIMIT'
       const payload = {
+        exchange: values.exchange,
+        credentialProfileId: values.credentialProfileId,
         symbol: values.symbol.trim().toUpperCase(),
         direction: values.direction,
-        marketBuyMode: isBuy ? values.marketBuyMode : undefined,
-        quoteOrderQty: values.quoteOrderQty?.trim() || undefined,
+        orderType: values.orderType,
+        price: isLimitOrder ? values.price?.trim() || undefined : undefined,
+        marketBuyMode:
+          isBuy && !isLimitOrder ? values.marketBuyMode : undefined,
+        quoteOrderQty: isLimitOrder
+          ? undefined
+          : values.quoteOrderQty?.trim() || undefined,
         quantity: values.quantity?.trim() || undefined,
         note: values.note?.trim() || undefined,
       }
@@ -90,11 +106,17 @@ export default function OpenWithOrderDialog({
         onUnauthorized: refresh,
       })
     },
-    onSuccess: () => {
+    onSuccess: (result) => {
       queryClient.invalidateQueries({ queryKey: dealsQueryKey })
       queryClient.invalidateQueries({ queryKey: statsQueryKey })
       onOpenChange(false)
-      onSuccess?.('Сделка открыта через рыночный ордер')
+      onSuccess?.(
+        result.order.type === 'LIMIT'
+          ? result.deal.status === 'PENDING'
+            ? 'Лимитный ордер выставлен, сделка ожидает исполнения'
+            : 'Сделка открыта через лимитный ордер'
+          : 'Сделка открыта через рыночный ордер',
+      )
     },
     onError: (error) => {
       const data = (
@@ -130,6 +152,39 @@ export default function OpenWithOrderDialog({
           onSubmit={form.handleSubmit((values) => mutation.mutate(values))}
         >
           <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="open-order-exchange">Биржа</Label>
+              <Select
+                value={form.watch('exchange')}
+                onValueChange={(value) => {
+                  form.setValue(
+                    'exchange',
+                    value as OpenWithOrderFormValues['exchange'],
+                    { shouldValidate: true },
+                  )
+                  form.setValue('credentialProfileId', undefined)
+                }}
+              >
+                <SelectTrigger id="open-order-exchange">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXCHANGE_IDS.map((exchange) => (
+                    <SelectItem key={exchange} value={exchange}>
+                      {EXCHANGE_LABELS[exchange]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <DealProfileSelect
+              id="open-order-profile"
+              exchange={form.watch('exchange')}
+              value={form.watch('credentialProfileId')}
+              onChange={(profileId) =>
+                form.setValue('credentialProfileId', profileId)
+              }
+            />
             <div className="space-y-2">
               <Label htmlFor="open-order-symbol">Символ</Label>
               <Input
@@ -172,7 +227,47 @@ export default function OpenWithOrderDialog({
                 </SelectContent>
               </Select>
             </div>
-            {isBuy && (
+            <div className="space-y-2">
+              <Label htmlFor="open-order-type">Тип ордера</Label>
+              <Select
+                value={orderType}
+                onValueChange={(value) =>
+                  form.setValue(
+                    'orderType',
+                    value as OpenWithOrderFormValues['orderType'],
+                    { shouldValidate: true },
+                  )
+                }
+              >
+                <SelectTrigger id="open-order-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="MARKET">MARKET</SelectItem>
+                  <SelectItem value="LIMIT">LIMIT</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {isLimit && (
+              <div className="space-y-2">
+                <Label htmlFor="open-order-price">Лимитная цена</Label>
+                <Input
+                  id="open-order-price"
+                  inputMode="decimal"
+                  {...form.register('price')}
+                />
+                {form.formState.errors.price && (
+                  <p className="text-sm text-destructive">
+                    {form.formState.errors.price.message}
+                  </p>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  Сделка ждёт исполнения ордера; неисполненный ордер отменяется
+                  по таймауту.
+                </p>
+              </div>
+            )}
+            {isBuy && !isLimit && (
               <div className="space-y-2">
                 <Label htmlFor="open-order-buy-mode">Режим покупки</Label>
                 <Select
@@ -201,7 +296,7 @@ export default function OpenWithOrderDialog({
                 </p>
               </div>
             )}
-            {isBuy && marketBuyMode === 'QUOTE' && (
+            {isBuy && !isLimit && marketBuyMode === 'QUOTE' && (
               <div className="space-y-2">
                 <Label htmlFor="open-order-quote">Сумма в quote</Label>
                 <Input
@@ -216,7 +311,7 @@ export default function OpenWithOrderDialog({
                 )}
               </div>
             )}
-            {((isBuy && marketBuyMode === 'BASE') || !isBuy) && (
+            {(isLimit || (isBuy && marketBuyMode === 'BASE') || !isBuy) && (
               <div className="space-y-2">
                 <Label htmlFor="open-order-qty">Количество</Label>
                 <Input
@@ -0,0 +1,258 @@
+import { useEffect, useState } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { useAuth } from '@/auth/AuthProvider'
+import { fetchSyncCursors, syncDeals } from '@/api/dealsApi'
+import DealProfileSelect from '@/components/deals/DealProfileSelect'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  type DealsSyncStrategy,
+  type DealsSyncSymbolResult,
+} from '@/types/deals'
+import { toastError } from '@/lib/toast'
+
+type SyncDealsDialogProps = {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSuccess?: (message: string) => void
+}
+
+const strategyLabels: Record<DealsSyncStrategy, string> = {
+  FIFO: 'FIFO — сначала старые',
+  LIFO: 'LIFO — сначала новые',
+  AVERAGE: 'Средняя цена — пропорционально',
+}
+
+const parseSymbols = (value: string) =>
+  Array.from(
+    new Set(
+      value
+        .split(/[\s,;]+/)
+        .map((symbol) => symbol.trim().toUpperCase())
+        .filter(Boolean),
+    ),
+  )
+
+export default function SyncDealsDialog({
+  open,
+  onOpenChange,
+  onSuccess,
+}: SyncDealsDialogProps) {
+  const { accessToken, refresh } = useAuth()
+  const queryClient = useQueryClient()
+  const [symbolsInput, setSymbolsInput] = useState('')
+  const [strategy, setStrategy] = useState<DealsSyncStrategy>('FIFO')
+  const [profileId, setProfileId] = useState<string | undefined>()
+  const [results, setResults] = useState<DealsSyncSymbolResult[]>([])
+  const [isSyncing, setIsSyncing] = useState(false)
+
+  const cursorsQuery = useQuery({
+    queryKey: ['dealsSyncCursors'],
+    queryFn: () => fetchSyncCursors({ accessToken, onUnauthorized: refresh }),
+    enabled: open,
+  })
+  const cursors = cursorsQuery.data ?? []
+
+  useEffect(() => {
+    if (!open) return
+    setSymbolsInput('')
+    setProfileId(undefined)
+    setResults([])
+    setIsSyncing(false)
+  }, [open])
+  useEffect(() => {
+    if (!open || !cursorsQuery.data) return
+    const saved = Array.from(
+      new Set(cursorsQuery.data.map((cursor) => cursor.symbol)),
+    ).join(', ')
+    setSymbolsInput((prev) => prev || saved)
+  }, [open, cursorsQuery.data])
+
+  const symbols = parseSymbols(symbolsInput)
+  const handleSync = async () => {
+    if (symbols.length === 0) {
+      toastError('Укажите хотя бы один символ')
+      return
+    }
+    setIsSyncing(true)
+    try {
+      const result = await syncDeals(
+        { credentialProfileId: profileId, symbols, strategy },
+        { accessToken, onUnauthorized: refresh },
+      )
+      setResults(result.symbols)
+      queryClient.invalidateQueries({ queryKey: ['deals'] })
+      queryClient.invalidateQueries({ queryKey: ['dealsStats'] })
+      queryClient.invalidateQueries({ queryKey: ['dealsSyncCursors'] })
+      const imported = result.symbols.reduce(
+        (sum, item) => sum + item.importedCount,
+        0,
+      )
+      onSuccess?.(`Синхронизация завершена, новых исполнений: ${imported}`)
+    } catch (err) {
+      toastError(
+        `Ошибка синхронизации: ${
+          err instanceof Error ? err.message : 'Не удалось синхронизировать'
+        }`,
+      )
+    } finally {
+      setIsSyncing(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Синхронизация сделок с Binance</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-6">
+          <div className="grid gap-4 md:grid-cols-[1fr_220px]">
+            <div className="space-y-2">
+              <Label htmlFor="sync-symbols">Символы</Label>
+              <Input
+                id="sync-symbols"
+                placeholder="BTCUSDT, ETHUSDT"
+                value={symbolsInput}
+                onChange={(event) => setSymbolsInput(event.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Сопоставление закрытий</Label>
+              <Select
+                value={strategy}
+                onValueChange={(value) =>
+                  setStrategy(value as DealsSyncStrategy)
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(strategyLabels) as DealsSyncStrategy[]).map(
+                    (key) => (
+                      <SelectItem key={key} value={key}>
+                        {strategyLabels[key]}
+                      </SelectItem>
+                    ),
+                  )}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DealProfileSelect
+            id="sync-profile"
+            exchange="BINANCE"
+            value={profileId}
+            onChange={setProfileId}
+          />
+          <p className="text-xs text-muted-foreground">
+            Новые исполнения открывают сделку или докупают последнюю открытую в
+            том же направлении; встречные исполнения частично закрывают открытые
+            сделки по выбранной стратегии. Повторный запуск продолжит с
+            последнего trade id.
+          </p>
+          {results.length > 0 ? (
+            <div className="space-y-2">
+              <p className="text-sm font-semibold">Результат</p>
+              <div className="rounded-md border border-border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Символ</TableHead>
+                      <TableHead>Получено</TableHead>
+                      <TableHead>Новых</TableHead>
+                      <TableHead>Открыто</TableHead>
+                      <TableHead>Докупок</TableHead>
+                      <TableHead>Закрытий</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {results.map((item) => (
+                      <TableRow key={item.symbol}>
+                        <TableCell>
+                          {item.symbol}
+                          {item.hasMore ? ' (есть ещё)' : ''}
+                        </TableCell>
+                        <TableCell>{item.fetchedCount}</TableCell>
+                        <TableCell>{item.importedCount}</TableCell>
+                        <TableCell>{item.openedCount}</TableCell>
+                        <TableCell>{item.extendedCount}</TableCell>
+                        <TableCell>{item.exitLegsCount}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          ) : null}
+          <div className="space-y-2">
+            <p className="text-sm font-semibold">Курсоры</p>
+            {cursors.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                Синхронизация ещё не запускалась
+              </p>
+            ) : (
+              <div className="rounded-md border border-border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Символ</TableHead>
+                      <TableHead>Последний trade id</TableHead>
+                      <TableHead>Стратегия</TableHead>
+                      <TableHead>Обновлён</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {cursors.map((cursor) => (
+                      <TableRow
+                        key={`${cursor.credentialProfileId ?? ''}:${cursor.symbol}`}
+                      >
+                        <TableCell>{cursor.symbol}</TableCell>
+                        <TableCell>{cursor.lastTradeId}</TableCell>
+                        <TableCell>{cursor.strategy}</TableCell>
+                        <TableCell>
+                          {new Date(cursor.lastSyncedAt).toLocaleString()}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Закрыть
+            </Button>
+            <Button onClick={handleSync} disabled={isSyncing}>
+              {isSyncing ? 'Синхронизация...' : 'Синхронизировать'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
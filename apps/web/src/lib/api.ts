@@ -5,40 +5,171 @@ type ApiFetchOptions = RequestInit & {
   onUnauthorized?: () => Promise<string | null>
 }
 
+// Matches StepUpGuard on the API: the action needs a fresh TOTP check.
+const STEP_UP_REQUIRED_CODE = 'STEP_UP_REQUIRED'
+
+let stepUpHandler: (() => Promise<string | null>) | null = null
+
+/**
+ * Registered by AuthProvider: asks for a TOTP code and resolves with an
+ * access token that passes the step-up check, or null when cancelled.
+ */
+export function setStepUpHandler(
+  handler: (() => Promise<string | null>) | null,
+) {
+  stepUpHandler = handler
+}
+
 export async function apiFetch<T>(
   path: string,
   options: ApiFetchOptions = {},
 ): Promise<T> {
   const { accessToken, onUnauthorized, ...init } = options
-  const response = await fetch(`${API_URL}${path}`, {
-    ...init,
-    credentials: 'include',
-    headers: {
-      'Content-Type': 'application/json',
-      ...(init.headers ?? {}),
-      ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
-    },
-  })
+  const request = (token?: string | null) =>
+    fetch(`${API_URL}${path}`, {
+      ...init,
+      credentials: 'include',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(init.headers ?? {}),
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+    })
 
+  let response = await request(accessToken)
   if (response.status === 401 && onUnauthorized) {
     const newAccessToken = await onUnauthorized()
     if (newAccessToken) {
-      const retry = await fetch(`${API_URL}${path}`, {
-        ...init,
-        credentials: 'include',
-        headers: {
-          'Content-Type': 'application/json',
-          ...(init.headers ?? {}),
-          Authorization: `Bearer ${newAccessToken}`,
-        },
-      })
-      return await parseJson<T>(retry)
+      response = await request(newAccessToken)
+    }
+  }
+  if (
+    response.status === 403 &&
+    stepUpHandler &&
+    (await safeJson(response.clone()))?.code === STEP_UP_REQUIRED_CODE
+  ) {
+    const stepUpToken = await stepUpHandler()
+    if (stepUpToken) {
+      response = await request(stepUpToken)
     }
   }
 
   return await parseJson<T>(response)
 }
 
+export type ExportFormat = 'csv' | 'json' | 'xlsx'
+
+/** Fetches a file attachment and hands it to the browser as a download. */
+export async function apiDownload(
+  path: string,
+  options: ApiFetchOptions = {},
+): Promise<void> {
+  const { accessToken, onUnauthorized, ...init } = options
+  const request = (token?: string | null) =>
+    fetch(`${API_URL}${path}`, {
+      ...init,
+      credentials: 'include',
+      headers: {
+        ...(init.headers ?? {}),
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+    })
+
+  let response = await request(accessToken)
+  if (response.status === 401 && onUnauthorized) {
+    const newAccessToken = await onUnauthorized()
+    if (newAccessToken) {
+      response = await request(newAccessToken)
+    }
+  }
+  if (!response.ok) {
+    await parseJson(response)
+  }
+
+  const disposition = response.headers.get('Content-Disposition') ?? ''
+  const fileName = /filename="([^"]+)"/.exec(disposition)?.[1] ?? 'export'
+  const url = URL.createObjectURL(await response.blob())
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  URL.revokeObjectURL(url)
+}
+
+export type ServerSentEvent = {
+  type: string
+  data: string
+}
+
+/**
+ * Reads a `text/event-stream` response over fetch, since EventSource cannot
+ * send the bearer token. Resolves when the server ends the stream; abort the
+ * signal to disconnect.
+ */
+export async function apiEventStream(
+  path: string,
+  options: ApiFetchOptions & { signal: AbortSignal },
+  onEvent: (event: ServerSentEvent) => void,
+): Promise<void> {
+  const { accessToken, onUnauthorized, signal } = options
+  const request = (token?: string | null) =>
+    fetch(`${API_URL}${path}`, {
+      credentials: 'include',
+      signal,
+      headers: {
+        Accept: 'text/event-stream',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+    })
+
+  let response = await request(accessToken)
+  if (response.status === 401 && onUnauthorized) {
+    const newAccessToken = await onUnauthorized()
+    if (!newAccessToken) {
+      return
+    }
+    response = await request(newAccessToken)
+  }
+  if (!response.ok || !response.body) {
+    throw new Error(`Event stream failed (${response.status})`)
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+  for (;;) {
+    const { value, done } = await reader.read()
+    if (done) {
+      return
+    }
+    buffer += decoder.decode(value, { stream: true })
+    let boundary = buffer.indexOf('\n\n')
+    while (boundary !== -1) {
+      const event = parseServerSentEvent(buffer.slice(0, boundary))
+      buffer = buffer.slice(boundary + 2)
+      if (event) {
+        onEvent(event)
+      }
+      boundary = buffer.indexOf('\n\n')
+    }
+  }
+}
+
+function parseServerSentEvent(chunk: string): ServerSentEvent | null {
+  let type = 'message'
+  const data: string[] = []
+  for (const line of chunk.split('\n')) {
+    if (line.startsWith('event:')) {
+      type = line.slice(6).trim()
+    } else if (line.startsWith('data:')) {
+      data.push(line.slice(5).trimStart())
+    }
+  }
+  return data.length > 0 ? { type, data: data.join('\n') } : null
+}
+
 async function parseJson<T>(response: Response): Promise<T> {
   const data = await safeJson(response)
   if (!response.ok) {
@@ -0,0 +1,76 @@
+import { apiFetch } from '@/lib/api'
+
+export type AuditChange = { before?: unknown; after?: unknown }
+
+export type AuditEntry = {
+  id: string
+  action: string
+  actorId?: string
+  actorEmail?: string
+  targetType?: string
+  targetId?: string
+  ip?: string
+  userAgent?: string
+  changes?: Record<string, AuditChange>
+  metadata?: Record<string, unknown>
+  createdAt: string
+}
+
+export type ListAuditFilters = {
+  // Exact action, or a prefix ending in `.` such as `deal.`.
+  action?: string
+  actorEmail?: string
+  targetType?: string
+  targetId?: string
+  from?: string
+  to?: string
+  page?: number
+  limit?: number
+}
+
+export type ListAuditResponse = {
+  items: AuditEntry[]
+  page: number
+  limit: number
+  total: number
+}
+
+type AuthOptions = {
+  accessToken: string | null
+  onUnauthorized: () => Promise<string | null>
+}
+
+function buildQuery(filters: ListAuditFilters) {
+  const params = new URLSearchParams()
+
+  if (filters.action) params.set('action', filters.action)
+  if (filters.actorEmail) params.set('actorEmail', filters.actorEmail)
+  if (filters.targetType) params.set('targetType', filters.targetType)
+  if (filters.targetId) params.set('targetId', filters.targetId)
+  if (filters.from) params.set('from', filters.from)
+  if (filters.to) params.set('to', filters.to)
+  if (filters.page) params.set('page', String(filters.page))
+  if (filters.limit) params.set('limit', String(filters.limit))
+
+  const query = params.toString()
+  return query ? `?${query}` : ''
+}
+
+export async function listAuditEntries(
+  filters: ListAuditFilters,
+  auth: AuthOptions,
+) {
+  return apiFetch<ListAuditResponse>(`/admin/audit${buildQuery(filters)}`, {
+    method: 'GET',
+    accessToken: auth.accessToken,
+    onUnauthorized: auth.onUnauthorized,
+  })
+}
+
+export async function listAuditActions(auth: AuthOptions) {
+  return apiFetch<string[]>('/admin/audit/actions', {
+    method: 'GET',
+    accessToken: auth.accessToken,
+    onUnauthorized: auth.onUnauthorized,
+  })
+}
@@ -1,14 +1,5 @@
 import { apiFetch } from '@/lib/api'
 
-export type BinanceCredentialsStatus = {
-  connected: boolean
-  apiKeyLast4: string | null
-  updatedAt?: string
-  lastTestedAt?: string
-  lastTestOk?: boolean
-  lastTestError?: string
-}
-
 export type BinanceSpotBalance = {
   asset: string
   free: string
@@ -21,20 +12,43 @@ export type BinanceSpotAccount = {
   balances: BinanceSpotBalance[]
 }
 
+export type BinanceSpotOrderType =
+  | 'MARKET'
+  | 'LIMIT'
+  | 'STOP_LOSS_LIMIT'
+  | 'TAKE_PROFIT_LIMIT'
+  | 'LIMIT_MAKER'
+
+export type BinanceSpotTimeInForce = 'GTC' | 'IOC' | 'FOK'
+
 export type BinanceSpotOrder = {
   orderId: number
+  orderListId?: number
   clientOrderId?: string
   origClientOrderId?: string
   symbol: string
   side: 'BUY' | 'SELL'
-  type: 'MARKET' | 'LIMIT'
+  // OCO stop-market legs come back as STOP_LOSS.
+  type: BinanceSpotOrderType | 'STOP_LOSS' | 'TAKE_PROFIT'
   price: string
+  stopPrice?: string
   origQty: string
   executedQty: string
   status: string
   timeInForce?: string
 }
 
+export type BinanceSpotOrderList = {
+  orderListId: number
+  contingencyType: string
+  listStatusType: string
+  listOrderStatus: string
+  listClientOrderId: string
+  transactionTime: number
+  symbol: string
+  orders: Array<{ symbol: string; orderId: number; clientOrderId: string }>
+}
+
 export type BinanceSpotTrade = {
   id: number
   orderId: number
@@ -53,57 +67,98 @@ type AuthOptions = {
   onUnauthorized: () => Promise<string | null>
 }
 
-export async function getBinanceCredentials(auth: AuthOptions) {
-  return apiFetch<BinanceCredentialsStatus>('/binance/credentials', {
+// Spot calls sign with the given credential profile, else the default one.
+function spotPath(
+  path: string,
+  params: Record<string, string | number | undefined>,
+  profileId?: string,
+) {
+  const query = new URLSearchParams()
+  Object.entries({ ...params, profileId }).forEach(([key, value]) => {
+    if (value === undefined) return
+    query.append(key, String(value))
+  })
+  const search = query.toString()
+  return `/binance/spot/${path}${search ? `?${search}` : ''}`
+}
+
+export async function getSpotAccount(auth: AuthOptions, profileId?: string) {
+  return apiFetch<BinanceSpotAccount>(spotPath('account', {}, profileId), {
     method: 'GET',
     accessToken: auth.accessToken,
     onUnauthorized: auth.onUnauthorized,
   })
 }
 
-export async function saveBinanceCredentials(
-  payload: { apiKey: string; apiSecret: string },
+export async function getSpotOpenOrders(
+  symbol: string,
   auth: AuthOptions,
+  profileId?: string,
 ) {
-  return apiFetch<{ ok: true }>('/binance/credentials', {
-    method: 'PUT',
-    body: JSON.stringify(payload),
-    accessToken: auth.accessToken,
-    onUnauthorized: auth.onUnauthorized,
-  })
+  return apiFetch<BinanceSpotOrder[]>(
+    spotPath('open-orders', { symbol }, profileId),
+    {
+      method: 'GET',
+      accessToken: auth.accessToken,
+      onUnauthorized: auth.onUnauthorized,
+    },
+  )
 }
 
-export async function deleteBinanceCredentials(auth: AuthOptions) {
-  return apiFetch<{ ok: true }>('/binance/credentials', {
-    method: 'DELETE',
+export async function placeSpotOrder(
+  payload: {
+    symbol: string
+    side: 'BUY' | 'SELL'
+    type: BinanceSpotOrderType
+    quantity?: string
+    quoteOrderQty?: string
+    price?: string
+    stopPrice?: string
+    timeInForce?: BinanceSpotTimeInForce
+    newClientOrderId?: string
+  },
+  auth: AuthOptions,
+  profileId?: string,
+) {
+  return apiFetch<BinanceSpotOrder>(spotPath('order', {}, profileId), {
+    method: 'POST',
+    body: JSON.stringify(payload),
     accessToken: auth.accessToken,
     onUnauthorized: auth.onUnauthorized,
   })
 }
 
-export async function testBinanceCredentials(auth: AuthOptions) {
-  return apiFetch<{ ok: boolean; message?: string }>(
-    '/binance/credentials/test',
+export async function placeSpotOcoOrder(
+  payload: {
+    symbol: string
+    side: 'BUY' | 'SELL'
+    quantity: string
+    price: string
+    stopPrice: string
+    stopLimitPrice?: string
+    stopLimitTimeInForce?: BinanceSpotTimeInForce
+  },
+  auth: AuthOptions,
+  profileId?: string,
+) {
+  return apiFetch<BinanceSpotOrderList>(
+    spotPath('order-list/oco', {}, profileId),
     {
       method: 'POST',
+      body: JSON.stringify(payload),
       accessToken: auth.accessToken,
       onUnauthorized: auth.onUnauthorized,
     },
   )
 }
 
-export async function getSpotAccount(auth: AuthOptions) {
-  return apiFetch<BinanceSpotAccount>('/binance/spot/account', {
-    method: 'GET',
-    accessToken: auth.accessToken,
-    onUnauthorized: auth.onUnauthorized,
-  })
-}
-
-export async function getSpotOpenOrders(symbol: string, auth: AuthOptions) {
-  const params = new URLSearchParams({ symbol })
-  return apiFetch<BinanceSpotOrder[]>(
-    `/binance/spot/open-orders?${params.toString()}`,
+export async function getSpotOrderLists(
+  symbol: string,
+  auth: AuthOptions,
+  profileId?: string,
+) {
+  return apiFetch<BinanceSpotOrderList[]>(
+    spotPath('order-lists', { symbol }, profileId),
     {
       method: 'GET',
       accessToken: auth.accessToken,
@@ -112,20 +167,13 @@ export async function getSpotOpenOrders(symbol: string, auth: AuthOptions) {
   )
 }
 
-export async function placeSpotOrder(
-  payload: {
-    symbol: string
-    side: 'BUY' | 'SELL'
-    type: 'MARKET' | 'LIMIT'
-    quantity?: string
-    quoteOrderQty?: string
-    price?: string
-    timeInForce?: 'GTC'
-  },
+export async function cancelSpotOrderList(
+  payload: { symbol: string; orderListId: number },
   auth: AuthOptions,
+  profileId?: string,
 ) {
-  return apiFetch<BinanceSpotOrder>('/binance/spot/order', {
-    method: 'POST',
+  return apiFetch<{ ok: true }>(spotPath('order-list', {}, profileId), {
+    method: 'DELETE',
     body: JSON.stringify(payload),
     accessToken: auth.accessToken,
     onUnauthorized: auth.onUnauthorized,
@@ -139,8 +187,9 @@ export async function cancelSpotOrder(
     origClientOrderId?: string
   },
   auth: AuthOptions,
+  profileId?: string,
 ) {
-  return apiFetch<{ ok: true }>('/binance/spot/order', {
+  return apiFetch<{ ok: true }>(spotPath('order', {}, profileId), {
     method: 'DELETE',
     body: JSON.stringify(payload),
     accessToken: auth.accessToken,
@@ -155,14 +204,16 @@ export async function cancelReplaceSpotOrder(
     cancelOrigClientOrderId?: string
     cancelReplaceMode?: 'STOP_ON_FAILURE'
     side: 'BUY' | 'SELL'
-    type: 'LIMIT'
-    timeInForce?: 'GTC'
+    type: Exclude<BinanceSpotOrderType, 'MARKET'>
+    timeInForce?: BinanceSpotTimeInForce
     quantity: string
     price: string
+    stopPrice?: string
   },
   auth: AuthOptions,
+  profileId?: string,
 ) {
-  return apiFetch('/binance/spot/order/cancel-replace', {
+  return apiFetch(spotPath('order/cancel-replace', {}, profileId), {
     method: 'POST',
     body: JSON.stringify(payload),
     accessToken: auth.accessToken,
@@ -177,26 +228,13 @@ export async function querySpotOrder(
     origClientOrderId?: string
   },
   auth: AuthOptions,
+  profileId?: string,
 ) {
-  const params = new URLSearchParams(
-    Object.entries(payload).reduce<Record<string, string>>(
-      (acc, [key, value]) => {
-        if (value === undefined) return acc
-        acc[key] = String(value)
-        return acc
-      },
-      {},
-    ),
-  )
-
-  return apiFetch<BinanceSpotOrder>(
-    `/binance/spot/order?${params.toString()}`,
-    {
-      method: 'GET',
-      accessToken: auth.accessToken,
-      onUnauthorized: auth.onUnauthorized,
-    },
-  )
+  return apiFetch<BinanceSpotOrder>(spotPath('order', payload, profileId), {
+    method: 'GET',
+    accessToken: auth.accessToken,
+    onUnauthorized: auth.onUnauthorized,
+  })
 }
 
 export async function getSpotMyTrades(
@@ -208,19 +246,10 @@ export async function getSpotMyTrades(
     limit?: number
   },
   auth: AuthOptions,
+  profileId?: string,
 ) {
-  const params = new URLSearchParams(
-    Object.entries(payload).reduce<Record<string, string>>(
-      (acc, [key, value]) => {
-        if (value === undefined) return acc
-        acc[key] = String(value)
-        return acc
-      },
-      {},
-    ),
-  )
   return apiFetch<BinanceSpotTrade[]>(
-    `/binance/spot/my-trades?${params.toString()}`,
+    spotPath('my-trades', payload, profileId),
     {
       method: 'GET',
       accessToken: auth.accessToken,
@@ -16,6 +16,7 @@ export type DealHistoryEvent = {
   quote?: string
   fee?: string
   feeAsset?: string
+  feeInQuote?: string
   pnl?: string
   note?: string
   source?: string
@@ -51,6 +52,7 @@ const buildDcaEvents = (entryLegs: DealEntryLeg[] = []) => {
     quote: leg.quote,
     fee: leg.fee,
     feeAsset: leg.feeAsset,
+    feeInQuote: leg.feeInQuote,
     note: undefined,
     source: leg.source,
   }))
@@ -71,7 +73,7 @@ const computeExitPnl = (deal: Deal, leg: DealExitLeg, quoteValue?: string) => {
   const avgPrice = toNumber(deal.entryAvgPrice ?? deal.entry?.price)
   const qty = toNumber(leg.qty)
   const quote = toNumber(quoteValue ?? leg.quote)
-  const fee = toNumber(leg.fee) ?? 0
+  const fee = toNumber(leg.feeInQuote ?? leg.fee) ?? 0
   if (avgPrice === null || qty === null || quote === null) {
     return undefined
   }
@@ -98,6 +100,7 @@ const buildExitEvents = (deal: Deal, exitLegs: DealExitLeg[] = []) =>
       quote: quoteValue,
       fee: leg.fee,
       feeAsset: leg.feeAsset,
+      feeInQuote: leg.feeInQuote,
       pnl: computeExitPnl(deal, leg, quoteValue),
       source: leg.source,
     }
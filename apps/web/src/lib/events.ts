@@ -0,0 +1,178 @@
+import { useEffect } from 'react'
+import { useQueryClient, type QueryKey } from '@tanstack/react-query'
+
+import { useAuth } from '@/auth/AuthProvider'
+import { apiEventStream } from '@/lib/api'
+import type { ExchangeId } from '@/lib/exchanges'
+
+export type AppEvent =
+  | {
+      type: 'deal.created' | 'deal.updated' | 'deal.closed'
+      dealId: string
+      symbol: string
+      status: string
+    }
+  | {
+      type: 'deal.deleted' | 'deal.restored' | 'deal.purged'
+      dealId: string
+    }
+  | {
+      type:
+        | 'transaction.created'
+        | 'transaction.updated'
+        | 'transaction.deleted'
+        | 'transaction.restored'
+        | 'transaction.purged'
+      transactionId: string
+    }
+  | {
+      // `order.updated` covers reports without a fill, e.g. new or canceled.
+      type: 'order.filled' | 'order.updated'
+      exchange: ExchangeId
+      profileId: string
+      symbol: string
+      orderId: number
+      clientOrderId: string
+      side: 'BUY' | 'SELL'
+      status: string
+      executedQty: string
+    }
+  | {
+      type: 'balance.updated'
+      exchange: ExchangeId
+      profileId: string
+    }
+  | {
+      type: 'credentials.updated'
+      exchange: ExchangeId
+      profileId: string
+      connected: boolean
+    }
+  | {
+      type: 'credentials.tested'
+      exchange: ExchangeId
+      profileId: string
+      ok: boolean
+      message?: string
+    }
+
+type AuthOptions = {
+  accessToken: string | null
+  onUnauthorized: () => Promise<string | null>
+}
+
+const EVENTS_RETRY_MS = 5_000
+
+const DEAL_QUERY_KEYS: QueryKey[] = [
+  ['deals'],
+  ['dealsStats'],
+  ['dealsTimeseries'],
+  ['dealsUnrealized'],
+  ['dealsRiskAlerts'],
+]
+
+const TRANSACTION_QUERY_KEYS: QueryKey[] = [
+  ['transactions'],
+  ['portfolioHoldings'],
+]
+
+const SPOT_QUERY_KEYS: QueryKey[] = [
+  ['spotAccount'],
+  ['spotOpenOrders'],
+  ['spotOrderLists'],
+  ['spotMyTrades'],
+  ['portfolioHoldings'],
+]
+
+/** Queries that go stale when the server reports `event`. */
+export function getEventQueryKeys(event: AppEvent): QueryKey[] {
+  switch (event.type) {
+    case 'deal.created':
+    case 'deal.updated':
+    case 'deal.closed':
+      return DEAL_QUERY_KEYS
+    case 'deal.deleted':
+    case 'deal.restored':
+      return [...DEAL_QUERY_KEYS, ['dealsTrash']]
+    case 'deal.purged':
+      return [['dealsTrash']]
+    case 'transaction.created':
+    case 'transaction.updated':
+      return TRANSACTION_QUERY_KEYS
+    case 'transaction.deleted':
+    case 'transaction.restored':
+      return [...TRANSACTION_QUERY_KEYS, ['transactionsTrash']]
+    case 'transaction.purged':
+      return [['transactionsTrash']]
+    case 'order.filled':
+      return [...SPOT_QUERY_KEYS, ...DEAL_QUERY_KEYS]
+    case 'order.updated':
+      return [['spotOpenOrders'], ['spotOrderLists']]
+    case 'balance.updated':
+      return [['spotAccount'], ['portfolioHoldings']]
+    case 'credentials.updated':
+      return event.exchange === 'BINANCE'
+        ? [['exchanges'], ...SPOT_QUERY_KEYS]
+        : [['exchanges']]
+    case 'credentials.tested':
+      return [['exchanges']]
+  }
+}
+
+/** Streams the user's deal, transaction, order and balance events until aborted. */
+export async function subscribeAppEvents(
+  auth: AuthOptions,
+  signal: AbortSignal,
+  onEvent: (event: AppEvent) => void,
+) {
+  return apiEventStream(
+    '/events',
+    {
+      accessToken: auth.accessToken,
+      onUnauthorized: auth.onUnauthorized,
+      signal,
+    },
+    (event) => {
+      onEvent(JSON.parse(event.data) as AppEvent)
+    },
+  )
+}
+
+/**
+ * Keeps every open tab in sync by invalidating the queries touched by server
+ * events. Mutations still invalidate their own queries right away.
+ */
+export function useAppEvents() {
+  const { accessToken, refresh } = useAuth()
+  const queryClient = useQueryClient()
+
+  useEffect(() => {
+    if (!accessToken) return
+    const controller = new AbortController()
+    let retryTimer: ReturnType<typeof setTimeout> | undefined
+
+    const connect = () => {
+      subscribeAppEvents(
+        { accessToken, onUnauthorized: refresh },
+        controller.signal,
+        (event) => {
+          for (const queryKey of getEventQueryKeys(event)) {
+            queryClient.invalidateQueries({ queryKey })
+          }
+        },
+      )
+        .catch(() => undefined)
+        .finally(() => {
+          if (!controller.signal.aborted) {
+            retryTimer = setTimeout(connect, EVENTS_RETRY_MS)
+          }
+        })
+    }
+    connect()
+
+    return () => {
+      controller.abort()
+      clearTimeout(retryTimer)
+    }
+  }, [accessToken, refresh, queryClient])
+}
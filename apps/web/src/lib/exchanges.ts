@@ -0,0 +1,135 @@
+import { apiFetch } from '@/lib/api'
+
+export const EXCHANGE_IDS = ['BINANCE', 'GATE'] as const
+
+export type ExchangeId = (typeof EXCHANGE_IDS)[number]
+
+export const EXCHANGE_LABELS: Record<ExchangeId, string> = {
+  BINANCE: 'Binance',
+  GATE: 'Gate.io',
+}
+
+export const EXCHANGE_ENVIRONMENTS = ['MAINNET', 'TESTNET'] as const
+
+export type ExchangeEnvironment = (typeof EXCHANGE_ENVIRONMENTS)[number]
+
+export const EXCHANGE_ENVIRONMENT_LABELS: Record<ExchangeEnvironment, string> =
+  {
+    MAINNET: 'Mainnet',
+    TESTNET: 'Testnet',
+  }
+
+export type ExchangeProfile = {
+  id: string
+  name: string
+  environment: ExchangeEnvironment
+  isDefault: boolean
+  apiKeyLast4: string
+  updatedAt?: string
+  lastTestedAt?: string
+  lastTestOk?: boolean
+  lastTestError?: string
+}
+
+export type ExchangeStatus = {
+  exchange: ExchangeId
+  label: string
+  profiles: ExchangeProfile[]
+}
+
+export type ExchangeProfilePayload = {
+  name: string
+  environment: ExchangeEnvironment
+  apiKey: string
+  apiSecret: string
+  isDefault?: boolean
+}
+
+type AuthOptions = {
+  accessToken: string | null
+  onUnauthorized: () => Promise<string | null>
+}
+
+export async function listExchanges(auth: AuthOptions) {
+  return apiFetch<ExchangeStatus[]>('/exchanges', {
+    method: 'GET',
+    accessToken: auth.accessToken,
+    onUnauthorized: auth.onUnauthorized,
+  })
+}
+
+export async function createExchangeProfile(
+  exchange: ExchangeId,
+  payload: ExchangeProfilePayload,
+  auth: AuthOptions,
+) {
+  return apiFetch<{ ok: true; id: string }>(`/exchanges/${exchange}/profiles`, {
+    method: 'POST',
+    body: JSON.stringify(payload),
+    accessToken: auth.accessToken,
+    onUnauthorized: auth.onUnauthorized,
+  })
+}
+
+export async function updateExchangeProfile(
+  exchange: ExchangeId,
+  profileId: string,
+  payload: Partial<Omit<ExchangeProfilePayload, 'isDefault'>> & {
+    isDefault?: true
+  },
+  auth: AuthOptions,
+) {
+  return apiFetch<{ ok: true }>(
+    `/exchanges/${exchange}/profiles/${profileId}`,
+    {
+      method: 'PATCH',
+      body: JSON.stringify(payload),
+      accessToken: auth.accessToken,
+      onUnauthorized: auth.onUnauthorized,
+    },
+  )
+}
+
+export async function deleteExchangeProfile(
+  exchange: ExchangeId,
+  profileId: string,
+  auth: AuthOptions,
+) {
+  return apiFetch<{ ok: true }>(
+    `/exchanges/${exchange}/profiles/${profileId}`,
+    {
+      method: 'DELETE',
+      accessToken: auth.accessToken,
+      onUnauthorized: auth.onUnauthorized,
+    },
+  )
+}
+
+export async function testExchangeProfile(
+  exchange: ExchangeId,
+  profileId: string,
+  auth: AuthOptions,
+) {
+  return apiFetch<{ ok: boolean; message?: string }>(
+    `/exchanges/${exchange}/profiles/${profileId}/test`,
+    {
+      method: 'POST',
+      accessToken: auth.accessToken,
+      onUnauthorized: auth.onUnauthorized,
+    },
+  )
+}
+
+/** Profile label for selectors: name, environment and default marker. */
+export function formatExchangeProfile(profile: ExchangeProfile) {
+  const parts = [profile.name]
+  if (profile.environment === 'TESTNET') {
+    parts.push(EXCHANGE_ENVIRONMENT_LABELS.TESTNET)
+  }
+  if (profile.isDefault) {
+    parts.push('default')
+  }
+  return parts.length > 1
+    ? `${parts[0]} (${parts.slice(1).join(', ')})`
+    : parts[0]
+}
@@ -0,0 +1,36 @@
+import { apiFetch } from '@/lib/api'
+
+type AuthOptions = {
+  accessToken: string | null
+  onUnauthorized: () => Promise<string | null>
+}
+
+/** Other sessions are signed out; this one stays. */
+export async function changePassword(
+  payload: { currentPassword: string; newPassword: string },
+  auth: AuthOptions,
+) {
+  return apiFetch<{ ok: true }>('/auth/password/change', {
+    method: 'POST',
+    body: JSON.stringify(payload),
+    accessToken: auth.accessToken,
+    onUnauthorized: auth.onUnauthorized,
+  })
+}
+
+export async function requestPasswordReset(email: string) {
+  return apiFetch<{ ok: true }>('/auth/password/forgot', {
+    method: 'POST',
+    body: JSON.stringify({ email }),
+  })
+}
+
+export async function resetPassword(payload: {
+  token: string
+  password: string
+}) {
+  return apiFetch<{ ok: true }>('/auth/password/reset', {
+    method: 'POST',
+    body: JSON.stringify(payload),
+  })
+}
@@ -0,0 +1,55 @@
+import { apiFetch } from '@/lib/api'
+import type { ExchangeEnvironment } from '@/lib/exchanges'
+
+export type PortfolioHolding = {
+  symbol: string
+  baseAsset: string | null
+  quoteAsset: string | null
+  netQty: string
+  avgCost: string | null
+  invested: string
+  price: string | null
+  value: string | null
+  unrealizedPnl: string | null
+  allocationPct: string | null
+  exchangeQty: string | null
+  diffQty: string | null
+  unpricedTransactionCount: number
+}
+
+export type PortfolioTotals = {
+  quoteAsset: string
+  invested: string
+  value: string
+  unrealizedPnl: string
+}
+
+export type PortfolioHoldingsResponse = {
+  holdings: PortfolioHolding[]
+  totals: PortfolioTotals[]
+  untrackedBalances: Array<{ asset: string; qty: string }>
+  account: {
+    available: boolean
+    error: string | null
+  }
+  pricedAt: string
+}
+
+type AuthOptions = {
+  accessToken: string | null
+  onUnauthorized: () => Promise<string | null>
+}
+
+export async function fetchPortfolioHoldings(
+  environment: ExchangeEnvironment,
+  auth: AuthOptions,
+) {
+  return apiFetch<PortfolioHoldingsResponse>(
+    `/portfolio/holdings?environment=${environment}`,
+    {
+      method: 'GET',
+      accessToken: auth.accessToken,
+      onUnauthorized: auth.onUnauthorized,
+    },
+  )
+}
@@ -0,0 +1,41 @@
+import { apiFetch } from '@/lib/api'
+
+export type AuthSession = {
+  id: string
+  device: string
+  userAgent?: string
+  ip?: string
+  signedInAt: string
+  lastUsedAt?: string
+  current: boolean
+}
+
+type AuthOptions = {
+  accessToken: string | null
+  onUnauthorized: () => Promise<string | null>
+}
+
+export async function listSessions(auth: AuthOptions) {
+  return apiFetch<AuthSession[]>('/auth/sessions', {
+    method: 'GET',
+    accessToken: auth.accessToken,
+    onUnauthorized: auth.onUnauthorized,
+  })
+}
+
+export async function revokeSession(sessionId: string, auth: AuthOptions) {
+  return apiFetch<{ ok: true }>(`/auth/sessions/${sessionId}`, {
+    method: 'DELETE',
+    accessToken: auth.accessToken,
+    onUnauthorized: auth.onUnauthorized,
+  })
+}
+
+/** Revokes every session of the user, including the current one. */
+export async function revokeAllSessions(auth: AuthOptions) {
+  return apiFetch<{ ok: true }>('/auth/sessions', {
+    method: 'DELETE',
+    accessToken: auth.accessToken,
+    onUnauthorized: auth.onUnauthorized,
+  })
+}
@@ -1,4 +1,5 @@
-import { apiFetch } from '@/lib/api'
+import { apiDownload, apiFetch, type ExportFormat } from '@/lib/api'
+import type { ExchangeEnvironment } from '@/lib/exchanges'
 
 export type TransactionType = 'BUY' | 'SELL'
 
@@ -13,7 +14,10 @@ export type Transaction = {
   feeAsset?: string
   occurredAt: string
   exchange?: string
+  environment: ExchangeEnvironment
   note?: string
+  // Set while the transaction sits in the trash.
+  deletedAt?: string
   createdAt?: string
   updatedAt?: string
 }
@@ -23,6 +27,7 @@ export type ListTransactionsFilters = {
   to?: string
   symbol?: string
   type?: TransactionType
+  environment?: ExchangeEnvironment
   page?: number
   limit?: number
 }
@@ -46,6 +51,7 @@ function buildQuery(filters: ListTransactionsFilters) {
   if (filters.to) params.set('to', filters.to)
   if (filters.symbol) params.set('symbol', filters.symbol)
   if (filters.type) params.set('type', filters.type)
+  if (filters.environment) params.set('environment', filters.environment)
   if (filters.page) params.set('page', String(filters.page))
   if (filters.limit) params.set('limit', String(filters.limit))
 
@@ -67,6 +73,22 @@ export async function listTransactions(
   )
 }
 
+export async function exportTransactions(
+  filters: Omit<ListTransactionsFilters, 'page' | 'limit'>,
+  format: ExportFormat,
+  auth: AuthOptions,
+) {
+  const query = buildQuery(filters)
+  return apiDownload(
+    `/transactions/export${query ? `${query}&` : '?'}format=${format}`,
+    {
+      method: 'GET',
+      accessToken: auth.accessToken,
+      onUnauthorized: auth.onUnauthorized,
+    },
+  )
+}
+
 export async function createTransaction(
   payload: Omit<Transaction, 'id' | 'createdAt' | 'updatedAt' | 'userId'>,
   auth: AuthOptions,
@@ -101,3 +123,42 @@ export async function deleteTransaction(id: string, auth: AuthOptions) {
     onUnauthorized: auth.onUnauthorized,
   })
 }
+
+export async function listTransactionsTrash(
+  filters: Pick<ListTransactionsFilters, 'page' | 'limit'>,
+  auth: AuthOptions,
+) {
+  return apiFetch<ListTransactionsResponse>(
+    `/transactions/trash${buildQuery(filters)}`,
+    {
+      method: 'GET',
+      accessToken: auth.accessToken,
+      onUnauthorized: auth.onUnauthorized,
+    },
+  )
+}
+
+export async function restoreTransactions(ids: string[], auth: AuthOptions) {
+  return apiFetch<{ ok: true; restoredCount: number; restoredIds: string[] }>(
+    '/transactions/restore',
+    {
+      method: 'POST',
+      body: JSON.stringify({ ids }),
+      accessToken: auth.accessToken,
+      onUnauthorized: auth.onUnauthorized,
+    },
+  )
+}
+
+/** Deletes trashed transactions for good; without ids it empties the trash. */
+export async function purgeTransactions(
+  ids: string[] | undefined,
+  auth: AuthOptions,
+) {
+  return apiFetch<{ ok: true; purgedCount: number }>('/transactions/purge', {
+    method: 'POST',
+    body: JSON.stringify(ids ? { ids } : { all: true }),
+    accessToken: auth.accessToken,
+    onUnauthorized: auth.onUnauthorized,
+  })
+}
@@ -0,0 +1,85 @@
+import { useCallback } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
+
+import { useAuth } from '@/auth/AuthProvider'
+import { restoreDeals } from '@/api/dealsApi'
+import { toastError, toastSuccess } from '@/lib/toast'
+import { restoreTransactions } from '@/lib/transactions'
+
+const UNDO_TOAST_MS = 8_000
+
+/** Success toast for trashed deals with an action that restores them. */
+export function useUndoDealsDelete() {
+  const { accessToken, refresh } = useAuth()
+  const queryClient = useQueryClient()
+
+  return useCallback(
+    (message: string, ids: string[]) => {
+      if (ids.length === 0) {
+        toastSuccess(message)
+        return
+      }
+      toastSuccess(message, {
+        duration: UNDO_TOAST_MS,
+        action: {
+          label: 'Отменить',
+          onClick: () => {
+            restoreDeals(ids, { accessToken, onUnauthorized: refresh })
+              .then((result) => {
+                queryClient.invalidateQueries({ queryKey: ['deals'] })
+                queryClient.invalidateQueries({ queryKey: ['dealsStats'] })
+                queryClient.invalidateQueries({ queryKey: ['dealsTrash'] })
+                toastSuccess(`Восстановлено сделок: ${result.restoredCount}`)
+              })
+              .catch((error: unknown) => {
+                toastError(
+                  `Ошибка восстановления: ${
+                    error instanceof Error
+                      ? error.message
+                      : 'неизвестная ошибка'
+                  }`,
+                )
+              })
+          },
+        },
+      })
+    },
+    [accessToken, refresh, queryClient],
+  )
+}
+
+/** Success toast for trashed transactions with an action that restores them. */
+export function useUndoTransactionsDelete() {
+  const { accessToken, refresh } = useAuth()
+  const queryClient = useQueryClient()
+
+  return useCallback(
+    (message: string, ids: string[]) => {
+      toastSuccess(message, {
+        duration: UNDO_TOAST_MS,
+        action: {
+          label: 'Undo',
+          onClick: () => {
+            restoreTransactions(ids, { accessToken, onUnauthorized: refresh })
+              .then(() => {
+                queryClient.invalidateQueries({ queryKey: ['transactions'] })
+                queryClient.invalidateQueries({
+                  queryKey: ['portfolioHoldings'],
+                })
+                queryClient.invalidateQueries({
+                  queryKey: ['transactionsTrash'],
+                })
+                toastSuccess('Transaction restored')
+              })
+              .catch((error: unknown) => {
+                toastError(
+                  error instanceof Error ? error.message : 'Restore failed',
+                )
+              })
+          },
+        },
+      })
+    },
+    [accessToken, refresh, queryClient],
+  )
+}
@@ -0,0 +1,73 @@
+import { apiFetch } from '@/lib/api'
+
+export type TwoFactorStatus = {
+  enabled: boolean
+  stepUp: boolean
+  recoveryCodesLeft: number
+}
+
+export type TwoFactorSetup = {
+  secret: string
+  otpauthUri: string
+}
+
+type AuthOptions = {
+  accessToken: string | null
+  onUnauthorized: () => Promise<string | null>
+}
+
+export async function fetchTwoFactorStatus(auth: AuthOptions) {
+  return apiFetch<TwoFactorStatus>('/auth/2fa', {
+    method: 'GET',
+    accessToken: auth.accessToken,
+    onUnauthorized: auth.onUnauthorized,
+  })
+}
+
+export async function startTwoFactorSetup(auth: AuthOptions) {
+  return apiFetch<TwoFactorSetup>('/auth/2fa/setup', {
+    method: 'POST',
+    accessToken: auth.accessToken,
+    onUnauthorized: auth.onUnauthorized,
+  })
+}
+
+/** Confirms the new secret with a code; returns the recovery codes. */
+export async function enableTwoFactor(code: string, auth: AuthOptions) {
+  return apiFetch<{ recoveryCodes: string[] }>('/auth/2fa/enable', {
+    method: 'POST',
+    body: JSON.stringify({ code }),
+    accessToken: auth.accessToken,
+    onUnauthorized: auth.onUnauthorized,
+  })
+}
+
+export async function disableTwoFactor(code: string, auth: AuthOptions) {
+  return apiFetch<{ ok: true }>('/auth/2fa/disable', {
+    method: 'POST',
+    body: JSON.stringify({ code }),
+    accessToken: auth.accessToken,
+    onUnauthorized: auth.onUnauthorized,
+  })
+}
+
+export async function regenerateRecoveryCodes(code: string, auth: AuthOptions) {
+  return apiFetch<{ recoveryCodes: string[] }>('/auth/2fa/recovery-codes', {
+    method: 'POST',
+    body: JSON.stringify({ code }),
+    accessToken: auth.accessToken,
+    onUnauthorized: auth.onUnauthorized,
+  })
+}
+
+export async function updateTwoFactor(
+  payload: { stepUp: boolean; code: string },
+  auth: AuthOptions,
+) {
+  return apiFetch<TwoFactorStatus>('/auth/2fa', {
+    method: 'PATCH',
+    body: JSON.stringify(payload),
+    accessToken: auth.accessToken,
+    onUnauthorized: auth.onUnauthorized,
+  })
+}
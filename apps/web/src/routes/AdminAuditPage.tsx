@@ -0,0 +1,327 @@
+import { Fragment, useEffect, useMemo, useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+
+import { useAuth } from '@/auth/AuthProvider'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  listAuditActions,
+  listAuditEntries,
+  type AuditEntry,
+} from '@/lib/audit'
+
+type FiltersState = {
+  action: string
+  actorEmail: string
+  targetType: string
+  targetId: string
+  from: string
+  to: string
+}
+
+const ALL_ACTIONS = 'ALL'
+const PAGE_SIZE = 50
+
+const defaultFilters: FiltersState = {
+  action: ALL_ACTIONS,
+  actorEmail: '',
+  targetType: '',
+  targetId: '',
+  from: '',
+  to: '',
+}
+
+function formatValue(value: unknown) {
+  if (value === undefined) return '—'
+  return typeof value === 'string' ? value : JSON.stringify(value)
+}
+
+export default function AdminAuditPage() {
+  const { accessToken, refresh, user } = useAuth()
+  const isAdmin = user?.role === 'admin'
+  const [filters, setFilters] = useState<FiltersState>(defaultFilters)
+  const [page, setPage] = useState(1)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+
+  useEffect(() => {
+    setPage(1)
+  }, [
+    filters.action,
+    filters.actorEmail,
+    filters.targetType,
+    filters.targetId,
+    filters.from,
+    filters.to,
+  ])
+
+  const queryFilters = useMemo(
+    () => ({
+      action: filters.action === ALL_ACTIONS ? undefined : filters.action,
+      actorEmail: filters.actorEmail.trim() || undefined,
+      targetType: filters.targetType.trim() || undefined,
+      targetId: filters.targetId.trim() || undefined,
+      // Whole local days.
+      from: filters.from
+        ? new Date(`${filters.from}T00:00:00`).toISOString()
+        : undefined,
+      to: filters.to
+        ? new Date(`${filters.to}T23:59:59.999`).toISOString()
+        : undefined,
+      page,
+      limit: PAGE_SIZE,
+    }),
+    [filters, page],
+  )
+
+  const auditQuery = useQuery({
+    queryKey: ['audit', queryFilters],
+    enabled: isAdmin,
+    queryFn: () =>
+      listAuditEntries(queryFilters, { accessToken, onUnauthorized: refresh }),
+  })
+
+  const actionsQuery = useQuery({
+    queryKey: ['auditActions'],
+    enabled: isAdmin,
+    queryFn: () => listAuditActions({ accessToken, onUnauthorized: refresh }),
+  })
+
+  const entries = auditQuery.data?.items ?? []
+  const total = auditQuery.data?.total ?? 0
+  const totalPages = Math.max(Math.ceil(total / PAGE_SIZE), 1)
+
+  if (!isAdmin) {
+    return <p className="text-sm text-muted-foreground">Access denied.</p>
+  }
+
+  return (
+    <section className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Audit log</CardTitle>
+          <CardDescription>
+            Who changed what: admin, credential and trading actions with the
+            fields they changed.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid gap-3 md:grid-cols-3">
+            <Select
+              value={filters.action}
+              onValueChange={(value) =>
+                setFilters((prev) => ({ ...prev, action: value }))
+              }
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Action" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_ACTIONS}>All actions</SelectItem>
+                {(actionsQuery.data ?? []).map((action) => (
+                  <SelectItem key={action} value={action}>
+                    {action}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              placeholder="Actor email"
+              value={filters.actorEmail}
+              onChange={(event) =>
+                setFilters((prev) => ({
+                  ...prev,
+                  actorEmail: event.target.value,
+                }))
+              }
+            />
+            <Input
+              placeholder="Target type (user, deal...)"
+              value={filters.targetType}
+              onChange={(event) =>
+                setFilters((prev) => ({
+                  ...prev,
+                  targetType: event.target.value,
+                }))
+              }
+            />
+            <Input
+              placeholder="Target id"
+              value={filters.targetId}
+              onChange={(event) =>
+                setFilters((prev) => ({
+                  ...prev,
+                  targetId: event.target.value,
+                }))
+              }
+            />
+            <Input
+              type="date"
+              value={filters.from}
+              onChange={(event) =>
+                setFilters((prev) => ({ ...prev, from: event.target.value }))
+              }
+            />
+            <Input
+              type="date"
+              value={filters.to}
+              onChange={(event) =>
+                setFilters((prev) => ({ ...prev, to: event.target.value }))
+              }
+            />
+          </div>
+
+          {auditQuery.isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading entries...</p>
+          ) : auditQuery.error instanceof Error ? (
+            <p className="text-sm text-destructive">
+              {auditQuery.error.message}
+            </p>
+          ) : (
+            <div className="rounded-md border border-border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Time</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Actor</TableHead>
+                    <TableHead>Target</TableHead>
+                    <TableHead>IP</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.length ? (
+                    entries.map((entry) => (
+                      <Fragment key={entry.id}>
+                        <TableRow
+                          className="cursor-pointer"
+                          onClick={() =>
+                            setExpandedId((prev) =>
+                              prev === entry.id ? null : entry.id,
+                            )
+                          }
+                        >
+                          <TableCell className="whitespace-nowrap">
+                            {new Date(entry.createdAt).toLocaleString()}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant="secondary">{entry.action}</Badge>
+                          </TableCell>
+                          <TableCell>{entry.actorEmail ?? '—'}</TableCell>
+                          <TableCell className="break-all">
+                            {entry.targetType
+                              ? `${entry.targetType} ${entry.targetId ?? ''}`
+                              : '—'}
+                          </TableCell>
+                          <TableCell>{entry.ip ?? '—'}</TableCell>
+                        </TableRow>
+                        {expandedId === entry.id ? (
+                          <TableRow>
+                            <TableCell colSpan={5}>
+                              <AuditEntryDetails entry={entry} />
+                            </TableCell>
+                          </TableRow>
+                        ) : null}
+                      </Fragment>
+                    ))
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={5}>No entries found.</TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+            <p className="text-sm text-muted-foreground">
+              Page {page} of {totalPages} • {total} total
+            </p>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage((prev) => Math.max(prev - 1, 1))}
+                disabled={page <= 1}
+              >
+                Previous
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  setPage((prev) => Math.min(prev + 1, totalPages))
+                }
+                disabled={page >= totalPages}
+              >
+                Next
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </section>
+  )
+}
+
+function AuditEntryDetails({ entry }: { entry: AuditEntry }) {
+  const changes = Object.entries(entry.changes ?? {})
+
+  return (
+    <div className="space-y-3 text-sm">
+      {changes.length > 0 ? (
+        <table className="w-full text-left">
+          <thead className="text-xs text-muted-foreground">
+            <tr>
+              <th className="pr-4 font-medium">Field</th>
+              <th className="pr-4 font-medium">Before</th>
+              <th className="font-medium">After</th>
+            </tr>
+          </thead>
+          <tbody>
+            {changes.map(([field, change]) => (
+              <tr key={field} className="align-top">
+                <td className="pr-4 font-medium">{field}</td>
+                <td className="break-all pr-4 text-muted-foreground">
+                  {formatValue(change.before)}
+                </td>
+                <td className="break-all">{formatValue(change.after)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : null}
+      {entry.metadata ? (
+        <pre className="overflow-x-auto whitespace-pre-wrap break-all rounded-md bg-muted p-3 text-xs">
+          {JSON.stringify(entry.metadata, null, 2)}
+        </pre>
+      ) : null}
+      {entry.userAgent ? (
+        <p className="text-xs text-muted-foreground">{entry.userAgent}</p>
+      ) : null}
+    </div>
+  )
+}
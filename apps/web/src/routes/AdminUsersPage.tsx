@@ -54,6 +54,28 @@ type UserRow = {
   email: string
   role: UserRole
   createdAt?: string
+  // Set while failed logins keep the account locked.
+  lockedUntil?: string | null
+}
+
+type KeyRotationStatus = {
+  currentVersion: number
+  total: number
+  outdated: number
+  versions: Array<{ version: number; count: number }>
+  targets: Array<{ name: string; total: number; outdated: number }>
+}
+
+type KeyRotationResult = {
+  reencrypted: number
+  failed: number
+  remaining: number
+  status: KeyRotationStatus
+}
+
+const KEY_ROTATION_TARGET_LABELS: Record<string, string> = {
+  exchangeCredentials: 'Exchange API keys',
+  totpSecrets: 'TOTP secrets',
 }
 
 const API_URL = import.meta.env.VITE_API_URL
@@ -156,7 +178,61 @@ export default function AdminUsersPage() {
     },
   })
 
+  const unlockMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await authRequest(
+        `/users/${id}/unlock`,
+        { method: 'POST' },
+        accessToken,
+        refresh,
+      )
+      if (!response.ok) {
+        throw new Error(await safeErrorMessage(response))
+      }
+      return (await response.json()) as { ok: true }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['users'] })
+    },
+  })
+
+  const keyRotationQuery = useQuery({
+    queryKey: ['keyRotation'],
+    enabled: isAdmin,
+    queryFn: async () => {
+      const response = await authRequest(
+        '/admin/key-rotation',
+        { method: 'GET' },
+        accessToken,
+        refresh,
+      )
+      if (!response.ok) {
+        throw new Error(await safeErrorMessage(response))
+      }
+      return (await response.json()) as KeyRotationStatus
+    },
+  })
+
+  const reencryptMutation = useMutation({
+    mutationFn: async () => {
+      const response = await authRequest(
+        '/admin/key-rotation',
+        { method: 'POST' },
+        accessToken,
+        refresh,
+      )
+      if (!response.ok) {
+        throw new Error(await safeErrorMessage(response))
+      }
+      return (await response.json()) as KeyRotationResult
+    },
+    onSuccess: (result) => {
+      queryClient.setQueryData(['keyRotation'], result.status)
+    },
+  })
+
   const data = usersQuery.data?.users ?? []
+  const keyRotation = keyRotationQuery.data
   const columns = useMemo<ColumnDef<UserRow>[]>(
     () => [
       {
@@ -178,6 +254,23 @@ export default function AdminUsersPage() {
           </Badge>
         ),
       },
+      {
+        accessorKey: 'lockedUntil',
+        header: 'Status',
+        cell: ({ row }: { row: Row<UserRow> }) =>
+          row.original.lockedUntil ? (
+            <Badge
+              variant="destructive"
+              title={`Locked until ${new Date(
+                row.original.lockedUntil,
+              ).toLocaleString()}`}
+            >
+              locked
+            </Badge>
+          ) : (
+            <span className="text-muted-foreground">active</span>
+          ),
+      },
       {
         accessorKey: 'createdAt',
         header: 'Created',
@@ -211,6 +304,16 @@ export default function AdminUsersPage() {
                   <SelectItem value="admin">admin</SelectItem>
                 </SelectContent>
               </Select>
+              {row.original.lockedUntil && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={unlockMutation.isPending}
+                  onClick={() => unlockMutation.mutate(row.original.id)}
+                >
+                  Unlock
+                </Button>
+              )}
               <AlertDialog>
                 <AlertDialogTrigger asChild>
                   <Button
@@ -243,7 +346,7 @@ export default function AdminUsersPage() {
         },
       },
     ],
-    [deleteMutation, updateRoleMutation, user?.id],
+    [deleteMutation, unlockMutation, updateRoleMutation, user?.id],
   )
 
   const table = useAppTable({
@@ -327,6 +430,80 @@ export default function AdminUsersPage() {
             )}
         </CardContent>
       </Card>
+      {isAdmin && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Master key rotation</CardTitle>
+            <CardDescription>
+              Re-encrypt stored exchange keys and TOTP secrets with the newest
+              master key.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {keyRotationQuery.isLoading && (
+              <p className="text-sm text-muted-foreground">Loading status...</p>
+            )}
+            {keyRotationQuery.error instanceof Error && (
+              <p className="text-sm text-destructive">
+                {keyRotationQuery.error.message}
+              </p>
+            )}
+            {keyRotation && (
+              <div className="space-y-2 text-sm">
+                <p>
+                  Current key: <Badge>v{keyRotation.currentVersion}</Badge>
+                </p>
+                <p>
+                  {keyRotation.outdated} of {keyRotation.total} encrypted
+                  document(s) on older keys.
+                </p>
+                <ul className="text-muted-foreground">
+                  {keyRotation.targets.map((target) => (
+                    <li key={target.name}>
+                      {KEY_ROTATION_TARGET_LABELS[target.name] ?? target.name}:{' '}
+                      {target.outdated} of {target.total}
+                    </li>
+                  ))}
+                </ul>
+                {keyRotation.versions.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {keyRotation.versions.map((item) => (
+                      <Badge
+                        key={item.version}
+                        variant={
+                          item.version === keyRotation.currentVersion
+                            ? 'default'
+                            : 'secondary'
+                        }
+                      >
+                        v{item.version}: {item.count}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+            {reencryptMutation.data && (
+              <p className="text-sm text-muted-foreground">
+                Re-encrypted {reencryptMutation.data.reencrypted}, failed{' '}
+                {reencryptMutation.data.failed}, remaining{' '}
+                {reencryptMutation.data.remaining}.
+              </p>
+            )}
+            {reencryptMutation.error instanceof Error && (
+              <p className="text-sm text-destructive">
+                {reencryptMutation.error.message}
+              </p>
+            )}
+            <Button
+              onClick={() => reencryptMutation.mutate()}
+              disabled={reencryptMutation.isPending || !keyRotation?.outdated}
+            >
+              {reencryptMutation.isPending ? 'Re-encrypting...' : 'Re-encrypt'}
+            </Button>
+          </CardContent>
+        </Card>
+      )}
     </section>
   )
 }
@@ -1,14 +1,171 @@
+import { useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+
 import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import EmptyState from '@/components/ui/empty-state'
+import EquityCurveChart from '@/components/dashboard/EquityCurveChart'
 import { useAuth } from '@/auth/AuthProvider'
+import { fetchDealsTimeseries } from '@/api/dealsApi'
+import {
+  EXCHANGE_ENVIRONMENT_LABELS,
+  EXCHANGE_ENVIRONMENTS,
+  type ExchangeEnvironment,
+} from '@/lib/exchanges'
+import { formatMoneyDisplay } from '@/lib/format'
+import { cn } from '@/lib/utils'
+import type { DealsTimeseriesInterval } from '@/types/deals'
+
+function getSignedClass(value?: string | number | null) {
+  const numeric = Number(value)
+  if (value === undefined || value === null || Number.isNaN(numeric)) {
+    return 'text-muted-foreground'
+  }
+  if (numeric > 0) return 'text-emerald-600'
+  if (numeric < 0) return 'text-red-600'
+  return 'text-muted-foreground'
+}
 
 export default function DashboardPage() {
-  const { user, logout } = useAuth()
+  const { user, logout, accessToken, refresh } = useAuth()
+  const [bucketInterval, setBucketInterval] =
+    useState<DealsTimeseriesInterval>('day')
+  const [environment, setEnvironment] = useState<ExchangeEnvironment>('MAINNET')
+
+  const timeseriesQuery = useQuery({
+    queryKey: ['dealsTimeseries', bucketInterval, environment],
+    queryFn: () =>
+      fetchDealsTimeseries(
+        { interval: bucketInterval, environment },
+        {
+          accessToken,
+          onUnauthorized: refresh,
+        },
+      ),
+  })
+
+  const summary = timeseriesQuery.data?.summary
+  const series = timeseriesQuery.data?.series ?? []
 
   return (
-    <section className="space-y-4">
-      <h1 className="text-2xl font-semibold">Dashboard</h1>
-      <p className="text-muted-foreground">Hello, {user?.email}</p>
-      <Button onClick={logout}>Logout</Button>
+    <section className="space-y-6">
+      <div className="space-y-4">
+        <h1 className="text-2xl font-semibold">Dashboard</h1>
+        <p className="text-muted-foreground">Hello, {user?.email}</p>
+        <Button onClick={logout}>Logout</Button>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+          <div className="space-y-1">
+            <CardTitle>Equity curve</CardTitle>
+            <CardDescription>
+              Cumulative realized PnL from deal exits.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Select
+              value={environment}
+              onValueChange={(value) =>
+                setEnvironment(value as ExchangeEnvironment)
+              }
+            >
+              <SelectTrigger className="w-[140px]">
+                <SelectValue placeholder="Environment" />
+              </SelectTrigger>
+              <SelectContent>
+                {EXCHANGE_ENVIRONMENTS.map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {EXCHANGE_ENVIRONMENT_LABELS[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={bucketInterval}
+              onValueChange={(value) =>
+                setBucketInterval(value as DealsTimeseriesInterval)
+              }
+            >
+              <SelectTrigger className="w-[140px]">
+                <SelectValue placeholder="Interval" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="day">Daily</SelectItem>
+                <SelectItem value="week">Weekly</SelectItem>
+                <SelectItem value="month">Monthly</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {timeseriesQuery.isLoading ? (
+            <p className="text-sm text-muted-foreground">
+              Loading analytics...
+            </p>
+          ) : timeseriesQuery.error instanceof Error ? (
+            <p className="text-sm text-destructive">
+              {timeseriesQuery.error.message}
+            </p>
+          ) : series.length === 0 ? (
+            <EmptyState
+              title="No closed trades yet"
+              description="Close or partially close a deal to build the curve."
+            />
+          ) : (
+            <>
+              <EquityCurveChart points={series} />
+              <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+                <div>
+                  <p className="text-xs text-muted-foreground">Total PnL</p>
+                  <p
+                    className={cn(
+                      'text-sm font-semibold',
+                      getSignedClass(summary?.totalPnl),
+                    )}
+                  >
+                    {formatMoneyDisplay(summary?.totalPnl ?? '0')}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-xs text-muted-foreground">Max drawdown</p>
+                  <p className="text-sm font-semibold text-red-600">
+                    {formatMoneyDisplay(summary?.maxDrawdown ?? '0')}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-xs text-muted-foreground">Profit factor</p>
+                  <p className="text-sm font-semibold">
+                    {summary?.profitFactor ?? '-'}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-xs text-muted-foreground">
+                    Streaks (win / loss)
+                  </p>
+                  <p className="text-sm font-semibold">
+                    {summary?.longestWinStreak ?? 0} /{' '}
+                    {summary?.longestLossStreak ?? 0}
+                  </p>
+                </div>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
     </section>
   )
 }
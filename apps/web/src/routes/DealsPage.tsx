@@ -21,7 +21,14 @@ import {
 import type { CheckedState } from '@radix-ui/react-checkbox'
 
 import { useAuth } from '@/auth/AuthProvider'
-import { bulkDeleteDeals, fetchDeals, fetchDealsStats } from '@/api/dealsApi'
+import {
+  bulkDeleteDeals,
+  exportDeals,
+  fetchDeals,
+  fetchDealsStats,
+  fetchRiskAlerts,
+  fetchUnrealizedPnl,
+} from '@/api/dealsApi'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Calendar } from '@/components/ui/calendar'
@@ -32,6 +39,12 @@ import {
   CollapsibleContent,
   CollapsibleTrigger,
 } from '@/components/ui/collapsible'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import {
@@ -55,8 +68,18 @@ import {
   formatPriceDisplay,
   formatQtyDisplay,
 } from '@/lib/format'
+import { type ExportFormat } from '@/lib/api'
+import {
+  EXCHANGE_ENVIRONMENT_LABELS,
+  EXCHANGE_ENVIRONMENTS,
+  EXCHANGE_IDS,
+  EXCHANGE_LABELS,
+  type ExchangeEnvironment,
+  type ExchangeId,
+} from '@/lib/exchanges'
 import { useAppTable } from '@/lib/table'
 import { toastError, toastSuccess } from '@/lib/toast'
+import { useUndoDealsDelete } from '@/lib/trash'
 import { cn } from '@/lib/utils'
 import { buildDealHistoryEvents } from '@/lib/dealsHistory'
 import { fromLocalDateIso, toLocalDateIso } from '@/lib/dateLocal'
@@ -67,10 +90,13 @@ import PartialCloseDealDialog from '@/components/deals/PartialCloseDealDialog'
 import AddEntryLegDialog from '@/components/deals/AddEntryLegDialog'
 import ProfitToPositionDialog from '@/components/deals/ProfitToPositionDialog'
 import ImportTradesDialog from '@/components/deals/ImportTradesDialog'
+import ImportHistoryDialog from '@/components/deals/ImportHistoryDialog'
+import SyncDealsDialog from '@/components/deals/SyncDealsDialog'
 import OpenWithOrderDialog from '@/components/deals/OpenWithOrderDialog'
 import CloseWithOrderDialog from '@/components/deals/CloseWithOrderDialog'
 import DealHistoryPanel from '@/components/deals/DealHistoryPanel'
 import DealsRowActions from '@/components/deals/DealsRowActions'
+import DealsStatsBreakdown from '@/components/deals/DealsStatsBreakdown'
 import {
   Popover,
   PopoverContent,
@@ -92,11 +118,23 @@ type FiltersState = {
   from: Date | null
   to: Date | null
   status: 'ALL' | DealStatus
+  exchange: 'ALL' | ExchangeId
+  environment: 'ALL' | ExchangeEnvironment
   symbol: string
 }
 
 type DatePreset = '1w' | '1m' | '3m' | '6m' | 'all' | null
 
+const UNREALIZED_REFRESH_MS = 15_000
+const RISK_ALERTS_REFRESH_MS = 30_000
+const PENDING_ORDERS_REFRESH_MS = 15_000
+
+const DEAL_STATUS_LABELS: Record<DealStatus, string> = {
+  PENDING: 'ОЖИДАЕТ',
+  OPEN: 'ОТКРЫТА',
+  CLOSED: 'ЗАКРЫТА',
+}
+
 function formatDateInput(date: Date) {
   return format(date, 'yyyy-MM-dd')
 }
@@ -114,6 +152,9 @@ function getDefaultFilters(): FiltersState {
     from,
     to: today,
     status: 'ALL',
+    exchange: 'ALL',
+    // Testnet deals stay out of the numbers unless asked for.
+    environment: 'MAINNET',
     symbol: '',
   }
 }
@@ -174,9 +215,24 @@ const getAvailablePnlValue = (deal: Deal) => {
   return Number(deal.realizedPnl ?? 0)
 }
 
+// Levels the price watcher flagged as crossed, e.g. ['SL', 'TP2'].
+const getHitLevelLabels = (deal: Deal) => {
+  const labels: string[] = []
+  if (deal.stopLossHitAt) {
+    labels.push('SL')
+  }
+  ;(deal.takeProfits ?? []).forEach((target, index) => {
+    if (target.hitAt) {
+      labels.push(`TP${index + 1}`)
+    }
+  })
+  return labels
+}
+
 export default function DealsPage() {
   const { accessToken, refresh } = useAuth()
   const queryClient = useQueryClient()
+  const showUndo = useUndoDealsDelete()
   const [draftFilters, setDraftFilters] =
     useState<FiltersState>(getDefaultFilters())
   const [appliedFilters, setAppliedFilters] =
@@ -186,6 +242,9 @@ export default function DealsPage() {
   const [activePreset, setActivePreset] = useState<DatePreset>(null)
   const [createOpen, setCreateOpen] = useState(false)
   const [openWithOrderOpen, setOpenWithOrderOpen] = useState(false)
+  const [importHistoryOpen, setImportHistoryOpen] = useState(false)
+  const [syncOpen, setSyncOpen] = useState(false)
+  const [isExporting, setIsExporting] = useState(false)
   const [editing, setEditing] = useState<Deal | null>(null)
   const [closing, setClosing] = useState<Deal | null>(null)
   const [partialClosing, setPartialClosing] = useState<Deal | null>(null)
@@ -264,10 +323,34 @@ export default function DealsPage() {
       to: appliedFilters.to ? formatDateInput(appliedFilters.to) : undefined,
       status:
         appliedFilters.status === 'ALL' ? undefined : appliedFilters.status,
+      exchange:
+        appliedFilters.exchange === 'ALL' ? undefined : appliedFilters.exchange,
+      environment:
+        appliedFilters.environment === 'ALL'
+          ? undefined
+          : appliedFilters.environment,
       symbol: symbol || undefined,
     }
   }, [appliedFilters])
 
+  const handleExport = async (format: ExportFormat) => {
+    setIsExporting(true)
+    try {
+      await exportDeals(queryFilters, format, {
+        accessToken,
+        onUnauthorized: refresh,
+      })
+    } catch (err) {
+      toastError(
+        `Ошибка экспорта: ${
+          err instanceof Error ? err.message : 'неизвестная ошибка'
+        }`,
+      )
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
   const dealsQuery = useQuery({
     queryKey: ['deals', queryFilters],
     queryFn: () =>
@@ -275,6 +358,11 @@ export default function DealsPage() {
         accessToken,
         onUnauthorized: refresh,
       }),
+    // Resting LIMIT orders fill in the background; keep their deals fresh.
+    refetchInterval: (query) =>
+      query.state.data?.items.some((deal) => deal.pendingOrder)
+        ? PENDING_ORDERS_REFRESH_MS
+        : false,
   })
 
   const statsQuery = useQuery({
@@ -286,7 +374,60 @@ export default function DealsPage() {
       }),
   })
 
-  const data = useMemo(() => dealsQuery.data?.items ?? [], [dealsQuery.data])
+  const unrealizedQuery = useQuery({
+    queryKey: [
+      'dealsUnrealized',
+      queryFilters.exchange,
+      queryFilters.environment,
+      queryFilters.symbol,
+    ],
+    enabled: queryFilters.status !== 'CLOSED',
+    refetchInterval: UNREALIZED_REFRESH_MS,
+    queryFn: () =>
+      fetchUnrealizedPnl(
+        {
+          exchange: queryFilters.exchange,
+          environment: queryFilters.environment,
+          symbol: queryFilters.symbol,
+        },
+        {
+          accessToken,
+          onUnauthorized: refresh,
+        },
+      ),
+  })
+
+  const riskAlertsQuery = useQuery({
+    queryKey: ['dealsRiskAlerts'],
+    refetchInterval: RISK_ALERTS_REFRESH_MS,
+    queryFn: () =>
+      fetchRiskAlerts({
+        accessToken,
+        onUnauthorized: refresh,
+      }),
+  })
+  const riskAlerts = riskAlertsQuery.data ?? []
+
+  const liveMarks = useMemo(() => {
+    const map = new Map<string, { markPrice: string; unrealizedPnl: string }>()
+    for (const item of unrealizedQuery.data?.items ?? []) {
+      if (item.markPrice === null || item.unrealizedPnl === null) continue
+      map.set(item.dealId, {
+        markPrice: item.markPrice,
+        unrealizedPnl: item.unrealizedPnl,
+      })
+    }
+    return map
+  }, [unrealizedQuery.data])
+
+  const data = useMemo(
+    () =>
+      (dealsQuery.data?.items ?? []).map((deal) => {
+        const live = liveMarks.get(deal.id)
+        return live && deal.status === 'OPEN' ? { ...deal, ...live } : deal
+      }),
+    [dealsQuery.data, liveMarks],
+  )
   const rankById = useMemo(() => {
     const sorted = [...data].sort((left, right) => {
       const leftTs = getDealTimestamp(left)
@@ -406,7 +547,10 @@ export default function DealsPage() {
         return next
       })
       setBulkDeleteOpen(false)
-      showNotice(`Удалено сделок: ${result.deletedCount}`)
+      showUndo(
+        `Перемещено в корзину: ${result.deletedCount}`,
+        result.deletedIds,
+      )
     },
     onError: (error) => {
       if (error instanceof Error) {
@@ -528,10 +672,27 @@ export default function DealsPage() {
       {
         accessorKey: 'symbol',
         header: 'Символ',
-        cell: ({ getValue }: { getValue: () => unknown }) => {
+        cell: ({
+          row,
+          getValue,
+        }: {
+          row: Row<Deal>
+          getValue: () => unknown
+        }) => {
           const value = getValue()
           const label = typeof value === 'string' ? value : String(value ?? '')
-          return <Badge variant="secondary">{label}</Badge>
+          return (
+            <div className="flex flex-col items-start gap-0.5">
+              <Badge variant="secondary">{label}</Badge>
+              <span className="text-[10px] text-muted-foreground">
+                {EXCHANGE_LABELS[row.original.exchange] ??
+                  row.original.exchange}
+                {row.original.environment === 'TESTNET'
+                  ? ` · ${EXCHANGE_ENVIRONMENT_LABELS.TESTNET}`
+                  : ''}
+              </span>
+            </div>
+          )
         },
         meta: {
           headerClassName: 'sticky left-[12rem] z-30 bg-background text-xs',
@@ -566,8 +727,22 @@ export default function DealsPage() {
       {
         accessorKey: 'status',
         header: 'Статус',
-        cell: ({ getValue }: { getValue: () => unknown }) =>
-          getValue() === 'OPEN' ? 'ОТКРЫТА' : 'ЗАКРЫТА',
+        cell: ({ row }) => {
+          const pendingOrder = row.original.pendingOrder
+          return (
+            <div className="space-y-1">
+              <span>{DEAL_STATUS_LABELS[row.original.status]}</span>
+              {pendingOrder ? (
+                <p className="text-xs text-muted-foreground">
+                  LIMIT {pendingOrder.side}{' '}
+                  {formatQtyDisplay(pendingOrder.executedQty)}/
+                  {formatQtyDisplay(pendingOrder.origQty)} @{' '}
+                  {formatPriceDisplay(pendingOrder.price)}
+                </p>
+              ) : null}
+            </div>
+          )
+        },
         meta: {
           headerClassName: 'sticky left-[18rem] z-30 bg-background text-xs',
           cellClassName: 'sticky left-[18rem] z-20 bg-background',
@@ -627,6 +802,75 @@ export default function DealsPage() {
           </span>
         ),
       },
+      {
+        id: 'rMultiple',
+        accessorFn: (row) => Number(row.rMultiple ?? 0),
+        sortingFn: numericSort,
+        header: 'R',
+        cell: ({ row }: { row: Row<Deal> }) =>
+          row.original.rMultiple ? (
+            <span className={getSignedClass(row.original.rMultiple)}>
+              {`${row.original.rMultiple}R`}
+            </span>
+          ) : (
+            <span className="text-muted-foreground">-</span>
+          ),
+      },
+      {
+        id: 'unrealizedPnl',
+        accessorFn: (row) => Number(row.unrealizedPnl ?? 0),
+        sortingFn: numericSort,
+        header: 'Плавающий PnL',
+        cell: ({ row }: { row: Row<Deal> }) => {
+          const deal = row.original
+          if (deal.status !== 'OPEN' || deal.unrealizedPnl === undefined) {
+            return <span className="text-muted-foreground">-</span>
+          }
+          return (
+            <span
+              className={getSignedClass(deal.unrealizedPnl)}
+              title={
+                deal.markPrice
+                  ? `Цена: ${formatPriceDisplay(deal.markPrice)}`
+                  : undefined
+              }
+            >
+              {formatMoneyDisplay(deal.unrealizedPnl)}
+            </span>
+          )
+        },
+      },
+      {
+        id: 'riskLevels',
+        enableSorting: false,
+        header: 'Стоп / тейки',
+        cell: ({ row }: { row: Row<Deal> }) => {
+          const deal = row.original
+          const targets = deal.takeProfits ?? []
+          if (!deal.stopLoss && targets.length === 0) {
+            return <span className="text-muted-foreground">-</span>
+          }
+          const hitLabels = getHitLevelLabels(deal)
+          return (
+            <div className="flex flex-wrap items-center gap-1 text-xs">
+              {deal.stopLoss ? (
+                <span>SL {formatPriceDisplay(deal.stopLoss)}</span>
+              ) : null}
+              {targets.map((target, index) => (
+                <span key={`${target.price}-${index}`}>
+                  TP{index + 1} {formatPriceDisplay(target.price)} (
+                  {target.percent}%)
+                </span>
+              ))}
+              {deal.status === 'OPEN' && hitLabels.length > 0 ? (
+                <Badge variant="destructive">
+                  Достигнуто: {hitLabels.join(', ')}
+                </Badge>
+              ) : null}
+            </div>
+          )
+        },
+      },
       {
         id: 'realizedPnlAvailable',
         accessorFn: (row) => getAvailablePnlValue(row),
@@ -727,6 +971,11 @@ export default function DealsPage() {
 
   const stats = statsQuery.data
   const statsLoading = statsQuery.isLoading
+  const unrealizedTotal =
+    queryFilters.status === 'CLOSED'
+      ? undefined
+      : unrealizedQuery.data?.totalUnrealizedPnl
+  const unrealizedLoading = unrealizedQuery.isLoading
   const statsError =
     statsQuery.error instanceof Error ? statsQuery.error.message : null
 
@@ -766,6 +1015,27 @@ export default function DealsPage() {
 
   return (
     <section className="space-y-6">
+      {riskAlerts.length > 0 ? (
+        <Card className="border-destructive">
+          <CardHeader className="py-3">
+            <CardTitle className="text-base text-destructive">
+              Уровни достигнуты
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-1 pt-0 text-sm">
+            {riskAlerts.map((deal) => (
+              <p key={deal.id}>
+                <span className="font-medium">{deal.symbol}</span>{' '}
+                {deal.direction === 'LONG' ? 'Лонг' : 'Шорт'}:{' '}
+                {getHitLevelLabels(deal).join(', ')}
+                {deal.stopLossHitPrice
+                  ? ` (стоп по ${formatPriceDisplay(deal.stopLossHitPrice)})`
+                  : ''}
+              </p>
+            ))}
+          </CardContent>
+        </Card>
+      ) : null}
       <Card>
         <Collapsible open={statsOpen} onOpenChange={setStatsOpen}>
           <CardHeader className="py-3">
@@ -789,6 +1059,14 @@ export default function DealsPage() {
                         : formatMoneyDisplay(stats?.totalPnL ?? '0')}
                     </span>
                   </span>
+                  {unrealizedTotal !== undefined && (
+                    <span>
+                      Плавающий:{' '}
+                      <span className={getSignedClass(unrealizedTotal)}>
+                        {formatMoneyDisplay(unrealizedTotal)}
+                      </span>
+                    </span>
+                  )}
                 </div>
               </div>
               <CollapsibleTrigger asChild>
@@ -859,6 +1137,25 @@ export default function DealsPage() {
                       : formatMoneyDisplay(stats?.totalPnL ?? '0')}
                   </p>
                 </div>
+                <div>
+                  <p className="text-xs text-muted-foreground">Плавающий PnL</p>
+                  <p
+                    className={cn(
+                      'text-sm font-semibold',
+                      getSignedClass(unrealizedTotal),
+                    )}
+                  >
+                    {unrealizedLoading && queryFilters.status !== 'CLOSED'
+                      ? 'Загрузка...'
+                      : formatMoneyDisplay(unrealizedTotal ?? '0')}
+                  </p>
+                  {unrealizedQuery.data?.unpricedSymbols.length ? (
+                    <p className="text-xs text-muted-foreground">
+                      Нет цены:{' '}
+                      {unrealizedQuery.data.unpricedSymbols.join(', ')}
+                    </p>
+                  ) : null}
+                </div>
                 <div>
                   <p className="text-xs text-muted-foreground">Комиссии</p>
                   <p className="text-sm font-semibold text-muted-foreground">
@@ -866,6 +1163,12 @@ export default function DealsPage() {
                       ? 'Загрузка...'
                       : formatMoneyDisplay(stats?.feesTotal ?? '0')}
                   </p>
+                  {stats?.feeConversionFailedCount ? (
+                    <p className="text-xs text-muted-foreground">
+                      Без пересчёта в котируемую валюту:{' '}
+                      {stats.feeConversionFailedCount}
+                    </p>
+                  ) : null}
                 </div>
                 <div>
                   <p className="text-xs text-muted-foreground">
@@ -876,6 +1179,7 @@ export default function DealsPage() {
                   </p>
                 </div>
               </div>
+              <DealsStatsBreakdown queryFilters={queryFilters} />
             </CardContent>
           </CollapsibleContent>
         </Collapsible>
@@ -896,6 +1200,33 @@ export default function DealsPage() {
             >
               Открыть через ордер
             </Button>
+            <Button
+              variant="outline"
+              onClick={() => setImportHistoryOpen(true)}
+            >
+              Импорт истории
+            </Button>
+            <Button variant="outline" onClick={() => setSyncOpen(true)}>
+              Синхронизация
+            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" disabled={isExporting}>
+                  {isExporting ? 'Экспорт...' : 'Экспорт'}
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onSelect={() => handleExport('csv')}>
+                  CSV
+                </DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => handleExport('xlsx')}>
+                  Excel (XLSX)
+                </DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => handleExport('json')}>
+                  JSON
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
             <Button
               variant="outline"
               onClick={() => setShowFilters((prev) => !prev)}
@@ -1065,6 +1396,54 @@ export default function DealsPage() {
                   }
                 />
               </div>
+              <div className="flex min-w-[160px] flex-col gap-2">
+                <Label>Биржа</Label>
+                <Select
+                  value={draftFilters.exchange}
+                  onValueChange={(value) =>
+                    setDraftFilters((prev) => ({
+                      ...prev,
+                      exchange: value as FiltersState['exchange'],
+                    }))
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Биржа" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="ALL">Все</SelectItem>
+                    {EXCHANGE_IDS.map((exchange) => (
+                      <SelectItem key={exchange} value={exchange}>
+                        {EXCHANGE_LABELS[exchange]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex min-w-[160px] flex-col gap-2">
+                <Label>Среда</Label>
+                <Select
+                  value={draftFilters.environment}
+                  onValueChange={(value) =>
+                    setDraftFilters((prev) => ({
+                      ...prev,
+                      environment: value as FiltersState['environment'],
+                    }))
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Среда" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="ALL">Все</SelectItem>
+                    {EXCHANGE_ENVIRONMENTS.map((environment) => (
+                      <SelectItem key={environment} value={environment}>
+                        {EXCHANGE_ENVIRONMENT_LABELS[environment]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
               <div className="flex min-w-[180px] flex-col gap-2">
                 <Label>Статус</Label>
                 <Select
@@ -1081,6 +1460,7 @@ export default function DealsPage() {
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="ALL">Все</SelectItem>
+                    <SelectItem value="PENDING">Ожидают</SelectItem>
                     <SelectItem value="OPEN">Открытые</SelectItem>
                     <SelectItem value="CLOSED">Закрытые</SelectItem>
                   </SelectContent>
@@ -1237,6 +1617,16 @@ export default function DealsPage() {
         onSuccess={showNotice}
         queryFilters={queryFilters}
       />
+      <ImportHistoryDialog
+        open={importHistoryOpen}
+        onOpenChange={setImportHistoryOpen}
+        onSuccess={showNotice}
+      />
+      <SyncDealsDialog
+        open={syncOpen}
+        onOpenChange={setSyncOpen}
+        onSuccess={showNotice}
+      />
       <EditDealDialog
         deal={editing}
         open={Boolean(editing)}
@@ -1282,7 +1672,8 @@ export default function DealsPage() {
           <AlertDialogHeader>
             <AlertDialogTitle>Удалить сделки?</AlertDialogTitle>
             <AlertDialogDescription>
-              Будет удалено: {selectedCount}. Это действие нельзя отменить.
+              Будет удалено: {selectedCount}. Сделки попадут в корзину, откуда
+              их можно восстановить.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
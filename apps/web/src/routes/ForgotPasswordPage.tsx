@@ -0,0 +1,89 @@
+import { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { Link } from 'react-router-dom'
+
+import {
+  forgotPasswordSchema,
+  type ForgotPasswordFormData,
+} from '@/auth/authSchemas'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { requestPasswordReset } from '@/lib/password'
+
+export default function ForgotPasswordPage() {
+  const [error, setError] = useState<string | null>(null)
+  const [sentTo, setSentTo] = useState<string | null>(null)
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<ForgotPasswordFormData>({
+    resolver: zodResolver(forgotPasswordSchema),
+    defaultValues: {
+      email: '',
+    },
+  })
+
+  const onSubmit = async (data: ForgotPasswordFormData) => {
+    setError(null)
+    try {
+      await requestPasswordReset(data.email)
+      setSentTo(data.email)
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Request failed'
+      setError(message)
+    }
+  }
+
+  return (
+    <Card className="mx-auto max-w-md">
+      <CardHeader>
+        <CardTitle>Forgot password</CardTitle>
+        <CardDescription>
+          We will email you a link to choose a new password.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {sentTo ? (
+          <p className="text-sm">
+            If {sentTo} belongs to an account, a reset link is on its way. The
+            link works once and expires soon.
+          </p>
+        ) : (
+          <form className="space-y-4" onSubmit={handleSubmit(onSubmit)}>
+            <div className="space-y-2">
+              <Label htmlFor="email">Email</Label>
+              <Input id="email" type="email" {...register('email')} />
+              {errors.email ? (
+                <p className="text-sm text-destructive">
+                  {errors.email.message}
+                </p>
+              ) : null}
+            </div>
+            {error ? <p className="text-sm text-destructive">{error}</p> : null}
+            <Button type="submit" className="w-full" disabled={isSubmitting}>
+              {isSubmitting ? 'Sending...' : 'Send reset link'}
+            </Button>
+          </form>
+        )}
+      </CardContent>
+      <CardFooter className="text-sm text-muted-foreground">
+        Remembered it?
+        <Link className="ml-1 text-primary" to="/login">
+          Login
+        </Link>
+      </CardFooter>
+    </Card>
+  )
+}
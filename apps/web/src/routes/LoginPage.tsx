@@ -19,8 +19,11 @@ import { Label } from '@/components/ui/label'
 
 export default function LoginPage() {
   const navigate = useNavigate()
-  const { login } = useAuth()
+  const { login, completeTwoFactorLogin } = useAuth()
   const [error, setError] = useState<string | null>(null)
+  const [challengeToken, setChallengeToken] = useState<string | null>(null)
+  const [code, setCode] = useState('')
+  const [isVerifying, setIsVerifying] = useState(false)
 
   const {
     register,
@@ -37,7 +40,12 @@ export default function LoginPage() {
   const onSubmit = async (data: AuthFormData) => {
     setError(null)
     try {
-      await login(data.email, data.password)
+      const result = await login(data.email, data.password)
+      if (result.twoFactorChallenge) {
+        setChallengeToken(result.twoFactorChallenge)
+        setCode('')
+        return
+      }
       navigate('/dashboard')
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Login failed'
@@ -45,6 +53,71 @@ export default function LoginPage() {
     }
   }
 
+  const onVerify = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!challengeToken || !code.trim()) return
+    setError(null)
+    setIsVerifying(true)
+    try {
+      await completeTwoFactorLogin(challengeToken, code.trim())
+      navigate('/dashboard')
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Login failed'
+      setError(message)
+    } finally {
+      setIsVerifying(false)
+    }
+  }
+
+  if (challengeToken) {
+    return (
+      <Card className="mx-auto max-w-md">
+        <CardHeader>
+          <CardTitle>Two-factor authentication</CardTitle>
+          <CardDescription>
+            Enter the code from your authenticator app or a recovery code.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form className="space-y-4" onSubmit={onVerify}>
+            <div className="space-y-2">
+              <Label htmlFor="otp-code">Code</Label>
+              <Input
+                id="otp-code"
+                autoComplete="one-time-code"
+                autoFocus
+                value={code}
+                onChange={(event) => setCode(event.target.value)}
+              />
+            </div>
+            {error ? (
+              <p className="text-sm text-destructive">{error}</p>
+            ) : null}
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={isVerifying || !code.trim()}
+            >
+              {isVerifying ? 'Verifying...' : 'Verify'}
+            </Button>
+          </form>
+        </CardContent>
+        <CardFooter className="text-sm text-muted-foreground">
+          <button
+            type="button"
+            className="text-primary"
+            onClick={() => {
+              setChallengeToken(null)
+              setError(null)
+            }}
+          >
+            Back to login
+          </button>
+        </CardFooter>
+      </Card>
+    )
+  }
+
   return (
     <Card className="mx-auto max-w-md">
       <CardHeader>
@@ -61,7 +134,12 @@ export default function LoginPage() {
             ) : null}
           </div>
           <div className="space-y-2">
-            <Label htmlFor="password">Password</Label>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="password">Password</Label>
+              <Link className="text-sm text-primary" to="/forgot-password">
+                Forgot password?
+              </Link>
+            </div>
             <Input id="password" type="password" {...register('password')} />
             {errors.password ? (
               <p className="text-sm text-destructive">
@@ -0,0 +1,237 @@
+import { useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+
+import { useAuth } from '@/auth/AuthProvider'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import EmptyState from '@/components/ui/empty-state'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  formatMoneyDisplay,
+  formatPriceDisplay,
+  formatQtyDisplay,
+} from '@/lib/format'
+import {
+  EXCHANGE_ENVIRONMENT_LABELS,
+  EXCHANGE_ENVIRONMENTS,
+  type ExchangeEnvironment,
+} from '@/lib/exchanges'
+import { fetchPortfolioHoldings } from '@/lib/portfolio'
+import { cn } from '@/lib/utils'
+
+function getSignedClass(value?: string | number | null) {
+  const numeric = Number(value)
+  if (value === undefined || value === null || Number.isNaN(numeric)) {
+    return 'text-muted-foreground'
+  }
+  if (numeric > 0) return 'text-emerald-600'
+  if (numeric < 0) return 'text-red-600'
+  return 'text-muted-foreground'
+}
+
+export default function PortfolioPage() {
+  const { accessToken, refresh } = useAuth()
+  const [environment, setEnvironment] = useState<ExchangeEnvironment>('MAINNET')
+
+  const holdingsQuery = useQuery({
+    queryKey: ['portfolioHoldings', environment],
+    queryFn: () =>
+      fetchPortfolioHoldings(environment, {
+        accessToken,
+        onUnauthorized: refresh,
+      }),
+  })
+
+  const data = holdingsQuery.data
+  const holdings = data?.holdings ?? []
+
+  return (
+    <section className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+          <div className="space-y-1">
+            <CardTitle>Portfolio</CardTitle>
+            <CardDescription>
+              Holdings built from your transactions at average cost, priced at
+              the Binance ticker and reconciled against your Binance balances.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Select
+              value={environment}
+              onValueChange={(value) =>
+                setEnvironment(value as ExchangeEnvironment)
+              }
+            >
+              <SelectTrigger className="w-[140px]">
+                <SelectValue placeholder="Environment" />
+              </SelectTrigger>
+              <SelectContent>
+                {EXCHANGE_ENVIRONMENTS.map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {EXCHANGE_ENVIRONMENT_LABELS[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              onClick={() => holdingsQuery.refetch()}
+              disabled={holdingsQuery.isFetching}
+            >
+              {holdingsQuery.isFetching ? 'Refreshing...' : 'Refresh'}
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {data && !data.account.available ? (
+            <p className="text-sm text-muted-foreground">
+              Binance balances unavailable
+              {data.account.error ? `: ${data.account.error}` : ''}. The diff
+              column is empty until API keys are configured in Settings.
+            </p>
+          ) : null}
+          {data && data.totals.length > 0 ? (
+            <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+              {data.totals.map((total) => (
+                <div key={total.quoteAsset} className="space-y-1">
+                  <p className="text-xs text-muted-foreground">
+                    {total.quoteAsset} value / invested
+                  </p>
+                  <p className="text-sm font-semibold">
+                    {formatMoneyDisplay(total.value)} /{' '}
+                    {formatMoneyDisplay(total.invested)}
+                  </p>
+                  <p
+                    className={cn(
+                      'text-sm font-semibold',
+                      getSignedClass(total.unrealizedPnl),
+                    )}
+                  >
+                    {formatMoneyDisplay(total.unrealizedPnl)}
+                  </p>
+                </div>
+              ))}
+            </div>
+          ) : null}
+          {holdingsQuery.isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading holdings...</p>
+          ) : holdingsQuery.error instanceof Error ? (
+            <p className="text-sm text-destructive">
+              {holdingsQuery.error.message}
+            </p>
+          ) : holdings.length === 0 ? (
+            <EmptyState
+              title="No holdings yet"
+              description="Add BUY transactions to see them here."
+            />
+          ) : (
+            <div className="overflow-x-auto rounded-md border border-border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Symbol</TableHead>
+                    <TableHead>Net qty</TableHead>
+                    <TableHead>Avg cost</TableHead>
+                    <TableHead>Invested</TableHead>
+                    <TableHead>Price</TableHead>
+                    <TableHead>Value</TableHead>
+                    <TableHead>Unrealized PnL</TableHead>
+                    <TableHead>Allocation</TableHead>
+                    <TableHead>Binance</TableHead>
+                    <TableHead>Diff</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {holdings.map((holding) => (
+                    <TableRow key={holding.symbol}>
+                      <TableCell className="font-medium">
+                        {holding.symbol}
+                      </TableCell>
+                      <TableCell>{formatQtyDisplay(holding.netQty)}</TableCell>
+                      <TableCell>
+                        {holding.avgCost
+                          ? formatPriceDisplay(holding.avgCost)
+                          : '-'}
+                      </TableCell>
+                      <TableCell>
+                        {formatMoneyDisplay(holding.invested)}
+                      </TableCell>
+                      <TableCell>
+                        {holding.price
+                          ? formatPriceDisplay(holding.price)
+                          : '-'}
+                      </TableCell>
+                      <TableCell>
+                        {holding.value
+                          ? formatMoneyDisplay(holding.value)
+                          : '-'}
+                      </TableCell>
+                      <TableCell
+                        className={getSignedClass(holding.unrealizedPnl)}
+                      >
+                        {holding.unrealizedPnl
+                          ? formatMoneyDisplay(holding.unrealizedPnl)
+                          : '-'}
+                      </TableCell>
+                      <TableCell>
+                        {holding.allocationPct
+                          ? `${holding.allocationPct}%`
+                          : '-'}
+                      </TableCell>
+                      <TableCell>
+                        {holding.exchangeQty
+                          ? formatQtyDisplay(holding.exchangeQty)
+                          : '-'}
+                      </TableCell>
+                      <TableCell className={getSignedClass(holding.diffQty)}>
+                        {holding.diffQty
+                          ? formatQtyDisplay(holding.diffQty)
+                          : '-'}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+          {data && data.untrackedBalances.length > 0 ? (
+            <div className="space-y-1">
+              <p className="text-sm font-semibold">
+                Binance balances without transactions
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {data.untrackedBalances
+                  .map(
+                    (balance) =>
+                      `${balance.asset} ${formatQtyDisplay(balance.qty)}`,
+                  )
+                  .join(', ')}
+              </p>
+            </div>
+          ) : null}
+        </CardContent>
+      </Card>
+    </section>
+  )
+}
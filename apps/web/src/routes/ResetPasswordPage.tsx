@@ -0,0 +1,117 @@
+import { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { Link, useSearchParams } from 'react-router-dom'
+
+import {
+  resetPasswordSchema,
+  type ResetPasswordFormData,
+} from '@/auth/authSchemas'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { resetPassword } from '@/lib/password'
+
+export default function ResetPasswordPage() {
+  const [searchParams] = useSearchParams()
+  const token = searchParams.get('token') ?? ''
+  const [error, setError] = useState<string | null>(null)
+  const [isDone, setIsDone] = useState(false)
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<ResetPasswordFormData>({
+    resolver: zodResolver(resetPasswordSchema),
+    defaultValues: {
+      password: '',
+      confirmPassword: '',
+    },
+  })
+
+  const onSubmit = async (data: ResetPasswordFormData) => {
+    setError(null)
+    try {
+      await resetPassword({ token, password: data.password })
+      setIsDone(true)
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Reset failed'
+      setError(message)
+    }
+  }
+
+  return (
+    <Card className="mx-auto max-w-md">
+      <CardHeader>
+        <CardTitle>Choose a new password</CardTitle>
+        <CardDescription>
+          All devices are signed out once the password changes.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!token ? (
+          <p className="text-sm text-destructive">
+            The reset link is incomplete. Request a new one.
+          </p>
+        ) : isDone ? (
+          <p className="text-sm">
+            Your password has been changed. Log in with the new one.
+          </p>
+        ) : (
+          <form className="space-y-4" onSubmit={handleSubmit(onSubmit)}>
+            <div className="space-y-2">
+              <Label htmlFor="password">New password</Label>
+              <Input
+                id="password"
+                type="password"
+                autoComplete="new-password"
+                {...register('password')}
+              />
+              {errors.password ? (
+                <p className="text-sm text-destructive">
+                  {errors.password.message}
+                </p>
+              ) : null}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="confirm-password">Repeat new password</Label>
+              <Input
+                id="confirm-password"
+                type="password"
+                autoComplete="new-password"
+                {...register('confirmPassword')}
+              />
+              {errors.confirmPassword ? (
+                <p className="text-sm text-destructive">
+                  {errors.confirmPassword.message}
+                </p>
+              ) : null}
+            </div>
+            {error ? <p className="text-sm text-destructive">{error}</p> : null}
+            <Button type="submit" className="w-full" disabled={isSubmitting}>
+              {isSubmitting ? 'Saving...' : 'Set password'}
+            </Button>
+          </form>
+        )}
+      </CardContent>
+      <CardFooter className="text-sm text-muted-foreground">
+        {isDone ? null : 'Link expired?'}
+        <Link
+          className="ml-1 text-primary"
+          to={isDone ? '/login' : '/forgot-password'}
+        >
+          {isDone ? 'Login' : 'Request a new one'}
+        </Link>
+      </CardFooter>
+    </Card>
+  )
+}
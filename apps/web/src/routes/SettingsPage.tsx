@@ -1,12 +1,17 @@
 import { useMemo, useState } from 'react'
-import { useForm } from 'react-hook-form'
+import { Controller, useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
 import { z } from 'zod'
 
+import {
+  changePasswordSchema,
+  type ChangePasswordFormData,
+} from '@/auth/authSchemas'
 import { useAuth } from '@/auth/AuthProvider'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
 import {
   Card,
   CardContent,
@@ -24,6 +29,13 @@ import {
 } from '@/components/ui/dialog'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
 import {
   AlertDialog,
   AlertDialogAction,
@@ -35,22 +47,75 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog'
 import {
-  deleteBinanceCredentials,
-  getBinanceCredentials,
-  saveBinanceCredentials,
-  testBinanceCredentials,
-} from '@/lib/binance'
-
-const binanceSchema = z.object({
-  apiKey: z.string().min(10, 'API key must be at least 10 characters'),
-  apiSecret: z.string().min(10, 'API secret must be at least 10 characters'),
+  EXCHANGE_ENVIRONMENT_LABELS,
+  EXCHANGE_ENVIRONMENTS,
+  createExchangeProfile,
+  deleteExchangeProfile,
+  listExchanges,
+  testExchangeProfile,
+  updateExchangeProfile,
+  type ExchangeId,
+  type ExchangeProfile,
+  type ExchangeStatus,
+} from '@/lib/exchanges'
+import { changePassword } from '@/lib/password'
+import {
+  listSessions,
+  revokeAllSessions,
+  revokeSession,
+  type AuthSession,
+} from '@/lib/sessions'
+import {
+  disableTwoFactor,
+  enableTwoFactor,
+  fetchTwoFactorStatus,
+  regenerateRecoveryCodes,
+  startTwoFactorSetup,
+  updateTwoFactor,
+  type TwoFactorSetup,
+} from '@/lib/twoFactor'
+
+const apiKeySchema = z
+  .string()
+  .min(10, 'API key must be at least 10 characters')
+const apiSecretSchema = z
+  .string()
+  .min(10, 'API secret must be at least 10 characters')
+
+const profileFieldsSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Name is required')
+    .max(50, 'Name must be at most 50 characters'),
+  environment: z.enum(EXCHANGE_ENVIRONMENTS),
+  isDefault: z.boolean(),
+})
+
+const createProfileSchema = profileFieldsSchema.extend({
+  apiKey: apiKeySchema,
+  apiSecret: apiSecretSchema,
 })
 
-type BinanceFormValues = z.infer<typeof binanceSchema>
+// Blank keys keep the stored pair.
+const editProfileSchema = profileFieldsSchema
+  .extend({
+    apiKey: apiKeySchema.or(z.literal('')),
+    apiSecret: apiSecretSchema.or(z.literal('')),
+  })
+  .refine((values) => !values.apiKey === !values.apiSecret, {
+    message: 'Enter both the API key and secret to replace them',
+    path: ['apiSecret'],
+  })
+
+type ProfileFormValues = z.infer<typeof editProfileSchema>
 
-const defaultValues = {
+const defaultValues: ProfileFormValues = {
+  name: '',
+  environment: 'MAINNET',
   apiKey: '',
   apiSecret: '',
+  isDefault: false,
 }
 
 function formatDateTime(value?: string) {
@@ -62,294 +127,718 @@ function formatDateTime(value?: string) {
 
 export default function SettingsPage() {
   const { accessToken, refresh } = useAuth()
-  const queryClient = useQueryClient()
-  const [isUpdateOpen, setIsUpdateOpen] = useState(false)
-  const [isDisconnectOpen, setIsDisconnectOpen] = useState(false)
-  const [formError, setFormError] = useState<string | null>(null)
-  const [testError, setTestError] = useState<string | null>(null)
 
-  const credentialsQuery = useQuery({
-    queryKey: ['binanceCredentials'],
+  const exchangesQuery = useQuery({
+    queryKey: ['exchanges'],
     queryFn: () =>
-      getBinanceCredentials({
+      listExchanges({
         accessToken,
         onUnauthorized: refresh,
       }),
   })
 
-  const status = credentialsQuery.data
+  return (
+    <section className="space-y-6">
+      <div className="space-y-1">
+        <h1 className="text-2xl font-semibold">Settings</h1>
+        <p className="text-muted-foreground">Configure your preferences.</p>
+      </div>
+
+      {exchangesQuery.isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading exchanges...</p>
+      ) : exchangesQuery.error instanceof Error ? (
+        <p className="text-sm text-destructive">
+          {exchangesQuery.error.message}
+        </p>
+      ) : (
+        (exchangesQuery.data ?? []).map((status) => (
+          <ExchangeProfilesCard key={status.exchange} status={status} />
+        ))
+      )}
 
-  const createForm = useForm<BinanceFormValues>({
-    resolver: zodResolver(binanceSchema),
-    defaultValues,
+      <ChangePasswordCard />
+      <TwoFactorCard />
+      <SessionsCard />
+    </section>
+  )
+}
+
+function ChangePasswordCard() {
+  const { accessToken, refresh } = useAuth()
+  const queryClient = useQueryClient()
+  const [isChanged, setIsChanged] = useState(false)
+
+  const form = useForm<ChangePasswordFormData>({
+    resolver: zodResolver(changePasswordSchema),
+    defaultValues: {
+      currentPassword: '',
+      newPassword: '',
+      confirmPassword: '',
+    },
   })
 
-  const updateForm = useForm<BinanceFormValues>({
-    resolver: zodResolver(binanceSchema),
-    defaultValues,
+  const changeMutation = useMutation({
+    mutationFn: (values: ChangePasswordFormData) =>
+      changePassword(
+        {
+          currentPassword: values.currentPassword,
+          newPassword: values.newPassword,
+        },
+        { accessToken, onUnauthorized: refresh },
+      ),
+    onSuccess: () => {
+      form.reset()
+      setIsChanged(true)
+      // Other sessions were signed out.
+      queryClient.invalidateQueries({ queryKey: ['sessions'] })
+    },
+    onError: () => setIsChanged(false),
   })
 
-  const saveMutation = useMutation({
-    mutationFn: (values: BinanceFormValues) =>
-      saveBinanceCredentials(values, { accessToken, onUnauthorized: refresh }),
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Password</CardTitle>
+        <CardDescription>
+          Changing the password signs out every other device.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form
+          className="grid gap-4 md:grid-cols-3"
+          onSubmit={form.handleSubmit((values) =>
+            changeMutation.mutate(values),
+          )}
+        >
+          <div className="space-y-2">
+            <Label htmlFor="current-password">Current password</Label>
+            <Input
+              id="current-password"
+              type="password"
+              autoComplete="current-password"
+              {...form.register('currentPassword')}
+            />
+            {form.formState.errors.currentPassword ? (
+              <p className="text-sm text-destructive">
+                {form.formState.errors.currentPassword.message}
+              </p>
+            ) : null}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="new-password">New password</Label>
+            <Input
+              id="new-password"
+              type="password"
+              autoComplete="new-password"
+              {...form.register('newPassword')}
+            />
+            {form.formState.errors.newPassword ? (
+              <p className="text-sm text-destructive">
+                {form.formState.errors.newPassword.message}
+              </p>
+            ) : null}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="confirm-new-password">Repeat new password</Label>
+            <Input
+              id="confirm-new-password"
+              type="password"
+              autoComplete="new-password"
+              {...form.register('confirmPassword')}
+            />
+            {form.formState.errors.confirmPassword ? (
+              <p className="text-sm text-destructive">
+                {form.formState.errors.confirmPassword.message}
+              </p>
+            ) : null}
+          </div>
+          <div className="flex flex-wrap items-center gap-3 md:col-span-3">
+            <Button type="submit" disabled={changeMutation.isPending}>
+              {changeMutation.isPending ? 'Saving...' : 'Change password'}
+            </Button>
+            {changeMutation.error instanceof Error ? (
+              <p className="text-sm text-destructive">
+                {changeMutation.error.message}
+              </p>
+            ) : isChanged ? (
+              <p className="text-sm text-muted-foreground">Password changed.</p>
+            ) : null}
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
+
+function TwoFactorCard() {
+  const { accessToken, refresh } = useAuth()
+  const queryClient = useQueryClient()
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null)
+  const [code, setCode] = useState('')
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [actionError, setActionError] = useState<string | null>(null)
+  const auth = { accessToken, onUnauthorized: refresh }
+
+  const statusQuery = useQuery({
+    queryKey: ['twoFactor'],
+    queryFn: () =>
+      fetchTwoFactorStatus({ accessToken, onUnauthorized: refresh }),
+  })
+  const status = statusQuery.data
+
+  const onActionSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: ['twoFactor'] })
+    setCode('')
+    setActionError(null)
+  }
+  const onActionError = (error: unknown) => {
+    setActionError(
+      error instanceof Error ? error.message : 'Two-factor request failed.',
+    )
+  }
+
+  const setupMutation = useMutation({
+    mutationFn: () => startTwoFactorSetup(auth),
+    onSuccess: (data) => {
+      setSetup(data)
+      setCode('')
+      setActionError(null)
+    },
+    onError: onActionError,
+  })
+
+  const enableMutation = useMutation({
+    mutationFn: () => enableTwoFactor(code.trim(), auth),
+    onSuccess: (data) => {
+      onActionSuccess()
+      setSetup(null)
+      setRecoveryCodes(data.recoveryCodes)
+    },
+    onError: onActionError,
+  })
+
+  const disableMutation = useMutation({
+    mutationFn: () => disableTwoFactor(code.trim(), auth),
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['binanceCredentials'] })
-      createForm.reset(defaultValues)
-      setFormError(null)
+      onActionSuccess()
+      setRecoveryCodes(null)
+    },
+    onError: onActionError,
+  })
+
+  const recoveryCodesMutation = useMutation({
+    mutationFn: () => regenerateRecoveryCodes(code.trim(), auth),
+    onSuccess: (data) => {
+      onActionSuccess()
+      setRecoveryCodes(data.recoveryCodes)
+    },
+    onError: onActionError,
+  })
+
+  const stepUpMutation = useMutation({
+    mutationFn: (stepUp: boolean) =>
+      updateTwoFactor({ stepUp, code: code.trim() }, auth),
+    onSuccess: onActionSuccess,
+    onError: onActionError,
+  })
+
+  const isPending =
+    enableMutation.isPending ||
+    disableMutation.isPending ||
+    recoveryCodesMutation.isPending ||
+    stepUpMutation.isPending
+  const hasCode = code.trim().length >= 6
+
+  const codeInput = (
+    <div className="space-y-2">
+      <Label htmlFor="two-factor-code">Authenticator code</Label>
+      <Input
+        id="two-factor-code"
+        className="max-w-xs"
+        autoComplete="one-time-code"
+        value={code}
+        onChange={(event) => setCode(event.target.value)}
+      />
+    </div>
+  )
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-center gap-2">
+          <CardTitle>Two-factor authentication</CardTitle>
+          {status ? (
+            <Badge variant={status.enabled ? 'default' : 'secondary'}>
+              {status.enabled ? 'Enabled' : 'Off'}
+            </Badge>
+          ) : null}
+        </div>
+        <CardDescription>
+          Ask for a code from an authenticator app (TOTP) when logging in.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {statusQuery.isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : statusQuery.error instanceof Error ? (
+          <p className="text-sm text-destructive">
+            {statusQuery.error.message}
+          </p>
+        ) : status?.enabled ? (
+          <>
+            <p className="text-sm text-muted-foreground">
+              Recovery codes left: {status.recoveryCodesLeft}
+            </p>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="two-factor-step-up"
+                checked={status.stepUp}
+                disabled={!hasCode || isPending}
+                onCheckedChange={(checked) =>
+                  stepUpMutation.mutate(checked === true)
+                }
+              />
+              <Label htmlFor="two-factor-step-up">
+                Also ask for a code before placing orders and changing API keys
+              </Label>
+            </div>
+            {codeInput}
+            <p className="text-xs text-muted-foreground">
+              Enter a current code to change these settings.
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={!hasCode || isPending}
+                onClick={() => recoveryCodesMutation.mutate()}
+              >
+                New recovery codes
+              </Button>
+              <Button
+                variant="destructive"
+                size="sm"
+                disabled={!hasCode || isPending}
+                onClick={() => disableMutation.mutate()}
+              >
+                {disableMutation.isPending ? 'Disabling...' : 'Disable'}
+              </Button>
+            </div>
+          </>
+        ) : setup ? (
+          <>
+            <p className="text-sm">
+              Add this key to your authenticator app, then enter the code it
+              shows.
+            </p>
+            <div className="space-y-1">
+              <p className="break-all font-mono text-sm">{setup.secret}</p>
+              <a className="text-sm text-primary" href={setup.otpauthUri}>
+                Open in authenticator app
+              </a>
+            </div>
+            {codeInput}
+            <div className="flex flex-wrap gap-2">
+              <Button
+                size="sm"
+                disabled={!hasCode || isPending}
+                onClick={() => enableMutation.mutate()}
+              >
+                {enableMutation.isPending ? 'Enabling...' : 'Enable'}
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  setSetup(null)
+                  setActionError(null)
+                }}
+              >
+                Cancel
+              </Button>
+            </div>
+          </>
+        ) : (
+          <Button
+            variant="outline"
+            onClick={() => setupMutation.mutate()}
+            disabled={setupMutation.isPending}
+          >
+            {setupMutation.isPending ? 'Preparing...' : 'Set up'}
+          </Button>
+        )}
+        {recoveryCodes ? (
+          <div className="space-y-2 rounded-md border border-border p-3">
+            <p className="text-sm font-medium">
+              Recovery codes. Each works once; store them somewhere safe, they
+              are not shown again.
+            </p>
+            <div className="grid grid-cols-2 gap-1 font-mono text-sm">
+              {recoveryCodes.map((recoveryCode) => (
+                <span key={recoveryCode}>{recoveryCode}</span>
+              ))}
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setRecoveryCodes(null)}
+            >
+              Done
+            </Button>
+          </div>
+        ) : null}
+        {actionError ? (
+          <p className="text-sm text-destructive">{actionError}</p>
+        ) : null}
+      </CardContent>
+    </Card>
+  )
+}
+
+function SessionsCard() {
+  const { accessToken, refresh, logout } = useAuth()
+  const queryClient = useQueryClient()
+  const [isLogoutAllOpen, setIsLogoutAllOpen] = useState(false)
+  const [actionError, setActionError] = useState<string | null>(null)
+
+  const sessionsQuery = useQuery({
+    queryKey: ['sessions'],
+    queryFn: () => listSessions({ accessToken, onUnauthorized: refresh }),
+  })
+
+  const revokeMutation = useMutation({
+    mutationFn: (session: AuthSession) =>
+      revokeSession(session.id, { accessToken, onUnauthorized: refresh }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['sessions'] })
+      setActionError(null)
     },
     onError: (error) => {
-      setFormError(
-        error instanceof Error ? error.message : 'Failed to save credentials.',
+      setActionError(
+        error instanceof Error ? error.message : 'Failed to revoke session.',
       )
     },
   })
 
-  const updateMutation = useMutation({
-    mutationFn: (values: BinanceFormValues) =>
-      saveBinanceCredentials(values, { accessToken, onUnauthorized: refresh }),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['binanceCredentials'] })
-      updateForm.reset(defaultValues)
-      setIsUpdateOpen(false)
-      setFormError(null)
+  const logoutAllMutation = useMutation({
+    mutationFn: async () => {
+      await revokeAllSessions({ accessToken, onUnauthorized: refresh })
+      await logout()
     },
     onError: (error) => {
-      setFormError(
-        error instanceof Error
-          ? error.message
-          : 'Failed to update credentials.',
+      setIsLogoutAllOpen(false)
+      setActionError(
+        error instanceof Error ? error.message : 'Failed to log out.',
       )
     },
   })
 
+  const sessions = sessionsQuery.data ?? []
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1">
+          <CardTitle>Sessions</CardTitle>
+          <CardDescription>
+            Devices signed in to your account. Revoked sessions have to log in
+            again.
+          </CardDescription>
+        </div>
+        <Button
+          variant="destructive"
+          onClick={() => setIsLogoutAllOpen(true)}
+          disabled={logoutAllMutation.isPending}
+        >
+          Log out everywhere
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {sessionsQuery.isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading sessions...</p>
+        ) : sessionsQuery.error instanceof Error ? (
+          <p className="text-sm text-destructive">
+            {sessionsQuery.error.message}
+          </p>
+        ) : sessions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No active sessions.</p>
+        ) : (
+          sessions.map((session) => (
+            <div
+              key={session.id}
+              className="flex flex-wrap items-start justify-between gap-3 rounded-md border border-border p-3"
+            >
+              <div className="space-y-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium">{session.device}</span>
+                  {session.current ? <Badge>This device</Badge> : null}
+                  {session.ip ? (
+                    <span className="text-sm text-muted-foreground">
+                      {session.ip}
+                    </span>
+                  ) : null}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Last used {formatDateTime(session.lastUsedAt) ?? '—'} · Signed
+                  in {formatDateTime(session.signedInAt) ?? '—'}
+                </p>
+                {session.userAgent ? (
+                  <p className="break-all text-xs text-muted-foreground">
+                    {session.userAgent}
+                  </p>
+                ) : null}
+              </div>
+              {!session.current ? (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => revokeMutation.mutate(session)}
+                  disabled={revokeMutation.isPending}
+                >
+                  Revoke
+                </Button>
+              ) : null}
+            </div>
+          ))
+        )}
+        {actionError ? (
+          <p className="text-sm text-destructive">{actionError}</p>
+        ) : null}
+      </CardContent>
+
+      <AlertDialog open={isLogoutAllOpen} onOpenChange={setIsLogoutAllOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Log out everywhere?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Every session is revoked, including this one. You will need to log
+              in again on each device.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={logoutAllMutation.isPending}>
+              Cancel
+            </AlertDialogCancel>
+            <AlertDialogAction
+              disabled={logoutAllMutation.isPending}
+              onClick={() => logoutAllMutation.mutate()}
+            >
+              {logoutAllMutation.isPending ? 'Logging out...' : 'Log out'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  )
+}
+
+function ExchangeProfilesCard({ status }: { status: ExchangeStatus }) {
+  const [isCreateOpen, setIsCreateOpen] = useState(false)
+  const [editTarget, setEditTarget] = useState<ExchangeProfile | null>(null)
+  const { exchange, label, profiles } = status
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+          <div className="space-y-1">
+            <CardTitle>{label} Integration</CardTitle>
+            <CardDescription>
+              Store encrypted API keys per account and verify Spot access.
+            </CardDescription>
+          </div>
+          <Button variant="outline" onClick={() => setIsCreateOpen(true)}>
+            Add profile
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {profiles.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No API keys yet. Add a profile to connect {label}.
+            </p>
+          ) : (
+            profiles.map((profile) => (
+              <ExchangeProfileRow
+                key={profile.id}
+                exchange={exchange}
+                label={label}
+                profile={profile}
+                onEdit={() => setEditTarget(profile)}
+              />
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <ProfileDialog
+        exchange={exchange}
+        label={label}
+        open={isCreateOpen}
+        onOpenChange={setIsCreateOpen}
+      />
+      <ProfileDialog
+        exchange={exchange}
+        label={label}
+        profile={editTarget ?? undefined}
+        open={editTarget !== null}
+        onOpenChange={(open) => {
+          if (!open) setEditTarget(null)
+        }}
+      />
+    </>
+  )
+}
+
+function ExchangeProfileRow({
+  exchange,
+  label,
+  profile,
+  onEdit,
+}: {
+  exchange: ExchangeId
+  label: string
+  profile: ExchangeProfile
+  onEdit: () => void
+}) {
+  const { accessToken, refresh } = useAuth()
+  const queryClient = useQueryClient()
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false)
+  const [actionError, setActionError] = useState<string | null>(null)
+
   const testMutation = useMutation({
     mutationFn: () =>
-      testBinanceCredentials({ accessToken, onUnauthorized: refresh }),
+      testExchangeProfile(exchange, profile.id, {
+        accessToken,
+        onUnauthorized: refresh,
+      }),
     onSuccess: (data) => {
-      queryClient.invalidateQueries({ queryKey: ['binanceCredentials'] })
-      setTestError(data.ok ? null : (data.message ?? 'Connection failed.'))
+      queryClient.invalidateQueries({ queryKey: ['exchanges'] })
+      setActionError(data.ok ? null : (data.message ?? 'Connection failed.'))
     },
     onError: (error) => {
-      setTestError(
+      setActionError(
         error instanceof Error ? error.message : 'Connection test failed.',
       )
     },
   })
 
+  const defaultMutation = useMutation({
+    mutationFn: () =>
+      updateExchangeProfile(
+        exchange,
+        profile.id,
+        { isDefault: true },
+        { accessToken, onUnauthorized: refresh },
+      ),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['exchanges'] })
+      setActionError(null)
+    },
+    onError: (error) => {
+      setActionError(
+        error instanceof Error ? error.message : 'Failed to update profile.',
+      )
+    },
+  })
+
   const deleteMutation = useMutation({
     mutationFn: () =>
-      deleteBinanceCredentials({ accessToken, onUnauthorized: refresh }),
+      deleteExchangeProfile(exchange, profile.id, {
+        accessToken,
+        onUnauthorized: refresh,
+      }),
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['binanceCredentials'] })
-      setIsDisconnectOpen(false)
-      setTestError(null)
+      queryClient.invalidateQueries({ queryKey: ['exchanges'] })
+      setIsDeleteOpen(false)
+      setActionError(null)
     },
   })
 
   const testStatus = useMemo(() => {
-    if (!status?.lastTestedAt) return null
-    const label = status.lastTestOk ? 'Last test: ok' : 'Last test: failed'
+    if (!profile.lastTestedAt) return null
+    const label = profile.lastTestOk ? 'Last test: ok' : 'Last test: failed'
     return {
       label,
-      time: formatDateTime(status.lastTestedAt),
-      ok: Boolean(status.lastTestOk),
-      error: status.lastTestError,
+      time: formatDateTime(profile.lastTestedAt),
+      ok: Boolean(profile.lastTestOk),
+      error: profile.lastTestError,
     }
-  }, [status?.lastTestedAt, status?.lastTestOk, status?.lastTestError])
+  }, [profile.lastTestedAt, profile.lastTestOk, profile.lastTestError])
 
   return (
-    <section className="space-y-6">
-      <div className="space-y-1">
-        <h1 className="text-2xl font-semibold">Settings</h1>
-        <p className="text-muted-foreground">Configure your preferences.</p>
+    <div className="space-y-3 rounded-md border border-border p-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-medium">{profile.name}</span>
+        {profile.isDefault ? <Badge>Default</Badge> : null}
+        <Badge variant="outline">
+          {EXCHANGE_ENVIRONMENT_LABELS[profile.environment]}
+        </Badge>
+        <span className="text-sm text-muted-foreground">
+          API key ****{profile.apiKeyLast4}
+        </span>
+        {profile.updatedAt ? (
+          <span className="text-xs text-muted-foreground">
+            Updated {formatDateTime(profile.updatedAt)}
+          </span>
+        ) : null}
       </div>
-
-      <Card>
-        <CardHeader className="space-y-1">
-          <CardTitle>Binance Integration</CardTitle>
-          <CardDescription>
-            Store encrypted API keys and verify Spot access.
-          </CardDescription>
-        </CardHeader>
-        <CardContent className="space-y-4">
-          {credentialsQuery.isLoading ? (
-            <p className="text-sm text-muted-foreground">Loading status...</p>
-          ) : credentialsQuery.error instanceof Error ? (
-            <p className="text-sm text-destructive">
-              {credentialsQuery.error.message}
-            </p>
-          ) : status?.connected ? (
-            <div className="space-y-3">
-              <div className="flex flex-wrap items-center gap-2">
-                <Badge variant="secondary">Connected</Badge>
-                <span className="text-sm text-muted-foreground">
-                  API key ****{status.apiKeyLast4}
-                </span>
-                {status.updatedAt ? (
-                  <span className="text-xs text-muted-foreground">
-                    Updated {formatDateTime(status.updatedAt)}
-                  </span>
-                ) : null}
-              </div>
-              {testStatus ? (
-                <div className="flex flex-wrap items-center gap-2 text-sm">
-                  <Badge variant={testStatus.ok ? 'default' : 'destructive'}>
-                    {testStatus.label}
-                  </Badge>
-                  {testStatus.time ? (
-                    <span className="text-muted-foreground">
-                      {testStatus.time}
-                    </span>
-                  ) : null}
-                  {!testStatus.ok && testStatus.error ? (
-                    <span className="text-destructive">{testStatus.error}</span>
-                  ) : null}
-                </div>
-              ) : null}
-              {testError ? (
-                <p className="text-sm text-destructive">{testError}</p>
-              ) : null}
-              <div className="flex flex-wrap gap-2">
-                <Button
-                  variant="outline"
-                  onClick={() => {
-                    setFormError(null)
-                    setTestError(null)
-                    updateForm.reset(defaultValues)
-                    setIsUpdateOpen(true)
-                  }}
-                >
-                  Update keys
-                </Button>
-                <Button
-                  variant="outline"
-                  onClick={() => testMutation.mutate()}
-                  disabled={testMutation.isPending}
-                >
-                  {testMutation.isPending ? 'Testing...' : 'Test connection'}
-                </Button>
-                <Button
-                  variant="destructive"
-                  onClick={() => setIsDisconnectOpen(true)}
-                  disabled={deleteMutation.isPending}
-                >
-                  Disconnect
-                </Button>
-              </div>
-            </div>
-          ) : (
-            <form
-              className="space-y-4"
-              onSubmit={createForm.handleSubmit((values) =>
-                saveMutation.mutate(values),
-              )}
-            >
-              <div className="grid gap-4 md:grid-cols-2">
-                <div className="space-y-2">
-                  <Label htmlFor="binance-api-key">API key</Label>
-                  <Input
-                    id="binance-api-key"
-                    autoComplete="off"
-                    {...createForm.register('apiKey')}
-                  />
-                  {createForm.formState.errors.apiKey ? (
-                    <p className="text-sm text-destructive">
-                      {createForm.formState.errors.apiKey.message}
-                    </p>
-                  ) : null}
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="binance-api-secret">API secret</Label>
-                  <Input
-                    id="binance-api-secret"
-                    type="password"
-                    autoComplete="off"
-                    {...createForm.register('apiSecret')}
-                  />
-                  {createForm.formState.errors.apiSecret ? (
-                    <p className="text-sm text-destructive">
-                      {createForm.formState.errors.apiSecret.message}
-                    </p>
-                  ) : null}
-                </div>
-              </div>
-              {formError ? (
-                <p className="text-sm text-destructive">{formError}</p>
-              ) : null}
-              <Button type="submit" disabled={saveMutation.isPending}>
-                {saveMutation.isPending ? 'Saving...' : 'Save'}
-              </Button>
-            </form>
-          )}
-        </CardContent>
-      </Card>
-
-      <Dialog open={isUpdateOpen} onOpenChange={setIsUpdateOpen}>
-        <DialogContent>
-          <DialogHeader>
-            <DialogTitle>Update Binance keys</DialogTitle>
-            <DialogDescription>
-              Replace your API key and secret securely.
-            </DialogDescription>
-          </DialogHeader>
-          <form
-            className="space-y-4"
-            onSubmit={updateForm.handleSubmit((values) =>
-              updateMutation.mutate(values),
-            )}
+      {testStatus ? (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <Badge variant={testStatus.ok ? 'default' : 'destructive'}>
+            {testStatus.label}
+          </Badge>
+          {testStatus.time ? (
+            <span className="text-muted-foreground">{testStatus.time}</span>
+          ) : null}
+          {!testStatus.ok && testStatus.error ? (
+            <span className="text-destructive">{testStatus.error}</span>
+          ) : null}
+        </div>
+      ) : null}
+      {actionError ? (
+        <p className="text-sm text-destructive">{actionError}</p>
+      ) : null}
+      <div className="flex flex-wrap gap-2">
+        <Button variant="outline" size="sm" onClick={onEdit}>
+          Edit
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => testMutation.mutate()}
+          disabled={testMutation.isPending}
+        >
+          {testMutation.isPending ? 'Testing...' : 'Test connection'}
+        </Button>
+        {!profile.isDefault ? (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => defaultMutation.mutate()}
+            disabled={defaultMutation.isPending}
           >
-            <div className="space-y-2">
-              <Label htmlFor="update-api-key">API key</Label>
-              <Input
-                id="update-api-key"
-                autoComplete="off"
-                {...updateForm.register('apiKey')}
-              />
-              {updateForm.formState.errors.apiKey ? (
-                <p className="text-sm text-destructive">
-                  {updateForm.formState.errors.apiKey.message}
-                </p>
-              ) : null}
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="update-api-secret">API secret</Label>
-              <Input
-                id="update-api-secret"
-                type="password"
-                autoComplete="off"
-                {...updateForm.register('apiSecret')}
-              />
-              {updateForm.formState.errors.apiSecret ? (
-                <p className="text-sm text-destructive">
-                  {updateForm.formState.errors.apiSecret.message}
-                </p>
-              ) : null}
-            </div>
-            {formError ? (
-              <p className="text-sm text-destructive">{formError}</p>
-            ) : null}
-            <DialogFooter>
-              <Button
-                type="button"
-                variant="outline"
-                onClick={() => setIsUpdateOpen(false)}
-              >
-                Cancel
-              </Button>
-              <Button type="submit" disabled={updateMutation.isPending}>
-                {updateMutation.isPending ? 'Updating...' : 'Update'}
-              </Button>
-            </DialogFooter>
-          </form>
-        </DialogContent>
-      </Dialog>
+            Make default
+          </Button>
+        ) : null}
+        <Button
+          variant="destructive"
+          size="sm"
+          onClick={() => setIsDeleteOpen(true)}
+          disabled={deleteMutation.isPending}
+        >
+          Delete
+        </Button>
+      </div>
 
-      <AlertDialog open={isDisconnectOpen} onOpenChange={setIsDisconnectOpen}>
+      <AlertDialog open={isDeleteOpen} onOpenChange={setIsDeleteOpen}>
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>Disconnect Binance?</AlertDialogTitle>
+            <AlertDialogTitle>
+              Delete {label} profile {profile.name}?
+            </AlertDialogTitle>
             <AlertDialogDescription>
-              This removes your encrypted API credentials from the database.
+              This removes the encrypted API credentials from the database.
+              Deals placed with this profile fall back to the default one.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -360,11 +849,202 @@ export default function SettingsPage() {
               disabled={deleteMutation.isPending}
               onClick={() => deleteMutation.mutate()}
             >
-              {deleteMutation.isPending ? 'Disconnecting...' : 'Disconnect'}
+              {deleteMutation.isPending ? 'Deleting...' : 'Delete'}
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
-    </section>
+    </div>
+  )
+}
+
+function ProfileDialog({
+  exchange,
+  label,
+  profile,
+  open,
+  onOpenChange,
+}: {
+  exchange: ExchangeId
+  label: string
+  // Edits this profile; creates a new one when omitted.
+  profile?: ExchangeProfile
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}) {
+  const { accessToken, refresh } = useAuth()
+  const queryClient = useQueryClient()
+  const [formError, setFormError] = useState<string | null>(null)
+  const idPrefix = `${exchange.toLowerCase()}-${profile?.id ?? 'new'}`
+
+  const form = useForm<ProfileFormValues>({
+    resolver: zodResolver(profile ? editProfileSchema : createProfileSchema),
+    defaultValues,
+  })
+
+  const saveMutation = useMutation({
+    mutationFn: (values: ProfileFormValues) => {
+      const auth = { accessToken, onUnauthorized: refresh }
+      if (profile) {
+        const keys =
+          values.apiKey || values.apiSecret
+            ? { apiKey: values.apiKey, apiSecret: values.apiSecret }
+            : {}
+        return updateExchangeProfile(
+          exchange,
+          profile.id,
+          { name: values.name, environment: values.environment, ...keys },
+          auth,
+        )
+      }
+      return createExchangeProfile(exchange, values, auth)
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['exchanges'] })
+      onOpenChange(false)
+    },
+    onError: (error) => {
+      setFormError(
+        error instanceof Error ? error.message : 'Failed to save profile.',
+      )
+    },
+  })
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent
+        onOpenAutoFocus={() => {
+          setFormError(null)
+          form.reset(
+            profile
+              ? {
+                  name: profile.name,
+                  environment: profile.environment,
+                  apiKey: '',
+                  apiSecret: '',
+                  isDefault: profile.isDefault,
+                }
+              : defaultValues,
+          )
+        }}
+      >
+        <DialogHeader>
+          <DialogTitle>
+            {profile ? `Edit ${label} profile` : `Add ${label} profile`}
+          </DialogTitle>
+          <DialogDescription>
+            {profile
+              ? 'Rename the profile, switch its environment or replace its keys.'
+              : 'Name the account these API keys belong to.'}
+          </DialogDescription>
+        </DialogHeader>
+        <form
+          className="space-y-4"
+          onSubmit={form.handleSubmit((values) => saveMutation.mutate(values))}
+        >
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor={`${idPrefix}-name`}>Name</Label>
+              <Input
+                id={`${idPrefix}-name`}
+                placeholder="Main"
+                {...form.register('name')}
+              />
+              {form.formState.errors.name ? (
+                <p className="text-sm text-destructive">
+                  {form.formState.errors.name.message}
+                </p>
+              ) : null}
+            </div>
+            <div className="space-y-2">
+              <Label>Environment</Label>
+              <Controller
+                name="environment"
+                control={form.control}
+                render={({ field }) => (
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select environment" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {EXCHANGE_ENVIRONMENTS.map((environment) => (
+                        <SelectItem key={environment} value={environment}>
+                          {EXCHANGE_ENVIRONMENT_LABELS[environment]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`${idPrefix}-api-key`}>API key</Label>
+            <Input
+              id={`${idPrefix}-api-key`}
+              autoComplete="off"
+              placeholder={
+                profile ? `Keep ****${profile.apiKeyLast4}` : undefined
+              }
+              {...form.register('apiKey')}
+            />
+            {form.formState.errors.apiKey ? (
+              <p className="text-sm text-destructive">
+                {form.formState.errors.apiKey.message}
+              </p>
+            ) : null}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`${idPrefix}-api-secret`}>API secret</Label>
+            <Input
+              id={`${idPrefix}-api-secret`}
+              type="password"
+              autoComplete="off"
+              {...form.register('apiSecret')}
+            />
+            {form.formState.errors.apiSecret ? (
+              <p className="text-sm text-destructive">
+                {form.formState.errors.apiSecret.message}
+              </p>
+            ) : null}
+          </div>
+          {!profile ? (
+            <div className="flex items-center gap-2">
+              <Controller
+                name="isDefault"
+                control={form.control}
+                render={({ field }) => (
+                  <Checkbox
+                    id={`${idPrefix}-default`}
+                    checked={field.value}
+                    onCheckedChange={(checked) =>
+                      field.onChange(checked === true)
+                    }
+                  />
+                )}
+              />
+              <Label htmlFor={`${idPrefix}-default`}>
+                Use as default profile
+              </Label>
+            </div>
+          ) : null}
+          {formError ? (
+            <p className="text-sm text-destructive">{formError}</p>
+          ) : null}
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saveMutation.isPending}>
+              {saveMutation.isPending ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
   )
 }
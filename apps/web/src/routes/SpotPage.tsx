@@ -1,6 +1,7 @@
 import {
   memo,
   useCallback,
+  useEffect,
   useMemo,
   useRef,
   useState,
@@ -59,14 +60,26 @@ import {
 import {
   cancelReplaceSpotOrder,
   cancelSpotOrder,
+  cancelSpotOrderList,
   getSpotAccount,
   getSpotMyTrades,
   getSpotOpenOrders,
+  getSpotOrderLists,
+  placeSpotOcoOrder,
   placeSpotOrder,
   type BinanceSpotOrder,
+  type BinanceSpotOrderList,
+  type BinanceSpotOrderType,
   type BinanceSpotTrade,
 } from '@/lib/binance'
+import {
+  EXCHANGE_ENVIRONMENT_LABELS,
+  formatExchangeProfile,
+  listExchanges,
+} from '@/lib/exchanges'
+import { subscribeAppEvents } from '@/lib/events'
 import { useAppTable } from '@/lib/table'
+import { toastInfo } from '@/lib/toast'
 
 const emptyToUndefined = (value: unknown) => {
   if (value === '' || value === null || value === undefined) {
@@ -86,6 +99,9 @@ const optionalDecimalSchema = z.preprocess(
   decimalStringSchema.optional(),
 )
 
+const STOP_ORDER_TYPES = ['STOP_LOSS_LIMIT', 'TAKE_PROFIT_LIMIT']
+const EVENTS_RETRY_MS = 5_000
+
 const spotOrderSchema = z
   .object({
     symbol: z
@@ -95,26 +111,72 @@ const spotOrderSchema = z
       .max(20, 'Symbol must be at most 20 characters')
       .regex(/^[A-Z0-9]+$/, 'Symbol must be uppercase'),
     side: z.enum(['BUY', 'SELL']),
-    type: z.enum(['MARKET', 'LIMIT']),
+    type: z.enum([
+      'MARKET',
+      'LIMIT',
+      'STOP_LOSS_LIMIT',
+      'TAKE_PROFIT_LIMIT',
+      'LIMIT_MAKER',
+      'OCO',
+    ]),
     quantity: optionalDecimalSchema,
     quoteOrderQty: optionalDecimalSchema,
     price: optionalDecimalSchema,
-    timeInForce: z.literal('GTC').optional(),
+    stopPrice: optionalDecimalSchema,
+    stopLimitPrice: optionalDecimalSchema,
+    timeInForce: z.enum(['GTC', 'IOC', 'FOK']).optional(),
+    newClientOrderId: z.preprocess(
+      emptyToUndefined,
+      z
+        .string()
+        .trim()
+        .regex(
+          /^[.A-Z:/a-z0-9_-]{1,36}$/,
+          'Use up to 36 letters, digits or ._:/-',
+        )
+        .optional(),
+    ),
     marketBuyMode: z.enum(['QUOTE', 'BASE']).optional(),
   })
   .superRefine((values, ctx) => {
-    if (values.type === 'LIMIT') {
+    if (values.type !== 'MARKET') {
       if (!values.quantity) {
         ctx.addIssue({
           code: z.ZodIssueCode.custom,
-          message: 'Quantity is required for LIMIT orders',
+          message: `Quantity is required for ${values.type} orders`,
           path: ['quantity'],
         })
       }
       if (!values.price) {
         ctx.addIssue({
           code: z.ZodIssueCode.custom,
-          message: 'Price is required for LIMIT orders',
+          message: `Price is required for ${values.type} orders`,
+          path: ['price'],
+        })
+      }
+    }
+
+    if (
+      (STOP_ORDER_TYPES.includes(values.type) || values.type === 'OCO') &&
+      !values.stopPrice
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Stop price is required for ${values.type} orders`,
+        path: ['stopPrice'],
+      })
+    }
+
+    if (values.type === 'OCO' && values.price && values.stopPrice) {
+      const price = Number(values.price)
+      const stopPrice = Number(values.stopPrice)
+      if (values.side === 'SELL' ? price <= stopPrice : price >= stopPrice) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message:
+            values.side === 'SELL'
+              ? 'Limit price must be above the stop price for SELL OCO'
+              : 'Limit price must be below the stop price for BUY OCO',
           path: ['price'],
         })
       }
@@ -177,10 +239,27 @@ const defaultOrderValues: SpotOrderFormValues = {
   quantity: '',
   quoteOrderQty: '',
   price: '',
+  stopPrice: '',
+  stopLimitPrice: '',
   timeInForce: 'GTC',
+  newClientOrderId: '',
   marketBuyMode: 'QUOTE',
 }
 
+type EditableOrderType = Exclude<BinanceSpotOrderType, 'MARKET'>
+
+const EDITABLE_ORDER_TYPES: string[] = [
+  'LIMIT',
+  'STOP_LOSS_LIMIT',
+  'TAKE_PROFIT_LIMIT',
+  'LIMIT_MAKER',
+]
+
+// Binance reports -1 for orders that are not part of an order list.
+function isOrderListLeg(order: BinanceSpotOrder) {
+  return order.orderListId !== undefined && order.orderListId !== -1
+}
+
 function parseBalanceValue(value: string) {
   const parsed = Number(value)
   return Number.isFinite(parsed) ? parsed : 0
@@ -188,7 +267,7 @@ function parseBalanceValue(value: string) {
 
 type BinanceFilterFailure = {
   code: 'BINANCE_FILTER_FAILURE'
-  filter: 'NOTIONAL' | 'LOT_SIZE' | 'PRICE_FILTER'
+  filter: 'NOTIONAL' | 'LOT_SIZE' | 'PRICE_FILTER' | 'PERCENT_PRICE'
   symbol: string
   message: string
   details?: {
@@ -196,18 +275,38 @@ type BinanceFilterFailure = {
     notional?: string
     quoteAsset?: string
     baseAsset?: string
+    price?: string
+    averagePrice?: string
+    minPrice?: string
+    maxPrice?: string
   }
 }
 
+function formatPercentPriceFailure(failure: BinanceFilterFailure) {
+  const { price, averagePrice, minPrice, maxPrice } = failure.details ?? {}
+  const range = [
+    minPrice ? `at least ${minPrice}` : null,
+    maxPrice ? `at most ${maxPrice}` : null,
+  ]
+    .filter(Boolean)
+    .join(' and ')
+  return `Price ${price ?? ''} is too far from the ${failure.symbol} average price ${averagePrice ?? ''}: it must be ${range}.`
+}
+
 type ApiErrorWithData = Error & {
   data?: BinanceFilterFailure
 }
 
-const AccountCard = memo(function AccountCard() {
+type SpotCardProps = {
+  profileId?: string
+}
+
+const AccountCard = memo(function AccountCard({ profileId }: SpotCardProps) {
   const { accessToken, refresh } = useAuth()
   const accountQuery = useQuery({
-    queryKey: ['spotAccount'],
-    queryFn: () => getSpotAccount({ accessToken, onUnauthorized: refresh }),
+    queryKey: ['spotAccount', profileId],
+    queryFn: () =>
+      getSpotAccount({ accessToken, onUnauthorized: refresh }, profileId),
   })
 
   const balances = useMemo(() => {
@@ -262,7 +361,9 @@ const AccountCard = memo(function AccountCard() {
   )
 })
 
-const PlaceOrderCard = memo(function PlaceOrderCard() {
+const PlaceOrderCard = memo(function PlaceOrderCard({
+  profileId,
+}: SpotCardProps) {
   const { accessToken, refresh } = useAuth()
   const queryClient = useQueryClient()
   const [orderError, setOrderError] = useState<string | null>(null)
@@ -287,8 +388,28 @@ const PlaceOrderCard = memo(function PlaceOrderCard() {
   })
 
   const placeOrderMutation = useMutation({
-    mutationFn: (values: SpotOrderFormValues) =>
-      placeSpotOrder(
+    mutationFn: (
+      values: SpotOrderFormValues,
+    ): Promise<BinanceSpotOrder | BinanceSpotOrderList> => {
+      const auth = { accessToken, onUnauthorized: refresh }
+      if (values.type === 'OCO') {
+        return placeSpotOcoOrder(
+          {
+            symbol: values.symbol.trim().toUpperCase(),
+            side: values.side,
+            quantity: values.quantity?.trim() ?? '',
+            price: values.price?.trim() ?? '',
+            stopPrice: values.stopPrice?.trim() ?? '',
+            stopLimitPrice: values.stopLimitPrice?.trim() || undefined,
+            stopLimitTimeInForce: values.stopLimitPrice
+              ? (values.timeInForce ?? 'GTC')
+              : undefined,
+          },
+          auth,
+          profileId,
+        )
+      }
+      return placeSpotOrder(
         {
           symbol: values.symbol.trim().toUpperCase(),
           side: values.side,
@@ -305,15 +426,31 @@ const PlaceOrderCard = memo(function PlaceOrderCard() {
                 ? values.quoteOrderQty?.trim() || undefined
                 : undefined
               : undefined,
-          price: values.type === 'LIMIT' ? values.price?.trim() : undefined,
-          timeInForce: values.type === 'LIMIT' ? 'GTC' : undefined,
+          price: values.type !== 'MARKET' ? values.price?.trim() : undefined,
+          stopPrice: STOP_ORDER_TYPES.includes(values.type)
+            ? values.stopPrice?.trim()
+            : undefined,
+          timeInForce:
+            values.type === 'MARKET' || values.type === 'LIMIT_MAKER'
+              ? undefined
+              : (values.timeInForce ?? 'GTC'),
+          newClientOrderId: values.newClientOrderId,
         },
-        { accessToken, onUnauthorized: refresh },
-      ),
-    onSuccess: () => {
+        auth,
+        profileId,
+      )
+    },
+    onSuccess: (result) => {
       queryClient.invalidateQueries({ queryKey: ['spotAccount'] })
       queryClient.invalidateQueries({ queryKey: ['spotOpenOrders'] })
+      queryClient.invalidateQueries({ queryKey: ['spotOrderLists'] })
       queryClient.invalidateQueries({ queryKey: ['spotMyTrades'] })
+      // IOC/FOK orders that could not fill come back EXPIRED, not as errors.
+      if ('status' in result && result.status === 'EXPIRED') {
+        toastInfo(`Order ${result.orderId} expired`, {
+          description: `Filled ${result.executedQty} of ${result.origQty}.`,
+        })
+      }
       setOrderError(null)
       orderForm.clearErrors()
     },
@@ -338,7 +475,7 @@ const PlaceOrderCard = memo(function PlaceOrderCard() {
             return
           }
 
-          if (values.type === 'LIMIT') {
+          if (values.type !== 'MARKET') {
             orderForm.setError('price', { message })
             return
           }
@@ -346,6 +483,18 @@ const PlaceOrderCard = memo(function PlaceOrderCard() {
           orderForm.setError('quantity', { message })
           return
         }
+        if (filter === 'PERCENT_PRICE') {
+          const message = formatPercentPriceFailure(apiError.data)
+          setOrderError(message)
+          const values = orderForm.getValues()
+          orderForm.setError(
+            apiError.data.details?.price === values.price?.trim()
+              ? 'price'
+              : 'stopPrice',
+            { message },
+          )
+          return
+        }
       }
 
       setOrderError(
@@ -413,6 +562,14 @@ const PlaceOrderCard = memo(function PlaceOrderCard() {
                   <SelectContent>
                     <SelectItem value="MARKET">MARKET</SelectItem>
                     <SelectItem value="LIMIT">LIMIT</SelectItem>
+                    <SelectItem value="STOP_LOSS_LIMIT">
+                      STOP_LOSS_LIMIT
+                    </SelectItem>
+                    <SelectItem value="TAKE_PROFIT_LIMIT">
+                      TAKE_PROFIT_LIMIT
+                    </SelectItem>
+                    <SelectItem value="LIMIT_MAKER">LIMIT_MAKER</SelectItem>
+                    <SelectItem value="OCO">OCO</SelectItem>
                   </SelectContent>
                 </Select>
               )}
@@ -510,27 +667,115 @@ const PlaceOrderCard = memo(function PlaceOrderCard() {
             </div>
           )}
 
-          {orderType === 'LIMIT' ? (
-            <>
-              <div className="space-y-2">
-                <Label htmlFor="spot-price">Price</Label>
-                <Input
-                  id="spot-price"
-                  {...orderForm.register('price')}
-                  placeholder="10000"
-                />
-                {orderForm.formState.errors.price ? (
-                  <p className="text-xs text-destructive">
-                    {orderForm.formState.errors.price.message}
-                  </p>
-                ) : null}
-              </div>
+          {orderType !== 'MARKET' ? (
+            <div className="space-y-2">
+              <Label htmlFor="spot-price">
+                {orderType === 'OCO' ? 'Limit price' : 'Price'}
+              </Label>
+              <Input
+                id="spot-price"
+                {...orderForm.register('price')}
+                placeholder="10000"
+              />
+              {orderForm.formState.errors.price ? (
+                <p className="text-xs text-destructive">
+                  {orderForm.formState.errors.price.message}
+                </p>
+              ) : null}
+            </div>
+          ) : null}
 
-              <div className="space-y-2">
-                <Label htmlFor="spot-tif">Time in force</Label>
-                <Input id="spot-tif" value="GTC" disabled />
-              </div>
-            </>
+          {STOP_ORDER_TYPES.includes(orderType) || orderType === 'OCO' ? (
+            <div className="space-y-2">
+              <Label htmlFor="spot-stop-price">Stop price</Label>
+              <Input
+                id="spot-stop-price"
+                {...orderForm.register('stopPrice')}
+                placeholder="9500"
+              />
+              {orderForm.formState.errors.stopPrice ? (
+                <p className="text-xs text-destructive">
+                  {orderForm.formState.errors.stopPrice.message}
+                </p>
+              ) : null}
+            </div>
+          ) : null}
+
+          {orderType === 'OCO' ? (
+            <div className="space-y-2">
+              <Label htmlFor="spot-stop-limit-price">Stop limit price</Label>
+              <Input
+                id="spot-stop-limit-price"
+                {...orderForm.register('stopLimitPrice')}
+                placeholder="Leave empty for a stop-market leg"
+              />
+              {orderForm.formState.errors.stopLimitPrice ? (
+                <p className="text-xs text-destructive">
+                  {orderForm.formState.errors.stopLimitPrice.message}
+                </p>
+              ) : null}
+            </div>
+          ) : null}
+
+          {orderType === 'LIMIT' ||
+          STOP_ORDER_TYPES.includes(orderType) ||
+          orderType === 'OCO' ? (
+            <div className="space-y-2">
+              <Label>
+                {orderType === 'OCO'
+                  ? 'Stop limit time in force'
+                  : 'Time in force'}
+              </Label>
+              <Controller
+                name="timeInForce"
+                control={orderForm.control}
+                render={({ field }) => (
+                  <Select
+                    value={field.value ?? 'GTC'}
+                    onValueChange={field.onChange}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="GTC">
+                        GTC (good till canceled)
+                      </SelectItem>
+                      <SelectItem value="IOC">
+                        IOC (fill what you can, cancel the rest)
+                      </SelectItem>
+                      <SelectItem value="FOK">
+                        FOK (fill all or cancel)
+                      </SelectItem>
+                    </SelectContent>
+                  </Select>
+                )}
+              />
+            </div>
+          ) : null}
+
+          {orderType !== 'OCO' ? (
+            <div className="space-y-2">
+              <Label htmlFor="spot-client-order-id">Client order id</Label>
+              <Input
+                id="spot-client-order-id"
+                {...orderForm.register('newClientOrderId')}
+                placeholder="Generated when empty"
+              />
+              {orderForm.formState.errors.newClientOrderId ? (
+                <p className="text-xs text-destructive">
+                  {orderForm.formState.errors.newClientOrderId.message}
+                </p>
+              ) : null}
+            </div>
+          ) : null}
+
+          {orderType === 'OCO' ? (
+            <p className="text-xs text-muted-foreground md:col-span-2">
+              {orderSide === 'SELL'
+                ? 'Takes profit at the limit price above the market and stops out at the stop price below it; filling one leg cancels the other.'
+                : 'Buys at the limit price below the market or on a breakout through the stop price above it; filling one leg cancels the other.'}
+            </p>
           ) : null}
 
           <div className="md:col-span-2 flex items-center gap-3">
@@ -553,7 +798,9 @@ const PlaceOrderCard = memo(function PlaceOrderCard() {
   )
 })
 
-const OpenOrdersCard = memo(function OpenOrdersCard() {
+const OpenOrdersCard = memo(function OpenOrdersCard({
+  profileId,
+}: SpotCardProps) {
   const { accessToken, refresh } = useAuth()
   const queryClient = useQueryClient()
   const [openOrdersError, setOpenOrdersError] = useState<string | null>(null)
@@ -564,29 +811,70 @@ const OpenOrdersCard = memo(function OpenOrdersCard() {
   const [cancelTarget, setCancelTarget] = useState<BinanceSpotOrder | null>(
     null,
   )
+  const [cancelListTarget, setCancelListTarget] =
+    useState<BinanceSpotOrderList | null>(null)
   const [editTarget, setEditTarget] = useState<BinanceSpotOrder | null>(null)
   const [editPrice, setEditPrice] = useState('')
+  const [editStopPrice, setEditStopPrice] = useState('')
   const [editQuantity, setEditQuantity] = useState('')
   const [editError, setEditError] = useState<string | null>(null)
   const [editFieldErrors, setEditFieldErrors] = useState<{
     price?: string
+    stopPrice?: string
     quantity?: string
   }>({})
 
   const openOrdersQuery = useQuery({
-    queryKey: ['spotOpenOrders', openOrdersSymbolQuery],
+    queryKey: ['spotOpenOrders', openOrdersSymbolQuery, profileId],
     queryFn: () => {
       if (!openOrdersSymbolQuery) {
         return Promise.resolve([])
       }
-      return getSpotOpenOrders(openOrdersSymbolQuery, {
-        accessToken,
-        onUnauthorized: refresh,
-      })
+      return getSpotOpenOrders(
+        openOrdersSymbolQuery,
+        { accessToken, onUnauthorized: refresh },
+        profileId,
+      )
+    },
+    enabled: Boolean(openOrdersSymbolQuery),
+  })
+
+  const orderListsQuery = useQuery({
+    queryKey: ['spotOrderLists', openOrdersSymbolQuery, profileId],
+    queryFn: () => {
+      if (!openOrdersSymbolQuery) {
+        return Promise.resolve([])
+      }
+      return getSpotOrderLists(
+        openOrdersSymbolQuery,
+        { accessToken, onUnauthorized: refresh },
+        profileId,
+      )
     },
     enabled: Boolean(openOrdersSymbolQuery),
   })
 
+  const cancelListMutation = useMutation({
+    mutationFn: (list: BinanceSpotOrderList) =>
+      cancelSpotOrderList(
+        { symbol: list.symbol, orderListId: list.orderListId },
+        { accessToken, onUnauthorized: refresh },
+        profileId,
+      ),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['spotAccount'] })
+      queryClient.invalidateQueries({ queryKey: ['spotOpenOrders'] })
+      queryClient.invalidateQueries({ queryKey: ['spotOrderLists'] })
+      setCancelListTarget(null)
+      setOpenOrdersError(null)
+    },
+    onError: (error) => {
+      setOpenOrdersError(
+        error instanceof Error ? error.message : 'Failed to cancel order list.',
+      )
+    },
+  })
+
   const cancelMutation = useMutation({
     mutationFn: (order: BinanceSpotOrder) =>
       cancelSpotOrder(
@@ -595,10 +883,12 @@ const OpenOrdersCard = memo(function OpenOrdersCard() {
           orderId: order.orderId,
         },
         { accessToken, onUnauthorized: refresh },
+        profileId,
       ),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['spotAccount'] })
       queryClient.invalidateQueries({ queryKey: ['spotOpenOrders'] })
+      queryClient.invalidateQueries({ queryKey: ['spotOrderLists'] })
       setCancelTarget(null)
       setOpenOrdersError(null)
     },
@@ -617,12 +907,16 @@ const OpenOrdersCard = memo(function OpenOrdersCard() {
           cancelOrderId: order.orderId,
           cancelReplaceMode: 'STOP_ON_FAILURE',
           side: order.side,
-          type: 'LIMIT',
-          timeInForce: 'GTC',
+          type: order.type as EditableOrderType,
+          timeInForce: order.type === 'LIMIT_MAKER' ? undefined : 'GTC',
           quantity: editQuantity.trim(),
           price: editPrice.trim(),
+          stopPrice: STOP_ORDER_TYPES.includes(order.type)
+            ? editStopPrice.trim()
+            : undefined,
         },
         { accessToken, onUnauthorized: refresh },
+        profileId,
       ),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['spotAccount'] })
@@ -655,6 +949,16 @@ const OpenOrdersCard = memo(function OpenOrdersCard() {
           setEditFieldErrors({ price: apiError.data.message })
           return
         }
+        if (filter === 'PERCENT_PRICE') {
+          const message = formatPercentPriceFailure(apiError.data)
+          setEditError(message)
+          setEditFieldErrors(
+            apiError.data.details?.price === editPrice.trim()
+              ? { price: message }
+              : { stopPrice: message },
+          )
+          return
+        }
       }
 
       setEditError(
@@ -670,6 +974,7 @@ const OpenOrdersCard = memo(function OpenOrdersCard() {
   const handleEditOpen = useCallback((order: BinanceSpotOrder) => {
     setEditTarget(order)
     setEditPrice(order.price)
+    setEditStopPrice(order.stopPrice ?? '')
     setEditQuantity(order.origQty)
     setEditError(null)
     setEditFieldErrors({})
@@ -681,6 +986,20 @@ const OpenOrdersCard = memo(function OpenOrdersCard() {
       { accessorKey: 'side', header: 'Side' },
       { accessorKey: 'type', header: 'Type' },
       { accessorKey: 'price', header: 'Price' },
+      {
+        id: 'stopPrice',
+        header: 'Stop',
+        cell: ({ row }: { row: Row<BinanceSpotOrder> }) =>
+          Number(row.original.stopPrice ?? 0) > 0
+            ? row.original.stopPrice
+            : '-',
+      },
+      {
+        id: 'orderListId',
+        header: 'List',
+        cell: ({ row }: { row: Row<BinanceSpotOrder> }) =>
+          isOrderListLeg(row.original) ? `#${row.original.orderListId}` : '-',
+      },
       { accessorKey: 'origQty', header: 'Orig Qty' },
       { accessorKey: 'executedQty', header: 'Executed' },
       { accessorKey: 'status', header: 'Status' },
@@ -690,8 +1009,10 @@ const OpenOrdersCard = memo(function OpenOrdersCard() {
         header: 'Actions',
         cell: ({ row }: { row: Row<BinanceSpotOrder> }) => {
           const order = row.original
+          // OCO legs are managed through their order list.
           const canEdit =
-            order.type === 'LIMIT' &&
+            EDITABLE_ORDER_TYPES.includes(order.type) &&
+            !isOrderListLeg(order) &&
             (order.status === 'NEW' || order.status === 'PARTIALLY_FILLED')
 
           return (
@@ -748,6 +1069,13 @@ const OpenOrdersCard = memo(function OpenOrdersCard() {
     [],
   )
 
+  const handleEditStopPriceChange = useCallback(
+    (event: ChangeEvent<HTMLInputElement>) => {
+      setEditStopPrice(event.target.value)
+    },
+    [],
+  )
+
   const handleEditQuantityChange = useCallback(
     (event: ChangeEvent<HTMLInputElement>) => {
       setEditQuantity(event.target.value)
@@ -845,6 +1173,31 @@ const OpenOrdersCard = memo(function OpenOrdersCard() {
           </div>
         )}
 
+        {orderListsQuery.data && orderListsQuery.data.length > 0 ? (
+          <div className="space-y-2">
+            <p className="text-sm font-semibold">Order lists</p>
+            {orderListsQuery.data.map((list) => (
+              <div
+                key={list.orderListId}
+                className="flex flex-wrap items-center justify-between gap-2 rounded-md border border-border px-3 py-2 text-sm"
+              >
+                <span>
+                  {list.contingencyType} #{list.orderListId} ·{' '}
+                  {list.listOrderStatus} · orders{' '}
+                  {list.orders.map((order) => order.orderId).join(', ')}
+                </span>
+                <Button
+                  variant="destructive"
+                  size="sm"
+                  onClick={() => setCancelListTarget(list)}
+                >
+                  Cancel list
+                </Button>
+              </div>
+            ))}
+          </div>
+        ) : null}
+
         {openOrdersError ? (
           <p className="text-sm text-destructive">{openOrdersError}</p>
         ) : null}
@@ -888,6 +1241,39 @@ const OpenOrdersCard = memo(function OpenOrdersCard() {
         </AlertDialogContent>
       </AlertDialog>
 
+      <AlertDialog
+        open={Boolean(cancelListTarget)}
+        onOpenChange={(open) => {
+          if (!open) {
+            setCancelListTarget(null)
+          }
+        }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancel order list?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This will cancel every order in the selected list on Binance.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={cancelListMutation.isPending}>
+              Keep
+            </AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (cancelListTarget) {
+                  cancelListMutation.mutate(cancelListTarget)
+                }
+              }}
+              disabled={cancelListMutation.isPending}
+            >
+              {cancelListMutation.isPending ? 'Canceling...' : 'Cancel list'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       <Dialog
         open={Boolean(editTarget)}
         onOpenChange={(open) => {
@@ -898,7 +1284,7 @@ const OpenOrdersCard = memo(function OpenOrdersCard() {
       >
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Edit limit order</DialogTitle>
+            <DialogTitle>Edit {editTarget?.type ?? 'limit'} order</DialogTitle>
           </DialogHeader>
           <div className="space-y-3">
             <div className="space-y-2">
@@ -914,6 +1300,21 @@ const OpenOrdersCard = memo(function OpenOrdersCard() {
                 </p>
               ) : null}
             </div>
+            {editTarget && STOP_ORDER_TYPES.includes(editTarget.type) ? (
+              <div className="space-y-2">
+                <Label htmlFor="edit-stop-price">Stop price</Label>
+                <Input
+                  id="edit-stop-price"
+                  value={editStopPrice}
+                  onChange={handleEditStopPriceChange}
+                />
+                {editFieldErrors.stopPrice ? (
+                  <p className="text-xs text-destructive">
+                    {editFieldErrors.stopPrice}
+                  </p>
+                ) : null}
+              </div>
+            ) : null}
             <div className="space-y-2">
               <Label htmlFor="edit-quantity">Quantity</Label>
               <Input
@@ -952,7 +1353,9 @@ const OpenOrdersCard = memo(function OpenOrdersCard() {
   )
 })
 
-const RecentTradesCard = memo(function RecentTradesCard() {
+const RecentTradesCard = memo(function RecentTradesCard({
+  profileId,
+}: SpotCardProps) {
   const { accessToken, refresh } = useAuth()
   const tradesSymbolRef = useRef<HTMLInputElement>(null)
   const [tradesSymbolQuery, setTradesSymbolQuery] = useState<string | null>(
@@ -960,7 +1363,7 @@ const RecentTradesCard = memo(function RecentTradesCard() {
   )
 
   const tradesQuery = useQuery({
-    queryKey: ['spotMyTrades', tradesSymbolQuery],
+    queryKey: ['spotMyTrades', tradesSymbolQuery, profileId],
     queryFn: () => {
       if (!tradesSymbolQuery) {
         return Promise.resolve([])
@@ -968,6 +1371,7 @@ const RecentTradesCard = memo(function RecentTradesCard() {
       return getSpotMyTrades(
         { symbol: tradesSymbolQuery, limit: 100 },
         { accessToken, onUnauthorized: refresh },
+        profileId,
       )
     },
     enabled: Boolean(tradesSymbolQuery),
@@ -1110,20 +1514,111 @@ const RecentTradesCard = memo(function RecentTradesCard() {
   )
 })
 
+// Announces fills of the shown profile; useAppEvents refreshes the queries.
+function useOrderFillToasts(profileId?: string) {
+  const { accessToken, refresh } = useAuth()
+
+  useEffect(() => {
+    const controller = new AbortController()
+    let retryTimer: ReturnType<typeof setTimeout> | undefined
+
+    const connect = () => {
+      subscribeAppEvents(
+        { accessToken, onUnauthorized: refresh },
+        controller.signal,
+        (event) => {
+          if (
+            event.type === 'order.filled' &&
+            event.profileId === profileId &&
+            event.status === 'FILLED'
+          ) {
+            toastInfo(
+              `${event.side} ${event.symbol} order ${event.orderId} filled`,
+            )
+          }
+        },
+      )
+        .catch(() => undefined)
+        .finally(() => {
+          if (!controller.signal.aborted) {
+            retryTimer = setTimeout(connect, EVENTS_RETRY_MS)
+          }
+        })
+    }
+    connect()
+
+    return () => {
+      controller.abort()
+      clearTimeout(retryTimer)
+    }
+  }, [accessToken, refresh, profileId])
+}
+
 export default function SpotPage() {
+  const { accessToken, refresh } = useAuth()
+  const [selectedProfileId, setSelectedProfileId] = useState<string | null>(
+    null,
+  )
+  const exchangesQuery = useQuery({
+    queryKey: ['exchanges'],
+    queryFn: () => listExchanges({ accessToken, onUnauthorized: refresh }),
+  })
+  const profiles = useMemo(
+    () =>
+      exchangesQuery.data?.find((status) => status.exchange === 'BINANCE')
+        ?.profiles ?? [],
+    [exchangesQuery.data],
+  )
+  // Falls back to the default profile, also when the selected one is deleted.
+  const profile =
+    profiles.find((item) => item.id === selectedProfileId) ??
+    profiles.find((item) => item.isDefault) ??
+    profiles[0]
+  const profileId = profile?.id
+  useOrderFillToasts(profileId)
+
   return (
     <section className="space-y-6">
-      <div className="space-y-1">
-        <h1 className="text-2xl font-semibold">Spot trading</h1>
-        <p className="text-muted-foreground">
-          Testnet balances and orders via Binance Spot API.
-        </p>
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div className="space-y-1">
+          <h1 className="text-2xl font-semibold">Spot trading</h1>
+          <p className="text-muted-foreground">
+            Balances and orders via Binance Spot API
+            {profile
+              ? ` on ${EXCHANGE_ENVIRONMENT_LABELS[profile.environment].toLowerCase()}`
+              : ''}
+            .
+          </p>
+        </div>
+        {profiles.length > 1 ? (
+          <div className="w-64 space-y-2">
+            <Label>API key profile</Label>
+            <Select value={profileId} onValueChange={setSelectedProfileId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select profile" />
+              </SelectTrigger>
+              <SelectContent>
+                {profiles.map((item) => (
+                  <SelectItem key={item.id} value={item.id}>
+                    {formatExchangeProfile(item)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ) : null}
       </div>
 
-      <AccountCard />
-      <PlaceOrderCard />
-      <RecentTradesCard />
-      <OpenOrdersCard />
+      {exchangesQuery.isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading profiles...</p>
+      ) : (
+        <>
+          <AccountCard profileId={profileId} />
+          <PlaceOrderCard profileId={profileId} />
+          <RecentTradesCard profileId={profileId} />
+          <OpenOrdersCard profileId={profileId} />
+        </>
+      )}
     </section>
   )
 }
@@ -13,8 +13,14 @@ import {
 } from '@tanstack/react-table'
 
 import { useAuth } from '@/auth/AuthProvider'
+import {
+  EXCHANGE_ENVIRONMENT_LABELS,
+  EXCHANGE_ENVIRONMENTS,
+  type ExchangeEnvironment,
+} from '@/lib/exchanges'
 import {
   listTransactions,
+  exportTransactions,
   createTransaction,
   updateTransaction,
   deleteTransaction,
@@ -23,6 +29,12 @@ import {
 } from '@/lib/transactions'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
 import { Input } from '@/components/ui/input'
 import {
   Select,
@@ -57,7 +69,10 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog'
+import { type ExportFormat } from '@/lib/api'
 import { useAppTable } from '@/lib/table'
+import { toastError } from '@/lib/toast'
+import { useUndoTransactionsDelete } from '@/lib/trash'
 
 const emptyToUndefined = (value: unknown) => {
   if (value === '' || value === null || value === undefined) {
@@ -94,6 +109,7 @@ const transactionFormSchema = z.object({
       'Invalid date',
     ),
   exchange: z.preprocess(emptyToUndefined, z.string().trim().optional()),
+  environment: z.enum(EXCHANGE_ENVIRONMENTS),
   note: z.preprocess(emptyToUndefined, z.string().trim().max(500).optional()),
 })
 
@@ -104,6 +120,7 @@ type FiltersState = {
   to: string
   symbol: string
   type: 'ALL' | TransactionType
+  environment: 'ALL' | ExchangeEnvironment
 }
 
 const defaultFilters: FiltersState = {
@@ -111,6 +128,7 @@ const defaultFilters: FiltersState = {
   to: '',
   symbol: '',
   type: 'ALL',
+  environment: 'MAINNET',
 }
 
 const defaultFormValues: TransactionFormValues = {
@@ -122,6 +140,7 @@ const defaultFormValues: TransactionFormValues = {
   feeAsset: undefined,
   occurredAt: '',
   exchange: 'binance',
+  environment: 'MAINNET',
   note: '',
 }
 
@@ -147,6 +166,7 @@ function buildPayload(values: TransactionFormValues) {
     feeAsset: values.feeAsset?.trim() || undefined,
     occurredAt: new Date(values.occurredAt).toISOString(),
     exchange: values.exchange?.trim() || undefined,
+    environment: values.environment,
     note: values.note?.trim() || undefined,
   }
 }
@@ -154,16 +174,24 @@ function buildPayload(values: TransactionFormValues) {
 export default function TransactionsPage() {
   const { accessToken, refresh } = useAuth()
   const queryClient = useQueryClient()
+  const showUndo = useUndoTransactionsDelete()
   const [filters, setFilters] = useState<FiltersState>(defaultFilters)
   const [page, setPage] = useState(1)
   const [limit, setLimit] = useState(20)
   const [isAddOpen, setIsAddOpen] = useState(false)
   const [editing, setEditing] = useState<Transaction | null>(null)
   const [deleteTarget, setDeleteTarget] = useState<Transaction | null>(null)
+  const [isExporting, setIsExporting] = useState(false)
 
   useEffect(() => {
     setPage(1)
-  }, [filters.from, filters.to, filters.symbol, filters.type])
+  }, [
+    filters.from,
+    filters.to,
+    filters.symbol,
+    filters.type,
+    filters.environment,
+  ])
 
   const queryFilters = useMemo(
     () => ({
@@ -171,10 +199,20 @@ export default function TransactionsPage() {
       to: filters.to || undefined,
       symbol: filters.symbol ? filters.symbol.trim().toUpperCase() : undefined,
       type: filters.type === 'ALL' ? undefined : filters.type,
+      environment:
+        filters.environment === 'ALL' ? undefined : filters.environment,
       page,
       limit,
     }),
-    [filters.from, filters.to, filters.symbol, filters.type, page, limit],
+    [
+      filters.from,
+      filters.to,
+      filters.symbol,
+      filters.type,
+      filters.environment,
+      page,
+      limit,
+    ],
   )
 
   const transactionsQuery = useQuery({
@@ -186,6 +224,25 @@ export default function TransactionsPage() {
       }),
   })
 
+  const handleExport = async (format: ExportFormat) => {
+    const { page: _page, limit: _limit, ...exportFilters } = queryFilters
+    void _page
+    void _limit
+    setIsExporting(true)
+    try {
+      await exportTransactions(exportFilters, format, {
+        accessToken,
+        onUnauthorized: refresh,
+      })
+    } catch (err) {
+      toastError(
+        `Export failed: ${err instanceof Error ? err.message : 'Unknown error'}`,
+      )
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
   const addForm = useForm<TransactionFormValues>({
     resolver: zodResolver(transactionFormSchema),
     defaultValues: defaultFormValues,
@@ -207,6 +264,7 @@ export default function TransactionsPage() {
       feeAsset: editing.feeAsset,
       occurredAt: formatDateInput(editing.occurredAt),
       exchange: editing.exchange ?? 'binance',
+      environment: editing.environment ?? 'MAINNET',
       note: editing.note ?? '',
     })
   }, [editing, editForm])
@@ -241,18 +299,16 @@ export default function TransactionsPage() {
   })
 
   const deleteMutation = useMutation({
-    mutationFn: async () => {
-      if (!deleteTarget) {
-        throw new Error('No transaction selected')
-      }
-      return deleteTransaction(deleteTarget.id, {
+    mutationFn: async (id: string) => {
+      return deleteTransaction(id, {
         accessToken,
         onUnauthorized: refresh,
       })
     },
-    onSuccess: () => {
+    onSuccess: (_result, id) => {
       queryClient.invalidateQueries({ queryKey: ['transactions'] })
       setDeleteTarget(null)
+      showUndo('Transaction moved to trash', [id])
     },
   })
 
@@ -286,6 +342,12 @@ export default function TransactionsPage() {
           return typeof value === 'string' ? value : String(value ?? '')
         },
       },
+      {
+        accessorKey: 'environment',
+        header: 'Environment',
+        cell: ({ row }: { row: Row<Transaction> }) =>
+          EXCHANGE_ENVIRONMENT_LABELS[row.original.environment ?? 'MAINNET'],
+      },
       {
         accessorKey: 'quantity',
         header: 'Quantity',
@@ -350,10 +412,30 @@ export default function TransactionsPage() {
               Track buys and sells locally.
             </p>
           </div>
-          <Button onClick={() => setIsAddOpen(true)}>Add Transaction</Button>
+          <div className="flex flex-wrap gap-2">
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" disabled={isExporting}>
+                  {isExporting ? 'Exporting...' : 'Export'}
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onSelect={() => handleExport('csv')}>
+                  CSV
+                </DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => handleExport('xlsx')}>
+                  Excel (XLSX)
+                </DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => handleExport('json')}>
+                  JSON
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <Button onClick={() => setIsAddOpen(true)}>Add Transaction</Button>
+          </div>
         </CardHeader>
         <CardContent className="space-y-6">
-          <div className="grid gap-3 md:grid-cols-2 lg:grid-cols-5">
+          <div className="grid gap-3 md:grid-cols-3 lg:grid-cols-6">
             <Input
               type="date"
               value={filters.from}
@@ -393,6 +475,27 @@ export default function TransactionsPage() {
                 <SelectItem value="SELL">SELL</SelectItem>
               </SelectContent>
             </Select>
+            <Select
+              value={filters.environment}
+              onValueChange={(value) =>
+                setFilters((prev) => ({
+                  ...prev,
+                  environment: value as FiltersState['environment'],
+                }))
+              }
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Environment" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="ALL">All environments</SelectItem>
+                {EXCHANGE_ENVIRONMENTS.map((environment) => (
+                  <SelectItem key={environment} value={environment}>
+                    {EXCHANGE_ENVIRONMENT_LABELS[environment]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
             <Input
               type="number"
               min={1}
@@ -615,6 +718,34 @@ export default function TransactionsPage() {
                 </label>
                 <Input id="add-exchange" {...addForm.register('exchange')} />
               </div>
+              <div className="space-y-2">
+                <label
+                  className="text-sm font-medium"
+                  htmlFor="add-environment"
+                >
+                  Environment
+                </label>
+                <Select
+                  value={addForm.watch('environment')}
+                  onValueChange={(value) =>
+                    addForm.setValue(
+                      'environment',
+                      value as ExchangeEnvironment,
+                    )
+                  }
+                >
+                  <SelectTrigger id="add-environment">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EXCHANGE_ENVIRONMENTS.map((environment) => (
+                      <SelectItem key={environment} value={environment}>
+                        {EXCHANGE_ENVIRONMENT_LABELS[environment]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
               <div className="space-y-2 md:col-span-2">
                 <label className="text-sm font-medium" htmlFor="add-note">
                   Note
@@ -764,6 +895,34 @@ export default function TransactionsPage() {
                 </label>
                 <Input id="edit-exchange" {...editForm.register('exchange')} />
               </div>
+              <div className="space-y-2">
+                <label
+                  className="text-sm font-medium"
+                  htmlFor="edit-environment"
+                >
+                  Environment
+                </label>
+                <Select
+                  value={editForm.watch('environment')}
+                  onValueChange={(value) =>
+                    editForm.setValue(
+                      'environment',
+                      value as ExchangeEnvironment,
+                    )
+                  }
+                >
+                  <SelectTrigger id="edit-environment">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EXCHANGE_ENVIRONMENTS.map((environment) => (
+                      <SelectItem key={environment} value={environment}>
+                        {EXCHANGE_ENVIRONMENT_LABELS[environment]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
               <div className="space-y-2 md:col-span-2">
                 <label className="text-sm font-medium" htmlFor="edit-note">
                   Note
@@ -798,7 +957,7 @@ export default function TransactionsPage() {
           <AlertDialogHeader>
             <AlertDialogTitle>Delete transaction?</AlertDialogTitle>
             <AlertDialogDescription>
-              This action cannot be undone.
+              It goes to the trash, where you can restore it.
             </AlertDialogDescription>
           </AlertDialogHeader>
           {deleteMutation.error instanceof Error && (
@@ -811,7 +970,9 @@ export default function TransactionsPage() {
               Cancel
             </AlertDialogCancel>
             <AlertDialogAction
-              onClick={() => deleteMutation.mutate()}
+              onClick={() => {
+                if (deleteTarget) deleteMutation.mutate(deleteTarget.id)
+              }}
               disabled={deleteMutation.isPending}
             >
               {deleteMutation.isPending ? 'Deleting...' : 'Delete'}
@@ -0,0 +1,379 @@
+import { useState } from 'react'
+import {
+  useMutation,
+  useQuery,
+  useQueryClient,
+  type QueryKey,
+} from '@tanstack/react-query'
+import type { CheckedState } from '@radix-ui/react-checkbox'
+
+import { useAuth } from '@/auth/AuthProvider'
+import { fetchDealsTrash, purgeDeals, restoreDeals } from '@/api/dealsApi'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { Checkbox } from '@/components/ui/checkbox'
+import EmptyState from '@/components/ui/empty-state'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { formatPriceDisplay, formatQtyDisplay } from '@/lib/format'
+import { toastError, toastSuccess } from '@/lib/toast'
+import {
+  listTransactionsTrash,
+  purgeTransactions,
+  restoreTransactions,
+} from '@/lib/transactions'
+
+const PAGE_SIZE = 20
+
+type AuthOptions = {
+  accessToken: string | null
+  onUnauthorized: () => Promise<string | null>
+}
+
+type TrashRow = {
+  id: string
+  title: string
+  detail: string
+  deletedAt?: string
+}
+
+type TrashPanelProps = {
+  noun: string
+  queryKey: QueryKey
+  // Queries that show the items again once they are restored.
+  restoredKeys: QueryKey[]
+  fetchPage: (
+    page: number,
+    auth: AuthOptions,
+  ) => Promise<{ items: TrashRow[]; total: number }>
+  restore: (ids: string[], auth: AuthOptions) => Promise<unknown>
+  purge: (
+    ids: string[] | undefined,
+    auth: AuthOptions,
+  ) => Promise<{ purgedCount: number }>
+}
+
+export default function TrashPage() {
+  return (
+    <section className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Trash</CardTitle>
+          <CardDescription>
+            Deleted deals and transactions stay here until you restore or purge
+            them. Old items are purged automatically.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Tabs defaultValue="deals" className="space-y-4">
+            <TabsList>
+              <TabsTrigger value="deals">Deals</TabsTrigger>
+              <TabsTrigger value="transactions">Transactions</TabsTrigger>
+            </TabsList>
+            <TabsContent value="deals">
+              <TrashPanel
+                noun="deals"
+                queryKey={['dealsTrash']}
+                restoredKeys={[['deals'], ['dealsStats']]}
+                fetchPage={async (page, auth) => {
+                  const result = await fetchDealsTrash(page, PAGE_SIZE, auth)
+                  return {
+                    total: result.total,
+                    items: result.items.map((deal) => ({
+                      id: deal.id,
+                      title: `${deal.symbol} ${deal.direction}`,
+                      detail: `${deal.status} • ${formatQtyDisplay(
+                        deal.entry?.qty,
+                      )} @ ${formatPriceDisplay(deal.entry?.price)}`,
+                      deletedAt: deal.deletedAt,
+                    })),
+                  }
+                }}
+                restore={restoreDeals}
+                purge={purgeDeals}
+              />
+            </TabsContent>
+            <TabsContent value="transactions">
+              <TrashPanel
+                noun="transactions"
+                queryKey={['transactionsTrash']}
+                restoredKeys={[['transactions'], ['portfolioHoldings']]}
+                fetchPage={async (page, auth) => {
+                  const result = await listTransactionsTrash(
+                    { page, limit: PAGE_SIZE },
+                    auth,
+                  )
+                  return {
+                    total: result.total,
+                    items: result.items.map((transaction) => ({
+                      id: transaction.id,
+                      title: `${transaction.type} ${transaction.symbol}`,
+                      detail: `${formatQtyDisplay(transaction.quantity)} @ ${formatPriceDisplay(
+                        transaction.price,
+                      )} • ${new Date(transaction.occurredAt).toLocaleDateString()}`,
+                      deletedAt: transaction.deletedAt,
+                    })),
+                  }
+                }}
+                restore={restoreTransactions}
+                purge={purgeTransactions}
+              />
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+    </section>
+  )
+}
+
+function TrashPanel({
+  noun,
+  queryKey,
+  restoredKeys,
+  fetchPage,
+  restore,
+  purge,
+}: TrashPanelProps) {
+  const { accessToken, refresh } = useAuth()
+  const queryClient = useQueryClient()
+  const [page, setPage] = useState(1)
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  // Ids to purge, or 'all' to empty the trash; the dialog is open when set.
+  const [purgeTarget, setPurgeTarget] = useState<string[] | 'all' | null>(null)
+  const auth = { accessToken, onUnauthorized: refresh }
+
+  const trashQuery = useQuery({
+    queryKey: [...queryKey, page],
+    queryFn: () => fetchPage(page, auth),
+  })
+
+  const onDone = () => {
+    queryClient.invalidateQueries({ queryKey })
+    setSelectedIds(new Set())
+  }
+
+  const restoreMutation = useMutation({
+    mutationFn: (ids: string[]) => restore(ids, auth),
+    onSuccess: () => {
+      onDone()
+      for (const key of restoredKeys) {
+        queryClient.invalidateQueries({ queryKey: key })
+      }
+      toastSuccess('Restored')
+    },
+    onError: (error) => {
+      toastError(error instanceof Error ? error.message : 'Restore failed')
+    },
+  })
+
+  const purgeMutation = useMutation({
+    mutationFn: (target: string[] | 'all') =>
+      purge(target === 'all' ? undefined : target, auth),
+    onSuccess: (result) => {
+      onDone()
+      setPurgeTarget(null)
+      setPage(1)
+      toastSuccess(`Deleted permanently: ${result.purgedCount}`)
+    },
+    onError: (error) => {
+      toastError(error instanceof Error ? error.message : 'Purge failed')
+    },
+  })
+
+  const items = trashQuery.data?.items ?? []
+  const total = trashQuery.data?.total ?? 0
+  const totalPages = Math.max(Math.ceil(total / PAGE_SIZE), 1)
+  const selected = Array.from(selectedIds)
+  const allSelected =
+    items.length > 0 && items.every((item) => selectedIds.has(item.id))
+  const busy = restoreMutation.isPending || purgeMutation.isPending
+
+  if (trashQuery.isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading trash...</p>
+  }
+  if (trashQuery.error instanceof Error) {
+    return (
+      <p className="text-sm text-destructive">{trashQuery.error.message}</p>
+    )
+  }
+  if (total === 0) {
+    return <EmptyState title={`No ${noun} in the trash`} />
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={selected.length === 0 || busy}
+          onClick={() => restoreMutation.mutate(selected)}
+        >
+          Restore selected ({selected.length})
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={selected.length === 0 || busy}
+          onClick={() => setPurgeTarget(selected)}
+        >
+          Delete permanently
+        </Button>
+        <Button
+          size="sm"
+          variant="destructive"
+          disabled={busy}
+          onClick={() => setPurgeTarget('all')}
+        >
+          Empty trash
+        </Button>
+      </div>
+
+      <div className="rounded-md border border-border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-10">
+                <Checkbox
+                  aria-label={`Select all ${noun} on the page`}
+                  checked={allSelected}
+                  onCheckedChange={(value: CheckedState) =>
+                    setSelectedIds(
+                      value === true
+                        ? new Set(items.map((item) => item.id))
+                        : new Set(),
+                    )
+                  }
+                />
+              </TableHead>
+              <TableHead>Item</TableHead>
+              <TableHead>Details</TableHead>
+              <TableHead>Deleted</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {items.map((item) => (
+              <TableRow key={item.id}>
+                <TableCell>
+                  <Checkbox
+                    aria-label={`Select ${item.title}`}
+                    checked={selectedIds.has(item.id)}
+                    onCheckedChange={(value: CheckedState) =>
+                      setSelectedIds((prev) => {
+                        const next = new Set(prev)
+                        if (value === true) {
+                          next.add(item.id)
+                        } else {
+                          next.delete(item.id)
+                        }
+                        return next
+                      })
+                    }
+                  />
+                </TableCell>
+                <TableCell className="font-medium">{item.title}</TableCell>
+                <TableCell className="text-muted-foreground">
+                  {item.detail}
+                </TableCell>
+                <TableCell className="whitespace-nowrap">
+                  {item.deletedAt
+                    ? new Date(item.deletedAt).toLocaleString()
+                    : '—'}
+                </TableCell>
+                <TableCell className="text-right">
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={busy}
+                    onClick={() => restoreMutation.mutate([item.id])}
+                  >
+                    Restore
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+        <p className="text-sm text-muted-foreground">
+          Page {page} of {totalPages} • {total} total
+        </p>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage((prev) => Math.max(prev - 1, 1))}
+            disabled={page <= 1}
+          >
+            Previous
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage((prev) => Math.min(prev + 1, totalPages))}
+            disabled={page >= totalPages}
+          >
+            Next
+          </Button>
+        </div>
+      </div>
+
+      <AlertDialog
+        open={purgeTarget !== null}
+        onOpenChange={(open) => (!open ? setPurgeTarget(null) : null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {purgeTarget === 'all'
+                ? 'Empty the trash?'
+                : `Delete ${purgeTarget?.length ?? 0} ${noun} permanently?`}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={purgeMutation.isPending}>
+              Cancel
+            </AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (purgeTarget) purgeMutation.mutate(purgeTarget)
+              }}
+              disabled={purgeMutation.isPending}
+            >
+              {purgeMutation.isPending ? 'Deleting...' : 'Delete'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
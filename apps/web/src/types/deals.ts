@@ -1,5 +1,8 @@
+import type { ExchangeEnvironment, ExchangeId } from '@/lib/exchanges'
+
 export type DealDirection = 'LONG' | 'SHORT'
-export type DealStatus = 'OPEN' | 'CLOSED'
+export type DealStatus = 'PENDING' | 'OPEN' | 'CLOSED'
+export type DealOrderType = 'MARKET' | 'LIMIT'
 
 export type DealLeg = {
   qty: string
@@ -7,11 +10,12 @@ export type DealLeg = {
   quote: string
   fee?: string
   feeAsset?: string
+  feeInQuote?: string
 }
 
 export type DealEntryLeg = DealLeg & {
   openedAt: string
-  source?: 'MANUAL' | 'BINANCE'
+  source?: 'MANUAL' | ExchangeId
   orderId?: number
 }
 
@@ -25,7 +29,7 @@ export type DealProfitOp = {
 
 export type DealExitLeg = DealLeg & {
   closedAt: string
-  source?: 'MANUAL' | 'BINANCE'
+  source?: 'MANUAL' | ExchangeId
   orderId?: number
 }
 
@@ -53,13 +57,38 @@ export type ImportTradesResponse = {
     quote: string
     fee?: string
     feeAsset?: string
+    feeInQuote?: string
   }
   preview: TradeFill[]
 }
 
+export type DealPendingOrder = {
+  orderId: number
+  clientOrderId: string
+  phase: 'ENTRY' | 'EXIT'
+  side: 'BUY' | 'SELL'
+  price: string
+  origQty: string
+  executedQty: string
+  status: string
+  placedAt: string
+  expiresAt: string
+}
+
+export type DealTakeProfit = {
+  price: string
+  percent: string
+  hitAt?: string
+  hitPrice?: string
+}
+
 export type Deal = {
   id: string
   _id?: string
+  exchange: ExchangeId
+  // Credential profile the deal trades with; the default one when missing.
+  credentialProfileId?: string
+  environment: ExchangeEnvironment
   symbol: string
   direction: DealDirection
   status: DealStatus
@@ -78,28 +107,44 @@ export type Deal = {
   profitSpentTotal?: string
   realizedPnlAvailable?: string
   realizedPnl?: string
+  markPrice?: string
+  unrealizedPnl?: string
+  stopLoss?: string
+  stopLossHitAt?: string
+  stopLossHitPrice?: string
+  takeProfits?: DealTakeProfit[]
+  riskAmount?: string
+  rMultiple?: string
+  pendingOrder?: DealPendingOrder
   note?: string
+  // Set while the deal sits in the trash.
+  deletedAt?: string
   createdAt?: string
   updatedAt?: string
 }
 
-export type BinanceOrderInfo = {
+export type DealOrderInfo = {
+  exchange: ExchangeId
   orderId: number
+  clientOrderId?: string
   side: 'BUY' | 'SELL'
-  type: 'MARKET'
+  type: DealOrderType
+  status?: string
 }
 
 export type DealWithOrderResponse = {
   deal: Deal
-  binance: BinanceOrderInfo
+  order: DealOrderInfo
   importedCount: number
+  // null while a LIMIT order has no fills yet
   aggregate: {
     qty: string
     price: string
     quote: string
     fee?: string
     feeAsset?: string
-  }
+    feeInQuote?: string
+  } | null
 }
 
 export type DealsListResponse = {
@@ -115,8 +160,131 @@ export type DealsStatsResponse = {
   winRate: number
   avgPnL: string
   feesTotal: string
+  // Closed deals with a fee that could not be converted to the quote asset.
+  feeConversionFailedCount: number
   openCount: number
   totalRealizedPnl: string
   totalProfitSpent: string
   profitAvailable: string
+  groupBy?: DealsStatsGroupBy
+  groups?: DealsStatsGroup[]
+}
+
+export type DealsStatsGroupBy = 'symbol' | 'direction' | 'month'
+
+export type DealsStatsGroup = {
+  key: string
+  totalPnL: string
+  tradesCount: number
+  winRate: number
+  avgPnL: string
+  feesTotal: string
+  feeConversionFailedCount: number
+  avgHoldingMs: number | null
+}
+
+export type UnrealizedPnlItem = {
+  dealId: string
+  exchange: ExchangeId
+  environment: ExchangeEnvironment
+  symbol: string
+  direction: DealDirection
+  remainingQty: string
+  entryAvgPrice: string
+  markPrice: string | null
+  unrealizedPnl: string | null
+}
+
+export type UnrealizedPnlResponse = {
+  items: UnrealizedPnlItem[]
+  totalUnrealizedPnl: string
+  unpricedSymbols: string[]
+  pricedAt: string
+}
+
+export type DealsTimeseriesInterval = 'day' | 'week' | 'month'
+
+export type DealsTimeseriesPoint = {
+  period: string
+  start: string
+  pnl: string
+  cumulativePnl: string
+  drawdown: string
+  fees: string
+  exitsCount: number
+}
+
+export type DealsTimeseriesResponse = {
+  interval: DealsTimeseriesInterval
+  series: DealsTimeseriesPoint[]
+  summary: {
+    totalPnl: string
+    peakPnl: string
+    maxDrawdown: string
+    grossProfit: string
+    grossLoss: string
+    profitFactor: string | null
+    longestWinStreak: number
+    longestLossStreak: number
+    dealsCount: number
+  }
+}
+
+export type TradeHistoryPreviewDeal = {
+  symbol: string
+  direction: DealDirection
+  status: DealStatus
+  openedAt: string
+  closedAt?: string
+  entryQty: string
+  entryAvgPrice: string
+  exitQty: string
+  exitAvgPrice?: string
+  remainingQty: string
+  tradesCount: number
+  grossPnl: string
+}
+
+export type TradeHistoryPreviewResponse = {
+  fileName: string
+  tradesCount: number
+  duplicateCount: number
+  skippedRows: Array<{ row: number; reason: string }>
+  deals: TradeHistoryPreviewDeal[]
+}
+
+export type TradeHistoryCommitResponse = {
+  createdCount: number
+  tradesCount: number
+  duplicateCount: number
+  skippedCount: number
+  dealIds: string[]
+}
+
+export type DealsSyncStrategy = 'FIFO' | 'LIFO' | 'AVERAGE'
+
+export type DealsSyncSymbolResult = {
+  symbol: string
+  fetchedCount: number
+  importedCount: number
+  openedCount: number
+  extendedCount: number
+  exitLegsCount: number
+  lastTradeId: number | null
+  hasMore: boolean
+  lastSyncedAt: string
+}
+
+export type DealsSyncResponse = {
+  credentialProfileId: string
+  strategy: DealsSyncStrategy
+  symbols: DealsSyncSymbolResult[]
+}
+
+export type DealsSyncCursor = {
+  credentialProfileId?: string
+  symbol: string
+  lastTradeId: number
+  strategy: DealsSyncStrategy
+  lastSyncedAt: string
 }
@@ -1,5 +1,7 @@
 import { z } from 'zod'
 
+import { EXCHANGE_ENVIRONMENTS, EXCHANGE_IDS } from '@/lib/exchanges'
+
 const emptyToUndefined = (value: unknown) =>
   value === '' || value === null ? undefined : value
 
@@ -49,22 +51,98 @@ const exitSchema = z.object({
   feeAsset: z.preprocess(emptyToUndefined, z.string().trim().min(1).optional()),
 })
 
-export const createDealSchema = z.object({
-  symbol: symbolSchema,
-  direction: z.enum(['LONG', 'SHORT']),
-  openedAt: dateStringSchema,
-  entry: entrySchema,
-  note: z.preprocess(emptyToUndefined, z.string().trim().max(500).optional()),
+const takeProfitSchema = z.object({
+  price: positiveDecimalStringSchema,
+  percent: positiveDecimalStringSchema.refine(
+    (value) => Number(value) <= 100,
+    'Percent must be at most 100',
+  ),
 })
 
-export const editDealSchema = z.object({
-  symbol: symbolSchema,
-  direction: z.enum(['LONG', 'SHORT']),
-  openedAt: dateStringSchema,
-  entry: entrySchema,
-  note: z.preprocess(emptyToUndefined, z.string().trim().max(500).optional()),
+const riskSchema = z.object({
+  stopLoss: z.preprocess(
+    emptyToUndefined,
+    positiveDecimalStringSchema.optional(),
+  ),
+  takeProfits: z.array(takeProfitSchema).max(10),
+  riskAmount: z.preprocess(
+    emptyToUndefined,
+    positiveDecimalStringSchema.optional(),
+  ),
 })
 
+const refineRiskLevels = (
+  values: {
+    direction: 'LONG' | 'SHORT'
+    entry: { price: string }
+  } & z.infer<typeof riskSchema>,
+  ctx: z.RefinementCtx,
+) => {
+  const entryPrice = Number(values.entry.price)
+  if (!(entryPrice > 0)) return
+  const isLong = values.direction === 'LONG'
+
+  if (values.stopLoss) {
+    const stop = Number(values.stopLoss)
+    if (isLong ? stop >= entryPrice : stop <= entryPrice) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Stop loss must be ${isLong ? 'below' : 'above'} the entry price`,
+        path: ['stopLoss'],
+      })
+    }
+  }
+
+  let percentTotal = 0
+  values.takeProfits.forEach((target, index) => {
+    const price = Number(target.price)
+    if (isLong ? price <= entryPrice : price >= entryPrice) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Take profit must be ${isLong ? 'above' : 'below'} the entry price`,
+        path: ['takeProfits', index, 'price'],
+      })
+    }
+    percentTotal += Number(target.percent)
+  })
+  if (percentTotal > 100) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'Take profit percentages must add up to at most 100',
+      path: ['takeProfits', 'root'],
+    })
+  }
+}
+
+export const createDealSchema = z
+  .object({
+    exchange: z.enum(EXCHANGE_IDS),
+    credentialProfileId: z.string().optional(),
+    environment: z.enum(EXCHANGE_ENVIRONMENTS),
+    symbol: symbolSchema,
+    direction: z.enum(['LONG', 'SHORT']),
+    openedAt: dateStringSchema,
+    entry: entrySchema,
+    note: z.preprocess(emptyToUndefined, z.string().trim().max(500).optional()),
+  })
+  .merge(riskSchema)
+  .superRefine(refineRiskLevels)
+
+// The exchange and environment are fixed once a deal exists; they are only
+// kept for the shared form shape.
+export const editDealSchema = z
+  .object({
+    exchange: z.enum(EXCHANGE_IDS),
+    environment: z.enum(EXCHANGE_ENVIRONMENTS),
+    symbol: symbolSchema,
+    direction: z.enum(['LONG', 'SHORT']),
+    openedAt: dateStringSchema,
+    entry: entrySchema,
+    note: z.preprocess(emptyToUndefined, z.string().trim().max(500).optional()),
+  })
+  .merge(riskSchema)
+  .superRefine(refineRiskLevels)
+
 export const closeDealSchema = z.object({
   closedAt: dateStringSchema,
   exit: exitSchema,
@@ -89,10 +167,38 @@ export const profitToPositionSchema = z.object({
   note: z.preprocess(emptyToUndefined, z.string().trim().max(200).optional()),
 })
 
+// LIMIT orders are always sized in base at a fixed price.
+function addLimitOrderIssues(
+  values: { price?: string; quantity?: string },
+  ctx: z.RefinementCtx,
+) {
+  if (!values.price) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'Limit price is required',
+      path: ['price'],
+    })
+  }
+  if (!values.quantity) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'Quantity is required',
+      path: ['quantity'],
+    })
+  }
+}
+
 export const openWithOrderSchema = z
   .object({
+    exchange: z.enum(EXCHANGE_IDS),
+    credentialProfileId: z.string().optional(),
     symbol: symbolSchema,
     direction: z.enum(['LONG', 'SHORT']),
+    orderType: z.enum(['MARKET', 'LIMIT']),
+    price: z.preprocess(
+      emptyToUndefined,
+      positiveDecimalStringSchema.optional(),
+    ),
     marketBuyMode: z.enum(['QUOTE', 'BASE']).optional(),
     quoteOrderQty: z.preprocess(
       emptyToUndefined,
@@ -105,6 +211,10 @@ export const openWithOrderSchema = z
     note: z.preprocess(emptyToUndefined, z.string().trim().max(500).optional()),
   })
   .superRefine((values, ctx) => {
+    if (values.orderType === 'LIMIT') {
+      addLimitOrderIssues(values, ctx)
+      return
+    }
     const isBuy = values.direction === 'LONG'
     if (isBuy) {
       if (values.marketBuyMode === 'QUOTE') {
@@ -139,6 +249,11 @@ export const openWithOrderSchema = z
 export const closeWithOrderSchema = z
   .object({
     closeSide: z.enum(['BUY', 'SELL']),
+    orderType: z.enum(['MARKET', 'LIMIT']),
+    price: z.preprocess(
+      emptyToUndefined,
+      positiveDecimalStringSchema.optional(),
+    ),
     marketBuyMode: z.enum(['QUOTE', 'BASE']).optional(),
     quoteOrderQty: z.preprocess(
       emptyToUndefined,
@@ -151,6 +266,10 @@ export const closeWithOrderSchema = z
     note: z.preprocess(emptyToUndefined, z.string().trim().max(500).optional()),
   })
   .superRefine((values, ctx) => {
+    if (values.orderType === 'LIMIT') {
+      addLimitOrderIssues(values, ctx)
+      return
+    }
     if (values.closeSide === 'SELL') {
       if (!values.quantity) {
         ctx.addIssue({